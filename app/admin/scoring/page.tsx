@@ -0,0 +1,648 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+} from "recharts";
+import { SaInput } from "@/components/SaInput";
+import {
+  METRIC_KEYS,
+  METRICS,
+  metricBand,
+  scoreMetric,
+  type BandSpec,
+  type MetricKey,
+} from "@/lib/metrics";
+import {
+  allProfiles,
+  currentProfileId,
+  getProfile,
+  profileBands,
+  profileLabel,
+} from "@/lib/scoring/profiles";
+import {
+  sampleCurve,
+  validateBandSpec,
+  type CurveIssue,
+} from "@/lib/scoring/curves";
+import {
+  loadPublishedProfiles,
+  publishProfile,
+} from "@/lib/scoring/profileStore";
+
+/* ============================================================
+   Scoring curve editor
+   ============================================================ */
+
+type Side = "high" | "low";
+
+function nextVersion(version: string): string {
+  const parts = version.split(".");
+  const last = Number(parts[parts.length - 1]);
+  parts[parts.length - 1] = Number.isFinite(last) ? String(last + 1) : "1";
+  return parts.join(".");
+}
+
+export default function ScoringCurves() {
+  const [loading, setLoading] = useState(true);
+  const [toast, setToast] = useState<string | null>(null);
+
+  const [baseId, setBaseId] = useState(currentProfileId());
+  const [metric, setMetric] = useState<MetricKey>("CO2");
+  const [drafts, setDrafts] = useState<Partial<Record<MetricKey, BandSpec>>>(
+    {}
+  );
+  const [testValue, setTestValue] = useState("");
+
+  const [version, setVersion] = useState("");
+  const [makeCurrent, setMakeCurrent] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+
+  function showToast(msg: string) {
+    setToast(msg);
+    setTimeout(() => setToast(null), 2200);
+  }
+
+  useEffect(() => {
+    (async () => {
+      await loadPublishedProfiles();
+      setBaseId(currentProfileId());
+      setLoading(false);
+    })();
+  }, []);
+
+  const base = getProfile(baseId);
+  const def = METRICS[metric];
+  const baseSpec = profileBands(base, metric);
+  const spec = drafts[metric] ?? baseSpec;
+
+  useEffect(() => {
+    setVersion(nextVersion(base.version));
+  }, [base.version]);
+
+  const issues = useMemo(() => validateBandSpec(metric, spec), [metric, spec]);
+
+  const draftIssues = useMemo(
+    () =>
+      (Object.entries(drafts) as [MetricKey, BandSpec][]).flatMap(([k, s]) =>
+        validateBandSpec(k, s).map((i) => ({ ...i, metric: k }))
+      ),
+    [drafts]
+  );
+
+  const chartData = useMemo(
+    () => sampleCurve(metric, [baseSpec, spec]),
+    [metric, baseSpec, spec]
+  );
+
+  const test = parseFloat(testValue);
+  const hasTest = Number.isFinite(test);
+
+  function issueFor(side: Side, index: number): CurveIssue | undefined {
+    return issues.find((i) => i.side === side && i.index === index);
+  }
+
+  /* ============================================================
+     Editing
+     ============================================================ */
+
+  // An edited curve no longer matches the guideline it was copied
+  // from; without a source it is cited as the new profile's own
+  function updateSpec(next: BandSpec) {
+    setDrafts((prev) => ({ ...prev, [metric]: { ...next, source: undefined } }));
+  }
+
+  // Blank edge = open-ended (∞ / −∞)
+  function parseEdge(raw: string, side: Side): number {
+    if (raw.trim() === "") return side === "high" ? Infinity : -Infinity;
+    return parseFloat(raw);
+  }
+
+  function updateBand(
+    side: Side,
+    index: number,
+    patch: { edge?: string; score?: string; label?: string }
+  ) {
+    if (side === "high") {
+      updateSpec({
+        ...spec,
+        bands: spec.bands.map((b, i) =>
+          i !== index
+            ? b
+            : {
+                max: patch.edge !== undefined ? parseEdge(patch.edge, side) : b.max,
+                score: patch.score !== undefined ? parseFloat(patch.score) : b.score,
+                label: patch.label ?? b.label,
+              }
+        ),
+      });
+    } else if (spec.low) {
+      updateSpec({
+        ...spec,
+        low: {
+          ...spec.low,
+          bands: spec.low.bands.map((b, i) =>
+            i !== index
+              ? b
+              : {
+                  min: patch.edge !== undefined ? parseEdge(patch.edge, side) : b.min,
+                  score: patch.score !== undefined ? parseFloat(patch.score) : b.score,
+                  label: patch.label ?? b.label,
+                }
+          ),
+        },
+      });
+    }
+  }
+
+  function addBand(side: Side) {
+    if (side === "high") {
+      const last = spec.bands[spec.bands.length - 1];
+      updateSpec({
+        ...spec,
+        bands: [...spec.bands, { max: Infinity, score: last?.score ?? 0, label: "" }],
+      });
+    } else {
+      const bands = spec.low?.bands ?? [];
+      const last = bands[bands.length - 1];
+      updateSpec({
+        ...spec,
+        low: {
+          curve: spec.low?.curve ?? "step",
+          bands: [...bands, { min: -Infinity, score: last?.score ?? 0, label: "" }],
+        },
+      });
+    }
+  }
+
+  function removeBand(side: Side, index: number) {
+    if (side === "high") {
+      updateSpec({ ...spec, bands: spec.bands.filter((_, i) => i !== index) });
+    } else if (spec.low) {
+      const bands = spec.low.bands.filter((_, i) => i !== index);
+      updateSpec({
+        ...spec,
+        low: bands.length ? { ...spec.low, bands } : undefined,
+      });
+    }
+  }
+
+  function setCurve(side: Side, curve: BandSpec["curve"]) {
+    if (side === "high") updateSpec({ ...spec, curve });
+    else if (spec.low) updateSpec({ ...spec, low: { ...spec.low, curve } });
+  }
+
+  function resetMetric(key: MetricKey) {
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  }
+
+  /* ============================================================
+     Publish
+     ============================================================ */
+
+  const newId = `saso-${version}`;
+  const idTaken = allProfiles().some((p) => p.id === newId);
+  const canPublish =
+    Object.keys(drafts).length > 0 &&
+    draftIssues.length === 0 &&
+    version.trim() !== "" &&
+    !idTaken;
+
+  async function handlePublish() {
+    if (!canPublish) return;
+    setPublishing(true);
+
+    const result = await publishProfile(
+      {
+        ...base,
+        id: newId,
+        version,
+        publishedAt: new Date().toISOString().slice(0, 10),
+        bands: { ...base.bands, ...drafts },
+      },
+      makeCurrent
+    );
+
+    setPublishing(false);
+
+    if (!result.ok) {
+      alert(`Could not publish: ${result.error}`);
+      return;
+    }
+
+    if (result.warning) alert(result.warning);
+    showToast(`Published ${base.name} v${version}.`);
+    setDrafts({});
+    setBaseId(makeCurrent ? newId : baseId);
+  }
+
+  /* ============================================================
+     Render
+     ============================================================ */
+
+  const renderSide = (side: Side) => {
+    const rows =
+      side === "high"
+        ? spec.bands.map((b) => ({ edge: b.max, score: b.score, label: b.label }))
+        : (spec.low?.bands ?? []).map((b) => ({
+            edge: b.min,
+            score: b.score,
+            label: b.label,
+          }));
+    const curve = side === "high" ? spec.curve : spec.low?.curve ?? "step";
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="text-[11px] font-semibold uppercase tracking-[0.14em] text-slate-500">
+            {side === "high" ? "Upper side (≤ edge)" : "Lower side (≥ edge)"}
+          </div>
+          <select
+            value={curve}
+            onChange={(e) => setCurve(side, e.target.value as BandSpec["curve"])}
+            className="border border-slate-300 bg-white px-2 py-1 rounded-md text-[11px]"
+          >
+            <option value="linear">Piecewise linear</option>
+            <option value="step">Step</option>
+          </select>
+        </div>
+
+        <table className="min-w-full text-xs border-collapse">
+          <thead className="bg-slate-50 text-slate-500 text-[11px]">
+            <tr>
+              <th className="px-2 py-1 border-b border-slate-200 text-left">
+                Edge ({def.unit || "value"})
+              </th>
+              <th className="px-2 py-1 border-b border-slate-200 text-left">Score</th>
+              <th className="px-2 py-1 border-b border-slate-200 text-left">Label</th>
+              <th className="px-2 py-1 border-b border-slate-200" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, i) => {
+              const issue = issueFor(side, i);
+              return (
+                <tr key={i} className={issue ? "bg-rose-50/60" : "bg-white"}>
+                  <td className="px-2 py-1 border-b border-slate-100">
+                    <input
+                      type="number"
+                      value={Number.isFinite(r.edge) ? r.edge : ""}
+                      placeholder={side === "high" ? "∞" : "−∞"}
+                      onChange={(e) => updateBand(side, i, { edge: e.target.value })}
+                      className="w-24 border border-slate-300 px-2 py-1 rounded-md"
+                    />
+                  </td>
+                  <td className="px-2 py-1 border-b border-slate-100">
+                    <input
+                      type="number"
+                      value={Number.isFinite(r.score) ? r.score : ""}
+                      onChange={(e) => updateBand(side, i, { score: e.target.value })}
+                      className="w-16 border border-slate-300 px-2 py-1 rounded-md"
+                    />
+                  </td>
+                  <td className="px-2 py-1 border-b border-slate-100">
+                    <input
+                      value={r.label}
+                      onChange={(e) => updateBand(side, i, { label: e.target.value })}
+                      className="w-full border border-slate-300 px-2 py-1 rounded-md"
+                    />
+                    {issue && (
+                      <div className="mt-0.5 text-[10px] text-rose-600">
+                        {issue.message}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 border-b border-slate-100 text-right">
+                    <button
+                      type="button"
+                      onClick={() => removeBand(side, i)}
+                      className="text-slate-400 hover:text-rose-600 text-xs"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <button
+          type="button"
+          onClick={() => addBand(side)}
+          className="text-[11px] font-medium text-blue-600 hover:text-blue-700"
+        >
+          + Add band
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      {/* HEADER */}
+      <header className="sticky top-0 z-30 border-b border-slate-200 bg-white/80 backdrop-blur">
+        <div className="mx-auto max-w-6xl px-4 py-3 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="h-9 w-9 flex items-center justify-center bg-slate-900 text-white text-xs font-bold rounded-xl">
+              Sa
+            </div>
+            <div>
+              <div className="text-xs tracking-[0.18em] font-semibold text-slate-500 uppercase">
+                Sanctuary Solutions
+              </div>
+              <div className="text-[13px] font-medium text-slate-800">
+                Scoring Admin
+              </div>
+            </div>
+          </div>
+
+          <nav className="hidden md:flex text-xs gap-4 text-slate-500">
+            <Link href="/technician" className="hover:text-slate-900">
+              Dashboard
+            </Link>
+            <span className="font-semibold text-slate-900">Scoring Curves</span>
+            <Link href="/report" className="hover:text-slate-900">
+              Client Report
+            </Link>
+          </nav>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-6xl px-4 py-8">
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <div className="text-xs font-semibold tracking-[0.18em] uppercase text-slate-500">
+              Scoring Profiles
+            </div>
+            <h1 className="text-2xl font-semibold mt-1">Scoring curves</h1>
+            <p className="text-sm text-slate-500">
+              Edit band curves on top of a published profile, then publish the
+              result as a new version. Existing reports keep their profile.
+            </p>
+          </div>
+
+          <div className="flex gap-2 text-xs">
+            <select
+              value={baseId}
+              onChange={(e) => setBaseId(e.target.value)}
+              disabled={loading}
+              className="border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm"
+            >
+              {allProfiles().map((p) => (
+                <option key={p.id} value={p.id}>
+                  Base: {profileLabel(p)}
+                  {p.id === currentProfileId() ? " (current)" : ""}
+                </option>
+              ))}
+            </select>
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as MetricKey)}
+              className="border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm"
+            >
+              {METRIC_KEYS.map((k) => (
+                <option key={k} value={k}>
+                  {METRICS[k].label}
+                  {drafts[k] ? " •" : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[1.8fr_2fr]">
+          {/* LEFT COLUMN — BANDS ====================================== */}
+          <div className="space-y-6">
+            <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+              <div className="mb-4 flex justify-between items-start">
+                <div>
+                  <div className="text-xs font-semibold tracking-[0.18em] uppercase text-slate-500">
+                    Bands
+                  </div>
+                  <h2 className="text-sm font-semibold text-slate-900 mt-1">
+                    {def.label}
+                  </h2>
+                  <p className="text-[11px] text-slate-500 mt-1">
+                    Best band first. Plausible range {def.range.min}–
+                    {def.range.max} {def.unit}; the last band on each side is
+                    open-ended.
+                  </p>
+                </div>
+                {drafts[metric] && (
+                  <button
+                    type="button"
+                    onClick={() => resetMetric(metric)}
+                    className="text-[11px] text-slate-500 hover:text-slate-800"
+                  >
+                    Reset
+                  </button>
+                )}
+              </div>
+
+              <div className="space-y-5">
+                {renderSide("high")}
+                {spec.low ? (
+                  renderSide("low")
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => addBand("low")}
+                    className="text-[11px] font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    + Add a lower side (two-sided ideal window)
+                  </button>
+                )}
+                {issues
+                  .filter((i) => i.index === null)
+                  .map((i) => (
+                    <p key={`${i.side}-${i.message}`} className="text-[11px] text-rose-600">
+                      {i.side === "high" ? "Upper" : "Lower"} side: {i.message}
+                    </p>
+                  ))}
+              </div>
+            </div>
+
+            {/* Publish */}
+            <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+              <div className="mb-4">
+                <div className="text-xs font-semibold tracking-[0.18em] uppercase text-slate-500">
+                  Publish
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                  {Object.keys(drafts).length === 0
+                    ? "No curves edited yet."
+                    : `Edited: ${Object.keys(drafts)
+                        .map((k) => METRICS[k as MetricKey].label)
+                        .join(", ")}`}
+                </p>
+              </div>
+
+              <div className="grid gap-3">
+                <div>
+                  <label className="text-xs font-medium text-slate-700 block mb-1">
+                    New version of {base.name}
+                  </label>
+                  <SaInput demo="" value={version} onChange={setVersion} />
+                  {idTaken && (
+                    <p className="mt-1 text-[11px] text-rose-600">
+                      {newId} already exists.
+                    </p>
+                  )}
+                </div>
+
+                <label className="inline-flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={makeCurrent}
+                    onChange={(e) => setMakeCurrent(e.target.checked)}
+                    className="h-3 w-3 rounded border-slate-300 text-blue-600"
+                  />
+                  <span>Use for new reports</span>
+                </label>
+
+                {draftIssues.length > 0 && (
+                  <p className="text-[11px] text-rose-600">
+                    Fix {draftIssues.length} curve issue
+                    {draftIssues.length === 1 ? "" : "s"} before publishing (
+                    {[...new Set(draftIssues.map((i) => METRICS[i.metric].label))].join(", ")}
+                    ).
+                  </p>
+                )}
+
+                <div>
+                  <button
+                    type="button"
+                    onClick={handlePublish}
+                    disabled={!canPublish || publishing}
+                    className="bg-blue-600 text-white px-4 py-2 text-xs rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {publishing ? "Publishing…" : "Publish profile"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* RIGHT COLUMN — PREVIEW =================================== */}
+          <div className="space-y-6">
+            <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+              <div className="mb-4">
+                <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
+                  Preview
+                </div>
+                <h2 className="text-sm font-semibold text-slate-900 mt-1">
+                  Score vs. reading
+                </h2>
+              </div>
+
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis
+                      dataKey="x"
+                      type="number"
+                      domain={["dataMin", "dataMax"]}
+                      tick={{ fontSize: 11 }}
+                      tickFormatter={(v: number) => String(Number(v.toPrecision(3)))}
+                    />
+                    <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} />
+                    <Tooltip
+                      formatter={(v: number, name: string) => [
+                        Math.round(v),
+                        name === "s0" ? profileLabel(base) : "Draft",
+                      ]}
+                      labelFormatter={(x: number) =>
+                        `${Number(x.toPrecision(4))} ${def.unit}`
+                      }
+                    />
+                    <Line
+                      type="linear"
+                      dataKey="s0"
+                      stroke="#94a3b8"
+                      strokeDasharray="4 4"
+                      dot={false}
+                    />
+                    <Line
+                      type="linear"
+                      dataKey="s1"
+                      stroke="#2563eb"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                    {hasTest && (
+                      <ReferenceLine x={test} stroke="#f59e0b" strokeDasharray="3 3" />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="mt-2 text-[11px] text-slate-500">
+                Dashed: {profileLabel(base)} · Solid: draft
+              </p>
+            </div>
+
+            {/* Test calculator */}
+            <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+              <div className="mb-4">
+                <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
+                  Test Calculator
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 mb-4">
+                <SaInput
+                  demo={`Reading in ${def.unit || "units"}`}
+                  type="number"
+                  value={testValue}
+                  onChange={setTestValue}
+                  className="flex-1"
+                />
+              </div>
+
+              {hasTest && (
+                <div className="grid grid-cols-2 gap-3 text-xs">
+                  {[
+                    { title: profileLabel(base), s: baseSpec },
+                    { title: "Draft", s: spec },
+                  ].map(({ title, s }) => (
+                    <div
+                      key={title}
+                      className="rounded-xl border border-slate-200 bg-white px-3 py-2"
+                    >
+                      <div className="text-[11px] text-slate-500">{title}</div>
+                      <div className="text-lg font-semibold text-slate-900">
+                        {Math.round(scoreMetric(metric, test, s))}
+                      </div>
+                      <div className="text-[11px] text-slate-600">
+                        {metricBand(metric, test, s).label || "—"}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+
+      {toast && (
+        <div className="fixed top-4 right-4 bg-slate-900 text-white text-xs px-4 py-2 rounded-lg shadow-lg">
+          {toast}
+        </div>
+      )}
+    </div>
+  );
+}
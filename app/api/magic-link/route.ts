@@ -2,10 +2,14 @@
 import { NextResponse } from "next/server";
 import { supabase } from "@/lib/supabaseClient";
 import { randomUUID } from "crypto";
+import { currentProfileId, findProfile } from "@/lib/scoring/profiles";
+import { loadPublishedProfiles } from "@/lib/scoring/profileStore";
+import { resolveLocale } from "@/lib/i18n";
+import { getStandard } from "@/lib/scoring/standards";
 
 export async function POST(request: Request) {
   try {
-    const { property_id } = await request.json();
+    const { property_id, profile_id, scores } = await request.json();
 
     if (!property_id) {
       return NextResponse.json(
@@ -14,6 +18,26 @@ export async function POST(request: Request) {
       );
     }
 
+    // Pin the report to the profile it was scored with
+    await loadPublishedProfiles();
+    const profile = findProfile(profile_id ?? currentProfileId());
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Unknown scoring profile "${profile_id}"` },
+        { status: 400 }
+      );
+    }
+
+    // Open the report in the client's preferred language, evaluated
+    // against the standard the technician picked
+    const { data: property } = await supabase
+      .from("property")
+      .select("preferred_language, guideline_standard")
+      .eq("id", property_id)
+      .single();
+    const lang = resolveLocale(property?.preferred_language);
+    const standard = getStandard(property?.guideline_standard).key;
+
     const token = randomUUID().replace(/-/g, "");
 
     const expires_at = new Date();
@@ -25,6 +49,9 @@ export async function POST(request: Request) {
         property_id,
         token,
         expires_at,
+        profile_id: profile.id,
+        standard,
+        scores: scores ?? null,
       })
       .select()
       .single();
@@ -37,8 +64,11 @@ export async function POST(request: Request) {
     return NextResponse.json({
       ok: true,
       token,
-      link: `${process.env.NEXT_PUBLIC_SITE_URL}/report?token=${token}`,
+      link: `${process.env.NEXT_PUBLIC_SITE_URL}/report?token=${token}&lang=${lang}`,
       expires_at,
+      profile_id: profile.id,
+      standard,
+      lang,
     });
   } catch (err) {
     console.error(err);
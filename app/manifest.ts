@@ -0,0 +1,16 @@
+import type { MetadataRoute } from "next";
+
+// Installable technician workspace (service worker: public/sw.js)
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Sanctuary Solutions Technician Workspace",
+    short_name: "SaSo Tech",
+    description: "On-site capture for home environment assessments, online or off.",
+    start_url: "/technician",
+    scope: "/",
+    display: "standalone",
+    background_color: "#f8fafc",
+    theme_color: "#0f172a",
+    icons: [{ src: "/favicon.ico", sizes: "any", type: "image/x-icon" }],
+  };
+}
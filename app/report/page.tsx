@@ -14,28 +14,132 @@ import {
   Cell,
 } from "recharts";
 import { supabase } from "@/lib/supabaseClient";
-import { Wind, Droplet, Zap, Info } from "lucide-react";
-
-import { summarizeAir } from "@/lib/scoring/airSummary";
-import { summarizeWater } from "@/lib/scoring/waterSummary";
-import { summarizeEther } from "@/lib/scoring/etherSummary";
+import {
+  Wind,
+  Droplet,
+  Zap,
+  Sun,
+  Volume2,
+  Info,
+  AlertTriangle,
+} from "lucide-react";
+
+import { airFindings } from "@/lib/scoring/airSummary";
+import { waterFindings } from "@/lib/scoring/waterSummary";
+import { etherFindings } from "@/lib/scoring/etherSummary";
+import { lightFindings } from "@/lib/scoring/lightSummary";
+import { soundFindings } from "@/lib/scoring/soundSummary";
+import { alertCategories, safetyAlerts } from "@/lib/scoring/safety";
+import {
+  SEVERITY_LABELS,
+  atLeast,
+  sortFindings,
+  type Severity,
+} from "@/lib/scoring/findings";
+import {
+  LOCALES,
+  LOCALE_LABELS,
+  createTranslator,
+  isLocale,
+  resolveLocale,
+  type Locale,
+  type Translator,
+} from "@/lib/i18n";
+import { RichText } from "@/components/RichText";
 
 import { MetricRing } from "@/components/MetricRing";
-import { computeWaterScore } from "@/lib/scoring/water";
-import { computeEtherScore, etherLabel } from "@/lib/scoring/ether";
+import { etherLabel } from "@/lib/scoring/ether";
+import { explainHome, scoreHome } from "@/lib/scoring";
+import {
+  AGGREGATION_STRATEGIES,
+  aggregateOutdoor,
+  aggregateReadings,
+  aggregateSleepingArea,
+  readingSources,
+  readingValues,
+  type MeasurementLocation,
+} from "@/lib/scoring/aggregate";
+import {
+  SENSITIVITY_LABELS,
+  applyOccupants,
+} from "@/lib/scoring/occupants";
+import {
+  applyStandard,
+  bandSource,
+  getStandard,
+  sourceLabel,
+} from "@/lib/scoring/standards";
+import {
+  REFERENCE_KEYS,
+  mergeBaselines,
+  referenceLegend,
+  resolveReferences,
+  type ReferenceBaseline,
+} from "@/lib/references";
+import { BUILT_IN_BASELINES } from "@/lib/references/dataset";
+import { fromRecord, type BaselineRecord } from "@/lib/references/import";
+import {
+  displayUnit,
+  formatMetric,
+  toDisplay,
+  type UnitSystem,
+} from "@/lib/units";
+import { isReplicateGroup, replicateStats } from "@/lib/replicates";
+import { loadPublishedProfiles } from "@/lib/scoring/profileStore";
+import { ScoreBreakdownPanel } from "@/components/ScoreBreakdownPanel";
+import { SeriesChart } from "@/components/SeriesChart";
+import { loadSeries, type LoggerSeries } from "@/lib/loggers";
+import {
+  seriesPeaks,
+  seriesReadings,
+  seriesStatistic,
+  seriesStats,
+} from "@/lib/scoring/series";
+import {
+  allProfiles,
+  currentProfileId,
+  categoryCoverage,
+  findProfile,
+  getProfile,
+  profileBands,
+  profileLabel,
+} from "@/lib/scoring/profiles";
 import {
-  computeAirScore,
   co2Label,
   pm25Label,
   pm10Label,
   humidityCaution,
 } from "@/lib/scoring/air";
+import {
+  CATEGORIES,
+  CATEGORY_LABELS,
+  METRIC_KEYS,
+  NOISE_SOURCE_LABELS,
+  PRESENCE_RESULT_LABELS,
+  RADON_TEST_LABELS,
+  WATER_SOURCE_LABELS,
+  getMetric,
+  inIdealRange,
+  isCategoryKey,
+  isMetricKey,
+  metricBand,
+  metricLabel,
+  scoreMetric,
+  metricsByCategory,
+  type CategoryKey,
+  type MetricKey,
+  type NoiseSource,
+  type PresenceResult,
+  type RadonTest,
+  type StandardKey,
+  type WaterSource,
+} from "@/lib/metrics";
 
 // -----------------------------------------------------------------------------
 // Sanctuary Solutions – LIVE Dashboard Report (Supabase-wired)
 // Route: /app/report/page.tsx  (App Router)
 // - Pulls latest property + rooms + measurements from Supabase
-// - Uses *worst* (max) readings per metric across all rooms
+// - Combines room readings per metric using the profile's aggregation strategy
 // - Adds Room-by-Room Analysis section (Icon Cards)
 // -----------------------------------------------------------------------------
 
@@ -48,59 +152,13 @@ const brand = {
   bad: "#ef4444", // red-500
 };
 
-// Houston reference values (can later be pulled from an external table)
-const HOUSTON_REFERENCES = {
-  pm25Avg: 12.0, // µg/m³ (regional annual baseline)
-  pm10Avg: 40.0, // µg/m³ (illustrative baseline)
-  co2IndoorTypical: 950, // ppm (WFH daytime typical)
+// SaSo comparison targets (regional baselines live in lib/references)
+const SASO_BENCHMARKS = {
   pm25Benchmark: 9.0, // EPA 2024 annual standard
   pm10Benchmark: 30.0, // SaSo comfort benchmark
   co2Benchmark: 800, // SaSo good threshold
 };
 
-// ====== THRESHOLDS (SaSo v1.1) ======
-const THRESHOLDS: Record<string, { goodMax: number; fairMax: number; unit: string }> = {
-  // AIR
-  CO2: { goodMax: 800, fairMax: 1200, unit: "ppm" },
-  PM25: { goodMax: 9, fairMax: 20, unit: "µg/m³" },
-  PM10: { goodMax: 30, fairMax: 50, unit: "µg/m³" },
-  VOCs: { goodMax: 200, fairMax: 500, unit: "ppb" },
-  Humidity: { goodMax: 55, fairMax: 65, unit: "%" }, // treat >65 poor; 35–55 ideal in copy
-  Temp: { goodMax: 75, fairMax: 80, unit: "°F" },
-  // WATER
-  TDS: { goodMax: 300, fairMax: 500, unit: "ppm" },
-  Cl: { goodMax: 0.8, fairMax: 1.5, unit: "ppm" },
-  pH: { goodMax: 8.5, fairMax: 9.5, unit: "" }, // Note: handle two-sided ideal in copy
-  // ETHER (precautionary bands)
-  MagField: { goodMax: 2.0, fairMax: 4.0, unit: "mG" },
-  ElectricField: { goodMax: 0.5, fairMax: 1.5, unit: "V/m" },
-  RF: { goodMax: 0.1, fairMax: 1.0, unit: "mW/m²" },
-};
-
-// Overall category weights
-const OVERALL_WEIGHTS = {
-  air: 0.45,
-  water: 0.35,
-  ether: 0.2,
-};
-
-// Metric metadata – defines grouping and display names
-type MetricKey =
-  | "CO2"
-  | "PM25"
-  | "PM10"
-  | "VOCs"
-  | "Humidity"
-  | "Temp"
-  | "TDS"
-  | "Cl"
-  | "pH"
-  | "MagField"
-  | "ElectricField"
-  | "RF";
-
-type CategoryKey = "air" | "water" | "ether";
-
 // Raw measurement row from Supabase
 interface MeasurementRow {
   id: string;
@@ -108,9 +166,18 @@ interface MeasurementRow {
   room_id: string | null;
   category: string | null;
   metric: MetricKey | string;
-  value: number;
+  value: number; // canonical unit
   unit: string | null;
+  raw_value: number | null; // as read on the instrument
+  raw_unit: string | null;
+  noise_source: NoiseSource | null; // sound readings only
+  radon_test: RadonTest | null; // radon readings only
+  sleeping_area: boolean | null;
+  location: MeasurementLocation | null; // outdoor baseline readings
+  result: PresenceResult | null; // presence metrics only; value is 1 / 0
   notes: string | null;
+  replicates: number[] | null; // replicate group; value is the accepted or mean
+  replicate_accepted: number | null;
   taken_at: string | null;
   created_at: string;
 }
@@ -124,12 +191,16 @@ interface PropertyRow {
   zip: string | null;
   sqft: number | null;
   year_built: number | null;
+  water_source: WaterSource | null;
+  guideline_standard: StandardKey | null;
   primary_contact_email: string | null;
   occupants_adults: number | null;
   occupants_children: number | null;
   occupants_animals: number | null;
   occupants_allergies: boolean | null;
   occupants_asthma: boolean | null;
+  unit_system: UnitSystem | null;
+  preferred_language: string | null;
   created_at: string;
 }
 
@@ -140,84 +211,21 @@ interface RoomRow {
   name: string;
   type: string | null;
   order_index: number | null;
+  area_sqft: number | null;
   created_at: string;
 }
 
-// Utility to get category from metric key (fallback when category is missing)
-function getCategoryFromMetric(metricKey: MetricKey): CategoryKey {
-  switch (metricKey) {
-    case "CO2":
-    case "PM25":
-    case "PM10":
-    case "VOCs":
-    case "Humidity":
-    case "Temp":
-      return "air";
-    case "TDS":
-    case "Cl":
-    case "pH":
-      return "water";
-    case "MagField":
-    case "ElectricField":
-    case "RF":
-      return "ether";
-    default:
-      return "air";
-  }
-}
-
-// Pretty label mapping for client-facing UI
-function prettyMetricLabel(metric: MetricKey | string): string {
-  switch (metric as MetricKey) {
-    case "CO2":
-      return "CO₂";
-    case "PM25":
-      return "PM₂.₅";
-    case "PM10":
-      return "PM₁₀";
-    case "VOCs":
-      return "VOCs";
-    case "Humidity":
-      return "Humidity";
-    case "Temp":
-      return "Temperature";
-    case "TDS":
-      return "Total Dissolved Solids (TDS)";
-    case "Cl":
-      return "Free Chlorine";
-    case "pH":
-      return "pH";
-    case "MagField":
-      return "Magnetic Field (ELF)";
-    case "ElectricField":
-      return "Electric Field";
-    case "RF":
-      return "Radiofrequency (RF)";
-    default:
-      return typeof metric === "string" ? metric : String(metric);
-  }
-}
-
-// Map raw value to a 0–100 metric score based on good/fair thresholds
-function metricScore(value: number, goodMax: number, fairMax: number): number {
-  if (value <= goodMax) return 100;
-  if (value <= fairMax) {
-    const t = (value - goodMax) / (fairMax - goodMax);
-    return Math.round(100 - t * 40); // 100 → 60
-  }
-  const t = Math.min(1, (value - fairMax) / fairMax);
-  return Math.round(60 - t * 60); // 60 → 0
-}
-
 // Helpers for status styles
-function scoreToColor(score: number): string {
+function scoreToColor(score: number | null): string {
+  if (score === null) return "#94a3b8"; // slate-400
   if (score >= 85) return brand.good;
   if (score >= 70) return brand.accent;
   if (score >= 50) return brand.warn;
   return brand.bad;
 }
 
-function scoreToLabel(score: number): string {
+function scoreToLabel(score: number | null): string {
+  if (score === null) return "Not tested";
   if (score >= 90) return "Excellent";
   if (score >= 75) return "Good";
   if (score >= 60) return "Fair";
@@ -295,6 +303,7 @@ const ExpandableCard = ({
   subtitle,
   score,
   statusLabel,
+  sources = [],
   children,
   defaultOpen = false,
 }: {
@@ -302,6 +311,8 @@ const ExpandableCard = ({
   subtitle?: string;
   score?: number;
   statusLabel?: string;
+  // Guideline each metric on the card is judged against
+  sources?: { standard: string; citation: string }[];
   children: React.ReactNode;
   defaultOpen?: boolean;
 }) => {
@@ -338,6 +349,16 @@ const ExpandableCard = ({
             )}
           </div>
           {subtitle && <p className="mt-1 text-xs text-slate-500">{subtitle}</p>}
+          {sources.map((s) => (
+            <p
+              key={`${s.standard}-${s.citation}`}
+              className="mt-1 text-[10px] text-slate-400"
+            >
+              <span className="font-semibold text-slate-500">{s.standard}</span>
+              {" · "}
+              {s.citation}
+            </p>
+          ))}
         </div>
         {typeof score === "number" && (
           <div className="flex items-center gap-2 text-xs text-slate-500">
@@ -392,6 +413,41 @@ const Chip = ({ children }: { children: React.ReactNode }) => (
   </span>
 );
 
+const SEVERITY_STYLES: Record<Severity, string> = {
+  info: "bg-emerald-50 text-emerald-700",
+  low: "bg-sky-50 text-sky-700",
+  moderate: "bg-amber-50 text-amber-700",
+  high: "bg-rose-50 text-rose-700",
+  alert: "bg-red-600 text-white",
+};
+
+// Combustion gases shown together on one card (radon has its own)
+const GAS_METRICS: MetricKey[] = ["CO", "NO2", "HCHO", "O3"];
+
+// Extended water results, one card below TDS / chlorine / pH
+const WATER_PANEL: MetricKey[] = [
+  "Hardness",
+  "TotalChlorine",
+  "Nitrate",
+  "Lead",
+  "Iron",
+  "Bacteria",
+];
+
+// "2 of 3 metrics measured" note for partially tested categories
+const CoverageNote = ({
+  coverage,
+  t,
+}: {
+  coverage: { measured: number; total: number };
+  t: Translator["t"];
+}) =>
+  coverage.measured > 0 && coverage.measured < coverage.total ? (
+    <span className="rounded-full bg-amber-50 px-2 py-0.5 text-[10px] font-medium text-amber-700">
+      {t("snapshot.coverage", coverage)}
+    </span>
+  ) : null;
+
 // Room emoji icon helper (Option B – Icon Card vibe)
 function roomIcon(room: RoomRow): string {
   const name = room.name.toLowerCase();
@@ -411,12 +467,41 @@ export default function ReportPage() {
   const [property, setProperty] = useState<PropertyRow | null>(null);
   const [measurements, setMeasurements] = useState<MeasurementRow[]>([]);
   const [rooms, setRooms] = useState<RoomRow[]>([]);
+  const [series, setSeries] = useState<LoggerSeries[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [sharedView, setSharedView] = useState(false);
+  const [importedBaselines, setImportedBaselines] = useState<
+    ReferenceBaseline[]
+  >([]);
+
+  // Profile the report is issued under, and an optional one to re-score with
+  const [profileId, setProfileId] = useState(currentProfileId());
+  // Guideline standard pinned on the magic link (property's pick otherwise)
+  const [issuedStandard, setIssuedStandard] = useState<string | null>(null);
+  const [compareProfileId, setCompareProfileId] = useState(currentProfileId());
+  const [findingsMin, setFindingsMin] = useState<Severity>("low");
+
+  // Client language: ?lang= (or the switcher) wins over the property's preference
+  const [langOverride, setLangOverride] = useState<Locale | null>(null);
+  const locale = langOverride ?? resolveLocale(property?.preferred_language);
+  const i18n = useMemo(() => createTranslator(locale), [locale]);
+  const { t } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const switchLocale = (next: Locale) => {
+    setLangOverride(next);
+    const url = new URL(window.location.href);
+    url.searchParams.set("lang", next);
+    window.history.replaceState(null, "", url.toString());
+  };
 
   // Generate Magic Link for this property
   const generateLink = async () => {
     if (!property?.id) {
-      alert("No property loaded yet.");
+      alert(t("share.noProperty"));
       return;
     }
 
@@ -424,21 +509,26 @@ export default function ReportPage() {
       const res = await fetch("/api/magic-link", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ property_id: property.id }),
+        // Issue under the profile currently selected for re-scoring
+        body: JSON.stringify({
+          property_id: property.id,
+          profile_id: compareProfile.id,
+          scores: compareScores,
+        }),
       });
 
       const out = await res.json();
 
       if (!out.ok) {
-        alert("Failed to generate link.");
+        alert(t("share.failed"));
         return;
       }
 
       await navigator.clipboard.writeText(out.link);
-      alert(`Share link copied!\n\n${out.link}`);
+      alert(t("share.copied", { link: out.link }));
     } catch (err) {
       console.error(err);
-      alert("Error generating share link.");
+      alert(t("share.error"));
     }
   };
 
@@ -448,9 +538,16 @@ export default function ReportPage() {
       setLoading(true);
       setError(null);
 
+      // 0. Profiles published from the curve editor
+      await loadPublishedProfiles();
+      setProfileId(currentProfileId());
+      setCompareProfileId(currentProfileId());
+
       // 1. Read token from URL
       const params = new URLSearchParams(window.location.search);
       const token = params.get("token");
+      const lang = params.get("lang");
+      if (isLocale(lang)) setLangOverride(lang);
 
       let propertyIdToLoad: string | null = null;
 
@@ -458,7 +555,7 @@ export default function ReportPage() {
         // 2. Validate token
         const { data: accessRow, error: accessError } = await supabase
           .from("report_access")
-          .select("property_id, expires_at")
+          .select("property_id, expires_at, profile_id, standard")
           .eq("token", token)
           .single();
 
@@ -475,7 +572,19 @@ export default function ReportPage() {
           return;
         }
 
+        // Never re-score an issued report under another profile
+        const pinned = accessRow.profile_id ?? currentProfileId();
+        if (!findProfile(pinned)) {
+          setError(`This report was scored under profile "${pinned}", which could not be loaded.`);
+          setLoading(false);
+          return;
+        }
+
         propertyIdToLoad = accessRow.property_id;
+        setSharedView(true);
+        setProfileId(pinned);
+        setCompareProfileId(pinned);
+        setIssuedStandard(accessRow.standard ?? null);
       }
 
       // 4. If no token, fallback to latest property
@@ -495,6 +604,25 @@ export default function ReportPage() {
         const latestProperty = propertyRows[0] as PropertyRow;
         setProperty(latestProperty);
         propertyIdToLoad = latestProperty.id;
+
+        // Keep the profile of the last issued report, if any
+        const { data: issuedRows } = await supabase
+          .from("report_access")
+          .select("profile_id")
+          .eq("property_id", latestProperty.id)
+          .order("created_at", { ascending: false })
+          .limit(1);
+
+        const issuedProfileId = issuedRows?.[0]?.profile_id;
+        if (issuedProfileId && !findProfile(issuedProfileId)) {
+          setError(`The last report was scored under profile "${issuedProfileId}", which could not be loaded.`);
+          setLoading(false);
+          return;
+        }
+        if (issuedProfileId) {
+          setProfileId(issuedProfileId);
+          setCompareProfileId(issuedProfileId);
+        }
       } else {
         // 5. Load property by ID (magic link path)
         const { data: propertyRow, error: propertyErr } = await supabase
@@ -516,7 +644,9 @@ export default function ReportPage() {
       const { data: measurementRows, error: measurementError } = await supabase
         .from("measurement")
         .select("*")
-        .eq("property_id", propertyIdToLoad);
+        .eq("property_id", propertyIdToLoad)
+        // Deleted readings are superseded (lib/corrections.ts)
+        .is("deleted_at", null);
 
       if (measurementError) {
         console.error(measurementError);
@@ -541,155 +671,258 @@ export default function ReportPage() {
         setRooms((roomRows ?? []) as RoomRow[]);
       }
 
+      // 7b. Continuous logger series (lib/loggers.ts)
+      setSeries(await loadSeries(propertyIdToLoad));
+
+      // 8. Imported regional baselines (built-in dataset if none / invalid)
+      const { data: baselineRows, error: baselineError } = await supabase
+        .from("reference_baseline")
+        .select("*");
+
+      if (baselineError) {
+        console.error(baselineError);
+      } else {
+        const parsed: ReferenceBaseline[] = [];
+        for (const row of (baselineRows ?? []) as BaselineRecord[]) {
+          try {
+            parsed.push(fromRecord(row));
+          } catch (err) {
+            console.warn("Skipping reference baseline", row, err);
+          }
+        }
+        setImportedBaselines(parsed);
+      }
+
       setLoading(false);
     };
 
     fetchData();
   }, []);
 
-  // ========= METRIC AGGREGATION (MAX ACROSS ROOMS) =========
-  const M = useMemo(() => {
-    // Start with null (no reading); later convert to 0 for scoring
-    const base: Record<MetricKey, number | null> = {
-      CO2: null,
-      PM25: null,
-      PM10: null,
-      VOCs: null,
-      Humidity: null,
-      Temp: null,
-      TDS: null,
-      Cl: null,
-      pH: null,
-      MagField: null,
-      ElectricField: null,
-      RF: null,
-    };
+  // Profiles under the chosen guideline standard, with the
+  // household's stricter targets applied on top
+  const standard = getStandard(issuedStandard ?? property?.guideline_standard);
+  const { profile, adjustments } = useMemo(
+    () =>
+      applyOccupants(applyStandard(getProfile(profileId), standard.key), property),
+    [profileId, standard, property]
+  );
+  const compareProfile = useMemo(
+    () =>
+      applyOccupants(
+        applyStandard(getProfile(compareProfileId), standard.key),
+        property
+      ).profile,
+    [compareProfileId, standard, property]
+  );
+  const aggregation = AGGREGATION_STRATEGIES[profile.aggregation];
+
+  // ========= METRIC AGGREGATION (STRATEGY PINNED BY PROFILE) =========
+  // Worst-case readings keep the reading they came from so the
+  // breakdown can point at a room.
+  // Logger series count as one reading each, at the profile's statistic
+  const scoredRows = useMemo(
+    () => [...measurements, ...seriesReadings(series, profile)],
+    [measurements, series, profile]
+  );
+  const readings = useMemo(
+    () => aggregateReadings(scoredRows, rooms, profile),
+    [scoredRows, rooms, profile]
+  );
 
-    for (const row of measurements) {
-      const key = row.metric as MetricKey;
-      if (!(key in base)) continue;
-      const current = base[key];
-      // "Most concerning" = highest value, for now (we can refine per-metric later if needed)
-      if (current === null || row.value > current) {
-        base[key] = row.value;
-      }
-    }
+  // null = not measured; engines and summaries skip these
+  const M = useMemo(() => readingValues(readings), [readings]);
 
-    const result: Record<MetricKey, number> = {
-      CO2: 0,
-      PM25: 0,
-      PM10: 0,
-      VOCs: 0,
-      Humidity: 0,
-      Temp: 0,
-      TDS: 0,
-      Cl: 0,
-      pH: 0,
-      MagField: 0,
-      ElectricField: 0,
-      RF: 0,
-    };
+  // Worst sleeping-area readings, held to the profile's stricter bands
+  const sleepingReadings = useMemo(
+    () => aggregateSleepingArea(scoredRows, profile),
+    [scoredRows, profile]
+  );
 
-    (Object.keys(base) as MetricKey[]).forEach((k) => {
-      result[k] = base[k] ?? 0;
-    });
+  // Outdoor baseline, for indoor/outdoor ratios
+  const outdoorReadings = useMemo(
+    () => aggregateOutdoor(scoredRows),
+    [scoredRows]
+  );
+  const O = useMemo(() => readingValues(outdoorReadings), [outdoorReadings]);
+  const homeContext = useMemo(
+    () => ({ sleeping: sleepingReadings, outdoor: outdoorReadings, series }),
+    [sleepingReadings, outdoorReadings, series]
+  );
 
-    return result;
-  }, [measurements]);
+  // A re-score also re-aggregates when the other profile combines rooms
+  // differently, ranks worst cases under other bands, or reads logger
+  // series at another statistic
+  const compareM = useMemo(
+    () =>
+      compareProfile.id === profile.id ||
+      (compareProfile.aggregation === profile.aggregation &&
+        profile.aggregation !== "worst" &&
+        seriesStatistic(compareProfile) === seriesStatistic(profile))
+        ? M
+        : readingValues(
+            aggregateReadings(
+              [...measurements, ...seriesReadings(series, compareProfile)],
+              rooms,
+              compareProfile
+            )
+          ),
+    [M, measurements, series, rooms, profile, compareProfile]
+  );
 
-  const metricScores = useMemo(() => {
-    const s: Record<MetricKey, number> = {
-      CO2: 0,
-      PM25: 0,
-      PM10: 0,
-      VOCs: 0,
-      Humidity: 0,
-      Temp: 0,
-      TDS: 0,
-      Cl: 0,
-      pH: 0,
-      MagField: 0,
-      ElectricField: 0,
-      RF: 0,
-    };
+  // "(worst room)" / "(home average)" etc. beside snapshot readings
+  const aggregateNote = (noun: "room" | "tap" | "spot") =>
+    profile.aggregation === "worst"
+      ? t(
+          noun === "room"
+            ? "note.worstRoom"
+            : noun === "tap"
+            ? "note.worstTap"
+            : "note.worstSpot"
+        )
+      : i18n.label(aggregation.short);
 
-    (Object.keys(THRESHOLDS) as MetricKey[]).forEach((k) => {
-      const val = M[k];
-      if (typeof val !== "number") return;
-      const { goodMax, fairMax } = THRESHOLDS[k];
-      s[k] = metricScore(val, goodMax, fairMax);
+  const metricScores = useMemo(() => {
+    const s = {} as Record<MetricKey, number | undefined>;
+
+    METRIC_KEYS.forEach((k) => {
+      const v = M[k];
+      s[k] =
+        v === null
+          ? undefined
+          : Math.round(scoreMetric(k, v, profileBands(profile, k)));
     });
 
     return s;
-  }, [M]);
+  }, [M, profile]);
 
-  // Category scores (still using your scoring engines)
-  const airScore = useMemo(
+  // Category scores under the issued profile, plus an optional re-score
+  const breakdown = useMemo(
     () =>
-      computeAirScore({
-        co2: M.CO2 ?? 0,
-        pm25: M.PM25 ?? 0,
-        pm10: M.PM10 ?? 0,
-      }),
-    [M]
+      explainHome(M, profile, readingSources(readings), homeContext),
+    [M, profile, readings, homeContext]
   );
-
-  const waterScore = useMemo(
-    () =>
-      computeWaterScore({
-        tds: M.TDS,
-        cl: M.Cl,
-        ph: M.pH,
-      }),
-    [M]
+  const scores = breakdown.scores;
+  const compareScores = useMemo(
+    () => scoreHome(compareM, compareProfile, homeContext),
+    [compareM, compareProfile, homeContext]
   );
 
-  const etherScore = useMemo(
-    () =>
-      computeEtherScore({
-        mag: M.MagField ?? 0,
-        electric: M.ElectricField ?? 0,
-        rf: M.RF ?? 0,
-      }),
-    [M]
-  );
+  const {
+    air: airScore,
+    water: waterScore,
+    ether: etherScore,
+    light: lightScore,
+    sound: soundScore,
+    overall: overallScore,
+  } = scores;
+
+  // ========= REGIONAL REFERENCES =========
+  // Most recent reading dates the visit (picks the seasonal variant)
+  const visitDate = useMemo(() => {
+    const times = measurements
+      .map((m) => new Date(m.taken_at ?? m.created_at).getTime())
+      .filter((t) => !Number.isNaN(t));
+    return times.length ? new Date(Math.max(...times)) : new Date();
+  }, [measurements]);
 
-  const overallScore = useMemo(
+  const references = useMemo(
     () =>
-      Math.round(
-        airScore * OVERALL_WEIGHTS.air +
-          waterScore * OVERALL_WEIGHTS.water +
-          etherScore * OVERALL_WEIGHTS.ether
+      resolveReferences(
+        mergeBaselines(BUILT_IN_BASELINES, importedBaselines),
+        { state: property?.state, zip: property?.zip },
+        visitDate
       ),
-    [airScore, waterScore, etherScore]
+    [importedBaselines, property?.state, property?.zip, visitDate]
   );
 
-  // Comparison data for charts
+  // Outdoor baseline bar, when one was taken
+  const outdoorBar = (v: number | null) =>
+    v == null
+      ? []
+      : [{ name: t("compare.outdoor"), value: v, color: "#0ea5e9" }];
+
+  // Indoor/outdoor ratio the Air Score blended in, if any
+  const ioRatioNote = (k: MetricKey) => {
+    const io = breakdown.categories.air.metrics.find(
+      (m) => m.metric === k
+    )?.ioRatio;
+    if (!io) return null;
+    return (
+      <div className="mt-0.5 text-right text-[11px] text-slate-500">
+        {t("compare.ioRatio", {
+          ratio: io.ratio.toFixed(2),
+          band: i18n.label(io.band),
+        })}
+      </div>
+    );
+  };
+
+  // Comparison data for charts (regional bar omitted when nothing matches)
   const pm25Compare = useMemo(
     () => [
-      { name: "Your Home", value: M.PM25 ?? 0, color: brand.primary },
-      { name: "Houston Avg", value: HOUSTON_REFERENCES.pm25Avg, color: "#64748b" },
-      { name: "SaSo Target", value: HOUSTON_REFERENCES.pm25Benchmark, color: "#22c55e" },
+      { name: t("compare.yourHome"), value: M.PM25 ?? 0, color: brand.primary },
+      ...outdoorBar(O.PM25),
+      ...(references.pm25Avg
+        ? [
+            {
+              name: referenceLegend(
+                references.pm25Avg,
+                t("compare.avg"),
+                i18n.label
+              ),
+              value: references.pm25Avg.value,
+              color: "#64748b",
+            },
+          ]
+        : []),
+      { name: t("compare.target"), value: SASO_BENCHMARKS.pm25Benchmark, color: "#22c55e" },
     ],
-    [M.PM25]
+    [M.PM25, O.PM25, references.pm25Avg, i18n, t]
   );
 
   const pm10Compare = useMemo(
     () => [
-      { name: "Your Home", value: M.PM10 ?? 0, color: brand.primary },
-      { name: "Houston Avg", value: HOUSTON_REFERENCES.pm10Avg, color: "#64748b" },
-      { name: "SaSo Target", value: HOUSTON_REFERENCES.pm10Benchmark, color: "#22c55e" },
+      { name: t("compare.yourHome"), value: M.PM10 ?? 0, color: brand.primary },
+      ...outdoorBar(O.PM10),
+      ...(references.pm10Avg
+        ? [
+            {
+              name: referenceLegend(
+                references.pm10Avg,
+                t("compare.avg"),
+                i18n.label
+              ),
+              value: references.pm10Avg.value,
+              color: "#64748b",
+            },
+          ]
+        : []),
+      { name: t("compare.target"), value: SASO_BENCHMARKS.pm10Benchmark, color: "#22c55e" },
     ],
-    [M.PM10]
+    [M.PM10, O.PM10, references.pm10Avg, i18n, t]
   );
 
   const co2Compare = useMemo(
     () => [
-      { name: "Your Home", value: M.CO2 ?? 0, color: brand.primary },
-      { name: "Typical Indoor", value: HOUSTON_REFERENCES.co2IndoorTypical, color: "#64748b" },
-      { name: "SaSo Target", value: HOUSTON_REFERENCES.co2Benchmark, color: "#22c55e" },
+      { name: t("compare.yourHome"), value: M.CO2 ?? 0, color: brand.primary },
+      ...outdoorBar(O.CO2),
+      ...(references.co2IndoorTypical
+        ? [
+            {
+              name: referenceLegend(
+                references.co2IndoorTypical,
+                t("compare.typical"),
+                i18n.label
+              ),
+              value: references.co2IndoorTypical.value,
+              color: "#64748b",
+            },
+          ]
+        : []),
+      { name: t("compare.target"), value: SASO_BENCHMARKS.co2Benchmark, color: "#22c55e" },
     ],
-    [M.CO2]
+    [M.CO2, O.CO2, references.co2IndoorTypical, i18n, t]
   );
 
   // Group measurements by room for Room-by-Room Analysis
@@ -704,8 +937,59 @@ export default function ReportPage() {
     return map;
   }, [measurements]);
 
+  // ========= DISPLAY UNITS (client's preferred system) =========
+  const unitSystem: UnitSystem = property?.unit_system ?? "us";
+
+  const formatRange = (key: MetricKey, lo: number, hi: number) => {
+    const a = toDisplay(key, lo, unitSystem);
+    const b = toDisplay(key, hi, unitSystem);
+    const n = (v: number) => i18n.number(Number(v.toFixed(1)));
+    return `${n(a.value)}–${n(b.value)} ${a.unit}`.trim();
+  };
+
+  // Stored canonical value of a row in the client's unit
+  const displayReading = (m: MeasurementRow) => {
+    if (m.result) {
+      return { value: i18n.label(PRESENCE_RESULT_LABELS[m.result]), unit: "" };
+    }
+    if (!isMetricKey(m.metric)) {
+      return { value: i18n.number(m.value), unit: m.unit };
+    }
+    const d = toDisplay(m.metric, m.value, unitSystem);
+    return { value: i18n.number(Number(d.value.toPrecision(4))), unit: d.unit };
+  };
+
+  // "3 readings · ±12 ppm · CV 1.4%" under a replicate group's value
+  const replicateSpread = (m: MeasurementRow) => {
+    if (!isReplicateGroup(m) || !isMetricKey(m.metric)) return null;
+    const key = m.metric;
+    const stats = replicateStats(
+      m.replicates.map((v) => toDisplay(key, v, unitSystem).value),
+      m.replicate_accepted
+    );
+    if (!stats) return null;
+    const spread = t("rooms.replicates", {
+      n: stats.n,
+      sd: i18n.number(Number(stats.sd.toPrecision(2))),
+      unit: displayUnit(key, unitSystem),
+      cv: stats.cv === null ? "—" : i18n.number(stats.cv * 100, 1),
+    });
+    return stats.accepted !== null
+      ? `${spread} · ${t("rooms.replicateAccepted")}`
+      : stats.outliers.length > 0
+      ? `${spread} · ${t("rooms.replicateOutliers", { count: stats.outliers.length })}`
+      : spread;
+  };
+
+  // Localized "412 ppm" / "—" for snapshot readings
+  const formatReading = (v: number | null, digits: number, unit: string) =>
+    v === null ? "—" : `${i18n.number(v, digits)} ${unit}`.trim();
+
+  const roomName = (roomId: string | null) =>
+    rooms.find((r) => r.id === roomId)?.name ?? null;
+
   const unassignedMeasurements = useMemo(
-    () => measurements.filter((m) => !m.room_id),
+    () => measurements.filter((m) => !m.room_id && m.location !== "outdoor"),
     [measurements]
   );
 
@@ -716,7 +1000,7 @@ export default function ReportPage() {
           <div className="flex flex-col items-center gap-4">
             <div className="h-10 w-10 animate-spin rounded-full border-2 border-slate-300 border-t-slate-600" />
             <p className="text-sm text-slate-500">
-              Building your Home Health Report…
+              {t("report.loading")}
             </p>
           </div>
         </div>
@@ -730,11 +1014,10 @@ export default function ReportPage() {
         <div className="mx-auto flex min-h-screen max-w-6xl items-center justify-center px-4">
           <Card className="max-w-md text-center">
             <h1 className="text-lg font-semibold text-slate-900">
-              No properties found
+              {t("report.noProperty.title")}
             </h1>
             <p className="mt-2 text-sm text-slate-600">
-              Once you complete your first on-site assessment, your full Home
-              Health Report will appear here.
+              {t("report.noProperty.body")}
             </p>
           </Card>
         </div>
@@ -742,20 +1025,187 @@ export default function ReportPage() {
     );
   }
 
-  const humidityFlag = humidityCaution(M.Humidity ?? 0);
+  const humidityFlag = M.Humidity !== null && humidityCaution(M.Humidity);
+  const co2Flag = (M.CO2 ?? 0) > 1200;
+  const pm25Flag = (M.PM25 ?? 0) > 20;
+
+  // Readings at a safety limit: the alert tier replaces the score
+  // wherever it applies, and the overall score is withheld. Logger
+  // series are checked at their peak, not the scored statistic.
+  const alerts = safetyAlerts([...measurements, ...seriesPeaks(series)]);
+  const alertCats = alertCategories(alerts);
+  const hasAlerts = alerts.length > 0;
+  const categoryStatus = (c: CategoryKey, label: string) =>
+    alertCats.has(c) ? t("safety.tier") : label;
+
+  const airLabel = categoryStatus("air", i18n.label(scoreToLabel(airScore)));
+  const waterLabel = categoryStatus(
+    "water",
+    i18n.label(scoreToLabel(waterScore))
+  );
+  const etherStatusLabel = categoryStatus(
+    "ether",
+    etherScore === null
+      ? t("common.notTested")
+      : i18n.label(etherLabel(etherScore))
+  );
+  const lightLabel = categoryStatus(
+    "light",
+    i18n.label(scoreToLabel(lightScore))
+  );
+  const soundLabel = categoryStatus(
+    "sound",
+    i18n.label(scoreToLabel(soundScore))
+  );
+  const overallLabel = hasAlerts
+    ? t("safety.tier")
+    : i18n.label(scoreToLabel(overallScore));
+
+  const sources = readingSources(readings);
+  const air = airFindings(M, sources, profile);
+  const water = waterFindings(
+    M,
+    sources,
+    { waterSource: property.water_source, yearBuilt: property.year_built },
+    profile
+  );
+  const ether = etherFindings(
+    M,
+    sources,
+    { sleeping: readingValues(sleepingReadings) },
+    profile
+  );
+  const light = lightFindings(M, sources, profile);
+  const sound = soundFindings(M, sources, profile);
+  const airSummary = i18n.findings(air);
+  const waterSummary = i18n.findings(water);
+  const etherSummary = i18n.findings(ether);
+  const lightSummary = i18n.findings(light);
+  const soundSummary = i18n.findings(sound);
+
+  // Every finding worth acting on, most severe first
+  const findings = sortFindings([
+    ...alerts,
+    ...air,
+    ...water,
+    ...ether,
+    ...light,
+    ...sound,
+  ]).filter((f) => atLeast(f.severity, findingsMin));
+
+  // Band label for a metric, or "Not measured" when we have no reading
+  const metricStatus = (k: MetricKey) => {
+    const v = M[k];
+    return v === null
+      ? t("common.notMeasured")
+      : i18n.label(metricBand(k, v, profileBands(profile, k)).label);
+  };
 
-  const airLabel = scoreToLabel(airScore);
-  const waterLabel = scoreToLabel(waterScore);
-  const etherStatusLabel = scoreToLabel(etherScore);
-  const overallLabel = scoreToLabel(overallScore);
+  // Standard + citation per card, one line per distinct source
+  const cite = (...keys: MetricKey[]) => {
+    const seen = new Set<string>();
+    return keys
+      .map((k) => bandSource(profile, k))
+      .filter((s) => {
+        const id = `${s.standard}|${s.citation}`;
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      })
+      .map((s) => ({ standard: i18n.label(sourceLabel(s)), citation: s.citation }));
+  };
 
-  const airSummary = summarizeAir(M);
-  const waterSummary = summarizeWater(M);
-  const etherSummary = summarizeEther(M);
+  // Ether cards follow the engine: a sleeping-area reading held to
+  // stricter bands can set the score and band instead of the home value
+  const etherRow = (k: MetricKey) =>
+    breakdown.categories.ether.metrics.find((m) => m.metric === k);
+  const etherScoreFor = (k: MetricKey) => {
+    const row = etherRow(k);
+    return row?.subScore != null ? Math.round(row.subScore) : metricScores[k];
+  };
+  const etherStatus = (k: MetricKey) => {
+    const row = etherRow(k);
+    if (!row?.band) return metricStatus(k);
+    return row.sleepingArea
+      ? `${i18n.label(row.band)} · ${t("ether.sleepingTag")}`
+      : i18n.label(row.band);
+  };
+  // RF is scored on the peak when one was taken
+  const rfKey: MetricKey = M.RFPeak !== null ? "RFPeak" : "RF";
+  const hasSleepingTags =
+    !!profile.sleepingArea && measurements.some((m) => m.sleeping_area);
+
+  // Comfort envelope: worst of humidity and temperature, naming each
+  // side that falls outside its window ("Too dry · Cool")
+  const comfortKeys = (["Humidity", "Temp"] as const).filter(
+    (k) => M[k] !== null
+  );
+  const comfortScore =
+    comfortKeys.length > 0
+      ? Math.min(...comfortKeys.map((k) => metricScores[k] ?? 100))
+      : undefined;
+  const comfortIssues = comfortKeys
+    .filter((k) => !inIdealRange(k, M[k]!, profileBands(profile, k)))
+    .map((k) => metricStatus(k));
+  const comfortStatus =
+    comfortKeys.length === 0
+      ? t("common.notMeasured")
+      : comfortIssues.length > 0
+      ? comfortIssues.join(" · ")
+      : t("common.comfortable");
+
+  // Combustion gases: worst measured sub-score, alert tier on top
+  const gasKeys = GAS_METRICS.filter((k) => M[k] !== null);
+  const gasScore =
+    gasKeys.length > 0
+      ? Math.min(...gasKeys.map((k) => metricScores[k] ?? 100))
+      : undefined;
+  const worstGas = gasKeys.find((k) => metricScores[k] === gasScore);
+  const gasStatus = alerts.some((a) => GAS_METRICS.includes(a.metric!))
+    ? t("safety.tier")
+    : worstGas
+    ? metricStatus(worstGas)
+    : t("common.notMeasured");
+
+  // Extended water panel: worst measured sub-score, alert tier on top
+  const panelKeys = WATER_PANEL.filter((k) => M[k] !== null);
+  const panelScore =
+    panelKeys.length > 0
+      ? Math.min(...panelKeys.map((k) => metricScores[k] ?? 100))
+      : undefined;
+  const worstPanel = panelKeys.find((k) => metricScores[k] === panelScore);
+  const panelStatus = alerts.some((a) => WATER_PANEL.includes(a.metric!))
+    ? t("safety.tier")
+    : worstPanel
+    ? metricStatus(worstPanel)
+    : t("common.notMeasured");
+
+  // Highest radon result and the protocol it came from
+  const radonRow = measurements
+    .filter((m) => m.metric === "Radon")
+    .reduce<MeasurementRow | undefined>(
+      (best, m) => (!best || m.value > best.value ? m : best),
+      undefined
+    );
 
-  const co2Status = co2Label(M.CO2 ?? 0);
-  const pm25Status = pm25Label(M.PM25 ?? 0);
-  const pm10Status = pm10Label(M.PM10 ?? 0);
+  const co2Status =
+    M.CO2 === null
+      ? t("common.notMeasured")
+      : i18n.label(co2Label(M.CO2, profile));
+  const pm25Status =
+    M.PM25 === null
+      ? t("common.notMeasured")
+      : i18n.label(pm25Label(M.PM25, profile));
+  const pm10Status =
+    M.PM10 === null
+      ? t("common.notMeasured")
+      : i18n.label(pm10Label(M.PM10, profile));
+
+  const coverage = Object.fromEntries(
+    CATEGORIES.map((c) => [c, categoryCoverage(c, M, profile)])
+  ) as Record<CategoryKey, ReturnType<typeof categoryCoverage>>;
+
+  const testedCategories = CATEGORIES.filter((c) => scores[c] !== null);
 
   const addressLine = property.address || "";
   const cityLine = [property.city, property.state, property.zip]
@@ -765,30 +1215,22 @@ export default function ReportPage() {
   const occupantChips: string[] = [];
   if (property.occupants_adults != null) {
     occupantChips.push(
-      `${property.occupants_adults} adult${
-        property.occupants_adults === 1 ? "" : "s"
-      }`
+      i18n.plural("occupants.adults", property.occupants_adults)
     );
   }
   if (property.occupants_children != null) {
     occupantChips.push(
-      `${property.occupants_children} child${
-        property.occupants_children === 1 ? "" : "ren"
-      }`
+      i18n.plural("occupants.children", property.occupants_children)
     );
   }
   if (property.occupants_animals != null) {
-    occupantChips.push(
-      `${property.occupants_animals} pet${
-        property.occupants_animals === 1 ? "" : "s"
-      }`
-    );
+    occupantChips.push(i18n.plural("occupants.pets", property.occupants_animals));
   }
   if (property.occupants_allergies) {
-    occupantChips.push("Allergies noted");
+    occupantChips.push(i18n.label(SENSITIVITY_LABELS.allergies));
   }
   if (property.occupants_asthma) {
-    occupantChips.push("Asthma present");
+    occupantChips.push(i18n.label(SENSITIVITY_LABELS.asthma));
   }
 
   return (
@@ -805,32 +1247,116 @@ export default function ReportPage() {
                 Sanctuary Solutions
               </div>
               <div className="text-[13px] font-medium tracking-tight text-slate-800">
-                Home Health Engineering Report
+                {t("report.brandTagline")}
               </div>
             </div>
           </div>
-          <nav className="hidden items-center gap-4 text-xs text-slate-500 md:flex">
-            <a href="#snapshot" className="hover:text-slate-900">
-              Snapshot
-            </a>
-            <a href="#expandables" className="hover:text-slate-900">
-              Metrics
-            </a>
-            <a href="#rooms" className="hover:text-slate-900">
-              Rooms
-            </a>
-            <a href="#compare" className="hover:text-slate-900">
-              Compare
-            </a>
-            <a href="#action" className="hover:text-slate-900">
-              Action
-            </a>
-          </nav>
+          <div className="flex items-center gap-4">
+            <nav className="hidden items-center gap-4 text-xs text-slate-500 md:flex">
+              <a href="#snapshot" className="hover:text-slate-900">
+                {t("nav.snapshot")}
+              </a>
+              <a href="#expandables" className="hover:text-slate-900">
+                {t("nav.metrics")}
+              </a>
+              <a href="#light" className="hover:text-slate-900">
+                {t("nav.light")}
+              </a>
+              <a href="#why" className="hover:text-slate-900">
+                {t("nav.why")}
+              </a>
+              <a href="#rooms" className="hover:text-slate-900">
+                {t("nav.rooms")}
+              </a>
+              <a href="#compare" className="hover:text-slate-900">
+                {t("nav.compare")}
+              </a>
+              <a href="#action" className="hover:text-slate-900">
+                {t("nav.action")}
+              </a>
+            </nav>
+            <select
+              aria-label={t("report.language")}
+              value={locale}
+              onChange={(e) => switchLocale(e.target.value as Locale)}
+              className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-600"
+            >
+              {LOCALES.map((l) => (
+                <option key={l} value={l}>
+                  {LOCALE_LABELS[l]}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
       </header>
 
       {/* SNAPSHOT SECTION */}
-      <Section id="snapshot" label="Snapshot" title="Your latest home health profile">
+      <Section
+        id="snapshot"
+        label={t("snapshot.label")}
+        title={t("snapshot.title")}
+      >
+        {hasAlerts && (
+          <Card className="mb-6 border-red-300 bg-red-50">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="mt-0.5 shrink-0 text-red-600" size={22} />
+              <div className="flex-1">
+                <h3 className="text-sm font-semibold text-red-800">
+                  {t("safety.title")}
+                </h3>
+                <p className="mt-1 text-xs text-red-700">{t("safety.body")}</p>
+                <ul className="mt-3 space-y-2 text-sm">
+                  {alerts.map((a) => {
+                    const def = getMetric(a.metric ?? "");
+                    if (!def) return null;
+                    const where = roomName(a.roomId);
+                    return (
+                      <li
+                        key={`${a.key}-${a.roomId ?? "home"}`}
+                        className="rounded-lg bg-white/80 px-3 py-2"
+                      >
+                        <div className="font-medium text-slate-900">
+                          {i18n.finding(a)}
+                        </div>
+                        <div className="mt-0.5 text-[11px] text-slate-600">
+                          {t("safety.reading", {
+                            metric: i18n.label(def.label),
+                            value: formatMetric(
+                              def.key,
+                              Number(a.params.value),
+                              unitSystem,
+                              1,
+                              i18n.intlTag
+                            ),
+                            limit: formatMetric(
+                              def.key,
+                              Number(a.params.limit),
+                              unitSystem,
+                              1,
+                              i18n.intlTag
+                            ),
+                          })}
+                          {where && ` · ${where}`}
+                          {a.params.takenAt &&
+                            ` · ${i18n.dateTime(String(a.params.takenAt))}`}
+                        </div>
+                        {def.safetyLimit && (
+                          <div className="text-[10px] text-slate-400">
+                            {t("safety.guideline", {
+                              guideline: def.safetyLimit.guideline,
+                            })}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            </div>
+          </Card>
+        )}
+
         <div className="grid gap-6 md:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
           {/* Left: Address + summary */}
           <Card className="relative overflow-hidden">
@@ -851,44 +1377,47 @@ export default function ReportPage() {
                 onClick={generateLink}
                 className="rounded-md bg-blue-600 px-3 py-2 text-sm text-white transition hover:bg-blue-700"
               >
-                Generate Share Link
+                {t("share.button")}
               </button>
 
               <div className="flex flex-col gap-6 md:flex-row md:items-end md:justify-between">
                 <div>
                   <h1 className="text-3xl font-bold tracking-tight">
-                    Home Health Report
+                    {t("snapshot.heading")}
                   </h1>
                   <p className="mt-1 text-slate-600">
-                    Most recent property ·{" "}
-                    {new Date(property.created_at).toLocaleDateString()} ·{" "}
+                    {t("snapshot.mostRecent")} · {i18n.date(property.created_at)} ·{" "}
                     {property.city ?? ""}
                     {property.city ? ", " : ""}
                     {property.state ?? ""}
                   </p>
                   <p className="mt-2 text-slate-700">
-                    Categories tested: <strong>Air</strong> ·{" "}
-                    <strong>Water</strong> · <strong>Ether</strong>
+                    {t("snapshot.categoriesTested")}{" "}
+                    {testedCategories.length > 0
+                      ? testedCategories.map((c, i) => (
+                          <React.Fragment key={c}>
+                            {i > 0 && " · "}
+                            <strong>{i18n.label(CATEGORY_LABELS[c])}</strong>
+                          </React.Fragment>
+                        ))
+                      : t("snapshot.noneYet")}
                   </p>
                 </div>
 
                 <Card className="md:min-w-[340px]">
                   <div className="text-xs uppercase tracking-wide text-slate-500">
-                    Overall Home Health
+                    {t("snapshot.overall")}
                   </div>
                   <div className="mt-2 flex items-end justify-between">
                     <motion.div
-                      className="text-4xl font-bold"
-                      style={{
-                        color:
-                          overallScore >= 85
-                            ? brand.good
-                            : overallScore >= 70
-                            ? brand.accent
-                            : overallScore >= 50
-                            ? brand.warn
-                            : brand.bad,
-                      }}
+                      className={
+                        hasAlerts
+                          ? "flex items-center gap-2 text-2xl font-bold text-red-600"
+                          : "text-4xl font-bold"
+                      }
+                      style={
+                        hasAlerts ? undefined : { color: scoreToColor(overallScore) }
+                      }
                       initial={{ opacity: 0, y: 8 }}
                       animate={{ opacity: 1, y: 0 }}
                       transition={{
@@ -898,117 +1427,209 @@ export default function ReportPage() {
                         delay: 0.1,
                       }}
                     >
-                      {overallScore}
+                      {hasAlerts ? (
+                        <>
+                          <AlertTriangle size={26} />
+                          {t("safety.tier")}
+                        </>
+                      ) : (
+                        overallScore ?? "—"
+                      )}
                     </motion.div>
                     <div className="ml-3 flex flex-col items-end text-xs text-slate-500">
                       <span className="inline-flex items-center gap-1 rounded-full bg-slate-50 px-2 py-0.5 text-[11px] font-medium text-slate-700">
                         <span
                           className="inline-block h-1.5 w-1.5 rounded-full"
-                          style={{ backgroundColor: scoreToColor(overallScore) }}
+                          style={{
+                            backgroundColor: hasAlerts
+                              ? brand.bad
+                              : scoreToColor(overallScore),
+                          }}
                         />
                         {overallLabel}
                       </span>
                       <span className="mt-1 text-[11px] text-slate-500">
-                        Weighted blend of Air, Water, and Ether.
+                        {hasAlerts
+                          ? t("safety.withheld")
+                          : t("snapshot.weightedBlend")}
                       </span>
                     </div>
                   </div>
-                  <div className="mt-3 grid grid-cols-3 gap-2 text-[11px]">
-                    <div className="flex flex-col rounded-lg bg-slate-50 px-2.5 py-1.5">
-                      <span className="text-[10px] uppercase tracking-wide text-slate-500">
-                        Air
-                      </span>
-                      <span className="mt-1 text-sm font-semibold text-slate-900">
-                        {airScore}
-                      </span>
-                      <span className="text-[10px] text-slate-500">
-                        {airLabel}
-                      </span>
-                    </div>
-                    <div className="flex flex-col rounded-lg bg-slate-50 px-2.5 py-1.5">
-                      <span className="text-[10px] uppercase tracking-wide text-slate-500">
-                        Water
-                      </span>
-                      <span className="mt-1 text-sm font-semibold text-slate-900">
-                        {waterScore}
-                      </span>
-                      <span className="text-[10px] text-slate-500">
-                        {waterLabel}
-                      </span>
-                    </div>
-                    <div className="flex flex-col rounded-lg bg-slate-50 px-2.5 py-1.5">
-                      <span className="text-[10px] uppercase tracking-wide text-slate-500">
-                        Ether
-                      </span>
-                      <span className="mt-1 text-sm font-semibold text-slate-900">
-                        {etherScore}
+                  <div className="mt-3 grid grid-cols-3 gap-2 text-[11px] sm:grid-cols-5">
+                    {CATEGORIES.map((c) => (
+                      <div
+                        key={c}
+                        className="flex flex-col rounded-lg bg-slate-50 px-2.5 py-1.5"
+                      >
+                        <span className="text-[10px] uppercase tracking-wide text-slate-500">
+                          {i18n.label(CATEGORY_LABELS[c])}
+                        </span>
+                        {alertCats.has(c) ? (
+                          <span className="mt-1 text-red-600">
+                            <AlertTriangle size={16} />
+                          </span>
+                        ) : (
+                          <span className="mt-1 text-sm font-semibold text-slate-900">
+                            {scores[c] ?? "—"}
+                          </span>
+                        )}
+                        <span
+                          className={`text-[10px] ${
+                            alertCats.has(c) ? "font-semibold text-red-600" : "text-slate-500"
+                          }`}
+                        >
+                          {c === "ether"
+                            ? etherStatusLabel
+                            : categoryStatus(c, i18n.label(scoreToLabel(scores[c])))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Scoring profile + technician re-score */}
+                  <div className="mt-3 flex items-center justify-between gap-2 text-[11px] text-slate-500">
+                    <span className="flex flex-col">
+                      <span title={i18n.label(aggregation.description)}>
+                        {t("snapshot.scoredWith", {
+                          profile: profileLabel(profile),
+                          aggregation: i18n.label(aggregation.label),
+                        })}
                       </span>
-                      <span className="text-[10px] text-slate-500">
-                        {etherLabel(etherScore)}
+                      <span title={i18n.label(standard.description)}>
+                        {t("snapshot.standard", {
+                          standard: i18n.label(standard.label),
+                        })}
                       </span>
-                    </div>
+                    </span>
+                    {!sharedView && (
+                      <select
+                        value={compareProfileId}
+                        onChange={(e) => setCompareProfileId(e.target.value)}
+                        className="rounded-md border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-600 print:hidden"
+                      >
+                        {allProfiles().map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {t("snapshot.rescore", { profile: profileLabel(p) })}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                   </div>
+
+                  {compareProfile.id !== profile.id && (
+                    <div className="mt-2 overflow-hidden rounded-lg border border-slate-200 bg-slate-50/60">
+                      <table className="min-w-full border-collapse text-[11px]">
+                        <thead>
+                          <tr className="bg-slate-100 text-left text-[10px] text-slate-500">
+                            <th className="border-b border-slate-200 px-2 py-1">
+                              {t("snapshot.category")}
+                            </th>
+                            <th className="border-b border-slate-200 px-2 py-1">
+                              {profileLabel(profile)}
+                            </th>
+                            <th className="border-b border-slate-200 px-2 py-1">
+                              {profileLabel(compareProfile)}
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {(["overall", ...CATEGORIES] as const).map(
+                            (k) => (
+                              <tr key={k} className="bg-white odd:bg-slate-50/80">
+                                <td className="border-b border-slate-100 px-2 py-1">
+                                  {k === "overall"
+                                    ? t("category.overall")
+                                    : i18n.label(CATEGORY_LABELS[k])}
+                                </td>
+                                <td className="border-b border-slate-100 px-2 py-1">
+                                  {scores[k] ?? "—"}
+                                </td>
+                                <td className="border-b border-slate-100 px-2 py-1">
+                                  {compareScores[k] ?? "—"}
+                                </td>
+                              </tr>
+                            )
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
                 </Card>
               </div>
 
               <div className="mt-4 grid gap-4 md:grid-cols-3">
                 <div className="space-y-1 text-sm">
                   <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                    Property
+                    {t("snapshot.property")}
                   </div>
                   <div className="text-[13px] font-medium text-slate-900">
-                    {addressLine || "Address on file"}
+                    {addressLine || t("snapshot.addressOnFile")}
                   </div>
                   <div className="text-[12px] text-slate-500">
-                    {cityLine || "City, State"}
+                    {cityLine || t("snapshot.cityState")}
                   </div>
+                  {property.water_source && (
+                    <div className="text-[12px] text-slate-500">
+                      {t("snapshot.waterSource", {
+                        source: i18n.label(WATER_SOURCE_LABELS[property.water_source]),
+                      })}
+                    </div>
+                  )}
                 </div>
                 <div className="space-y-1 text-sm">
                   <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                    Household
+                    {t("snapshot.household")}
                   </div>
                   <div className="flex flex-wrap gap-1.5 text-[12px] text-slate-600">
                     {occupantChips.length > 0 ? (
                       occupantChips.map((c) => <Chip key={c}>{c}</Chip>)
                     ) : (
                       <span className="text-slate-400">
-                        Household details not provided.
+                        {t("snapshot.householdMissing")}
                       </span>
                     )}
                   </div>
+                  {adjustments.length > 0 && (
+                    <a
+                      href="#why"
+                      className="inline-block text-[11px] font-medium text-sky-700 hover:text-sky-900"
+                    >
+                      {t("snapshot.stricterLink")}
+                    </a>
+                  )}
                 </div>
                 <div className="space-y-1 text-sm">
                   <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                    Flags
+                    {t("snapshot.flags")}
                   </div>
                   <div className="flex flex-wrap gap-1.5 text-[12px]">
                     {humidityFlag && (
                       <Chip>
-                        Humidity outside 40–60%
+                        {t("flag.humidity")}
                         <span className="ml-1 text-[10px] text-slate-400">
-                          (comfort + mold risk)
+                          {t("flag.humidityNote")}
                         </span>
                       </Chip>
                     )}
-                    {M.CO2 > 1200 && (
+                    {co2Flag && (
                       <Chip>
-                        Elevated CO₂ during measurement
+                        {t("flag.co2")}
                         <span className="ml-1 text-[10px] text-slate-400">
-                          (ventilation recommended)
+                          {t("flag.co2Note")}
                         </span>
                       </Chip>
                     )}
-                    {M.PM25 > 20 && (
+                    {pm25Flag && (
                       <Chip>
-                        Elevated fine particles
+                        {t("flag.pm25")}
                         <span className="ml-1 text-[10px] text-slate-400">
-                          (filtration recommended)
+                          {t("flag.pm25Note")}
                         </span>
                       </Chip>
                     )}
-                    {!humidityFlag && M.CO2 <= 1200 && M.PM25 <= 20 && (
+                    {!humidityFlag && !co2Flag && !pm25Flag && (
                       <span className="text-[12px] text-slate-400">
-                        No significant flags at time of testing.
+                        {t("flag.none")}
                       </span>
                     )}
                   </div>
@@ -1022,26 +1643,27 @@ export default function ReportPage() {
             <div className="mb-4 flex items-center justify-between">
               <div>
                 <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
-                  Category Scores
+                  {t("snapshot.categoryScores")}
                 </div>
                 <p className="mt-1 text-xs text-slate-500">
-                  Higher scores indicate better conditions for long-term health
-                  and comfort.
+                  {t("snapshot.categoryScoresBody")}
                 </p>
               </div>
             </div>
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-2 gap-4">
               {/* AIR */}
               <div className="flex flex-col items-center gap-2 pt-2">
                 {/* Fixed-height ring wrapper ensures alignment */}
                 <div className="h-[110px] flex items-start justify-center">
                   <MetricRing
                     percent={airScore}
+                    alert={alertCats.has("air")}
                     icon={<Wind size={22} />}
                     size={80}
                   />
                 </div>
                 <span className="text-[11px] text-slate-500">{airLabel}</span>
+                <CoverageNote coverage={coverage.air} t={t} />
                 <span className="text-[11px] text-slate-400 italic text-center">
                   {airSummary}
                 </span>
@@ -1052,11 +1674,13 @@ export default function ReportPage() {
                 <div className="h-[110px] flex items-start justify-center">
                   <MetricRing
                     percent={waterScore}
+                    alert={alertCats.has("water")}
                     icon={<Droplet size={22} />}
                     size={80}
                   />
                 </div>
                 <span className="text-[11px] text-slate-500">{waterLabel}</span>
+                <CoverageNote coverage={coverage.water} t={t} />
                 <span className="text-[11px] text-slate-400 italic text-center">
                   {waterSummary}
                 </span>
@@ -1067,17 +1691,53 @@ export default function ReportPage() {
                 <div className="h-[110px] flex items-start justify-center">
                   <MetricRing
                     percent={etherScore}
+                    alert={alertCats.has("ether")}
                     icon={<Zap size={22} />}
                     size={80}
                   />
                 </div>
                 <span className="text-[11px] text-slate-500">
-                  {etherLabel(etherScore)}
+                  {etherStatusLabel}
                 </span>
+                <CoverageNote coverage={coverage.ether} t={t} />
                 <span className="text-[11px] text-slate-400 italic text-center">
                   {etherSummary}
                 </span>
               </div>
+
+              {/* LIGHT */}
+              <div className="flex flex-col items-center gap-2 pt-2">
+                <div className="h-[110px] flex items-start justify-center">
+                  <MetricRing
+                    percent={lightScore}
+                    alert={alertCats.has("light")}
+                    icon={<Sun size={22} />}
+                    size={80}
+                  />
+                </div>
+                <span className="text-[11px] text-slate-500">{lightLabel}</span>
+                <CoverageNote coverage={coverage.light} t={t} />
+                <span className="text-[11px] text-slate-400 italic text-center">
+                  {lightSummary}
+                </span>
+              </div>
+
+              {/* SOUND */}
+              <div className="flex flex-col items-center gap-2 pt-2">
+                <div className="h-[110px] flex items-start justify-center">
+                  <MetricRing
+                    percent={soundScore}
+                    alert={alertCats.has("sound")}
+                    icon={<Volume2 size={22} />}
+                    size={80}
+                  />
+                </div>
+                <span className="text-[11px] text-slate-500">{soundLabel}</span>
+                <CoverageNote coverage={coverage.sound} t={t} />
+                <span className="text-[11px] text-slate-400 italic text-center">
+                  {soundSummary}
+                </span>
+              </div>
             </div>
           </Card>
         </div>
@@ -1086,15 +1746,15 @@ export default function ReportPage() {
       {/* DETAILED METRICS SECTION */}
       <Section
         id="expandables"
-        label="Detailed View"
-        title="How your home performed by metric"
+        label={t("metrics.label")}
+        title={t("metrics.title")}
       >
         <div className="grid gap-4 md:grid-cols-3">
           {/* AIR */}
           <div className="space-y-3">
             <div className="flex items-center gap-2">
               <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
-                Air
+                {i18n.label(CATEGORY_LABELS.air)}
               </div>
 
               <span className="text-slate-400">·</span>
@@ -1107,7 +1767,7 @@ export default function ReportPage() {
                   className="peer flex items-center gap-1 text-[11px] font-medium text-blue-600 hover:text-blue-700"
                 >
                   <span className="shadow-[0_0_2px_rgba(0,0,0,0.1)]">
-                    Local Air Risks
+                    {t("local.air")}
                   </span>
 
                   <Info
@@ -1117,183 +1777,274 @@ export default function ReportPage() {
                 </a>
 
                 <div className="pointer-events-none absolute left-0 top-5 z-20 w-56 rounded-md bg-slate-900 p-2 text-[11px] text-white opacity-0 shadow-lg transition-opacity peer-hover:opacity-100">
-                  Houston’s 2025 air data shows PM₂.₅ and refinery chemicals like
-		  benzene and formaldehyde reaching 10–30× above health guidelines,
-		  a level associated with increased long-term health risks.
+                  {t("local.airTip")}
                 </div>
               </div>
             </div>
 
             <ExpandableCard
-              title="CO₂ (Carbon Dioxide)"
-              subtitle="Impacts alertness, decision-making, and sleep quality."
+              title={t("co2.title")}
+              sources={cite("CO2")}
+              subtitle={t("co2.subtitle")}
               score={metricScores.CO2}
               statusLabel={co2Status}
               defaultOpen
             >
               <p>
-                Your snapshot reading (worst room) was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.CO2?.toFixed(0) ?? "—"} ppm
-                </span>
-                .{" "}
+                <RichText
+                  text={t("co2.reading", {
+                    note: aggregateNote("room"),
+                    value: formatReading(M.CO2, 0, "ppm"),
+                  })}
+                />{" "}
                 <span className="font-medium text-slate-800">
                   {co2Status}.
                 </span>
               </p>
               <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
                 <li>
-                  <strong>{"≤ 700 ppm"}</strong> is considered fresh,
-                  outdoor-like air where most people feel sharp and clear.
+                  <RichText text={t("co2.li1")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  <strong>700–1000 ppm</strong> is typical of occupied indoor
-                  spaces with decent ventilation.
+                  <RichText text={t("co2.li2")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  <strong>Above ~1200 ppm</strong>, people often report
-                  stuffiness, fatigue, and reduced focus.
+                  <RichText text={t("co2.li3")} strongClassName="font-bold" />
                 </li>
               </ul>
               <p className="mt-2 text-sm text-slate-700">
-                Sustained CO₂ above 1500–2000 ppm can impair complex thinking
-                and make spaces feel oppressive. The goal is to keep your daily
-                peaks closer to{" "}
-                <span className="font-medium text-slate-900">
-                  {HOUSTON_REFERENCES.co2Benchmark} ppm
-                </span>{" "}
-                or below during active use.
+                <RichText
+                  text={t("co2.body", { target: SASO_BENCHMARKS.co2Benchmark })}
+                />
               </p>
             </ExpandableCard>
 
             <ExpandableCard
-              title="PM₂.₅ (Fine Particles)"
-              subtitle="Tiny particles that can reach deep into the lungs."
+              title={t("pm25.title")}
+              sources={cite("PM25")}
+              subtitle={t("pm25.subtitle")}
               score={metricScores.PM25}
               statusLabel={pm25Status}
             >
               <p>
-                Your PM₂.₅ reading (worst room) was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.PM25 ? `${M.PM25.toFixed(1)} µg/m³` : "—"}
-                </span>
-                .{" "}
+                <RichText
+                  text={t("pm25.reading", {
+                    note: aggregateNote("room"),
+                    value: formatReading(M.PM25, 1, "µg/m³"),
+                  })}
+                />{" "}
                 <span className="font-medium text-slate-800">
-                  {pm25Status} overall.
+                  {t("common.statusOverall", { status: pm25Status })}
                 </span>
               </p>
               <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
                 <li>
-                  <strong>0–9 µg/m³</strong>: excellent, aligned with the
-                  latest WHO annual guideline.
+                  <RichText text={t("pm25.li1")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  <strong>9–20 µg/m³</strong>: moderate; common in
-                  traffic-exposed or cooking-heavy spaces.
+                  <RichText text={t("pm25.li2")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  <strong>{" > 20 µg/m³"}</strong>: elevated; long-term
-                  exposure is associated with respiratory and cardiovascular
-                  risk.
+                  <RichText text={t("pm25.li3")} strongClassName="font-bold" />
                 </li>
               </ul>
               <p className="mt-2 text-sm text-slate-700">
-                Sources include cooking, candles, outdoor pollution, and poorly
-                filtered HVAC. We generally recommend kitchen exhaust use and a
-                HEPA-grade purifier if levels are regularly above{" "}
-                <span className="font-medium text-slate-900">
-                  10–15 µg/m³
-                </span>
-                .
+                <RichText text={t("pm25.body")} />
               </p>
             </ExpandableCard>
 
             <ExpandableCard
-              title="PM₁₀ (Coarse Particles)"
-              subtitle="Larger particles linked to irritation and dust load."
+              title={t("pm10.title")}
+              sources={cite("PM10")}
+              subtitle={t("pm10.subtitle")}
               score={metricScores.PM10}
               statusLabel={pm10Status}
             >
               <p>
-                Your PM₁₀ reading (worst room) was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.PM10 ? `${M.PM10.toFixed(1)} µg/m³` : "—"}
-                </span>
-                .{" "}
+                <RichText
+                  text={t("pm10.reading", {
+                    note: aggregateNote("room"),
+                    value: formatReading(M.PM10, 1, "µg/m³"),
+                  })}
+                />{" "}
                 <span className="font-medium text-slate-800">
-                  {pm10Status} overall.
+                  {t("common.statusOverall", { status: pm10Status })}
                 </span>
               </p>
               <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
                 <li>
-                  <strong>≤ 30 µg/m³</strong>: excellent for an indoor setting.
+                  <RichText text={t("pm10.li1")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  <strong>30–50 µg/m³</strong>: moderate; expect more visible
-                  dust and potential irritation for sensitive individuals.
+                  <RichText text={t("pm10.li2")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  <strong>{"> 50 µg/m³"}</strong>: high; often seen in dusty,
-                  high-traffic, or renovation-adjacent areas.
+                  <RichText text={t("pm10.li3")} strongClassName="font-bold" />
                 </li>
               </ul>
               <p className="mt-2 text-sm text-slate-700">
-                Elevated PM₁₀ can be a sign of resuspended dust, open windows
-                near busy roads, or inadequate filtration on your HVAC system.
+                {t("pm10.body")}
               </p>
             </ExpandableCard>
 
             <ExpandableCard
-              title="Temp & Humidity"
-              subtitle="Comfort envelope and mold risk factors."
-              score={metricScores.Humidity}
-              statusLabel={
-                humidityFlag
-                  ? "Outside optimal range"
-                  : metricScores.Humidity >= 80
-                  ? "Comfortable"
-                  : "Monitor"
-              }
+              title={t("vocs.title")}
+              sources={cite("VOCs")}
+              subtitle={t("vocs.subtitle")}
+              score={metricScores.VOCs}
+              statusLabel={metricStatus("VOCs")}
             >
               <p>
-                At the time of testing (worst-room snapshot), indoor temperature
-                was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.Temp ? `${M.Temp.toFixed(1)} °F` : "—"}
-                </span>{" "}
-                and relative humidity was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.Humidity ? `${M.Humidity.toFixed(1)}%` : "—"}
-                </span>
-                .
+                <RichText
+                  text={t("vocs.reading", {
+                    note: aggregateNote("room"),
+                    value: formatReading(M.VOCs, 0, "ppb"),
+                  })}
+                />
               </p>
               <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
                 <li>
-                  <strong>40–60% humidity</strong> is typically best for
-                  comfort, respiratory health, and mold prevention.
+                  <RichText text={t("vocs.li1")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  Below <strong>40%</strong>, air can feel dry and irritating
-                  to the eyes and airways.
+                  <RichText text={t("vocs.li2")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  Above <strong>60%</strong>, the risk of dust mites and mold
-                  growth increases over time.
+                  <RichText text={t("vocs.li3")} strongClassName="font-bold" />
+                </li>
+              </ul>
+              <p className="mt-2 text-xs text-slate-500">
+                {i18n.label(getMetric("VOCs")?.caveat ?? "")}
+              </p>
+            </ExpandableCard>
+
+            <ExpandableCard
+              title={t("comfort.title")}
+              sources={cite("Humidity", "Temp")}
+              subtitle={t("comfort.subtitle")}
+              score={comfortScore}
+              statusLabel={comfortStatus}
+            >
+              <p>
+                <RichText
+                  text={t("comfort.reading", {
+                    note: aggregateNote("room"),
+                    temp: formatMetric(
+                      "Temp",
+                      M.Temp,
+                      unitSystem,
+                      1,
+                      i18n.intlTag
+                    ),
+                    humidity: formatReading(M.Humidity, 1, "%"),
+                  })}
+                />
+              </p>
+              <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
+                <li>
+                  <RichText text={t("comfort.li1")} strongClassName="font-bold" />
+                </li>
+                <li>
+                  <RichText text={t("comfort.li2")} strongClassName="font-bold" />
+                </li>
+                <li>
+                  <RichText text={t("comfort.li3")} strongClassName="font-bold" />
+                </li>
+                <li>
+                  <RichText
+                    text={t("comfort.li4", { range: formatRange("Temp", 68, 75) })}
+                    strongClassName="font-bold"
+                  />
                 </li>
               </ul>
               <p className="mt-2 text-sm text-slate-700">
-                We look at humidity in context with your building envelope, HVAC
-                settings, and local climate to balance comfort with long-term
-                durability.
+                {t("comfort.body")}
               </p>
             </ExpandableCard>
+
+            <ExpandableCard
+              title={t("gases.title")}
+              sources={cite(...GAS_METRICS)}
+              subtitle={t("gases.subtitle")}
+              score={gasScore}
+              statusLabel={gasStatus}
+            >
+              <ul className="space-y-1 text-sm">
+                {GAS_METRICS.map((k) => (
+                  <li key={k} className="flex items-baseline justify-between gap-3">
+                    <span>{i18n.label(metricLabel(k))}</span>
+                    <span className="text-right">
+                      <span className="font-semibold text-slate-900">
+                        {formatMetric(k, M[k], unitSystem, 1, i18n.intlTag)}
+                      </span>{" "}
+                      <span className="text-[11px] text-slate-500">
+                        · {metricStatus(k)}
+                      </span>
+                      <span className="block text-[10px] text-slate-400">
+                        {t("gases.limit", {
+                          limit: formatMetric(
+                            k,
+                            getMetric(k)?.safetyLimit?.value,
+                            unitSystem,
+                            0,
+                            i18n.intlTag
+                          ),
+                        })}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-sm text-slate-700">{t("gases.body")}</p>
+            </ExpandableCard>
+
+            <ExpandableCard
+              title={t("radon.title")}
+              sources={cite("Radon")}
+              subtitle={t("radon.subtitle")}
+              score={metricScores.Radon}
+              statusLabel={
+                alerts.some((a) => a.metric === "Radon")
+                  ? t("safety.tier")
+                  : metricStatus("Radon")
+              }
+            >
+              <p>
+                <RichText
+                  text={t("radon.reading", {
+                    value: formatMetric(
+                      "Radon",
+                      radonRow?.value,
+                      unitSystem,
+                      1,
+                      i18n.intlTag
+                    ),
+                    test: radonRow?.radon_test
+                      ? i18n.label(RADON_TEST_LABELS[radonRow.radon_test])
+                      : t("radon.noTest"),
+                  })}
+                />
+              </p>
+              <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
+                <li>
+                  <RichText
+                    text={t("radon.li1", {
+                      limit: formatMetric("Radon", 4, unitSystem, 1, i18n.intlTag),
+                    })}
+                    strongClassName="font-bold"
+                  />
+                </li>
+                <li>{t("radon.li2")}</li>
+              </ul>
+              <p className="mt-2 text-sm text-slate-700">{t("radon.body")}</p>
+            </ExpandableCard>
           </div>
 
           {/* WATER */}
           <div className="space-y-3">
             <div className="flex items-center gap-2">
               <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
-                Water
+                {i18n.label(CATEGORY_LABELS.water)}
               </div>
 
               <span className="text-slate-400">·</span>
@@ -1306,7 +2057,7 @@ export default function ReportPage() {
                   className="peer flex items-center gap-1 text-[11px] font-medium text-blue-600 hover:text-blue-700"
                 >
                   <span className="shadow-[0_0_2px_rgba(0,0,0,0.1)]">
-                    Local Water Risks
+                    {t("local.water")}
                   </span>
 
                   <Info
@@ -1316,134 +2067,151 @@ export default function ReportPage() {
                 </a>
 
                 <div className="pointer-events-none absolute left-0 top-5 z-20 w-56 rounded-md bg-slate-900 p-2 text-[11px] text-white opacity-0 shadow-lg transition-opacity peer-hover:opacity-100">
-                  Houston’s latest report shows multiple homes tested above the
-		  federal action level for lead – a contaminant linked to IQ loss, 
-		  behavioral problems, and irreversible neurological damage in children.
+                  {t("local.waterTip")}
                 </div>
               </div>
             </div>
 
             <ExpandableCard
-              title="Total Dissolved Solids (TDS)"
-              subtitle="An overall indicator of dissolved minerals and contaminants."
+              title={t("tds.title")}
+              sources={cite("TDS")}
+              subtitle={t("tds.subtitle")}
               score={metricScores.TDS}
-              statusLabel={
-                M.TDS <= 150
-                  ? "Excellent"
-                  : M.TDS <= 300
-                  ? "Good"
-                  : M.TDS <= 500
-                  ? "High minerals"
-                  : "Very high"
-              }
+              statusLabel={metricStatus("TDS")}
               defaultOpen
             >
               <p>
-                Your TDS reading (worst tap) was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.TDS ? `${M.TDS.toFixed(0)} ppm` : "—"}
-                </span>
-                .
+                <RichText
+                  text={t("tds.reading", {
+                    note: aggregateNote("tap"),
+                    value: formatReading(M.TDS, 0, "ppm"),
+                  })}
+                />
               </p>
               <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
                 <li>
-                  <strong>{"< 150 ppm"}</strong>: very low mineral content,
-                  similar to many filtration systems.
+                  <RichText text={t("tds.li1")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  <strong>150–300 ppm</strong>: typical for municipal tap water.
+                  <RichText text={t("tds.li2")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  <strong>{"> 300 ppm"}</strong>: higher mineral load; may
-                  impact taste, scaling, and appliance life.
+                  <RichText text={t("tds.li3")} strongClassName="font-bold" />
                 </li>
               </ul>
               <p className="mt-2 text-sm text-slate-700">
-                TDS doesn&apos;t specify exactly what&apos;s present, but it&apos;s
-                a valuable screening metric. For elevated readings, we often
-                recommend point-of-use filtration with carbon + sediment stages,
-                and in some cases reverse osmosis.
+                {t("tds.body")}
               </p>
             </ExpandableCard>
 
             <ExpandableCard
-              title="Chlorine"
-              subtitle="Disinfection byproduct with taste and respiratory impact."
+              title={t("cl.title")}
+              sources={cite("Cl")}
+              subtitle={t("cl.subtitle")}
               score={metricScores.Cl}
-              statusLabel={
-                M.Cl <= 0.5
-                  ? "Low"
-                  : M.Cl <= 1.5
-                  ? "Typical municipal"
-                  : M.Cl <= 3
-                  ? "High"
-                  : "Very high"
-              }
+              statusLabel={metricStatus("Cl")}
             >
               <p>
-                Your chlorine level (worst tap) was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.Cl ? `${M.Cl.toFixed(2)} ppm` : "—"}
-                </span>
-                .
+                <RichText
+                  text={t("cl.reading", {
+                    note: aggregateNote("tap"),
+                    value: formatReading(M.Cl, 2, "ppm"),
+                  })}
+                />
               </p>
               <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
                 <li>
-                  <strong>0.2–1.0 ppm</strong> is common for municipal systems.
+                  <RichText text={t("cl.li1")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  Elevated chlorine can dry skin and hair and aggravate
-                  sensitive airways, especially during showering.
+                  <RichText text={t("cl.li2")} strongClassName="font-bold" />
                 </li>
               </ul>
               <p className="mt-2 text-sm text-slate-700">
-                Carbon filtration is highly effective at reducing chlorine,
-                improving both taste and shower experience.
+                {t("cl.body")}
               </p>
             </ExpandableCard>
 
             <ExpandableCard
-              title="pH"
-              subtitle="Acid/alkaline balance of your tap water."
+              title={t("ph.title")}
+              sources={cite("pH")}
+              subtitle={t("ph.subtitle")}
               score={metricScores.pH}
-              statusLabel={
-                M.pH >= 6.5 && M.pH <= 8.5
-                  ? "Ideal range"
-                  : M.pH
-                  ? "Outside recommended range"
-                  : "Not measured"
-              }
+              statusLabel={metricStatus("pH")}
             >
               <p>
-                Your measured pH (worst tap) was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.pH ? M.pH.toFixed(2) : "—"}
-                </span>
-                .
+                <RichText
+                  text={t("ph.reading", {
+                    note: aggregateNote("tap"),
+                    value: formatReading(M.pH, 2, ""),
+                  })}
+                />
               </p>
               <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
                 <li>
-                  <strong>6.5–8.5</strong> is generally considered acceptable
-                  for drinking water from a corrosivity and taste perspective.
+                  <RichText text={t("ph.li1")} strongClassName="font-bold" />
                 </li>
                 <li>
-                  Significantly low pH can contribute to pipe corrosion; very
-                  high pH can cause scaling and off taste.
+                  <RichText text={t("ph.li2")} strongClassName="font-bold" />
                 </li>
               </ul>
               <p className="mt-2 text-sm text-slate-700">
-                pH is interpreted alongside TDS, hardness, and plumbing
-                materials to decide whether treatment or corrosion control is
-                appropriate.
+                {t("ph.body")}
               </p>
             </ExpandableCard>
+
+            <ExpandableCard
+              title={t("panel.title")}
+              sources={cite(...WATER_PANEL)}
+              subtitle={t("panel.subtitle")}
+              score={panelScore}
+              statusLabel={panelStatus}
+            >
+              <p className="text-sm">
+                {property.water_source ? (
+                  <RichText
+                    text={t("panel.source", {
+                      source: i18n.label(WATER_SOURCE_LABELS[property.water_source]),
+                    })}
+                  />
+                ) : (
+                  t("panel.sourceUnknown")
+                )}
+              </p>
+              <ul className="mt-2 space-y-1 text-sm">
+                {WATER_PANEL.map((k) => {
+                  const limit = getMetric(k)?.safetyLimit;
+                  return (
+                    <li key={k} className="flex items-baseline justify-between gap-3">
+                      <span>{i18n.label(metricLabel(k))}</span>
+                      <span className="text-right">
+                        <span className="font-semibold text-slate-900">
+                          {i18n.label(formatMetric(k, M[k], unitSystem, 2, i18n.intlTag))}
+                        </span>{" "}
+                        <span className="text-[11px] text-slate-500">
+                          · {metricStatus(k)}
+                        </span>
+                        {limit && getMetric(k)?.resultType !== "presence" && (
+                          <span className="block text-[10px] text-slate-400">
+                            {t("panel.limit", {
+                              limit: formatMetric(k, limit.value, unitSystem, 0, i18n.intlTag),
+                            })}
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+              <p className="mt-2 text-sm text-slate-700">{t("panel.body")}</p>
+            </ExpandableCard>
           </div>
 
           {/* ETHER */}
           <div className="space-y-3">
             <div className="flex items-center gap-2">
               <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
-                Ether
+                {i18n.label(CATEGORY_LABELS.ether)}
               </div>
 
               <span className="text-slate-400">·</span>
@@ -1456,7 +2224,7 @@ export default function ReportPage() {
                   className="peer flex items-center gap-1 text-[11px] font-medium text-blue-600 hover:text-blue-700"
                 >
                   <span className="shadow-[0_0_2px_rgba(0,0,0,0.1)]">
-                    Local EMF Context
+                    {t("local.ether")}
                   </span>
 
                   <Info
@@ -1466,128 +2234,369 @@ export default function ReportPage() {
                 </a>
 
                 <div className="pointer-events-none absolute left-0 top-5 z-20 w-56 rounded-md bg-slate-900 p-2 text-[11px] text-white opacity-0 shadow-lg transition-opacity peer-hover:opacity-100">
-                  Nearby cell towers, building wiring patterns, and power
-                  infrastructure all contribute to background EMF exposure.
-                  Click to view the electromagnetic environment around your
-                  home.
+                  {t("local.etherTip")}
                 </div>
               </div>
             </div>
 
+            {hasSleepingTags && (
+              <p className="text-[11px] text-slate-500">
+                {t("ether.sleepingNote", {
+                  reason: i18n.label(profile.sleepingArea!.reason),
+                })}
+              </p>
+            )}
+
             <ExpandableCard
-              title="Magnetic Fields (ELF)"
-              subtitle="Extremely low frequency fields from wiring and large appliances."
-              score={metricScores.MagField}
-              statusLabel={
-                M.MagField <= 1
-                  ? "Very low"
-                  : M.MagField <= 2
-                  ? "Low"
-                  : M.MagField <= 4
-                  ? "Moderate"
-                  : "Elevated"
-              }
+              title={t("mag.title")}
+              sources={cite("MagField")}
+              subtitle={t("mag.subtitle")}
+              score={etherScoreFor("MagField")}
+              statusLabel={etherStatus("MagField")}
               defaultOpen
             >
               <p>
-                Snapshot magnetic field (worst spot) was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.MagField ? `${M.MagField.toFixed(2)} mG` : "—"}
-                </span>
-                .
+                <RichText
+                  text={t("mag.reading", {
+                    note: aggregateNote("spot"),
+                    value: formatMetric(
+                      "MagField",
+                      M.MagField,
+                      unitSystem,
+                      2,
+                      i18n.intlTag
+                    ),
+                  })}
+                />
               </p>
               <p className="mt-2 text-sm text-slate-700">
-                While there are no universally accepted residential limits,
-                many precautionary guidelines aim to keep long-term sleeping
-                areas below about <strong>1–2 mG</strong> when feasible.
+                <RichText
+                  text={t("mag.body", { range: formatRange("MagField", 1, 2) })}
+                />
               </p>
             </ExpandableCard>
 
             <ExpandableCard
-              title="Electric Fields"
-              subtitle="Voltage-related fields from wiring, cords, and some devices."
-              score={metricScores.ElectricField}
-              statusLabel={
-                M.ElectricField <= 0.5
-                  ? "Very low"
-                  : M.ElectricField <= 1
-                  ? "Low"
-                  : M.ElectricField <= 2
-                  ? "Moderate"
-                  : "Elevated"
-              }
+              title={t("electric.title")}
+              sources={cite("ElectricField")}
+              subtitle={t("electric.subtitle")}
+              score={etherScoreFor("ElectricField")}
+              statusLabel={etherStatus("ElectricField")}
             >
               <p>
-                Electric field at the time of testing (worst spot) was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.ElectricField
-                    ? `${M.ElectricField.toFixed(2)} V/m`
-                    : "—"}
-                </span>
-                .
+                <RichText
+                  text={t("electric.reading", {
+                    note: aggregateNote("spot"),
+                    value: formatReading(M.ElectricField, 2, "V/m"),
+                  })}
+                />
               </p>
               <p className="mt-2 text-sm text-slate-700">
-                We focus most remediation on sleeping areas and high-use
-                workspaces, using distance, wiring optimization, and device
-                placement adjustments.
+                {t("electric.body")}
               </p>
             </ExpandableCard>
 
             <ExpandableCard
-              title="Radiofrequency (RF)"
-              subtitle="Wireless signals from Wi-Fi, phones, and nearby infrastructure."
-              score={metricScores.RF}
-              statusLabel={
-                M.RF <= 0.05
-                  ? "Very low"
-                  : M.RF <= 0.1
-                  ? "Low"
-                  : M.RF <= 1
-                  ? "Moderate"
-                  : "Elevated"
-              }
+              title={t("rf.title")}
+              sources={cite(rfKey)}
+              subtitle={t("rf.subtitle")}
+              score={etherScoreFor(rfKey)}
+              statusLabel={etherStatus(rfKey)}
             >
               <p>
-                RF power density snapshot (worst spot) was{" "}
-                <span className="font-semibold text-slate-900">
-                  {M.RF ? `${M.RF.toFixed(3)} mW/m²` : "—"}
-                </span>
-                .
+                <RichText
+                  text={
+                    M.RFPeak !== null
+                      ? t("rf.peakReading", {
+                          note: aggregateNote("spot"),
+                          peak: formatReading(M.RFPeak, 3, "mW/m²"),
+                          average: formatReading(M.RF, 3, "mW/m²"),
+                        })
+                      : t("rf.reading", {
+                          note: aggregateNote("spot"),
+                          value: formatReading(M.RF, 3, "mW/m²"),
+                        })
+                  }
+                />
+              </p>
+              <p className="mt-2 text-sm text-slate-700">
+                {t("rf.body")}
+              </p>
+            </ExpandableCard>
+
+            <ExpandableCard
+              title={t("dirty.title")}
+              sources={cite("DirtyElectricity")}
+              subtitle={t("dirty.subtitle")}
+              score={etherScoreFor("DirtyElectricity")}
+              statusLabel={etherStatus("DirtyElectricity")}
+            >
+              <p>
+                <RichText
+                  text={t("dirty.reading", {
+                    note: aggregateNote("spot"),
+                    value: formatReading(M.DirtyElectricity, 0, "GS"),
+                  })}
+                />
+              </p>
+              <p className="mt-2 text-sm text-slate-700">
+                {t("dirty.body")}
+              </p>
+            </ExpandableCard>
+
+            <ExpandableCard
+              title={t("bodyVoltage.title")}
+              sources={cite("BodyVoltage")}
+              subtitle={t("bodyVoltage.subtitle")}
+              score={etherScoreFor("BodyVoltage")}
+              statusLabel={etherStatus("BodyVoltage")}
+            >
+              <p>
+                <RichText
+                  text={t("bodyVoltage.reading", {
+                    note: aggregateNote("spot"),
+                    value: formatReading(M.BodyVoltage, 0, "mV"),
+                  })}
+                />
               </p>
               <p className="mt-2 text-sm text-slate-700">
-                We interpret RF in context: proximity to routers and devices,
-                sleep locations, and your sensitivity profile. When requested,
-                we prioritize reducing nighttime and long-duration exposures.
+                {t("bodyVoltage.body")}
               </p>
             </ExpandableCard>
           </div>
         </div>
       </Section>
 
+      {/* LIGHT SECTION */}
+      <Section id="light" label={t("light.label")} title={t("light.title")}>
+        <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+          <Card className="flex flex-col items-center gap-2 text-center">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              {t("light.score")}
+            </div>
+            <div className="h-[130px] flex items-start justify-center">
+              <MetricRing
+                percent={lightScore}
+                alert={alertCats.has("light")}
+                icon={<Sun size={26} />}
+                size={110}
+              />
+            </div>
+            <span className="text-[11px] text-slate-500">{lightLabel}</span>
+            <CoverageNote coverage={coverage.light} t={t} />
+            <span className="text-[11px] text-slate-400 italic">
+              {lightSummary}
+            </span>
+            <p className="mt-2 text-xs text-slate-600">{t("light.intro")}</p>
+          </Card>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <ExpandableCard
+              title={t("lux.title")}
+              sources={cite("Lux")}
+              subtitle={t("lux.subtitle")}
+              score={metricScores.Lux}
+              statusLabel={metricStatus("Lux")}
+              defaultOpen
+            >
+              <p>
+                <RichText
+                  text={t("lux.reading", {
+                    note: aggregateNote("spot"),
+                    value: formatMetric("Lux", M.Lux, unitSystem, 0, i18n.intlTag),
+                  })}
+                />
+              </p>
+              <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
+                <li>
+                  <RichText
+                    text={t("lux.li1", { range: formatRange("Lux", 300, 750) })}
+                    strongClassName="font-bold"
+                  />
+                </li>
+                <li>{t("lux.li2")}</li>
+              </ul>
+              <p className="mt-2 text-sm text-slate-700">{t("lux.body")}</p>
+            </ExpandableCard>
+
+            <ExpandableCard
+              title={t("flicker.title")}
+              sources={cite("Flicker")}
+              subtitle={t("flicker.subtitle")}
+              score={metricScores.Flicker}
+              statusLabel={metricStatus("Flicker")}
+              defaultOpen
+            >
+              <p>
+                <RichText
+                  text={t("flicker.reading", {
+                    note: aggregateNote("spot"),
+                    value: formatReading(M.Flicker, 1, "%"),
+                  })}
+                />
+              </p>
+              <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
+                <li>
+                  <RichText text={t("flicker.li1")} strongClassName="font-bold" />
+                </li>
+                <li>{t("flicker.li2")}</li>
+              </ul>
+              <p className="mt-2 text-sm text-slate-700">{t("flicker.body")}</p>
+            </ExpandableCard>
+
+            <ExpandableCard
+              title={t("cct.title")}
+              sources={cite("CCT")}
+              subtitle={t("cct.subtitle")}
+              score={metricScores.CCT}
+              statusLabel={metricStatus("CCT")}
+            >
+              <p>
+                <RichText
+                  text={t("cct.reading", {
+                    note: aggregateNote("spot"),
+                    value: formatReading(M.CCT, 0, "K"),
+                  })}
+                />
+              </p>
+              <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
+                <li>
+                  <RichText
+                    text={t("cct.li1", { range: formatRange("CCT", 2700, 4000) })}
+                    strongClassName="font-bold"
+                  />
+                </li>
+                <li>{t("cct.li2")}</li>
+              </ul>
+              <p className="mt-2 text-sm text-slate-700">{t("cct.body")}</p>
+            </ExpandableCard>
+
+            <ExpandableCard
+              title={t("blue.title")}
+              sources={cite("BlueLight")}
+              subtitle={t("blue.subtitle")}
+              score={metricScores.BlueLight}
+              statusLabel={metricStatus("BlueLight")}
+            >
+              <p>
+                <RichText
+                  text={t("blue.reading", {
+                    note: aggregateNote("spot"),
+                    value: formatReading(M.BlueLight, 1, "mEDI lux"),
+                  })}
+                />
+              </p>
+              <ul className="mt-2 list-disc space-y-1 pl-4 text-sm">
+                <li>
+                  <RichText
+                    text={t("blue.li1", { limit: formatReading(10, 0, "mEDI lux") })}
+                    strongClassName="font-bold"
+                  />
+                </li>
+                <li>{t("blue.li2")}</li>
+              </ul>
+              <p className="mt-2 text-sm text-slate-700">{t("blue.body")}</p>
+            </ExpandableCard>
+          </div>
+        </div>
+      </Section>
+
+      {/* SCORE BREAKDOWN SECTION */}
+      <Section id="why" label={t("why.label")} title={t("why.title")}>
+        <p className="mb-4 max-w-3xl text-sm text-slate-600">
+          {t("why.intro", { profile: profileLabel(profile) })}
+        </p>
+        <p className="mb-4 max-w-3xl text-xs text-slate-500">
+          <span className="font-semibold text-slate-700">
+            {t("why.wholeHome", { aggregation: i18n.label(aggregation.label) })}
+          </span>{" "}
+          {i18n.label(aggregation.description)}
+          {profile.aggregation === "worst" && ` ${t("why.worstNote")}`}
+        </p>
+        {adjustments.length > 0 && (
+          <Card className="mb-4 border-sky-200 bg-sky-50/60">
+            <h3 className="text-sm font-semibold text-slate-900">
+              {t("why.stricterTitle")}
+            </h3>
+            <p className="mt-1 text-xs text-slate-600">
+              {t("why.stricterBody")}
+            </p>
+            <ul className="mt-3 space-y-2 text-xs text-slate-700">
+              {adjustments.map((a) => {
+                const def = getMetric(a.metric);
+                return (
+                  <li key={`${a.scope}-${a.metric}`}>
+                    <span className="font-semibold text-slate-900">
+                      {i18n.label(def?.label ?? a.metric)}:
+                    </span>{" "}
+                    {t(
+                      a.scope === "sleeping"
+                        ? "why.stricterSleepingItem"
+                        : "why.stricterItem",
+                      {
+                        to: formatMetric(a.metric, a.to, unitSystem, 1, i18n.intlTag),
+                        from: formatMetric(a.metric, a.from, unitSystem, 1, i18n.intlTag),
+                      }
+                    )}{" "}
+                    ·{" "}
+                    {a.sensitivities
+                      .map((k) => i18n.label(SENSITIVITY_LABELS[k]))
+                      .join(", ")}
+                    <div className="text-[11px] text-slate-500">
+                      {a.reasons.map(i18n.label).join(" ")}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </Card>
+        )}
+        <div className="grid gap-4 lg:grid-cols-2">
+          {CATEGORIES.map((c) => (
+            <Card key={c}>
+              <ScoreBreakdownPanel
+                breakdown={breakdown.categories[c]}
+                roomName={roomName}
+                unitSystem={unitSystem}
+                locale={locale}
+              />
+            </Card>
+          ))}
+        </div>
+      </Section>
+
       {/* ROOM-BY-ROOM ANALYSIS SECTION */}
-      <Section
-        id="rooms"
-        label="Room-by-room Analysis"
-        title="Where issues are showing up in your home"
-      >
+      <Section id="rooms" label={t("rooms.label")} title={t("rooms.title")}>
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {rooms.map((room) => {
             const roomMs = measurementsByRoom[room.id] || [];
+            const roomSeries = series.filter((s) => s.room_id === room.id);
             const categories = new Set<CategoryKey>();
 
             roomMs.forEach((m) => {
               if (m.category) {
                 const lower = m.category.toLowerCase();
-                if (lower === "air" || lower === "water" || lower === "ether") {
-                  categories.add(lower as CategoryKey);
-                }
+                if (isCategoryKey(lower)) categories.add(lower);
               } else {
-                const key = m.metric as MetricKey;
-                categories.add(getCategoryFromMetric(key));
+                categories.add(getMetric(m.metric)?.category ?? "air");
               }
             });
 
-            const hasData = roomMs.length > 0;
+            const hasData = roomMs.length > 0 || roomSeries.length > 0;
+
+            // Room-level sound: mean per metric plus the tagged sources
+            const roomSound = metricsByCategory("sound").flatMap((def) => {
+              const rows = roomMs.filter((m) => m.metric === def.key);
+              if (rows.length === 0) return [];
+              const value =
+                rows.reduce((sum, m) => sum + m.value, 0) / rows.length;
+              const tags = [
+                ...new Set(
+                  rows.flatMap((m) => (m.noise_source ? [m.noise_source] : []))
+                ),
+              ];
+              return [{ def, value, tags }];
+            });
 
             return (
               <Card key={room.id} className="relative overflow-hidden">
@@ -1600,52 +2609,126 @@ export default function ReportPage() {
                       {room.name}
                     </div>
                     <div className="text-[11px] text-slate-500">
-                      Room-by-room snapshot
+                      {t("rooms.snapshot")}
                     </div>
                   </div>
                 </div>
 
                 <div className="mb-2 flex flex-wrap gap-1.5 text-[10px] text-slate-600">
-                  {categories.has("air") && <Chip>Air metrics</Chip>}
-                  {categories.has("water") && <Chip>Water metrics</Chip>}
-                  {categories.has("ether") && <Chip>Ether metrics</Chip>}
+                  {categories.has("air") && <Chip>{t("rooms.airMetrics")}</Chip>}
+                  {categories.has("water") && (
+                    <Chip>{t("rooms.waterMetrics")}</Chip>
+                  )}
+                  {categories.has("ether") && (
+                    <Chip>{t("rooms.etherMetrics")}</Chip>
+                  )}
+                  {categories.has("light") && (
+                    <Chip>{t("rooms.lightMetrics")}</Chip>
+                  )}
+                  {categories.has("sound") && (
+                    <Chip>{t("rooms.soundMetrics")}</Chip>
+                  )}
                   {!hasData && (
                     <span className="text-[11px] text-slate-400">
-                      No measurements captured yet.
+                      {t("rooms.empty")}
                     </span>
                   )}
                 </div>
 
-                {hasData && (
+                {roomSound.length > 0 && (
+                  <div className="mt-2 rounded-lg border border-slate-200 bg-white px-2.5 py-2">
+                    <div className="mb-1 flex items-center gap-1.5 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                      <Volume2 size={12} />
+                      {t("rooms.sound")}
+                    </div>
+                    <ul className="space-y-1 text-[11px] text-slate-700">
+                      {roomSound.map(({ def, value, tags }) => (
+                        <li
+                          key={def.key}
+                          className="flex items-baseline justify-between gap-2"
+                        >
+                          <span>{i18n.label(def.label)}</span>
+                          <span className="text-right">
+                            <span className="font-semibold text-slate-900">
+                              {formatMetric(def.key, value, unitSystem, 0, i18n.intlTag)}
+                            </span>{" "}
+                            <span className="text-slate-500">
+                              ·{" "}
+                              {i18n.label(
+                                metricBand(def.key, value, profileBands(profile, def.key))
+                                  .label
+                              )}
+                            </span>
+                            {tags.length > 0 && (
+                              <span className="block text-[10px] text-slate-400">
+                                {t("rooms.soundSource", {
+                                  source: tags
+                                    .map((tag) => i18n.label(NOISE_SOURCE_LABELS[tag]))
+                                    .join(", "),
+                                })}
+                              </span>
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {roomSeries.length > 0 && (
+                  <div className="mt-2 rounded-lg border border-slate-200 bg-white px-2.5 py-2">
+                    <div className="mb-1 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                      {t("rooms.logged")}
+                    </div>
+                    <div className="space-y-3">
+                      {roomSeries.map((s) => (
+                        <div key={s.id}>
+                          <div className="text-[11px] text-slate-700">
+                            {i18n.label(metricLabel(s.metric))}
+                          </div>
+                          <SeriesChart
+                            metric={s.metric}
+                            points={s.points}
+                            stats={seriesStats(
+                              s.points,
+                              s.metric,
+                              profileBands(profile, s.metric)
+                            )}
+                            unitSystem={unitSystem}
+                            locale={locale}
+                            height={110}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {roomMs.length > 0 && (
                   <div className="mt-2 overflow-hidden rounded-lg border border-slate-200 bg-slate-50/60">
                     <table className="min-w-full border-collapse text-[11px]">
                       <thead>
                         <tr className="bg-slate-100 text-left text-[10px] text-slate-500">
                           <th className="border-b border-slate-200 px-2 py-1">
-                            Metric
+                            {t("table.metric")}
                           </th>
                           <th className="border-b border-slate-200 px-2 py-1">
-                            Value
+                            {t("table.value")}
                           </th>
                           <th className="border-b border-slate-200 px-2 py-1">
-                            Unit
+                            {t("table.unit")}
                           </th>
                           <th className="border-b border-slate-200 px-2 py-1">
-                            Time
+                            {t("table.time")}
                           </th>
                         </tr>
                       </thead>
                       <tbody>
                         {roomMs.map((m) => {
-                          const t = m.taken_at || m.created_at;
-                          const timeLabel = t
-                            ? new Date(t).toLocaleTimeString([], {
-                                hour: "numeric",
-                                minute: "2-digit",
-                              })
-                            : "—";
+                          const takenAt = m.taken_at || m.created_at;
+                          const timeLabel = takenAt ? i18n.time(takenAt) : "—";
 
-                          const label = prettyMetricLabel(m.metric);
+                          const label = i18n.label(metricLabel(m.metric));
 
                           return (
                             <tr key={m.id} className="bg-white odd:bg-slate-50/80">
@@ -1653,10 +2736,15 @@ export default function ReportPage() {
                                 {label}
                               </td>
                               <td className="border-b border-slate-100 px-2 py-1">
-                                {m.value}
+                                {displayReading(m).value}
+                                {replicateSpread(m) && (
+                                  <div className="text-[10px] text-slate-400">
+                                    {replicateSpread(m)}
+                                  </div>
+                                )}
                               </td>
                               <td className="border-b border-slate-100 px-2 py-1">
-                                {m.unit || "—"}
+                                {displayReading(m).unit || "—"}
                               </td>
                               <td className="border-b border-slate-100 px-2 py-1 text-[10px] text-slate-500">
                                 {timeLabel}
@@ -1681,10 +2769,10 @@ export default function ReportPage() {
                 </div>
                 <div>
                   <div className="text-sm font-semibold text-slate-900">
-                    Whole-home / Unassigned
+                    {t("rooms.unassigned")}
                   </div>
                   <div className="text-[11px] text-slate-500">
-                    Measurements not tied to a specific room.
+                    {t("rooms.unassignedBody")}
                   </div>
                 </div>
               </div>
@@ -1694,30 +2782,25 @@ export default function ReportPage() {
                   <thead>
                     <tr className="bg-slate-100 text-left text-[10px] text-slate-500">
                       <th className="border-b border-slate-200 px-2 py-1">
-                        Metric
+                        {t("table.metric")}
                       </th>
                       <th className="border-b border-slate-200 px-2 py-1">
-                        Value
+                        {t("table.value")}
                       </th>
                       <th className="border-b border-slate-200 px-2 py-1">
-                        Unit
+                        {t("table.unit")}
                       </th>
                       <th className="border-b border-slate-200 px-2 py-1">
-                        Time
+                        {t("table.time")}
                       </th>
                     </tr>
                   </thead>
                   <tbody>
                     {unassignedMeasurements.map((m) => {
-                      const t = m.taken_at || m.created_at;
-                      const timeLabel = t
-                        ? new Date(t).toLocaleTimeString([], {
-                            hour: "numeric",
-                            minute: "2-digit",
-                          })
-                        : "—";
+                      const takenAt = m.taken_at || m.created_at;
+                      const timeLabel = takenAt ? i18n.time(takenAt) : "—";
 
-                      const label = prettyMetricLabel(m.metric);
+                      const label = i18n.label(metricLabel(m.metric));
 
                       return (
                         <tr key={m.id} className="bg-white odd:bg-slate-50/80">
@@ -1725,10 +2808,15 @@ export default function ReportPage() {
                             {label}
                           </td>
                           <td className="border-b border-slate-100 px-2 py-1">
-                            {m.value}
+                            {displayReading(m).value}
+                            {replicateSpread(m) && (
+                              <div className="text-[10px] text-slate-400">
+                                {replicateSpread(m)}
+                              </div>
+                            )}
                           </td>
                           <td className="border-b border-slate-100 px-2 py-1">
-                            {m.unit || "—"}
+                            {displayReading(m).unit || "—"}
                           </td>
                           <td className="border-b border-slate-100 px-2 py-1 text-[10px] text-slate-500">
                             {timeLabel}
@@ -1745,7 +2833,7 @@ export default function ReportPage() {
       </Section>
 
       {/* COMPARISON SECTION */}
-      <Section id="compare" label="Context" title="How your air compares">
+      <Section id="compare" label={t("compare.label")} title={t("compare.title")}>
         <div className="grid gap-6 md:grid-cols-3">
           {/* PM2.5 */}
           <Card>
@@ -1755,14 +2843,15 @@ export default function ReportPage() {
                   PM₂.₅
                 </div>
                 <p className="text-xs text-slate-500">
-                  Fine particulate comparison.
+                  {t("compare.pm25Body")}
                 </p>
               </div>
               <div className="text-xs text-slate-500">
-                Your reading:{" "}
+                {t("compare.yourReading")}{" "}
                 <span className="font-semibold text-slate-900">
-                  {M.PM25 ? `${M.PM25.toFixed(1)} µg/m³` : "—"}
+                  {formatReading(M.PM25, 1, "µg/m³")}
                 </span>
+                {ioRatioNote("PM25")}
               </div>
             </div>
             <div className="h-48">
@@ -1789,11 +2878,11 @@ export default function ReportPage() {
                   />
                   <Tooltip content={<CustomTooltip unit="µg/m³" />} />
                   <ReferenceLine
-                    y={HOUSTON_REFERENCES.pm25Benchmark}
+                    y={SASO_BENCHMARKS.pm25Benchmark}
                     stroke="#22c55e"
                     strokeDasharray="4 4"
                     label={{
-                      value: "SaSo Target",
+                      value: t("compare.target"),
                       position: "top",
                       fontSize: 10,
                       fill: "#16a34a",
@@ -1817,14 +2906,15 @@ export default function ReportPage() {
                   PM₁₀
                 </div>
                 <p className="text-xs text-slate-500">
-                  Coarse particulate comparison.
+                  {t("compare.pm10Body")}
                 </p>
               </div>
               <div className="text-xs text-slate-500">
-                Your reading:{" "}
+                {t("compare.yourReading")}{" "}
                 <span className="font-semibold text-slate-900">
-                  {M.PM10 ? `${M.PM10.toFixed(1)} µg/m³` : "—"}
+                  {formatReading(M.PM10, 1, "µg/m³")}
                 </span>
+                {ioRatioNote("PM10")}
               </div>
             </div>
             <div className="h-48">
@@ -1851,11 +2941,11 @@ export default function ReportPage() {
                   />
                   <Tooltip content={<CustomTooltip unit="µg/m³" />} />
                   <ReferenceLine
-                    y={HOUSTON_REFERENCES.pm10Benchmark}
+                    y={SASO_BENCHMARKS.pm10Benchmark}
                     stroke="#22c55e"
                     strokeDasharray="4 4"
                     label={{
-                      value: "SaSo Target",
+                      value: t("compare.target"),
                       position: "top",
                       fontSize: 10,
                       fill: "#16a34a",
@@ -1879,13 +2969,13 @@ export default function ReportPage() {
                   CO₂
                 </div>
                 <p className="text-xs text-slate-500">
-                  Indoor CO₂ vs. typical conditions.
+                  {t("compare.co2Body")}
                 </p>
               </div>
               <div className="text-xs text-slate-500">
-                Your reading:{" "}
+                {t("compare.yourReading")}{" "}
                 <span className="font-semibold text-slate-900">
-                  {M.CO2 ? `${M.CO2.toFixed(0)} ppm` : "—"}
+                  {formatReading(M.CO2, 0, "ppm")}
                 </span>
               </div>
             </div>
@@ -1913,11 +3003,11 @@ export default function ReportPage() {
                   />
                   <Tooltip content={<CustomTooltip unit="ppm" />} />
                   <ReferenceLine
-                    y={HOUSTON_REFERENCES.co2Benchmark}
+                    y={SASO_BENCHMARKS.co2Benchmark}
                     stroke="#22c55e"
                     strokeDasharray="4 4"
                     label={{
-                      value: "SaSo Target",
+                      value: t("compare.target"),
                       position: "top",
                       fontSize: 10,
                       fill: "#16a34a",
@@ -1933,20 +3023,97 @@ export default function ReportPage() {
             </div>
           </Card>
         </div>
+        <p className="mt-4 text-[11px] text-slate-500">
+          {REFERENCE_KEYS.every((k) => references[k]?.scope === "national")
+            ? `${t("compare.national")} `
+            : null}
+          {t("compare.baselines")}{" "}
+          {REFERENCE_KEYS.map((k) => {
+            const ref = references[k];
+            const label =
+              k === "pm25Avg" ? "PM₂.₅" : k === "pm10Avg" ? "PM₁₀" : "CO₂";
+            return ref
+              ? `${label} – ${ref.region}${
+                  ref.season ? ` (${i18n.label(ref.season)})` : ""
+                }${ref.source ? `, ${ref.source}` : ""}`
+              : `${label} – ${t("compare.noneAvailable")}`;
+          }).join(" · ")}
+          .
+        </p>
       </Section>
 
       {/* ACTION SECTION */}
-      <Section id="action" label="Next Steps" title="Your prioritized mitigation plan">
+      <Section id="action" label={t("action.label")} title={t("action.title")}>
+        <Card className="mb-6">
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
+                {t("findings.label")}
+              </div>
+              <h3 className="mt-1 text-sm font-semibold text-slate-900">
+                {t("findings.title")}
+              </h3>
+            </div>
+            <div className="flex gap-1 text-[11px]">
+              {(["low", "high"] as Severity[]).map((min) => (
+                <button
+                  key={min}
+                  type="button"
+                  onClick={() => setFindingsMin(min)}
+                  className={`rounded-full border px-2 py-0.5 font-medium ${
+                    findingsMin === min
+                      ? "border-slate-900 bg-slate-900 text-white"
+                      : "border-slate-200 bg-white text-slate-600"
+                  }`}
+                >
+                  {min === "high" ? t("findings.highOnly") : t("findings.all")}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {findings.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              {findingsMin === "high"
+                ? t("findings.noneHigh")
+                : t("findings.none")}
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-100 text-sm">
+              {findings.map((f, i) => (
+                <li
+                  key={`${f.key}-${i}`}
+                  className="flex items-center justify-between gap-3 py-2"
+                >
+                  <div>
+                    <span className="text-slate-800">{i18n.finding(f)}</span>
+                    {roomName(f.roomId) && (
+                      <span className="ml-2 text-[11px] text-slate-500">
+                        {roomName(f.roomId)}
+                      </span>
+                    )}
+                  </div>
+                  <span
+                    className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-semibold ${SEVERITY_STYLES[f.severity]}`}
+                  >
+                    {i18n.label(SEVERITY_LABELS[f.severity])}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
         <div className="grid gap-6 md:grid-cols-[minmax(0,2.5fr)_minmax(0,2fr)]">
           {/* Left: Narrative plan */}
           <Card>
             <div className="mb-3 flex items-center justify-between">
               <div>
                 <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
-                  Personalized Roadmap
+                  {t("roadmap.label")}
                 </div>
                 <h3 className="mt-1 text-sm font-semibold text-slate-900">
-                  What we recommend for this home, in this order
+                  {t("roadmap.title")}
                 </h3>
               </div>
             </div>
@@ -1954,86 +3121,60 @@ export default function ReportPage() {
             <ol className="mt-3 space-y-3 text-sm text-slate-700">
               <li>
                 <div className="font-semibold text-slate-900">
-                  1. Stabilize daily air quality
+                  {t("roadmap.step1")}
                 </div>
-                <p className="mt-1">
-                  Focus first on the rooms where your household spends the most
-                  time: bedrooms, living room, and home office (if applicable).
-                  Based on your current readings, we recommend:
-                </p>
+                <p className="mt-1">{t("roadmap.step1Body")}</p>
                 <ul className="mt-1 list-disc space-y-1 pl-4">
                   <li>
-                    Run a <strong>HEPA purifier</strong> in the bedroom
-                    overnight and living area during use.
+                    <RichText text={t("roadmap.step1Item1")} strongClassName="font-bold" />
                   </li>
                   <li>
-                    Use your kitchen exhaust fan whenever cooking, especially
-                    when searing or using gas.
+                    <RichText text={t("roadmap.step1Item2")} strongClassName="font-bold" />
                   </li>
                   <li>
-                    Periodically open windows or use mechanical ventilation when
-                    outdoor air quality is good.
+                    <RichText text={t("roadmap.step1Item3")} strongClassName="font-bold" />
                   </li>
                 </ul>
               </li>
 
               <li>
                 <div className="font-semibold text-slate-900">
-                  2. Tighten up water quality at points of use
+                  {t("roadmap.step2")}
                 </div>
-                <p className="mt-1">
-                  Even when municipal water is &quot;in spec,&quot; many
-                  households prefer to reduce TDS and chlorine for taste and
-                  skin comfort. For this home, the highest-impact upgrades would
-                  be:
-                </p>
+                <p className="mt-1">{t("roadmap.step2Body")}</p>
                 <ul className="mt-1 list-disc space-y-1 pl-4">
                   <li>
-                    Install a <strong>point-of-use carbon filter</strong> on the
-                    primary drinking/cooking tap.
+                    <RichText text={t("roadmap.step2Item1")} strongClassName="font-bold" />
                   </li>
                   <li>
-                    Consider a <strong>shower filter</strong> for the most
-                    frequently used bathroom to reduce chlorine exposure.
+                    <RichText text={t("roadmap.step2Item2")} strongClassName="font-bold" />
                   </li>
                 </ul>
               </li>
 
               <li>
                 <div className="font-semibold text-slate-900">
-                  3. Optimize &quot;Ether&quot; around sleep and focus
+                  {t("roadmap.step3")}
                 </div>
-                <p className="mt-1">
-                  We prioritize EMF/Ether improvements where your body is in one
-                  place for long periods: beds and desks. For this home, we
-                  recommend:
-                </p>
+                <p className="mt-1">{t("roadmap.step3Body")}</p>
                 <ul className="mt-1 list-disc space-y-1 pl-4">
                   <li>
-                    Move routers, cordless bases, and large electronics at least{" "}
-                    <strong>6–8 feet</strong> away from beds where feasible.
+                    <RichText text={t("roadmap.step3Item1")} strongClassName="font-bold" />
                   </li>
                   <li>
-                    Use &quot;airplane mode&quot; or a dedicated charging spot
-                    outside the bedroom overnight.
+                    <RichText text={t("roadmap.step3Item2")} strongClassName="font-bold" />
                   </li>
                   <li>
-                    Route power strips and chargers away from the head of the
-                    bed to reduce ELF electric and magnetic fields.
+                    <RichText text={t("roadmap.step3Item3")} strongClassName="font-bold" />
                   </li>
                 </ul>
               </li>
 
               <li>
                 <div className="font-semibold text-slate-900">
-                  4. Re-test after changes
+                  {t("roadmap.step4")}
                 </div>
-                <p className="mt-1">
-                  After implementing your top 1–3 changes, we recommend a
-                  follow-up measurement session to confirm the impact—especially
-                  for CO₂, PM₂.₅, and humidity. This also helps fine-tune any
-                  remaining issues rather than overcorrecting.
-                </p>
+                <p className="mt-1">{t("roadmap.step4Body")}</p>
               </li>
             </ol>
           </Card>
@@ -2043,10 +3184,10 @@ export default function ReportPage() {
             <div className="mb-3 flex items-center justify-between">
               <div>
                 <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
-                  Quick Actions
+                  {t("quick.label")}
                 </div>
                 <h3 className="mt-1 text-sm font-semibold text-slate-900">
-                  High-value moves in the next 30 days
+                  {t("quick.title")}
                 </h3>
               </div>
             </div>
@@ -2056,8 +3197,7 @@ export default function ReportPage() {
                   1
                 </span>
                 <span>
-                  Add a <strong>HEPA-grade air purifier</strong> to the
-                  most-used bedroom, and run it nightly on low or medium.
+                  <RichText text={t("quick.item1")} strongClassName="font-bold" />
                 </span>
               </li>
               <li className="flex gap-2">
@@ -2065,8 +3205,7 @@ export default function ReportPage() {
                   2
                 </span>
                 <span>
-                  Use <strong>kitchen exhaust</strong> every time you cook,
-                  especially for searing, roasting, or high heat.
+                  <RichText text={t("quick.item2")} strongClassName="font-bold" />
                 </span>
               </li>
               <li className="flex gap-2">
@@ -2074,8 +3213,7 @@ export default function ReportPage() {
                   3
                 </span>
                 <span>
-                  Install a <strong>carbon block filter</strong> on the main
-                  drinking tap to reduce chlorine and off-flavors.
+                  <RichText text={t("quick.item3")} strongClassName="font-bold" />
                 </span>
               </li>
               <li className="flex gap-2">
@@ -2083,8 +3221,7 @@ export default function ReportPage() {
                   4
                 </span>
                 <span>
-                  Move <strong>Wi-Fi routers</strong> and always-on electronics
-                  away from beds and work chairs when practical.
+                  <RichText text={t("quick.item4")} strongClassName="font-bold" />
                 </span>
               </li>
               <li className="flex gap-2">
@@ -2092,9 +3229,7 @@ export default function ReportPage() {
                   5
                 </span>
                 <span>
-                  Set a simple habit:{" "}
-                  <strong>10 minutes of fresh air</strong> (open windows or use
-                  ventilation) after cooking or gatherings.
+                  <RichText text={t("quick.item5")} strongClassName="font-bold" />
                 </span>
               </li>
             </ul>
@@ -2107,24 +3242,29 @@ export default function ReportPage() {
         <div className="mx-auto max-w-6xl px-4 py-8 text-sm text-slate-500">
           <div className="flex flex-col justify-between gap-4 md:flex-row md:items-center">
             <p>
-              © {new Date().getFullYear()} Sanctuary Solutions™ · Home Health
-              Engineers
+              © {new Date().getFullYear()} {t("report.footer")}
             </p>
             <div className="flex flex-wrap items-center gap-3">
               <a href="#snapshot" className="hover:text-slate-700">
-                Snapshot
+                {t("nav.snapshot")}
               </a>
               <a href="#expandables" className="hover:text-slate-700">
-                Metrics
+                {t("nav.metrics")}
+              </a>
+              <a href="#light" className="hover:text-slate-700">
+                {t("nav.light")}
+              </a>
+              <a href="#why" className="hover:text-slate-700">
+                {t("nav.why")}
               </a>
               <a href="#rooms" className="hover:text-slate-700">
-                Rooms
+                {t("nav.rooms")}
               </a>
               <a href="#compare" className="hover:text-slate-700">
-                Compare
+                {t("nav.compare")}
               </a>
               <a href="#action" className="hover:text-slate-700">
-                Action
+                {t("nav.action")}
               </a>
             </div>
           </div>
@@ -1,41 +1,102 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import { SaInput } from "@/components/SaInput";
-
-/* ============================================================
-   Metric Definitions
-   Pretty label (UI) → raw key (DB) → locked unit
-   ============================================================ */
-
-const metricOptions: Record<
-  "air" | "water" | "ether",
-  { key: string; label: string; unit: string }[]
-> = {
-  air: [
-    { key: "CO2", label: "CO₂", unit: "ppm" },
-    { key: "PM25", label: "PM₂.₅", unit: "µg/m³" },
-    { key: "PM10", label: "PM₁₀", unit: "µg/m³" },
-    { key: "VOCs", label: "VOCs", unit: "ppb" },
-    { key: "Humidity", label: "Humidity", unit: "%" },
-    { key: "Temp", label: "Temperature", unit: "°F" },
-  ],
-
-  water: [
-    { key: "TDS", label: "Total Dissolved Solids (TDS)", unit: "ppm" },
-    { key: "Cl", label: "Free Chlorine", unit: "ppm" },
-    { key: "pH", label: "pH", unit: "" },
-  ],
-
-  ether: [
-    { key: "MagField", label: "Magnetic Field (ELF)", unit: "mG" },
-    { key: "ElectricField", label: "Electric Field", unit: "V/m" },
-    { key: "RF", label: "Radiofrequency (RF)", unit: "mW/m²" },
-  ],
-};
+import { ScoreBreakdownPanel } from "@/components/ScoreBreakdownPanel";
+import { MeterImportPanel } from "@/components/MeterImportPanel";
+import { LoggerPanel } from "@/components/LoggerPanel";
+import { SyncStatusBadge } from "@/components/SyncStatusBadge";
+import {
+  CATEGORIES,
+  NOISE_SOURCES,
+  NOISE_SOURCE_LABELS,
+  PRESENCE_RESULTS,
+  PRESENCE_RESULT_LABELS,
+  RADON_TESTS,
+  RADON_TEST_LABELS,
+  STANDARDS,
+  WATER_SOURCE_LABELS,
+  getMetric,
+  inPlausibleRange,
+  isMetricKey,
+  isNoiseSource,
+  isPresenceResult,
+  isRadonTest,
+  isStandardKey,
+  metricLabel,
+  metricsByCategory,
+  presenceValue,
+  type CategoryKey,
+  type NoiseSource,
+  type PresenceResult,
+  type RadonTest,
+  type StandardKey,
+  type WaterSource,
+} from "@/lib/metrics";
+import { explainHome } from "@/lib/scoring";
+import { fromCanonical, metricUnits, toCanonical } from "@/lib/units";
+import type { ImportedReading } from "@/lib/meterImport";
+import {
+  saveSeries,
+  type LoggerSeries,
+  type ParsedChannel,
+} from "@/lib/loggers";
+import {
+  changedFields,
+  correctMeasurement,
+  deleteMeasurement,
+  isDeleted,
+  loadCorrections,
+  type CorrectableFields,
+  type MeasurementCorrection,
+} from "@/lib/corrections";
+import { DEFAULT_LOCALE, formatDateTime } from "@/lib/i18n";
+import {
+  newClientId,
+  queueDelete,
+  queueInsert,
+  queueUpdate,
+  subscribeSync,
+  workspaceRows,
+} from "@/lib/sync";
+import {
+  MAX_REPLICATES,
+  isReplicateGroup,
+  parseReplicates,
+  replicateStats,
+  type ReplicateStats,
+} from "@/lib/replicates";
+import {
+  AGGREGATION_STRATEGIES,
+  aggregateOutdoor,
+  aggregateReadings,
+  aggregateSleepingArea,
+  readingSources,
+  readingValues,
+  type MeasurementLocation,
+} from "@/lib/scoring/aggregate";
+import {
+  currentProfileId,
+  getProfile,
+  profileLabel,
+} from "@/lib/scoring/profiles";
+import { loadPublishedProfiles } from "@/lib/scoring/profileStore";
+import { safetyAlerts } from "@/lib/scoring/safety";
+import { seriesPeaks, seriesReadings } from "@/lib/scoring/series";
+import { renderFinding } from "@/lib/scoring/findings";
+import {
+  SENSITIVITY_LABELS,
+  applyOccupants,
+  householdSensitivities,
+} from "@/lib/scoring/occupants";
+import {
+  GUIDELINE_STANDARDS,
+  applyStandard,
+  getStandard,
+} from "@/lib/scoring/standards";
 
 /* ============================================================
    Types
@@ -49,10 +110,14 @@ type Property = {
   zip: string | null;
   sqft: number | null;
   year_built: number | null;
+  water_source: WaterSource | null;
+  guideline_standard: StandardKey | null;
   primary_contact_email: string | null;
   occupants_adults: number | null;
   occupants_children: number | null;
   occupants_animals: number | null;
+  occupants_allergies: boolean | null;
+  occupants_asthma: boolean | null;
   created_at: string;
 };
 
@@ -61,22 +126,157 @@ type Room = {
   name: string;
   type: string | null;
   order_index: number | null;
+  area_sqft: number | null;
   property_id: string;
   created_at: string;
 };
 
+// Room-select value for outdoor baseline readings
+const OUTDOOR = "outdoor";
+
 type Measurement = {
   id: string;
   property_id: string;
-  room_id: string;
+  room_id: string | null; // null for outdoor readings
+  location: MeasurementLocation | null; // outdoor baseline (v1.11+)
   category: string;
   metric: string;
-  value: number;
+  value: number; // canonical unit
   unit: string;
+  raw_value: number | null; // as read on the instrument
+  raw_unit: string | null;
+  noise_source: NoiseSource | null; // sound readings only
+  radon_test: RadonTest | null; // radon readings only
+  sleeping_area: boolean | null; // stricter ether bands (v1.10+)
+  result: PresenceResult | null; // presence metrics only; value is 1 / 0
   notes: string | null;
+  replicates: number[] | null; // replicate group (lib/replicates.ts)
+  replicate_accepted: number | null;
   taken_at: string;
+  deleted_at: string | null; // soft delete (lib/corrections.ts)
 };
 
+// An open edit or delete on one log row
+type CorrectionDraft = {
+  id: string;
+  mode: "edit" | "delete";
+  value: string; // comma-separated for replicate groups
+  accepted: string; // replicate index, "" for the mean
+  unit: string;
+  notes: string;
+  reason: string;
+};
+
+// A reading as entered: the instrument value in its unit, or a
+// presence result, converted to the metric's canonical unit
+function parseReading(
+  metric: string,
+  input: string,
+  unit: string
+):
+  | { value: number; rawValue: number; result: PresenceResult | null }
+  | { error: string }
+  | null {
+  const def = getMetric(metric);
+  if (!def) return null;
+
+  // Presence results are stored as 1 / 0 next to the result itself
+  const result =
+    def.resultType === "presence" && isPresenceResult(input) ? input : null;
+  if (def.resultType === "presence" && !result) return null;
+
+  // Keep the instrument's reading; score and range-check the canonical value
+  const rawValue = result ? presenceValue(result) : parseFloat(input);
+  const value = Number(toCanonical(def.key, rawValue, unit).toPrecision(6));
+
+  if (!Number.isFinite(value) || !inPlausibleRange(def.key, value)) {
+    return {
+      error:
+        `${def.label} must be between ${def.range.min} and ${def.range.max} ${def.unit}`.trim(),
+    };
+  }
+  return { value, rawValue, result };
+}
+
+// Replicate-group value picker: "" is the mean
+const acceptedIndex = (choice: string) => (choice === "" ? null : Number(choice));
+
+// A replicate group as entered: every value checked like a single
+// reading; the stored value is the accepted one or the mean
+function parseReplicateGroup(
+  metric: string,
+  input: string,
+  unit: string,
+  accepted: number | null
+):
+  | {
+      value: number;
+      rawValue: number;
+      result: null;
+      replicates: number[];
+      accepted: number | null;
+      raw: number[];
+      rawStats: ReplicateStats; // in the entered unit, for the form
+    }
+  | { error: string }
+  | null {
+  const def = getMetric(metric);
+  if (!def) return null;
+
+  const raw = parseReplicates(input);
+  if (!raw) {
+    return { error: `Enter 2–${MAX_REPLICATES} readings separated by commas` };
+  }
+
+  const replicates: number[] = [];
+  for (const r of raw) {
+    const reading = parseReading(metric, String(r), unit);
+    if (!reading || "error" in reading) return reading;
+    replicates.push(reading.value);
+  }
+
+  const stats = replicateStats(replicates, accepted)!;
+  const rawStats = replicateStats(raw, accepted)!;
+  return {
+    value: Number(stats.value.toPrecision(6)),
+    rawValue:
+      stats.accepted !== null
+        ? raw[stats.accepted]
+        : Number(fromCanonical(def.key, stats.value, unit).toPrecision(6)),
+    result: null,
+    replicates,
+    accepted: stats.accepted,
+    raw,
+    rawStats,
+  };
+}
+
+// "n=3 · SD 12 ppm · CV 1.4% · mean without 1 outlier", in the unit
+// the readings were taken in, as shown when they were entered
+function replicateSummary(m: Measurement): string {
+  const key = getMetric(m.metric)?.key;
+  if (!key || !isReplicateGroup(m)) return "";
+  const unit = m.raw_unit ?? m.unit;
+  const stats = replicateStats(
+    m.replicates.map((v) => fromCanonical(key, v, unit)),
+    m.replicate_accepted
+  );
+  if (!stats) return "";
+  const round = (v: number) => Number(v.toPrecision(3));
+  return [
+    `n=${stats.n}`,
+    `SD ${round(stats.sd)} ${unit}`.trim(),
+    stats.cv !== null ? `CV ${round(stats.cv * 100)}%` : null,
+    stats.accepted !== null
+      ? `reading ${stats.accepted + 1} accepted`
+      : stats.outliers.length > 0
+      ? `mean without ${stats.outliers.length} outlier${stats.outliers.length > 1 ? "s" : ""}`
+      : "mean",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
 /* ============================================================
    Component
    ============================================================ */
@@ -88,18 +288,39 @@ export default function PropertyDetail() {
   const [property, setProperty] = useState<Property | null>(null);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [series, setSeries] = useState<LoggerSeries[]>([]);
   const [loading, setLoading] = useState(true);
   const [toast, setToast] = useState<string | null>(null);
 
+  const [breakdownCategory, setBreakdownCategory] =
+    useState<CategoryKey>("air");
+
   const [newRoom, setNewRoom] = useState("");
+  const [newRoomArea, setNewRoomArea] = useState("");
   const [addingRoom, setAddingRoom] = useState(false);
 
+  // Corrections to logged readings (lib/corrections.ts)
+  const [corrections, setCorrections] = useState<MeasurementCorrection[]>([]);
+  const [draft, setDraft] = useState<CorrectionDraft | null>(null);
+  const [correctedBy, setCorrectedBy] = useState("");
+  const [savingCorrection, setSavingCorrection] = useState(false);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  // Rows with a write still queued for Supabase (lib/sync.ts)
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [conflictCount, setConflictCount] = useState(0);
+
   const [form, setForm] = useState({
     room_id: "",
-    category: "air",
-    metric: metricOptions.air[0].key,
-    unit: metricOptions.air[0].unit,
+    category: "air" as CategoryKey,
+    metric: metricsByCategory("air")[0].key as string,
+    unit: metricsByCategory("air")[0].unit,
     value: "",
+    noise_source: "" as NoiseSource | "",
+    radon_test: "short" as RadonTest,
+    sleeping_area: false,
+    replicates: false, // several readings in one entry
+    accepted: "",
     notes: "",
   });
 
@@ -116,29 +337,55 @@ export default function PropertyDetail() {
     fetchAll();
   }, [propertyId]);
 
+  useEffect(
+    () =>
+      subscribeSync((sync) => {
+        setPendingIds(new Set(sync.pendingIds));
+        setConflictCount(sync.conflicts.length);
+      }),
+    []
+  );
+
+  // A rejected write was rolled back in the offline copy; reload it
+  useEffect(() => {
+    if (conflictCount > 0) fetchAll();
+  }, [conflictCount]);
+
   async function fetchAll() {
     setLoading(true);
 
-    const { data: prop } = await supabase
-      .from("property")
-      .select("*")
-      .eq("id", propertyId)
-      .single();
-    setProperty(prop || null);
-
-    const { data: rms } = await supabase
-      .from("room")
-      .select("*")
-      .eq("property_id", propertyId)
-      .order("order_index", { ascending: true });
-    setRooms(rms || []);
-
-    const { data: ms } = await supabase
-      .from("measurement")
-      .select("*")
-      .eq("property_id", propertyId)
-      .order("taken_at", { ascending: false });
-    setMeasurements(ms || []);
+    // Score with the current profile, including ones published at runtime
+    await loadPublishedProfiles();
+
+    // Read through the offline copy, so the session opens without signal
+    const [prop] = await workspaceRows<Property>(
+      "property",
+      propertyId,
+      supabase.from("property").select("*").eq("id", propertyId)
+    );
+    setProperty(prop ?? null);
+
+    const rms = await workspaceRows<Room>(
+      "room",
+      propertyId,
+      supabase.from("room").select("*").eq("property_id", propertyId)
+    );
+    setRooms(rms.sort((a, b) => (a.order_index ?? 0) - (b.order_index ?? 0)));
+
+    const ms = await workspaceRows<Measurement>(
+      "measurement",
+      propertyId,
+      supabase.from("measurement").select("*").eq("property_id", propertyId)
+    );
+    setMeasurements(ms.sort((a, b) => b.taken_at.localeCompare(a.taken_at)));
+
+    setCorrections(await loadCorrections(propertyId));
+    const srs = await workspaceRows<LoggerSeries>(
+      "logger_series",
+      propertyId,
+      supabase.from("logger_series").select("*").eq("property_id", propertyId)
+    );
+    setSeries(srs.sort((a, b) => a.started_at.localeCompare(b.started_at)));
 
     setLoading(false);
   }
@@ -153,57 +400,86 @@ export default function PropertyDetail() {
 
     setAddingRoom(true);
 
-    const { data, error } = await supabase
-      .from("room")
-      .insert({
-        property_id: propertyId,
-        name: newRoom.trim(),
-        type: "other",
-        order_index: rooms.length,
-      })
-      .select("*")
-      .single();
-
-    if (!error && data) {
-      setRooms((prev) => [...prev, data]);
+    // Saved locally and queued; the client id makes the replay idempotent
+    const room: Room = {
+      id: newClientId(),
+      property_id: propertyId,
+      name: newRoom.trim(),
+      type: "other",
+      order_index: rooms.length,
+      // Optional; used by area-weighted scoring profiles
+      area_sqft: newRoomArea.trim() ? Number(newRoomArea) : null,
+      created_at: new Date().toISOString(),
+    };
+
+    try {
+      await queueInsert("room", [room]);
+      setRooms((prev) => [...prev, room]);
       showToast("Room added.");
       setNewRoom("");
+      setNewRoomArea("");
+    } catch (err) {
+      console.error("Room save error:", err);
+      showToast("Error adding room");
     }
 
     setAddingRoom(false);
   }
 
+  // The standard the client report is evaluated against
+  async function handleStandardChange(next: StandardKey) {
+    if (!property) return;
+
+    try {
+      await queueUpdate(
+        "property",
+        propertyId,
+        { guideline_standard: next },
+        { guideline_standard: property.guideline_standard }
+      );
+    } catch (err) {
+      console.error("Standard save error:", err);
+      showToast("Error changing the standard");
+      return;
+    }
+    setProperty((prev) => (prev ? { ...prev, guideline_standard: next } : prev));
+    showToast(`Evaluating against ${GUIDELINE_STANDARDS[next].label}.`);
+  }
+
   async function handleDeleteRoom(id: string) {
     if (!confirm("Delete this room?")) return;
 
-    const { error } = await supabase.from("room").delete().eq("id", id);
-    if (!error) {
-      setRooms((prev) => prev.filter((r) => r.id !== id));
-      showToast("Room deleted.");
+    try {
+      await queueDelete("room", id);
+    } catch (err) {
+      console.error("Room delete error:", err);
+      showToast("Error deleting room");
+      return;
     }
+    setRooms((prev) => prev.filter((r) => r.id !== id));
+    showToast("Room deleted.");
   }
 
   /* ============================================================
      Measurement Logic
      ============================================================ */
 
-  function handleCategoryChange(newCat: "air" | "water" | "ether") {
-    const defaultMetric = metricOptions[newCat][0];
+  function handleCategoryChange(newCat: CategoryKey) {
+    const defaultMetric = metricsByCategory(newCat)[0];
 
     setForm((prev) => ({
       ...prev,
       category: newCat,
       metric: defaultMetric.key,
       unit: defaultMetric.unit,
+      noise_source: "",
+      replicates: defaultMetric.resultType === "presence" ? false : prev.replicates,
+      accepted: "",
     }));
   }
 
   function handleMetricChange(newKey: string) {
-    const selected = [
-      ...metricOptions.air,
-      ...metricOptions.water,
-      ...metricOptions.ether,
-    ].find((m) => m.key === newKey);
+    const selected = getMetric(newKey);
 
     if (!selected) return;
 
@@ -211,6 +487,13 @@ export default function PropertyDetail() {
       ...prev,
       metric: selected.key,
       unit: selected.unit,
+      // A number and a detected / not-detected result don't carry over
+      value:
+        getMetric(prev.metric)?.resultType === selected.resultType
+          ? prev.value
+          : "",
+      replicates: selected.resultType === "presence" ? false : prev.replicates,
+      accepted: "",
     }));
   }
 
@@ -219,35 +502,275 @@ export default function PropertyDetail() {
 
     if (!form.room_id || !form.metric || !form.value) return;
 
-    const payload = {
+    const def = getMetric(form.metric);
+    const group =
+      form.replicates && def?.resultType !== "presence"
+        ? parseReplicateGroup(form.metric, form.value, form.unit, acceptedIndex(form.accepted))
+        : null;
+    const reading = group ?? parseReading(form.metric, form.value, form.unit);
+    if (!def || !reading) return;
+    if ("error" in reading) {
+      showToast(reading.error);
+      return;
+    }
+    const { value, rawValue, result } = reading;
+
+    const row: Measurement = {
+      id: newClientId(),
       property_id: propertyId,
-      room_id: form.room_id,
+      // The "outdoor" choice is a location, not a room
+      room_id: form.room_id === OUTDOOR ? null : form.room_id,
+      location: form.room_id === OUTDOOR ? "outdoor" : "indoor",
       category: form.category,
       metric: form.metric,
-      value: parseFloat(form.value),
-      unit: form.unit, // always locked
+      value,
+      unit: def.unit,
+      raw_value: rawValue,
+      raw_unit: form.unit,
+      noise_source:
+        form.category === "sound" && form.noise_source ? form.noise_source : null,
+      radon_test: form.metric === "Radon" ? form.radon_test : null,
+      sleeping_area: form.category === "ether" && form.sleeping_area,
+      result,
       notes: form.notes || null,
+      replicates: group && !("error" in group) ? group.replicates : null,
+      replicate_accepted: group && !("error" in group) ? group.accepted : null,
+      taken_at: new Date().toISOString(),
+      deleted_at: null,
     };
 
-    const { data, error } = await supabase
-      .from("measurement")
-      .insert(payload)
-      .select("*")
-      .single();
-
-    if (error) {
-      console.error("Insert error:", error);
+    try {
+      await queueInsert("measurement", [row]);
+    } catch (err) {
+      console.error("Insert error:", err);
       showToast("Error adding measurement");
       return;
     }
 
-    if (data) {
-      setMeasurements((prev) => [data, ...prev]);
-      showToast("Measurement added.");
-      setForm((prev) => ({ ...prev, value: "", notes: "" }));
+    setMeasurements((prev) => [row, ...prev]);
+    showToast("Measurement added.");
+    setForm((prev) => ({ ...prev, value: "", accepted: "", notes: "" }));
+  }
+
+  // Validated rows from a meter's CSV export (components/MeterImportPanel)
+  async function handleImportReadings(rows: ImportedReading[]) {
+    const importedAt = new Date().toISOString();
+    const payload: Measurement[] = rows.map(({ row: _row, taken_at, ...reading }) => ({
+      ...reading,
+      id: newClientId(),
+      property_id: propertyId,
+      noise_source: null,
+      radon_test: null,
+      sleeping_area: null,
+      notes: null,
+      replicates: null,
+      replicate_accepted: null,
+      // Rows without a timestamp take the import time
+      taken_at: taken_at ?? importedAt,
+      deleted_at: null,
+    }));
+
+    try {
+      await queueInsert("measurement", payload);
+    } catch (err) {
+      console.error("Import error:", err);
+      showToast("Error importing readings");
+      return false;
+    }
+
+    setMeasurements((prev) =>
+      [...payload, ...prev].sort((a, b) => b.taken_at.localeCompare(a.taken_at))
+    );
+    showToast(`${rows.length} readings imported.`);
+    return true;
+  }
+
+  // Continuous logger runs, one series per metric column
+  async function handleSaveSeries(
+    channels: ParsedChannel[],
+    room: { room_id: string | null; location: "indoor" | "outdoor" },
+    source: string | null
+  ) {
+    const saved = await saveSeries(propertyId, channels, room, source);
+    if (!saved) {
+      showToast("Error saving logger series");
+      return false;
+    }
+
+    setSeries((prev) => [...prev, ...saved]);
+    showToast(`${saved.length} series saved.`);
+    return true;
+  }
+
+  /* ============================================================
+     Corrections (edit / soft delete with history)
+     ============================================================ */
+
+  function openDraft(m: Measurement, mode: CorrectionDraft["mode"]) {
+    setHistoryFor(null);
+    const unit = m.raw_unit ?? m.unit;
+    const key = getMetric(m.metric)?.key;
+    setDraft({
+      id: m.id,
+      mode,
+      // Replicates are stored canonical; edit them as read
+      value:
+        isReplicateGroup(m) && key
+          ? m.replicates
+              .map((v) => Number(fromCanonical(key, v, unit).toPrecision(6)))
+              .join(", ")
+          : m.result ?? String(m.raw_value ?? m.value),
+      accepted: m.replicate_accepted === null ? "" : String(m.replicate_accepted),
+      unit,
+      notes: m.notes ?? "",
+      reason: "",
+    });
+  }
+
+  async function handleSaveCorrection(e: React.FormEvent) {
+    e.preventDefault();
+    if (!draft) return;
+
+    const m = measurements.find((row) => row.id === draft.id);
+    if (!m) return;
+
+    const author = { by: correctedBy, reason: draft.reason };
+    let outcome;
+
+    if (draft.mode === "delete") {
+      setSavingCorrection(true);
+      outcome = await deleteMeasurement(m, author);
+    } else {
+      const group = isReplicateGroup(m)
+        ? parseReplicateGroup(m.metric, draft.value, draft.unit, acceptedIndex(draft.accepted))
+        : null;
+      const reading = group ?? parseReading(m.metric, draft.value, draft.unit);
+      if (!reading) return;
+      if ("error" in reading) {
+        showToast(reading.error);
+        return;
+      }
+
+      const after: CorrectableFields = {
+        value: reading.value,
+        raw_value: reading.rawValue,
+        raw_unit: draft.unit,
+        result: reading.result,
+        notes: draft.notes.trim() || null,
+        replicates: group && !("error" in group) ? group.replicates : null,
+        replicate_accepted: group && !("error" in group) ? group.accepted : null,
+      };
+      setSavingCorrection(true);
+      outcome = await correctMeasurement(m, after, author);
+    }
+
+    setSavingCorrection(false);
+
+    if (!outcome.ok) {
+      showToast(outcome.error);
+      return;
+    }
+
+    // Both writes are queued; the offline copy already has them
+    const { measurement, correction } = outcome;
+    setMeasurements((prev) =>
+      prev.map((row) => (row.id === measurement.id ? measurement : row))
+    );
+    setCorrections((prev) => [correction, ...prev]);
+    setDraft(null);
+    showToast(draft.mode === "delete" ? "Reading deleted." : "Reading corrected.");
+  }
+
+  // "Value 8500 → 850 ppm", "Notes changed", or "Deleted"
+  function describeCorrection(c: MeasurementCorrection, unit: string): string {
+    if (c.action === "delete" || !c.after) return "Deleted";
+
+    const shown = (f: CorrectableFields) =>
+      f.result
+        ? PRESENCE_RESULT_LABELS[f.result as PresenceResult] ?? f.result
+        : `${f.raw_value ?? f.value} ${f.raw_unit ?? unit}`.trim();
+
+    const fields = changedFields(c.before, c.after);
+    const parts: string[] = [];
+    if (fields.some((k) => k !== "notes")) {
+      parts.push(`Value ${shown(c.before)} → ${shown(c.after)}`);
     }
+    if (fields.includes("notes")) parts.push("Notes changed");
+    return parts.join(" · ");
   }
 
+  const correctionsFor = (id: string) =>
+    corrections.filter((c) => c.measurement_id === id);
+
+  // Canonical value for a non-canonical entry, e.g. "71.6 °F"
+  const convertedPreview = (() => {
+    const def = getMetric(form.metric);
+    const raw = parseFloat(form.value);
+    if (!def || form.replicates || form.unit === def.unit || !Number.isFinite(raw)) {
+      return null;
+    }
+    const value = toCanonical(def.key, raw, form.unit);
+    return `${Number(value.toPrecision(4))} ${def.unit}`;
+  })();
+
+  // Live stats for a replicate group, in the entered unit
+  const replicatePreview =
+    form.replicates && form.value.trim()
+      ? parseReplicateGroup(form.metric, form.value, form.unit, acceptedIndex(form.accepted))
+      : null;
+
+  /* ============================================================
+     Live score breakdown (current profile)
+     ============================================================ */
+
+  const { profile, adjustments } = useMemo(
+    () =>
+      applyOccupants(
+        applyStandard(
+          getProfile(currentProfileId()),
+          property?.guideline_standard
+        ),
+        property
+      ),
+    [property]
+  );
+
+  // Deleted readings stay in the log but are superseded
+  const activeMeasurements = useMemo(
+    () => measurements.filter((m) => !isDeleted(m)),
+    [measurements]
+  );
+
+  // Logger series count as one reading each, at the profile's statistic
+  const scoredRows = useMemo(
+    () => [...activeMeasurements, ...seriesReadings(series, profile)],
+    [activeMeasurements, series, profile]
+  );
+
+  const breakdown = useMemo(() => {
+    const readings = aggregateReadings(scoredRows, rooms, profile);
+    return explainHome(
+      readingValues(readings),
+      profile,
+      readingSources(readings),
+      {
+        sleeping: aggregateSleepingArea(scoredRows, profile),
+        outdoor: aggregateOutdoor(scoredRows),
+        series,
+      }
+    );
+  }, [scoredRows, series, rooms, profile]);
+
+  const roomName = (roomId: string | null) =>
+    rooms.find((r) => r.id === roomId)?.name ?? null;
+
+  // Readings at a safety limit, flagged while still on site;
+  // logger series at their peak
+  const alerts = useMemo(
+    () => safetyAlerts([...activeMeasurements, ...seriesPeaks(series)]),
+    [activeMeasurements, series]
+  );
+
   /* ============================================================
      Render
      ============================================================ */
@@ -294,6 +817,8 @@ export default function PropertyDetail() {
               Client Report
             </Link>
           </nav>
+
+          <SyncStatusBadge />
         </div>
       </header>
 
@@ -306,6 +831,12 @@ export default function PropertyDetail() {
           </div>
           <h1 className="text-2xl font-semibold mt-1">{addressLine}</h1>
           <p className="text-sm text-slate-500">{cityLine}</p>
+          <p className="text-xs text-slate-400 mt-0.5">
+            {property.year_built ? `Built ${property.year_built} · ` : ""}
+            {property.water_source
+              ? WATER_SOURCE_LABELS[property.water_source]
+              : "Water source not recorded"}
+          </p>
         </div>
 
         {/* Two-column layout */}
@@ -332,6 +863,13 @@ export default function PropertyDetail() {
                   onChange={setNewRoom}
                   className="flex-1"
                 />
+                <SaInput
+                  demo="Area (sq ft)"
+                  type="number"
+                  value={newRoomArea}
+                  onChange={setNewRoomArea}
+                  className="sm:w-32"
+                />
 
                 <button
                   type="submit"
@@ -348,7 +886,19 @@ export default function PropertyDetail() {
                     key={room.id}
                     className="flex items-center justify-between bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm shadow-sm hover:bg-blue-50/50 hover:border-blue-100"
                   >
-                    <span>{room.name}</span>
+                    <span>
+                      {room.name}
+                      {room.area_sqft != null && (
+                        <span className="ml-1 text-[11px] text-slate-400">
+                          {room.area_sqft} sq ft
+                        </span>
+                      )}
+                      {pendingIds.has(room.id) && (
+                        <span className="ml-1 text-[10px] text-amber-600">
+                          not synced
+                        </span>
+                      )}
+                    </span>
                     <button
                       onClick={() => handleDeleteRoom(room.id)}
                       className="text-slate-400 hover:text-rose-600 text-xs"
@@ -373,7 +923,7 @@ export default function PropertyDetail() {
 
               {/* Category Tabs */}
               <div className="inline-flex mb-4 rounded-full border border-slate-200 bg-slate-50 p-0.5 text-[11px]">
-                {(["air", "water", "ether"] as const).map((cat) => (
+                {CATEGORIES.map((cat) => (
                   <button
                     key={cat}
                     type="button"
@@ -411,6 +961,7 @@ export default function PropertyDetail() {
                         {r.name}
                       </option>
                     ))}
+                    <option value={OUTDOOR}>Outdoor (baseline)</option>
                   </select>
                 </div>
 
@@ -425,43 +976,246 @@ export default function PropertyDetail() {
                     onChange={(e) => handleMetricChange(e.target.value)}
                     className="w-full border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm text-sm"
                   >
-                    {metricOptions[form.category as "air" | "water" | "ether"].map(
-                      (m) => (
-                        <option key={m.key} value={m.key}>
-                          {m.label}
-                        </option>
-                      )
-                    )}
+                    {metricsByCategory(form.category).map((m) => (
+                      <option key={m.key} value={m.key}>
+                        {m.label}
+                      </option>
+                    ))}
                   </select>
                 </div>
 
                 {/* Value */}
                 <div>
-                  <label className="text-xs font-medium text-slate-700 block mb-1">
-                    Value
-                  </label>
-                  <SaInput
-                    demo=""
-                    type="number"
-                    value={form.value}
-                    onChange={(v) =>
-                      setForm((prev) => ({ ...prev, value: v }))
-                    }
-                  />
+                  <div className="mb-1 flex items-center justify-between">
+                    <label className="text-xs font-medium text-slate-700">
+                      {form.replicates ? "Readings" : "Value"}
+                    </label>
+                    {getMetric(form.metric)?.resultType !== "presence" && (
+                      <label className="inline-flex items-center gap-1 text-[11px] text-slate-500">
+                        <input
+                          type="checkbox"
+                          checked={form.replicates}
+                          onChange={(e) =>
+                            setForm((prev) => ({
+                              ...prev,
+                              replicates: e.target.checked,
+                              value: "",
+                              accepted: "",
+                            }))
+                          }
+                          className="h-3 w-3 rounded border-slate-300 text-blue-600"
+                        />
+                        Replicates
+                      </label>
+                    )}
+                  </div>
+                  {getMetric(form.metric)?.resultType === "presence" ? (
+                    <select
+                      value={form.value}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, value: e.target.value }))
+                      }
+                      className="w-full border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm text-sm"
+                      required
+                    >
+                      <option value="">Select result</option>
+                      {PRESENCE_RESULTS.map((r) => (
+                        <option key={r} value={r}>
+                          {PRESENCE_RESULT_LABELS[r]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : form.replicates ? (
+                    <SaInput
+                      demo="e.g. 850, 870, 910"
+                      value={form.value}
+                      onChange={(v) =>
+                        setForm((prev) => ({ ...prev, value: v, accepted: "" }))
+                      }
+                    />
+                  ) : (
+                    <SaInput
+                      demo=""
+                      type="number"
+                      value={form.value}
+                      onChange={(v) =>
+                        setForm((prev) => ({ ...prev, value: v }))
+                      }
+                    />
+                  )}
                 </div>
 
-                {/* Unit (LOCKED) */}
+                {/* Unit (instrument's native unit) */}
                 <div>
                   <label className="text-xs font-medium text-slate-700 block mb-1">
                     Unit
                   </label>
-                  <input
-                    value={form.unit}
-                    disabled
-                    className="w-full border border-slate-300 bg-slate-100 text-slate-500 px-3 py-2 rounded-md shadow-sm text-sm cursor-not-allowed"
-                  />
+                  {isMetricKey(form.metric) &&
+                  metricUnits(form.metric).length > 1 ? (
+                    <select
+                      value={form.unit}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, unit: e.target.value }))
+                      }
+                      className="w-full border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm text-sm"
+                    >
+                      {metricUnits(form.metric).map((u) => (
+                        <option key={u.unit} value={u.unit}>
+                          {u.unit}
+                          {u.note ? ` — ${u.note}` : ""}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      value={form.unit}
+                      disabled
+                      className="w-full border border-slate-300 bg-slate-100 text-slate-500 px-3 py-2 rounded-md shadow-sm text-sm cursor-not-allowed"
+                    />
+                  )}
+                  {convertedPreview && (
+                    <p className="mt-1 text-[11px] text-slate-500">
+                      Stored as {convertedPreview}
+                    </p>
+                  )}
                 </div>
 
+                {/* Replicate group: spread, outliers and the accepted value */}
+                {replicatePreview && "error" in replicatePreview && (
+                  <p className="text-[11px] text-rose-700">
+                    {replicatePreview.error}
+                  </p>
+                )}
+                {replicatePreview && !("error" in replicatePreview) && (
+                  <div className="rounded-md border border-slate-200 bg-slate-50/60 px-3 py-2 text-[11px]">
+                    <div className="text-slate-600">
+                      Mean {Number(replicatePreview.rawStats.mean.toPrecision(4))} · SD{" "}
+                      {Number(replicatePreview.rawStats.sd.toPrecision(3))}
+                      {replicatePreview.rawStats.cv !== null && (
+                        <span
+                          className={
+                            replicatePreview.rawStats.highSpread ? "text-amber-700" : ""
+                          }
+                        >
+                          {" "}
+                          · CV {Number((replicatePreview.rawStats.cv * 100).toPrecision(3))}%
+                          {replicatePreview.rawStats.highSpread && " (high spread)"}
+                        </span>
+                      )}{" "}
+                      {form.unit}
+                    </div>
+                    <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+                      <span className="text-slate-500">Accept:</span>
+                      {[
+                        {
+                          choice: "",
+                          text: `Mean ${Number(replicatePreview.rawStats.retainedMean.toPrecision(4))}`,
+                          outlier: false,
+                        },
+                        ...replicatePreview.raw.map((v, i) => {
+                          const outlier = replicatePreview.rawStats.outliers.includes(i);
+                          return {
+                            choice: String(i),
+                            text: outlier ? `${v} · outlier` : String(v),
+                            outlier,
+                          };
+                        }),
+                      ].map(({ choice, text, outlier }) => (
+                        <button
+                          key={choice || "mean"}
+                          type="button"
+                          onClick={() => setForm((prev) => ({ ...prev, accepted: choice }))}
+                          className={`rounded-full border px-2 py-0.5 ${
+                            form.accepted === choice
+                              ? "border-slate-900 bg-slate-900 text-white"
+                              : outlier
+                              ? "border-rose-200 bg-white text-rose-700"
+                              : "border-slate-200 bg-white text-slate-700"
+                          }`}
+                        >
+                          {text}
+                        </button>
+                      ))}
+                    </div>
+                    {replicatePreview.rawStats.outliers.length > 0 && form.accepted === "" && (
+                      <p className="mt-1 text-[10px] text-slate-500">
+                        Outliers are left out of the mean.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Radon test protocol */}
+                {form.metric === "Radon" && (
+                  <div>
+                    <label className="text-xs font-medium text-slate-700 block mb-1">
+                      Test Type
+                    </label>
+                    <select
+                      value={form.radon_test}
+                      onChange={(e) => {
+                        const test = e.target.value;
+                        if (isRadonTest(test)) {
+                          setForm((prev) => ({ ...prev, radon_test: test }));
+                        }
+                      }}
+                      className="w-full border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm text-sm"
+                    >
+                      {RADON_TESTS.map((test) => (
+                        <option key={test} value={test}>
+                          {RADON_TEST_LABELS[test]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {/* Noise source (sound readings) */}
+                {form.category === "sound" && (
+                  <div>
+                    <label className="text-xs font-medium text-slate-700 block mb-1">
+                      Dominant Source
+                    </label>
+                    <select
+                      value={form.noise_source}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          noise_source: isNoiseSource(e.target.value)
+                            ? e.target.value
+                            : "",
+                        }))
+                      }
+                      className="w-full border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm text-sm"
+                    >
+                      <option value="">Not tagged</option>
+                      {NOISE_SOURCES.map((src) => (
+                        <option key={src} value={src}>
+                          {NOISE_SOURCE_LABELS[src]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {/* Sleeping area (ether readings) */}
+                {form.category === "ether" && (
+                  <label className="inline-flex items-center gap-2 text-xs text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={form.sleeping_area}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          sleeping_area: e.target.checked,
+                        }))
+                      }
+                      className="h-3 w-3 rounded border-slate-300 text-blue-600"
+                    />
+                    <span>Sleeping area (stricter thresholds)</span>
+                  </label>
+                )}
+
                 {/* Notes */}
                 <div>
                   <label className="text-xs font-medium text-slate-700 block mb-1">
@@ -487,6 +1241,122 @@ export default function PropertyDetail() {
                 </div>
               </form>
             </div>
+
+            {/* Meter export import */}
+            <MeterImportPanel rooms={rooms} onImport={handleImportReadings} />
+
+            {/* Continuous loggers */}
+            <LoggerPanel
+              rooms={rooms}
+              series={series}
+              profile={profile}
+              onSave={handleSaveSeries}
+            />
+
+            {/* Score Breakdown */}
+            <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+              <div className="mb-4 flex justify-between items-start">
+                <div>
+                  <div className="text-xs font-semibold tracking-[0.18em] uppercase text-slate-500">
+                    Score Breakdown
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">
+                    How the current readings score under {profileLabel(profile)}{" "}
+                    ({AGGREGATION_STRATEGIES[profile.aggregation].label.toLowerCase()}{" "}
+                    across rooms).
+                  </p>
+                  <label className="mt-2 flex items-center gap-2 text-[11px] text-slate-500">
+                    Guideline standard
+                    <select
+                      value={getStandard(property.guideline_standard).key}
+                      onChange={(e) => {
+                        const next = e.target.value;
+                        if (isStandardKey(next)) handleStandardChange(next);
+                      }}
+                      title={getStandard(property.guideline_standard).description}
+                      className="rounded-md border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-600"
+                    >
+                      {STANDARDS.map((s) => (
+                        <option key={s} value={s}>
+                          {GUIDELINE_STANDARDS[s].label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <span className="text-[11px] text-slate-500">
+                  Overall{" "}
+                  {alerts.length > 0 ? (
+                    <span className="font-semibold text-red-600">Safety alert</span>
+                  ) : (
+                    <span className="font-semibold text-slate-900">
+                      {breakdown.scores.overall ?? "—"}
+                    </span>
+                  )}
+                </span>
+              </div>
+
+              {alerts.length > 0 && (
+                <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2">
+                  <div className="text-[11px] font-semibold uppercase tracking-wide text-red-700">
+                    Safety alerts
+                  </div>
+                  <ul className="mt-1 space-y-1 text-xs text-red-800">
+                    {alerts.map((a) => (
+                      <li key={`${a.key}-${a.roomId ?? "home"}`}>
+                        {renderFinding(a)}
+                        {roomName(a.roomId) && (
+                          <span className="text-red-600"> · {roomName(a.roomId)}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="mt-1 text-[10px] text-red-600">
+                    The client report shows these in place of the affected scores.
+                  </p>
+                </div>
+              )}
+
+              <div className="inline-flex mb-4 rounded-full border border-slate-200 bg-slate-50 p-0.5 text-[11px]">
+                {CATEGORIES.map((cat) => (
+                  <button
+                    key={cat}
+                    type="button"
+                    onClick={() => setBreakdownCategory(cat)}
+                    className={`px-3 py-1 rounded-full capitalize transition ${
+                      breakdownCategory === cat
+                        ? "bg-white shadow-sm text-slate-900"
+                        : "text-slate-500 hover:text-slate-800"
+                    }`}
+                  >
+                    {cat}
+                  </button>
+                ))}
+              </div>
+
+              <ScoreBreakdownPanel
+                breakdown={breakdown.categories[breakdownCategory]}
+                roomName={roomName}
+              />
+
+              {adjustments.length > 0 && (
+                <p className="mt-3 text-[11px] text-sky-700">
+                  Stricter targets for{" "}
+                  {householdSensitivities(property)
+                    .map((k) => SENSITIVITY_LABELS[k].toLowerCase())
+                    .join(", ")}
+                  :{" "}
+                  {adjustments
+                    .map((a) =>
+                      a.scope === "sleeping"
+                        ? `${metricLabel(a.metric)} (sleeping areas)`
+                        : metricLabel(a.metric)
+                    )
+                    .join(", ")}
+                  .
+                </p>
+              )}
+            </div>
           </div>
 
           {/* RIGHT COLUMN — LOG ======================================== */}
@@ -502,7 +1372,7 @@ export default function PropertyDetail() {
               </div>
 
               <span className="text-[11px] text-slate-500">
-                {measurements.length} entries
+                {activeMeasurements.length} entries
               </span>
             </div>
 
@@ -522,45 +1392,304 @@ export default function PropertyDetail() {
                       <th className="px-3 py-2 border-b border-slate-200">Unit</th>
                       <th className="px-3 py-2 border-b border-slate-200">Notes</th>
                       <th className="px-3 py-2 border-b border-slate-200">Time</th>
+                      <th className="px-3 py-2 border-b border-slate-200" />
                     </tr>
                   </thead>
 
                   <tbody>
                     {measurements.map((m, idx) => {
                       const room = rooms.find((r) => r.id === m.room_id);
-                      const prettyName =
-                        metricOptions.air.find((x) => x.key === m.metric)?.label ||
-                        metricOptions.water.find((x) => x.key === m.metric)?.label ||
-                        metricOptions.ether.find((x) => x.key === m.metric)?.label ||
-                        m.metric;
+                      const prettyName = metricLabel(m.metric);
+                      const deleted = isDeleted(m);
+                      const history = correctionsFor(m.id);
+                      const def = getMetric(m.metric);
+                      const pending = pendingIds.has(m.id);
 
                       return (
-                        <tr
-                          key={m.id}
-                          className={idx % 2 ? "bg-slate-50/40" : "bg-white"}
-                        >
-                          <td className="px-3 py-2 border-b border-slate-100">
-                            {room?.name ?? "—"}
-                          </td>
-                          <td className="px-3 py-2 border-b border-slate-100 capitalize">
-                            {m.category}
-                          </td>
-                          <td className="px-3 py-2 border-b border-slate-100">
-                            {prettyName}
-                          </td>
-                          <td className="px-3 py-2 border-b border-slate-100">
-                            {m.value}
-                          </td>
-                          <td className="px-3 py-2 border-b border-slate-100">
-                            {m.unit}
-                          </td>
-                          <td className="px-3 py-2 border-b border-slate-100">
-                            {m.notes || "—"}
-                          </td>
-                          <td className="px-3 py-2 border-b border-slate-100 whitespace-nowrap text-[11px] text-slate-500">
-                            {new Date(m.taken_at).toLocaleString()}
-                          </td>
-                        </tr>
+                        <Fragment key={m.id}>
+                          <tr
+                            className={`${idx % 2 ? "bg-slate-50/40" : "bg-white"} ${
+                              deleted ? "text-slate-400" : ""
+                            }`}
+                          >
+                            <td className="px-3 py-2 border-b border-slate-100">
+                              {m.location === "outdoor"
+                                ? "Outdoor"
+                                : room?.name ?? "—"}
+                            </td>
+                            <td className="px-3 py-2 border-b border-slate-100 capitalize">
+                              {m.category}
+                            </td>
+                            <td className="px-3 py-2 border-b border-slate-100">
+                              {prettyName}
+                              {m.noise_source && (
+                                <div className="text-[10px] text-slate-400">
+                                  {NOISE_SOURCE_LABELS[m.noise_source]}
+                                </div>
+                              )}
+                              {m.radon_test && (
+                                <div className="text-[10px] text-slate-400">
+                                  {RADON_TEST_LABELS[m.radon_test]}
+                                </div>
+                              )}
+                              {m.sleeping_area && (
+                                <div className="text-[10px] text-slate-400">
+                                  Sleeping area
+                                </div>
+                              )}
+                            </td>
+                            <td
+                              className={`px-3 py-2 border-b border-slate-100 ${
+                                deleted ? "line-through" : ""
+                              }`}
+                            >
+                              {m.result
+                                ? PRESENCE_RESULT_LABELS[m.result]
+                                : m.value}
+                              {m.raw_unit && m.raw_unit !== m.unit && (
+                                <div className="text-[10px] text-slate-400">
+                                  read as {m.raw_value} {m.raw_unit}
+                                </div>
+                              )}
+                              {isReplicateGroup(m) && (
+                                <div className="text-[10px] text-slate-400">
+                                  {replicateSummary(m)}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 border-b border-slate-100">
+                              {m.unit}
+                            </td>
+                            <td className="px-3 py-2 border-b border-slate-100">
+                              {m.notes || "—"}
+                            </td>
+                            <td className="px-3 py-2 border-b border-slate-100 whitespace-nowrap text-[11px] text-slate-500">
+                              {formatDateTime(DEFAULT_LOCALE, m.taken_at)}
+                            </td>
+                            <td className="px-3 py-2 border-b border-slate-100 whitespace-nowrap text-right text-[11px]">
+                              {deleted ? (
+                                <span className="text-slate-400">Deleted</span>
+                              ) : pending ? (
+                                // Corrections need the reading on the server first
+                                <span className="text-amber-600">Not synced</span>
+                              ) : (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() => openDraft(m, "edit")}
+                                    className="text-slate-600 hover:text-slate-900"
+                                  >
+                                    Edit
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => openDraft(m, "delete")}
+                                    className="ml-2 text-red-600 hover:text-red-700"
+                                  >
+                                    Delete
+                                  </button>
+                                </>
+                              )}
+                              {history.length > 0 && (
+                                <button
+                                  type="button"
+                                  onClick={() => {
+                                    setDraft(null);
+                                    setHistoryFor(historyFor === m.id ? null : m.id);
+                                  }}
+                                  className="ml-2 text-slate-500 hover:text-slate-900"
+                                >
+                                  History ({history.length})
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+
+                          {/* Inline edit / delete */}
+                          {draft?.id === m.id && def && (
+                            <tr className="bg-slate-50">
+                              <td colSpan={8} className="px-3 py-3 border-b border-slate-200">
+                                <form
+                                  onSubmit={handleSaveCorrection}
+                                  className="grid gap-2 md:grid-cols-4"
+                                >
+                                  {draft.mode === "edit" && (
+                                    <>
+                                      <div>
+                                        <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                                          Value
+                                        </label>
+                                        {def.resultType === "presence" ? (
+                                          <select
+                                            value={draft.value}
+                                            onChange={(e) =>
+                                              setDraft({ ...draft, value: e.target.value })
+                                            }
+                                            className="w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs"
+                                          >
+                                            {PRESENCE_RESULTS.map((r) => (
+                                              <option key={r} value={r}>
+                                                {PRESENCE_RESULT_LABELS[r]}
+                                              </option>
+                                            ))}
+                                          </select>
+                                        ) : isReplicateGroup(m) ? (
+                                          <input
+                                            value={draft.value}
+                                            onChange={(e) =>
+                                              setDraft({ ...draft, value: e.target.value, accepted: "" })
+                                            }
+                                            className="w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs"
+                                            required
+                                          />
+                                        ) : (
+                                          <input
+                                            type="number"
+                                            step="any"
+                                            value={draft.value}
+                                            onChange={(e) =>
+                                              setDraft({ ...draft, value: e.target.value })
+                                            }
+                                            className="w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs"
+                                            required
+                                          />
+                                        )}
+                                      </div>
+                                      {isReplicateGroup(m) && (
+                                        <div>
+                                          <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                                            Accepted value
+                                          </label>
+                                          <select
+                                            value={draft.accepted}
+                                            onChange={(e) =>
+                                              setDraft({ ...draft, accepted: e.target.value })
+                                            }
+                                            className="w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs"
+                                          >
+                                            <option value="">Mean</option>
+                                            {(parseReplicates(draft.value) ?? []).map((v, i) => (
+                                              <option key={i} value={String(i)}>
+                                                Reading {i + 1}: {v}
+                                              </option>
+                                            ))}
+                                          </select>
+                                        </div>
+                                      )}
+                                      <div>
+                                        <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                                          Unit
+                                        </label>
+                                        <select
+                                          value={draft.unit}
+                                          onChange={(e) =>
+                                            setDraft({ ...draft, unit: e.target.value })
+                                          }
+                                          disabled={metricUnits(def.key).length < 2}
+                                          className="w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs disabled:bg-slate-100 disabled:text-slate-500"
+                                        >
+                                          {metricUnits(def.key).map((u) => (
+                                            <option key={u.unit} value={u.unit}>
+                                              {u.unit}
+                                            </option>
+                                          ))}
+                                        </select>
+                                      </div>
+                                      <div className="md:col-span-2">
+                                        <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                                          Notes
+                                        </label>
+                                        <input
+                                          value={draft.notes}
+                                          onChange={(e) =>
+                                            setDraft({ ...draft, notes: e.target.value })
+                                          }
+                                          className="w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs"
+                                        />
+                                      </div>
+                                    </>
+                                  )}
+
+                                  <div className="md:col-span-2">
+                                    <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                                      Reason
+                                    </label>
+                                    <input
+                                      value={draft.reason}
+                                      onChange={(e) =>
+                                        setDraft({ ...draft, reason: e.target.value })
+                                      }
+                                      placeholder={
+                                        draft.mode === "edit"
+                                          ? "e.g. typo, 850 entered as 8500"
+                                          : "e.g. duplicate entry"
+                                      }
+                                      className="w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs"
+                                      required
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                                      Your name
+                                    </label>
+                                    <input
+                                      value={correctedBy}
+                                      onChange={(e) => setCorrectedBy(e.target.value)}
+                                      className="w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs"
+                                      required
+                                    />
+                                  </div>
+                                  <div className="flex items-end gap-2">
+                                    <button
+                                      type="submit"
+                                      disabled={savingCorrection}
+                                      className={`rounded-md px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60 ${
+                                        draft.mode === "delete"
+                                          ? "bg-red-600 hover:bg-red-700"
+                                          : "bg-slate-900 hover:bg-slate-800"
+                                      }`}
+                                    >
+                                      {savingCorrection
+                                        ? "Saving…"
+                                        : draft.mode === "delete"
+                                          ? "Delete reading"
+                                          : "Save correction"}
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => setDraft(null)}
+                                      className="rounded-md px-3 py-1.5 text-xs text-slate-600 hover:text-slate-900"
+                                    >
+                                      Cancel
+                                    </button>
+                                  </div>
+                                </form>
+                              </td>
+                            </tr>
+                          )}
+
+                          {/* Correction history */}
+                          {historyFor === m.id && (
+                            <tr className="bg-slate-50">
+                              <td colSpan={8} className="px-3 py-2 border-b border-slate-200">
+                                <ul className="space-y-1 text-[11px] text-slate-600">
+                                  {history.map((c) => (
+                                    <li key={c.id}>
+                                      <span className="text-slate-400">
+                                        {formatDateTime(DEFAULT_LOCALE, c.changed_at)}
+                                      </span>{" "}
+                                      · {c.changed_by} ·{" "}
+                                      <span className="font-medium text-slate-800">
+                                        {describeCorrection(c, m.unit)}
+                                      </span>{" "}
+                                      — {c.reason}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
                       );
                     })}
                   </tbody>
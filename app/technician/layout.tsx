@@ -0,0 +1,14 @@
+import { OfflineSupport } from "@/components/OfflineSupport";
+
+export default function TechnicianLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <>
+      <OfflineSupport />
+      {children}
+    </>
+  );
+}
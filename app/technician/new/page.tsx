@@ -3,8 +3,26 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { supabase } from "@/lib/supabaseClient";
+import { newClientId, queueInsert } from "@/lib/sync";
 import { SaInput } from "@/components/SaInput";
+import { UNIT_SYSTEM_LABELS, type UnitSystem } from "@/lib/units";
+import {
+  STANDARDS,
+  WATER_SOURCES,
+  WATER_SOURCE_LABELS,
+  type StandardKey,
+  type WaterSource,
+} from "@/lib/metrics";
+import {
+  DEFAULT_STANDARD,
+  GUIDELINE_STANDARDS,
+} from "@/lib/scoring/standards";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_LABELS,
+  type Locale,
+} from "@/lib/i18n";
 
 export default function NewProperty() {
   const router = useRouter();
@@ -19,12 +37,16 @@ export default function NewProperty() {
     zip: "",
     sqft: "",
     year_built: "",
+    water_source: "municipal" as WaterSource,
     primary_contact_email: "",
     occupants_adults: "",
     occupants_children: "",
     occupants_animals: "",
     occupants_allergies: false,
     occupants_asthma: false,
+    unit_system: "us" as UnitSystem,
+    preferred_language: DEFAULT_LOCALE as Locale,
+    guideline_standard: DEFAULT_STANDARD as StandardKey,
   });
 
   function showToast(msg: string) {
@@ -52,16 +74,22 @@ export default function NewProperty() {
     setError(null);
 
     try {
+      // Queued like the rest of the workspace (lib/sync.ts), so a
+      // property can be started without signal
+      const propertyId = newClientId();
+      const createdAt = new Date().toISOString();
+
       // INSERT PROPERTY
-      const { data: prop, error: propError } = await supabase
-        .from("property")
-        .insert({
+      await queueInsert("property", [
+        {
+          id: propertyId,
           address: form.address || null,
           city: form.city || null,
           state: form.state || null,
           zip: form.zip || null,
           sqft: form.sqft ? parseInt(form.sqft) : null,
           year_built: form.year_built ? parseInt(form.year_built) : null,
+          water_source: form.water_source,
           primary_contact_email: form.primary_contact_email || null,
           occupants_adults: form.occupants_adults
             ? parseInt(form.occupants_adults)
@@ -74,26 +102,24 @@ export default function NewProperty() {
             : null,
           occupants_allergies: form.occupants_allergies,
           occupants_asthma: form.occupants_asthma,
-        })
-        .select("id")
-        .single();
-
-      if (propError) throw propError;
-      const propertyId = prop.id;
-
-      // INSERT DEFAULT ROOMS
+          unit_system: form.unit_system,
+          preferred_language: form.preferred_language,
+          guideline_standard: form.guideline_standard,
+          created_at: createdAt,
+        },
+      ]);
+
+      // INSERT DEFAULT ROOMS (replayed after the property)
       const roomsPayload = defaultRooms.map((r, index) => ({
+        id: newClientId(),
         property_id: propertyId,
         name: r.name,
         type: r.type,
         order_index: index,
+        created_at: createdAt,
       }));
 
-      const { error: roomsError } = await supabase
-        .from("room")
-        .insert(roomsPayload);
-
-      if (roomsError) throw roomsError;
+      await queueInsert("room", roomsPayload);
 
       showToast("Property created. Redirecting…");
 
@@ -242,7 +268,75 @@ export default function NewProperty() {
                 />
               </div>
 
-              <div className="sm:col-span-2">
+              <div>
+                <label className="mb-1 block text-xs font-medium text-slate-700">
+                  Water Source
+                </label>
+                <select
+                  value={form.water_source}
+                  onChange={(e) => setField("water_source", e.target.value)}
+                  className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm shadow-sm"
+                >
+                  {WATER_SOURCES.map((w) => (
+                    <option key={w} value={w}>
+                      {WATER_SOURCE_LABELS[w]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="mb-1 block text-xs font-medium text-slate-700">
+                  Report Units
+                </label>
+                <select
+                  value={form.unit_system}
+                  onChange={(e) => setField("unit_system", e.target.value)}
+                  className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm shadow-sm"
+                >
+                  {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map((u) => (
+                    <option key={u} value={u}>
+                      {UNIT_SYSTEM_LABELS[u]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="mb-1 block text-xs font-medium text-slate-700">
+                  Report Language
+                </label>
+                <select
+                  value={form.preferred_language}
+                  onChange={(e) => setField("preferred_language", e.target.value)}
+                  className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm shadow-sm"
+                >
+                  {LOCALES.map((l) => (
+                    <option key={l} value={l}>
+                      {LOCALE_LABELS[l]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="mb-1 block text-xs font-medium text-slate-700">
+                  Guideline Standard
+                </label>
+                <select
+                  value={form.guideline_standard}
+                  onChange={(e) => setField("guideline_standard", e.target.value)}
+                  className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm shadow-sm"
+                >
+                  {STANDARDS.map((s) => (
+                    <option key={s} value={s}>
+                      {GUIDELINE_STANDARDS[s].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
                 <label className="mb-1 block text-xs font-medium text-slate-700">
                   Primary Contact Email
                 </label>
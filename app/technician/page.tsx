@@ -4,6 +4,9 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
 import Link from "next/link";
+import { DEFAULT_LOCALE, formatDate, formatNumber } from "@/lib/i18n";
+import { workspaceRows } from "@/lib/sync";
+import { SyncStatusBadge } from "@/components/SyncStatusBadge";
 
 type Property = {
   id: string;
@@ -31,17 +34,18 @@ export default function TechnicianDashboard() {
     setLoading(true);
     setError(null);
 
-    const { data, error } = await supabase
-      .from("property")
-      .select("*")
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      console.error(error);
+    // Falls back to the offline copy (lib/offlineStore.ts) without signal
+    try {
+      const rows = await workspaceRows<Property>(
+        "property",
+        undefined,
+        supabase.from("property").select("*")
+      );
+      setProperties(rows.sort((a, b) => b.created_at.localeCompare(a.created_at)));
+    } catch (err) {
+      console.error(err);
       setError("Unable to load properties.");
       setProperties([]);
-    } else {
-      setProperties(data || []);
     }
 
     setLoading(false);
@@ -71,10 +75,18 @@ export default function TechnicianDashboard() {
             <Link href="/technician/new" className="hover:text-slate-900">
               New Property
             </Link>
+            <Link href="/technician/references" className="hover:text-slate-900">
+              Baselines
+            </Link>
+            <Link href="/admin/scoring" className="hover:text-slate-900">
+              Scoring
+            </Link>
             <Link href="/report" className="hover:text-slate-900">
               Client Report
             </Link>
           </nav>
+
+          <SyncStatusBadge />
         </div>
       </header>
 
@@ -181,7 +193,7 @@ export default function TechnicianDashboard() {
                         {address}
                       </div>
                       <span className="rounded-full bg-slate-50 px-2 py-0.5 text-[10px] font-medium text-slate-500">
-                        {new Date(p.created_at).toLocaleDateString()}
+                        {formatDate(DEFAULT_LOCALE, p.created_at)}
                       </span>
                     </div>
 
@@ -192,7 +204,7 @@ export default function TechnicianDashboard() {
                     <div className="mt-2 flex flex-wrap gap-1.5 text-[11px] text-slate-500">
                       {p.sqft && (
                         <span className="rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5">
-                          {p.sqft.toLocaleString()} sqft
+                          {formatNumber(DEFAULT_LOCALE, p.sqft, 0)} sqft
                         </span>
                       )}
 
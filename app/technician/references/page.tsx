@@ -0,0 +1,351 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { SaInput } from "@/components/SaInput";
+import {
+  mergeBaselines,
+  referenceLegend,
+  resolveReferences,
+  REFERENCE_KEYS,
+  type ReferenceBaseline,
+} from "@/lib/references";
+import { BUILT_IN_BASELINES } from "@/lib/references/dataset";
+import {
+  fromRecord,
+  parseBaselines,
+  toRecord,
+  type BaselineRecord,
+  type ImportResult,
+} from "@/lib/references/import";
+
+/* ============================================================
+   Regional reference baselines – import + lookup
+   ============================================================ */
+
+const SAMPLE_CSV = `scope,code,name,zip_prefixes,season,pm25_avg,pm10_avg,co2_indoor_typical,source
+metro,houston-tx,Houston,770;772;773;774;775,,12.0,40.0,950,EPA AQS 2024
+state,TX,Texas,,,9.2,26.0,,EPA AQS 2024`;
+
+const VALUE_LABELS = {
+  pm25Avg: "PM₂.₅ (µg/m³)",
+  pm10Avg: "PM₁₀ (µg/m³)",
+  co2IndoorTypical: "CO₂ typical (ppm)",
+};
+
+export default function ReferenceBaselines() {
+  const [imported, setImported] = useState<ReferenceBaseline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [toast, setToast] = useState<string | null>(null);
+
+  const [text, setText] = useState("");
+  const [filename, setFilename] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const [lookup, setLookup] = useState({ state: "", zip: "" });
+
+  function showToast(msg: string) {
+    setToast(msg);
+    setTimeout(() => setToast(null), 2200);
+  }
+
+  useEffect(() => {
+    fetchBaselines();
+  }, []);
+
+  async function fetchBaselines() {
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from("reference_baseline")
+      .select("*");
+
+    if (error) {
+      console.error(error);
+      setImported([]);
+    } else {
+      const rows: ReferenceBaseline[] = [];
+      for (const rec of (data ?? []) as BaselineRecord[]) {
+        try {
+          rows.push(fromRecord(rec));
+        } catch (err) {
+          console.warn("Skipping reference baseline", rec, err);
+        }
+      }
+      setImported(rows);
+    }
+
+    setLoading(false);
+  }
+
+  const preview: ImportResult | null = useMemo(
+    () => (text.trim() ? parseBaselines(text, filename) : null),
+    [text, filename]
+  );
+
+  const resolved = useMemo(
+    () =>
+      resolveReferences(mergeBaselines(BUILT_IN_BASELINES, imported), lookup),
+    [imported, lookup]
+  );
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFilename(file.name);
+    setText(await file.text());
+  }
+
+  async function handleImport() {
+    if (!preview || preview.rows.length === 0) return;
+    setSaving(true);
+
+    // "annual" keeps the (scope, code, season) key non-null for upserts
+    const { error } = await supabase.from("reference_baseline").upsert(
+      preview.rows.map((r) => ({
+        ...toRecord(r),
+        season: r.season ?? "annual",
+      })),
+      { onConflict: "scope,code,season" }
+    );
+
+    setSaving(false);
+
+    if (error) {
+      console.error(error);
+      alert("Error importing baselines.");
+      return;
+    }
+
+    showToast(`Imported ${preview.rows.length} baselines.`);
+    setText("");
+    setFilename("");
+    fetchBaselines();
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      {/* HEADER */}
+      <header className="sticky top-0 z-30 border-b border-slate-200 bg-white/80 backdrop-blur">
+        <div className="mx-auto max-w-6xl px-4 py-3 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="h-9 w-9 flex items-center justify-center bg-slate-900 text-white text-xs font-bold rounded-xl">
+              Sa
+            </div>
+            <div>
+              <div className="text-xs tracking-[0.18em] font-semibold text-slate-500 uppercase">
+                Sanctuary Solutions
+              </div>
+              <div className="text-[13px] font-medium text-slate-800">
+                Technician Workspace
+              </div>
+            </div>
+          </div>
+
+          <nav className="hidden md:flex text-xs gap-4 text-slate-500">
+            <Link href="/technician" className="hover:text-slate-900">
+              Dashboard
+            </Link>
+            <span className="font-semibold text-slate-900">Baselines</span>
+            <Link href="/report" className="hover:text-slate-900">
+              Client Report
+            </Link>
+          </nav>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-6xl px-4 py-8">
+        <div className="mb-6">
+          <div className="text-xs font-semibold tracking-[0.18em] uppercase text-slate-500">
+            Reference Data
+          </div>
+          <h1 className="text-2xl font-semibold mt-1">Regional baselines</h1>
+          <p className="text-sm text-slate-500">
+            Outdoor averages the client report compares homes against. Imported
+            rows replace the built-in values for the same region and season.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[1.8fr_2fr]">
+          {/* LEFT COLUMN — IMPORT */}
+          <div className="space-y-6">
+            <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+              <div className="mb-4">
+                <div className="text-xs font-semibold tracking-[0.18em] uppercase text-slate-500">
+                  Import
+                </div>
+                <h2 className="text-sm font-semibold text-slate-900 mt-1">
+                  CSV or JSON file
+                </h2>
+              </div>
+
+              <div className="grid gap-3">
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={handleFile}
+                  className="text-xs text-slate-600"
+                />
+                <textarea
+                  value={text}
+                  onChange={(e) => {
+                    setText(e.target.value);
+                    setFilename("");
+                  }}
+                  placeholder={SAMPLE_CSV}
+                  rows={8}
+                  className="w-full border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm font-mono text-[11px]"
+                />
+
+                {preview && (
+                  <div className="text-xs">
+                    <p className="text-slate-600">
+                      {preview.rows.length} valid row
+                      {preview.rows.length === 1 ? "" : "s"}
+                      {preview.errors.length > 0 &&
+                        `, ${preview.errors.length} with errors`}
+                    </p>
+                    {preview.errors.length > 0 && (
+                      <ul className="mt-2 space-y-1 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-[11px] text-rose-700">
+                        {preview.errors.map((e) => (
+                          <li key={`${e.row}-${e.message}`}>
+                            Row {e.row}: {e.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <button
+                    type="button"
+                    onClick={handleImport}
+                    disabled={saving || !preview || preview.rows.length === 0}
+                    className="bg-blue-600 text-white px-4 py-2 text-xs rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving
+                      ? "Importing…"
+                      : `Import ${preview?.rows.length ?? 0} rows`}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Lookup */}
+            <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+              <div className="mb-4">
+                <div className="text-xs font-semibold tracking-[0.18em] uppercase text-slate-500">
+                  Lookup
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                  Which baseline a property at this location would get today.
+                </p>
+              </div>
+
+              <div className="flex gap-2 mb-4">
+                <SaInput
+                  demo="State"
+                  value={lookup.state}
+                  onChange={(v) => setLookup((prev) => ({ ...prev, state: v }))}
+                  className="w-24"
+                />
+                <SaInput
+                  demo="ZIP"
+                  value={lookup.zip}
+                  onChange={(v) => setLookup((prev) => ({ ...prev, zip: v }))}
+                  className="flex-1"
+                />
+              </div>
+
+              <ul className="space-y-1 text-xs text-slate-700">
+                {REFERENCE_KEYS.map((k) => {
+                  const ref = resolved[k];
+                  return (
+                    <li key={k} className="flex justify-between gap-2">
+                      <span className="text-slate-500">{VALUE_LABELS[k]}</span>
+                      <span>
+                        {ref
+                          ? `${ref.value} · ${referenceLegend(ref)}`
+                          : "No baseline"}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </div>
+
+          {/* RIGHT COLUMN — CURRENT DATA */}
+          <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+            <div className="mb-4 flex justify-between items-center">
+              <div>
+                <div className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">
+                  Dataset
+                </div>
+                <h2 className="text-sm font-semibold text-slate-900 mt-1">
+                  Baselines in use
+                </h2>
+              </div>
+              <span className="text-[11px] text-slate-500">
+                {loading ? "Loading…" : `${imported.length} imported`}
+              </span>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs border-collapse">
+                <thead className="bg-slate-50 text-slate-500 text-[11px]">
+                  <tr>
+                    <th className="px-3 py-2 border-b border-slate-200 text-left">Region</th>
+                    <th className="px-3 py-2 border-b border-slate-200 text-left">Season</th>
+                    <th className="px-3 py-2 border-b border-slate-200">PM₂.₅</th>
+                    <th className="px-3 py-2 border-b border-slate-200">PM₁₀</th>
+                    <th className="px-3 py-2 border-b border-slate-200">CO₂</th>
+                    <th className="px-3 py-2 border-b border-slate-200 text-left">Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {mergeBaselines(BUILT_IN_BASELINES, imported).map((b, idx) => (
+                    <tr
+                      key={`${b.scope}-${b.code}-${b.season ?? "annual"}`}
+                      className={idx % 2 ? "bg-slate-50/40" : "bg-white"}
+                    >
+                      <td className="px-3 py-2 border-b border-slate-100">
+                        {b.name}
+                        <span className="ml-1 text-[10px] text-slate-400">
+                          {b.scope}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 border-b border-slate-100 capitalize">
+                        {b.season ?? "annual"}
+                      </td>
+                      <td className="px-3 py-2 border-b border-slate-100 text-center">
+                        {b.values.pm25Avg ?? "—"}
+                      </td>
+                      <td className="px-3 py-2 border-b border-slate-100 text-center">
+                        {b.values.pm10Avg ?? "—"}
+                      </td>
+                      <td className="px-3 py-2 border-b border-slate-100 text-center">
+                        {b.values.co2IndoorTypical ?? "—"}
+                      </td>
+                      <td className="px-3 py-2 border-b border-slate-100 text-[11px] text-slate-500">
+                        {b.source ?? "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      {toast && (
+        <div className="fixed top-4 right-4 bg-slate-900 text-white text-xs px-4 py-2 rounded-lg shadow-lg">
+          {toast}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { metricLabel } from "@/lib/metrics";
+import { OUTDOOR_ROOM } from "@/lib/meterImport";
+import {
+  DATE_ORDERS,
+  DATE_ORDER_LABELS,
+  DECIMAL_MARKS,
+  DECIMAL_MARK_LABELS,
+  type DateOrder,
+  type DecimalMark,
+} from "@/lib/csv";
+import { parseLoggerCsv, type LoggerSeries, type ParsedChannel } from "@/lib/loggers";
+import { profileBands, type ScoringProfile } from "@/lib/scoring/profiles";
+import { seriesStatistic, seriesStats } from "@/lib/scoring/series";
+import { DEFAULT_LOCALE, formatDateTime } from "@/lib/i18n";
+import { SeriesChart } from "@/components/SeriesChart";
+
+/**
+ * Continuous logger runs for a property: upload a logger's
+ * CSV for one room (each metric column becomes a series),
+ * then review every saved series as a chart with the
+ * statistics the scoring profile uses.
+ */
+type LoggerPanelProps = {
+  rooms: { id: string; name: string }[];
+  series: LoggerSeries[];
+  profile: ScoringProfile;
+  onSave: (
+    channels: ParsedChannel[],
+    room: { room_id: string | null; location: "indoor" | "outdoor" },
+    source: string | null
+  ) => Promise<boolean>;
+};
+
+const selectClass =
+  "w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs";
+
+export function LoggerPanel({ rooms, series, profile, onSave }: LoggerPanelProps) {
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [room, setRoom] = useState("");
+  const [saving, setSaving] = useState(false);
+  // Unset: rows that could be read two ways are rejected
+  const [dateOrder, setDateOrder] = useState<DateOrder | "">("");
+  const [decimalMark, setDecimalMark] = useState<DecimalMark | "">("");
+
+  const parsed = useMemo(
+    () =>
+      text.trim()
+        ? parseLoggerCsv(text, {
+            dateOrder: dateOrder || undefined,
+            decimalMark: decimalMark || undefined,
+          })
+        : null,
+    [text, dateOrder, decimalMark]
+  );
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setText(await file.text());
+  }
+
+  async function handleSave() {
+    if (!parsed || parsed.channels.length === 0 || !room) return;
+    setSaving(true);
+    const ok = await onSave(
+      parsed.channels,
+      room === OUTDOOR_ROOM
+        ? { room_id: null, location: "outdoor" }
+        : { room_id: room, location: "indoor" },
+      fileName
+    );
+    setSaving(false);
+    if (ok) {
+      setText("");
+      setFileName(null);
+    }
+  }
+
+  const roomLabel = (s: LoggerSeries) =>
+    s.location === "outdoor"
+      ? "Outdoor"
+      : rooms.find((r) => r.id === s.room_id)?.name ?? "—";
+
+  return (
+    <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+      <div className="mb-4 flex justify-between items-start">
+        <div>
+          <div className="text-xs font-semibold tracking-[0.18em] uppercase text-slate-500">
+            Loggers
+          </div>
+          <h2 className="text-sm font-semibold text-slate-900 mt-1">
+            Continuous Logging
+          </h2>
+        </div>
+        <span className="text-[11px] text-slate-500">
+          Scored on the {seriesStatistic(profile)}
+        </span>
+      </div>
+
+      {/* Upload */}
+      <div className="grid gap-3">
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFile}
+          className="text-xs text-slate-600"
+        />
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={"Time,CO2 (ppm),RH (%)\n2026-10-01 22:00,612,48\n2026-10-01 22:05,640,48"}
+          rows={4}
+          className="w-full border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm font-mono text-[11px]"
+        />
+
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={dateOrder}
+            onChange={(e) => setDateOrder(e.target.value as DateOrder | "")}
+            className={selectClass}
+          >
+            <option value="">Dates: detect (reject ambiguous)</option>
+            {DATE_ORDERS.map((o) => (
+              <option key={o} value={o}>
+                Dates: {DATE_ORDER_LABELS[o]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={decimalMark}
+            onChange={(e) => setDecimalMark(e.target.value as DecimalMark | "")}
+            className={selectClass}
+          >
+            <option value="">Decimals: detect (reject ambiguous)</option>
+            {DECIMAL_MARKS.map((m) => (
+              <option key={m} value={m}>
+                Decimals: {DECIMAL_MARK_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {parsed && (
+          <div className="grid gap-2 text-[11px]">
+            {parsed.channels.length > 0 && (
+              <ul className="space-y-0.5 text-slate-600">
+                {parsed.channels.map((c) => (
+                  <li key={c.column}>
+                    {metricLabel(c.metric)}{" "}
+                    <span className="text-slate-400">
+                      · {c.points.length} points
+                      {c.rawUnit && ` in ${c.rawUnit}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {parsed.errors.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto space-y-1 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-rose-700">
+                {parsed.errors.map((e) => (
+                  <li key={`${e.row}-${e.message}`}>
+                    Row {e.row}: {e.message}
+                  </li>
+                ))}
+                {parsed.skipped > parsed.errors.length && (
+                  <li>…and {parsed.skipped - parsed.errors.length} more</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-[1fr_auto] gap-2 items-end">
+          <select
+            value={room}
+            onChange={(e) => setRoom(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">Logged in room…</option>
+            {rooms.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+              </option>
+            ))}
+            <option value={OUTDOOR_ROOM}>Outdoor (baseline)</option>
+          </select>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!parsed || parsed.channels.length === 0 || !room || saving}
+            className="bg-slate-900 text-white px-4 py-2 text-xs rounded-md shadow-sm hover:bg-slate-800 disabled:opacity-50"
+          >
+            {saving
+              ? "Saving…"
+              : `Save ${parsed?.channels.length ?? 0} series`}
+          </button>
+        </div>
+      </div>
+
+      {/* Saved series */}
+      {series.length > 0 && (
+        <div className="mt-5 space-y-4 border-t border-slate-100 pt-4">
+          {series.map((s) => (
+            <div key={s.id}>
+              <div className="mb-1 flex justify-between text-[11px]">
+                <span className="font-medium text-slate-800">
+                  {metricLabel(s.metric)} · {roomLabel(s)}
+                </span>
+                <span className="text-slate-400">
+                  {formatDateTime(DEFAULT_LOCALE, s.started_at)} –{" "}
+                  {formatDateTime(DEFAULT_LOCALE, s.ended_at)}
+                </span>
+              </div>
+              <SeriesChart
+                metric={s.metric}
+                points={s.points}
+                stats={seriesStats(s.points, s.metric, profileBands(profile, s.metric))}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,500 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { METRIC_KEYS, isMetricKey, metricLabel } from "@/lib/metrics";
+import { metricUnits } from "@/lib/units";
+import {
+  DATE_ORDERS,
+  DATE_ORDER_LABELS,
+  DECIMAL_MARKS,
+  DECIMAL_MARK_LABELS,
+  parseCsv,
+  type DateOrder,
+  type DecimalMark,
+} from "@/lib/csv";
+import { DEFAULT_LOCALE, formatDateTime } from "@/lib/i18n";
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  OUTDOOR_ROOM,
+  guessMapping,
+  loadImportPresets,
+  missingColumns,
+  parseMeterCsv,
+  saveImportPreset,
+  type ColumnMapping,
+  type ImportPreset,
+  type ImportedReading,
+} from "@/lib/meterImport";
+
+/**
+ * Three-step import of a meter's CSV export:
+ * upload → map columns (or pick a saved preset) → validated preview.
+ * Only rows without errors are handed to `onImport`.
+ */
+type MeterImportPanelProps = {
+  rooms: { id: string; name: string }[];
+  onImport: (rows: ImportedReading[]) => Promise<boolean>;
+};
+
+type Step = "upload" | "map" | "preview";
+
+const PREVIEW_ROWS = 20;
+
+const selectClass =
+  "w-full border border-slate-300 bg-white px-2 py-1.5 rounded-md text-xs";
+
+export function MeterImportPanel({ rooms, onImport }: MeterImportPanelProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [text, setText] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping>({ columns: {} });
+  const [importing, setImporting] = useState(false);
+
+  const [presets, setPresets] = useState<ImportPreset[]>([]);
+  const [presetId, setPresetId] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [instrument, setInstrument] = useState("");
+  const [presetNote, setPresetNote] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadImportPresets().then(setPresets);
+  }, []);
+
+  const header = useMemo(() => parseCsv(text)?.header ?? [], [text]);
+  const missing = missingColumns(mapping, header);
+
+  const preview = useMemo(
+    () => (step === "preview" ? parseMeterCsv(text, mapping, rooms) : null),
+    [step, text, mapping, rooms]
+  );
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+  }
+
+  function startMapping() {
+    const preset = presets.find((p) => p.id === presetId);
+    setMapping(preset ? preset.mapping : guessMapping(header));
+    setStep("map");
+  }
+
+  function applyPreset(id: string) {
+    setPresetId(id);
+    const preset = presets.find((p) => p.id === id);
+    if (preset) setMapping(preset.mapping);
+  }
+
+  function setColumn(field: (typeof IMPORT_FIELDS)[number], column: string) {
+    setMapping((prev) => ({
+      ...prev,
+      columns: { ...prev.columns, [field]: column || undefined },
+    }));
+  }
+
+  async function handleSavePreset() {
+    if (!presetName.trim() || !instrument.trim()) {
+      setPresetNote("Name the preset and the instrument model.");
+      return;
+    }
+    // Room defaults belong to this property, not the instrument
+    const { defaultRoom: _room, ...reusable } = mapping;
+    const saved = await saveImportPreset(presetName, instrument, reusable);
+    if (!saved) {
+      setPresetNote("Error saving preset.");
+      return;
+    }
+    setPresets((prev) => [...prev, saved]);
+    setPresetId(saved.id);
+    setPresetNote(`Saved “${saved.name}” for ${saved.instrument}.`);
+  }
+
+  async function handleImport() {
+    if (!preview || preview.rows.length === 0) return;
+    setImporting(true);
+    const ok = await onImport(preview.rows);
+    setImporting(false);
+    if (ok) {
+      setText("");
+      setStep("upload");
+    }
+  }
+
+  const roomLabel = (r: ImportedReading) =>
+    r.location === "outdoor"
+      ? "Outdoor"
+      : rooms.find((room) => room.id === r.room_id)?.name ?? "—";
+
+  return (
+    <div className="rounded-2xl bg-white/80 border border-slate-200 shadow-sm p-5">
+      <div className="mb-4 flex justify-between items-start">
+        <div>
+          <div className="text-xs font-semibold tracking-[0.18em] uppercase text-slate-500">
+            Import
+          </div>
+          <h2 className="text-sm font-semibold text-slate-900 mt-1">
+            Meter Export (CSV)
+          </h2>
+        </div>
+        <span className="text-[11px] text-slate-500 capitalize">
+          {step === "upload" ? "1 · upload" : step === "map" ? "2 · map columns" : "3 · preview"}
+        </span>
+      </div>
+
+      {/* Step 1: upload */}
+      {step === "upload" && (
+        <div className="grid gap-3">
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFile}
+            className="text-xs text-slate-600"
+          />
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"Date/Time,CO2 (ppm),Temperature (°F)\n2026-10-01 10:00,850,71.2"}
+            rows={5}
+            className="w-full border border-slate-300 bg-white px-3 py-2 rounded-md shadow-sm font-mono text-[11px]"
+          />
+          {presets.length > 0 && (
+            <div>
+              <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                Preset
+              </label>
+              <select
+                value={presetId}
+                onChange={(e) => setPresetId(e.target.value)}
+                className={selectClass}
+              >
+                <option value="">Guess from the header row</option>
+                {presets.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.instrument} — {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <button
+              type="button"
+              onClick={startMapping}
+              disabled={header.length === 0}
+              className="bg-slate-900 text-white px-4 py-2 text-xs rounded-md shadow-sm hover:bg-slate-800 disabled:opacity-50"
+            >
+              Map columns
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Step 2: column mapping */}
+      {step === "map" && (
+        <div className="grid gap-3">
+          {presets.length > 0 && (
+            <select
+              value={presetId}
+              onChange={(e) => applyPreset(e.target.value)}
+              className={selectClass}
+            >
+              <option value="">No preset</option>
+              {presets.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.instrument} — {p.name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field}>
+                <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                  {IMPORT_FIELD_LABELS[field]}
+                  {field === "value" && <span className="text-rose-600"> *</span>}
+                </label>
+                <select
+                  value={mapping.columns[field] ?? ""}
+                  onChange={(e) => setColumn(field, e.target.value)}
+                  className={selectClass}
+                >
+                  <option value="">— not in file —</option>
+                  {header.map((h) => (
+                    <option key={h} value={h}>
+                      {h}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Defaults for fields the export doesn't carry */}
+          {(!mapping.columns.metric || !mapping.columns.unit || !mapping.columns.room) && (
+            <div className="grid grid-cols-2 gap-2 rounded-md border border-slate-200 bg-slate-50/60 p-2">
+              {!mapping.columns.metric && (
+                <div>
+                  <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                    Every row is
+                  </label>
+                  <select
+                    value={mapping.defaultMetric ?? ""}
+                    onChange={(e) => {
+                      const key = e.target.value;
+                      setMapping((prev) => ({
+                        ...prev,
+                        defaultMetric: isMetricKey(key) ? key : undefined,
+                        defaultUnit: undefined,
+                      }));
+                    }}
+                    className={selectClass}
+                  >
+                    <option value="">Select metric</option>
+                    {METRIC_KEYS.map((k) => (
+                      <option key={k} value={k}>
+                        {metricLabel(k)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {!mapping.columns.unit && mapping.defaultMetric && (
+                <div>
+                  <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                    Unit
+                  </label>
+                  <select
+                    value={mapping.defaultUnit ?? ""}
+                    onChange={(e) =>
+                      setMapping((prev) => ({
+                        ...prev,
+                        defaultUnit: e.target.value || undefined,
+                      }))
+                    }
+                    className={selectClass}
+                  >
+                    {metricUnits(mapping.defaultMetric).map((u) => (
+                      <option key={u.unit} value={u.unit}>
+                        {u.unit || "—"}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {!mapping.columns.room && (
+                <div>
+                  <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                    Room
+                  </label>
+                  <select
+                    value={mapping.defaultRoom ?? ""}
+                    onChange={(e) =>
+                      setMapping((prev) => ({
+                        ...prev,
+                        defaultRoom: e.target.value || undefined,
+                      }))
+                    }
+                    className={selectClass}
+                  >
+                    <option value="">Select room</option>
+                    {rooms.map((r) => (
+                      <option key={r.id} value={r.id}>
+                        {r.name}
+                      </option>
+                    ))}
+                    <option value={OUTDOOR_ROOM}>Outdoor (baseline)</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* How the instrument writes dates and numbers */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                Dates
+              </label>
+              <select
+                value={mapping.dateOrder ?? ""}
+                onChange={(e) =>
+                  setMapping((prev) => ({
+                    ...prev,
+                    dateOrder: (e.target.value || undefined) as DateOrder | undefined,
+                  }))
+                }
+                className={selectClass}
+              >
+                <option value="">Detect (reject ambiguous)</option>
+                {DATE_ORDERS.map((o) => (
+                  <option key={o} value={o}>
+                    {DATE_ORDER_LABELS[o]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-[11px] font-medium text-slate-700 block mb-1">
+                Decimals
+              </label>
+              <select
+                value={mapping.decimalMark ?? ""}
+                onChange={(e) =>
+                  setMapping((prev) => ({
+                    ...prev,
+                    decimalMark: (e.target.value || undefined) as DecimalMark | undefined,
+                  }))
+                }
+                className={selectClass}
+              >
+                <option value="">Detect (reject ambiguous)</option>
+                {DECIMAL_MARKS.map((m) => (
+                  <option key={m} value={m}>
+                    {DECIMAL_MARK_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {missing.length > 0 && (
+            <p className="text-[11px] text-rose-700">
+              Not in this file: {missing.join(", ")}
+            </p>
+          )}
+
+          {/* Save as preset */}
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <input
+              value={instrument}
+              onChange={(e) => setInstrument(e.target.value)}
+              placeholder="Instrument model"
+              className={selectClass}
+            />
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              className={selectClass}
+            />
+            <button
+              type="button"
+              onClick={handleSavePreset}
+              className="rounded-md border border-slate-300 px-3 py-1.5 text-xs text-slate-700 hover:bg-slate-50"
+            >
+              Save preset
+            </button>
+          </div>
+          {presetNote && (
+            <p className="text-[11px] text-slate-500">{presetNote}</p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setStep("upload")}
+              className="rounded-md px-3 py-1.5 text-xs text-slate-600 hover:text-slate-900"
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={() => setStep("preview")}
+              disabled={!mapping.columns.value || missing.length > 0}
+              className="bg-slate-900 text-white px-4 py-2 text-xs rounded-md shadow-sm hover:bg-slate-800 disabled:opacity-50"
+            >
+              Preview
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Step 3: validated preview */}
+      {step === "preview" && preview && (
+        <div className="grid gap-3 text-xs">
+          <p className="text-slate-600">
+            {preview.rows.length} valid row
+            {preview.rows.length === 1 ? "" : "s"}
+            {preview.errors.length > 0 &&
+              `, ${preview.errors.length} with errors (skipped)`}
+          </p>
+
+          {preview.errors.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto space-y-1 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-[11px] text-rose-700">
+              {preview.errors.map((e) => (
+                <li key={`${e.row}-${e.message}`}>
+                  Row {e.row}: {e.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {preview.rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-[11px] border-collapse">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-2 py-1.5 border-b border-slate-200 text-left">Row</th>
+                    <th className="px-2 py-1.5 border-b border-slate-200 text-left">Room</th>
+                    <th className="px-2 py-1.5 border-b border-slate-200 text-left">Metric</th>
+                    <th className="px-2 py-1.5 border-b border-slate-200 text-left">Stored</th>
+                    <th className="px-2 py-1.5 border-b border-slate-200 text-left">Time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.slice(0, PREVIEW_ROWS).map((r) => (
+                    <tr key={r.row} className="border-b border-slate-100">
+                      <td className="px-2 py-1.5 text-slate-400">{r.row}</td>
+                      <td className="px-2 py-1.5">{roomLabel(r)}</td>
+                      <td className="px-2 py-1.5">{metricLabel(r.metric)}</td>
+                      <td className="px-2 py-1.5">
+                        {r.value} {r.unit}
+                        {r.raw_unit !== r.unit && (
+                          <div className="text-[10px] text-slate-400">
+                            read as {r.raw_value} {r.raw_unit}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5 whitespace-nowrap text-slate-500">
+                        {r.taken_at
+                          ? formatDateTime(DEFAULT_LOCALE, r.taken_at)
+                          : "At import"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.rows.length > PREVIEW_ROWS && (
+                <p className="mt-1 text-[10px] text-slate-400">
+                  and {preview.rows.length - PREVIEW_ROWS} more
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setStep("map")}
+              className="rounded-md px-3 py-1.5 text-xs text-slate-600 hover:text-slate-900"
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || preview.rows.length === 0}
+              className="bg-blue-600 text-white px-4 py-2 text-xs rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {importing
+                ? "Importing…"
+                : `Import ${preview.rows.length} row${preview.rows.length === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -48,19 +48,34 @@ export function MetricRing({
   percent,
   icon,
   size = 80,
+  alert = false,
 }: {
-  percent: number;
+  percent: number | null; // null = category not tested
   icon?: React.ReactNode;
   size?: number;
+  alert?: boolean; // safety alert: the tier replaces the score ring
 }) {
-  const value = Math.max(0, Math.min(100, percent));
-  const dynamicColor = scoreToColor(value);
+  const value = percent === null ? 0 : Math.max(0, Math.min(100, percent));
+  const dynamicColor =
+    percent === null ? "rgb(148, 163, 184)" : scoreToColor(value); // slate-400
 
   const chartData = useMemo(
     () => [{ name: "score", value, fill: dynamicColor }],
     [value, dynamicColor]
   );
 
+  if (alert) {
+    return (
+      <div
+        className="relative flex items-center justify-center rounded-full border-[6px] border-red-600 bg-red-50 text-red-600"
+        style={{ width: size, height: size }}
+      >
+        <span className="absolute inset-0 animate-ping rounded-full border-2 border-red-400 opacity-40" />
+        {icon}
+      </div>
+    );
+  }
+
   return (
     <div
       className="relative flex items-center justify-center"
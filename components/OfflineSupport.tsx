@@ -0,0 +1,22 @@
+"use client";
+
+import { useEffect } from "react";
+import { startSync } from "@/lib/sync";
+
+/**
+ * Registers the workspace service worker (public/sw.js) and
+ * starts replaying queued writes (lib/sync.ts). Renders nothing.
+ */
+export function OfflineSupport() {
+  useEffect(() => {
+    // A caching worker would serve stale chunks to `next dev`
+    if ("serviceWorker" in navigator && process.env.NODE_ENV === "production") {
+      navigator.serviceWorker.register("/sw.js").catch((err) => {
+        console.error("Service worker registration failed:", err);
+      });
+    }
+    startSync();
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import React from "react";
+
+/**
+ * Renders catalog copy with **bold** spans, so translated
+ * sentences keep their emphasis without splitting into
+ * several message keys.
+ */
+type RichTextProps = {
+  text: string;
+  strongClassName?: string;
+};
+
+export function RichText({
+  text,
+  strongClassName = "font-semibold text-slate-900",
+}: RichTextProps) {
+  return (
+    <>
+      {text.split(/\*\*(.+?)\*\*/g).map((part, i) =>
+        i % 2 === 1 ? (
+          <strong key={i} className={strongClassName}>
+            {part}
+          </strong>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import React from "react";
+import { CATEGORY_LABELS, getMetric } from "@/lib/metrics";
+import type { CategoryBreakdown } from "@/lib/scoring/breakdown";
+import { formatMetric, type UnitSystem } from "@/lib/units";
+import { DEFAULT_LOCALE, createTranslator, type Locale } from "@/lib/i18n";
+
+/**
+ * Table explaining how a category score was built:
+ * each metric's reading, band, sub-score, effective weight
+ * and the points it contributed, plus the reading's room/time.
+ */
+type ScoreBreakdownPanelProps = {
+  breakdown: CategoryBreakdown;
+  roomName?: (roomId: string | null) => string | null;
+  unitSystem?: UnitSystem;
+  locale?: Locale;
+};
+
+export function ScoreBreakdownPanel({
+  breakdown,
+  roomName,
+  unitSystem = "us",
+  locale = DEFAULT_LOCALE,
+}: ScoreBreakdownPanelProps) {
+  const { t, label, dateTime, number, intlTag } = createTranslator(locale);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold text-slate-900">
+          {label(CATEGORY_LABELS[breakdown.category])}
+        </h3>
+        <span className="text-xs text-slate-500">
+          {breakdown.score === null ? (
+            t("common.notTested")
+          ) : (
+            <>
+              <span className="font-semibold text-slate-900">
+                {breakdown.score}
+              </span>{" "}
+              {t("common.outOf100")}
+            </>
+          )}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-[11px]">
+          <thead className="text-slate-500">
+            <tr className="border-b border-slate-200">
+              <th className="py-1 pr-2 font-medium">{t("breakdown.metric")}</th>
+              <th className="py-1 pr-2 font-medium">{t("breakdown.reading")}</th>
+              <th className="py-1 pr-2 font-medium">{t("breakdown.band")}</th>
+              <th className="py-1 pr-2 text-right font-medium">
+                {t("breakdown.subScore")}
+              </th>
+              <th className="py-1 pr-2 text-right font-medium">
+                {t("breakdown.weight")}
+              </th>
+              <th className="py-1 text-right font-medium">
+                {t("breakdown.points")}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.metrics.map((m) => {
+              const def = getMetric(m.metric);
+              const room = m.source ? roomName?.(m.source.roomId) : null;
+              const time = m.source?.takenAt ? dateTime(m.source.takenAt) : null;
+
+              return (
+                <tr
+                  key={m.metric}
+                  className="border-b border-slate-100 align-top last:border-0"
+                >
+                  <td className="py-1.5 pr-2 text-slate-800">
+                    {label(def?.label ?? m.metric)}
+                    {(room || time || m.sleepingArea) && (
+                      <div className="text-[10px] text-slate-400">
+                        {[
+                          room,
+                          time,
+                          m.sleepingArea ? t("ether.sleepingTag") : null,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2 text-slate-700">
+                    {formatMetric(
+                      m.metric,
+                      m.value,
+                      unitSystem,
+                      Number.isInteger(m.value) ? 0 : 2,
+                      intlTag
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2 text-slate-600">
+                    {m.band ? label(m.band) : t("common.notMeasured")}
+                    {m.ioRatio && (
+                      <div className="text-[10px] text-slate-400">
+                        {t("compare.ioRatio", {
+                          ratio: m.ioRatio.ratio.toFixed(2),
+                          band: label(m.ioRatio.band),
+                        })}
+                      </div>
+                    )}
+                    {m.exposure && (
+                      <div className="text-[10px] text-slate-400">
+                        {t("breakdown.exposure", {
+                          percent: number(m.exposure.fractionAbove * 100, 0),
+                          hours: number(m.exposure.hours, 1),
+                        })}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2 text-right text-slate-700">
+                    {m.subScore === null ? "—" : Math.round(m.subScore)}
+                  </td>
+                  <td className="py-1.5 pr-2 text-right text-slate-500">
+                    {m.subScore === null
+                      ? `(${Math.round(m.weight * 100)}%)`
+                      : `${Math.round(m.share * 100)}%`}
+                  </td>
+                  <td className="py-1.5 text-right font-semibold text-slate-900">
+                    {m.subScore === null ? "—" : m.points.toFixed(1)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {breakdown.metrics
+        .filter((m) => m.value !== null && getMetric(m.metric)?.caveat)
+        .map((m) => (
+          <p key={m.metric} className="text-[10px] text-slate-400">
+            {label(getMetric(m.metric)!.label)}:{" "}
+            {label(getMetric(m.metric)!.caveat!)}
+          </p>
+        ))}
+
+      {breakdown.metrics.some((m) => m.subScore === null) &&
+        breakdown.score !== null && (
+          <p className="text-[10px] text-slate-400">
+            {t("breakdown.sharedWeights")}
+          </p>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+} from "recharts";
+import type { MetricKey } from "@/lib/metrics";
+import { downsample } from "@/lib/loggers";
+import type { SeriesPoint, SeriesStats } from "@/lib/scoring/series";
+import { displayUnit, toDisplay, type UnitSystem } from "@/lib/units";
+import { DEFAULT_LOCALE, createTranslator, type Locale } from "@/lib/i18n";
+
+/**
+ * Line chart of one logger series in the client's units,
+ * with the ideal-band edge as a dashed line and the derived
+ * statistics underneath.
+ */
+type SeriesChartProps = {
+  metric: MetricKey;
+  points: SeriesPoint[];
+  stats: SeriesStats | null;
+  unitSystem?: UnitSystem;
+  locale?: Locale;
+  height?: number;
+  color?: string;
+};
+
+// Enough for a card-width chart; more only slows rendering
+const MAX_POINTS = 240;
+
+export function SeriesChart({
+  metric,
+  points,
+  stats,
+  unitSystem = "us",
+  locale = DEFAULT_LOCALE,
+  height = 140,
+  color = "#0f172a",
+}: SeriesChartProps) {
+  const { t, time, dateTime, number } = createTranslator(locale);
+  const unit = displayUnit(metric, unitSystem);
+  const show = (v: number) => toDisplay(metric, v, unitSystem).value;
+
+  const data = useMemo(
+    () =>
+      downsample(
+        [...points].sort((a, b) => a[0] - b[0]),
+        MAX_POINTS
+      ).map(([t, v]) => ({
+        t,
+        value: toDisplay(metric, v, unitSystem).value,
+      })),
+    [points, metric, unitSystem]
+  );
+
+  const threshold = stats?.threshold != null ? show(stats.threshold) : null;
+
+  return (
+    <div>
+      <div style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis
+              dataKey="t"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(v: number) => time(v)}
+              tick={{ fontSize: 10 }}
+              tickLine={false}
+              axisLine={{ stroke: "#e2e8f0" }}
+              minTickGap={24}
+            />
+            <YAxis
+              tick={{ fontSize: 10 }}
+              tickLine={false}
+              axisLine={{ stroke: "#e2e8f0" }}
+              width={40}
+            />
+            <Tooltip
+              labelFormatter={(v) => dateTime(Number(v))}
+              formatter={(v) => [`${number(Number(v), 1)} ${unit}`.trim(), ""]}
+              contentStyle={{ fontSize: 11 }}
+            />
+            {threshold != null && (
+              <ReferenceLine y={threshold} stroke="#f59e0b" strokeDasharray="4 4" />
+            )}
+            <Line
+              type="monotone"
+              dataKey="value"
+              stroke={color}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {stats && (
+        <p className="mt-1 text-[10px] text-slate-500">
+          {t("logger.stats", {
+            hours: number(stats.hours, 1),
+            mean: number(show(stats.mean), 0),
+            p95: number(show(stats.p95), 0),
+            unit,
+          })}
+          {" · "}
+          {stats.threshold != null
+            ? t("logger.above", {
+                percent: number(stats.fractionAbove * 100, 0),
+                threshold: number(show(stats.threshold), 0),
+                unit,
+              })
+            : t("logger.outside", {
+                percent: number(stats.fractionAbove * 100, 0),
+              })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  SYNC_STATUS_LABELS,
+  dismissConflicts,
+  getSyncState,
+  subscribeSync,
+  syncNow,
+  type SyncConflict,
+  type SyncState,
+  type SyncStatus,
+} from "@/lib/sync";
+
+/**
+ * Header badge for the offline queue: connection / sync status,
+ * the number of changes waiting for Supabase, and any writes the
+ * server kept its own version of.
+ */
+type SyncStatusBadgeProps = {
+  className?: string;
+};
+
+const STATUS_STYLES: Record<SyncStatus, string> = {
+  offline: "bg-slate-400",
+  syncing: "bg-sky-500 animate-pulse",
+  pending: "bg-amber-500",
+  synced: "bg-emerald-500",
+};
+
+function describeConflict(c: SyncConflict): string {
+  const what =
+    c.op.kind === "insert"
+      ? `New ${c.op.table}${c.op.rows.length > 1 ? ` (${c.op.rows.length} rows)` : ""}`
+      : c.op.kind === "update"
+      ? `Change to ${c.op.table}`
+      : `Deleting ${c.op.table}`;
+  return `${what}: ${c.reason}`;
+}
+
+export function SyncStatusBadge({ className = "" }: SyncStatusBadgeProps) {
+  const [sync, setSync] = useState<SyncState>(getSyncState());
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => subscribeSync(setSync), []);
+
+  return (
+    <div className={`relative text-[11px] ${className}`}>
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="inline-flex items-center gap-1.5 rounded-full border border-slate-200 bg-white px-2.5 py-1 text-slate-600 hover:border-slate-300"
+      >
+        <span className={`h-2 w-2 rounded-full ${STATUS_STYLES[sync.status]}`} />
+        {SYNC_STATUS_LABELS[sync.status]}
+        {sync.pending > 0 && (
+          <span className="rounded-full bg-amber-100 px-1.5 font-semibold text-amber-800">
+            {sync.pending}
+          </span>
+        )}
+        {sync.conflicts.length > 0 && (
+          <span className="rounded-full bg-rose-100 px-1.5 font-semibold text-rose-700">
+            !
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-40 mt-1 w-72 rounded-xl border border-slate-200 bg-white p-3 shadow-lg">
+          <p className="text-slate-600">
+            {sync.pending === 0
+              ? "No changes waiting."
+              : `${sync.pending} change${sync.pending === 1 ? "" : "s"} waiting to sync.`}
+          </p>
+          {sync.lastSyncedAt && (
+            <p className="mt-0.5 text-[10px] text-slate-400">
+              Last synced {new Date(sync.lastSyncedAt).toLocaleTimeString()}
+            </p>
+          )}
+
+          {sync.conflicts.length > 0 && (
+            <div className="mt-2 rounded-md border border-rose-200 bg-rose-50 px-2 py-1.5">
+              <div className="font-semibold text-rose-700">
+                Not applied — the server version was kept
+              </div>
+              <ul className="mt-1 space-y-1 text-rose-700">
+                {sync.conflicts.map((c, i) => (
+                  <li key={`${c.op.seq}-${i}`}>{describeConflict(c)}</li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={dismissConflicts}
+                className="mt-1 text-[10px] text-rose-600 underline"
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
+
+          {sync.status === "pending" && (
+            <button
+              type="button"
+              onClick={() => void syncNow()}
+              className="mt-2 rounded-md bg-slate-900 px-3 py-1 text-white hover:bg-slate-800"
+            >
+              Sync now
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
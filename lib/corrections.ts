@@ -0,0 +1,206 @@
+// lib/corrections.ts
+// --------------------------------------------------------
+// Measurement corrections
+// --------------------------------------------------------
+// Readings are never edited or removed without a trace.
+// Every edit or delete writes a `measurement_correction`
+// row first (who, when, the values before and after, and
+// a reason), then changes the measurement:
+//   - edit:   the measurement row takes the corrected values
+//   - delete: soft delete; `deleted_at` is set and the row
+//             stays for the audit trail
+//
+// Both writes go through the offline queue (lib/sync.ts),
+// so corrections work without signal. When sync finds the
+// reading was changed on another device, the server's
+// version is kept and reported; the audit row stays as a
+// record of the attempt.
+//
+// Deleted rows are superseded: the report never loads them
+// and scoring on the technician page skips them.
+// --------------------------------------------------------
+
+import { supabase } from "@/lib/supabaseClient";
+import {
+  newClientId,
+  queueDelete,
+  queueInsert,
+  queueUpdate,
+  workspaceRows,
+} from "@/lib/sync";
+
+export const CORRECTION_ACTIONS = ["edit", "delete"] as const;
+export type CorrectionAction = (typeof CORRECTION_ACTIONS)[number];
+
+// Fields a correction may change, with their stored values
+export type CorrectableFields = {
+  value: number; // canonical unit
+  raw_value: number | null;
+  raw_unit: string | null;
+  result: string | null; // presence metrics only
+  notes: string | null;
+  replicates: number[] | null; // replicate groups (lib/replicates.ts)
+  replicate_accepted: number | null;
+};
+
+export type MeasurementCorrection = {
+  id: string;
+  measurement_id: string;
+  property_id: string;
+  action: CorrectionAction;
+  changed_by: string;
+  changed_at: string;
+  reason: string;
+  before: CorrectableFields;
+  after: CorrectableFields | null; // null for deletes
+};
+
+// Minimal measurement shape a correction needs
+export type CorrectableMeasurement = CorrectableFields & {
+  id: string;
+  property_id: string;
+  deleted_at?: string | null;
+};
+
+export type CorrectionAuthor = {
+  by: string;
+  reason: string;
+};
+
+export type CorrectionResult<T> =
+  | { ok: true; measurement: T; correction: MeasurementCorrection }
+  | { ok: false; error: string };
+
+export function isDeleted(row: { deleted_at?: string | null }): boolean {
+  return !!row.deleted_at;
+}
+
+function snapshot(row: CorrectableFields): CorrectableFields {
+  return {
+    value: row.value,
+    raw_value: row.raw_value,
+    raw_unit: row.raw_unit,
+    result: row.result,
+    notes: row.notes,
+    replicates: row.replicates,
+    replicate_accepted: row.replicate_accepted,
+  };
+}
+
+// Fields whose values differ between two snapshots
+export function changedFields(
+  before: CorrectableFields,
+  after: CorrectableFields
+): (keyof CorrectableFields)[] {
+  // Replicates are arrays; older snapshots don't have them
+  return (Object.keys(after) as (keyof CorrectableFields)[]).filter(
+    (k) => JSON.stringify(before[k] ?? null) !== JSON.stringify(after[k] ?? null)
+  );
+}
+
+function validateAuthor({ by, reason }: CorrectionAuthor): string | null {
+  if (!by.trim()) return "Enter who is making the correction";
+  if (!reason.trim()) return "Enter a reason for the correction";
+  return null;
+}
+
+// The audit row; queued ahead of the measurement change it describes
+function correctionRow(
+  row: CorrectableMeasurement,
+  action: CorrectionAction,
+  after: CorrectableFields | null,
+  author: CorrectionAuthor
+): MeasurementCorrection {
+  return {
+    id: newClientId(),
+    measurement_id: row.id,
+    property_id: row.property_id,
+    action,
+    changed_by: author.by.trim(),
+    changed_at: new Date().toISOString(),
+    reason: author.reason.trim(),
+    before: snapshot(row),
+    after,
+  };
+}
+
+// Queue the audit row, then the change; drop the audit row
+// again when the change could not be queued or written
+async function applyCorrection(
+  row: CorrectableMeasurement,
+  correction: MeasurementCorrection,
+  patch: Record<string, unknown>,
+  before: Record<string, unknown>
+): Promise<boolean> {
+  try {
+    await queueInsert("measurement_correction", [correction]);
+  } catch (err) {
+    console.error("Correction log error:", err);
+    return false;
+  }
+  try {
+    await queueUpdate("measurement", row.id, patch, before);
+  } catch (err) {
+    console.error("Correction update error:", err);
+    await queueDelete("measurement_correction", correction.id).catch((e) =>
+      console.error("Correction rollback error:", e)
+    );
+    return false;
+  }
+  return true;
+}
+
+export async function correctMeasurement<T extends CorrectableMeasurement>(
+  row: T,
+  after: CorrectableFields,
+  author: CorrectionAuthor
+): Promise<CorrectionResult<T>> {
+  const invalid = validateAuthor(author);
+  if (invalid) return { ok: false, error: invalid };
+  if (isDeleted(row)) {
+    return { ok: false, error: "Deleted readings cannot be edited" };
+  }
+  if (changedFields(snapshot(row), after).length === 0) {
+    return { ok: false, error: "Nothing was changed" };
+  }
+
+  const correction = correctionRow(row, "edit", snapshot(after), author);
+  const ok = await applyCorrection(row, correction, snapshot(after), snapshot(row));
+  if (!ok) return { ok: false, error: "Error saving correction" };
+  return { ok: true, measurement: { ...row, ...snapshot(after) }, correction };
+}
+
+export async function deleteMeasurement<T extends CorrectableMeasurement>(
+  row: T,
+  author: CorrectionAuthor
+): Promise<CorrectionResult<T>> {
+  const invalid = validateAuthor(author);
+  if (invalid) return { ok: false, error: invalid };
+  if (isDeleted(row)) {
+    return { ok: false, error: "Reading is already deleted" };
+  }
+
+  const correction = correctionRow(row, "delete", null, author);
+  const deletedAt = correction.changed_at;
+  const ok = await applyCorrection(
+    row,
+    correction,
+    { deleted_at: deletedAt },
+    { deleted_at: row.deleted_at ?? null }
+  );
+  if (!ok) return { ok: false, error: "Error deleting reading" };
+  return { ok: true, measurement: { ...row, deleted_at: deletedAt }, correction };
+}
+
+// Correction history for a property, newest first
+export async function loadCorrections(
+  propertyId: string
+): Promise<MeasurementCorrection[]> {
+  // Through the offline copy, so queued corrections show too
+  const rows = await workspaceRows<MeasurementCorrection>(
+    "measurement_correction",
+    propertyId,
+    supabase.from("measurement_correction").select("*").eq("property_id", propertyId)
+  );
+  return rows.sort((a, b) => b.changed_at.localeCompare(a.changed_at));
+}
@@ -0,0 +1,187 @@
+// lib/csv.ts
+// --------------------------------------------------------
+// Minimal CSV reading shared by the importers
+// --------------------------------------------------------
+// Comma separated, double quotes around fields that hold
+// commas or quotes ("" inside quotes is a literal quote).
+// Blank lines are skipped; the first line is the header.
+//
+// Cells are read explicitly rather than with Date.parse /
+// Number, whose results vary by browser and locale:
+//   - timestamps: ISO dates, or day/month/year in either
+//     order; "01/10/2026" is rejected unless the import
+//     says which part is the day
+//   - numbers: "." or "," as the decimal mark; "1,250" is
+//     rejected unless the import says which mark it uses
+// --------------------------------------------------------
+
+export type CsvTable = {
+  header: string[];
+  rows: string[][]; // rows[0] is file row 2
+};
+
+export function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      out.push(cur);
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+
+  return out.map((f) => f.trim());
+}
+
+export function parseCsv(text: string): CsvTable | null {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
+  if (lines.length === 0) return null;
+
+  return {
+    header: splitCsvLine(lines[0]),
+    rows: lines.slice(1).map(splitCsvLine),
+  };
+}
+
+/* ---------------- Cell values ---------------- */
+
+// Which part of a "01/10/2026" date is the day
+export const DATE_ORDERS = ["dmy", "mdy"] as const;
+export type DateOrder = (typeof DATE_ORDERS)[number];
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  dmy: "Day first (31/12/2026)",
+  mdy: "Month first (12/31/2026)",
+};
+
+export const DECIMAL_MARKS = [".", ","] as const;
+export type DecimalMark = (typeof DECIMAL_MARKS)[number];
+
+export const DECIMAL_MARK_LABELS: Record<DecimalMark, string> = {
+  ".": "Point (1,250.5)",
+  ",": "Comma (1.250,5)",
+};
+
+const ISO_STAMP =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const NUMERIC_DATE_STAMP =
+  /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})(?:[T ,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?)?$/i;
+
+// Epoch milliseconds; zoneless stamps are local time. Throws a
+// message for anything unreadable or ambiguous.
+export function parseStamp(text: string, order?: DateOrder): number {
+  const stamp = text.trim();
+  let y: number, mo: number, d: number, h: number, mi: number, sec: number;
+  let zone: string | undefined;
+
+  const iso = stamp.match(ISO_STAMP);
+  const numeric = iso ? null : stamp.match(NUMERIC_DATE_STAMP);
+  if (iso) {
+    [y, mo, d, h, mi, sec] = [1, 2, 3, 4, 5, 6].map((i) => Number(iso[i] ?? 0));
+    zone = iso[7];
+  } else if (numeric) {
+    const [a, b] = [Number(numeric[1]), Number(numeric[2])];
+    let dayFirst: boolean;
+    if (order) dayFirst = order === "dmy";
+    else if (a > 12 || a === b) dayFirst = true;
+    else if (b > 12) dayFirst = false;
+    else throw new Error(`Ambiguous date "${stamp}"; choose day first or month first`);
+    [d, mo] = dayFirst ? [a, b] : [b, a];
+    y = Number(numeric[3]);
+    [h, mi, sec] = [4, 5, 6].map((i) => Number(numeric[i] ?? 0));
+    const meridiem = numeric[7]?.toLowerCase();
+    if (meridiem) {
+      if (h < 1 || h > 12) throw new Error(`Unreadable timestamp "${stamp}"`);
+      h = (h % 12) + (meridiem === "pm" ? 12 : 0);
+    }
+  } else {
+    throw new Error(`Unreadable timestamp "${stamp}"`);
+  }
+
+  // Date rolls 31/02 over into March; reject instead
+  const local = new Date(y, mo - 1, d, h, mi, sec);
+  if (
+    local.getFullYear() !== y ||
+    local.getMonth() !== mo - 1 ||
+    local.getDate() !== d ||
+    h > 23 ||
+    mi > 59 ||
+    sec > 59
+  ) {
+    throw new Error(`No such date or time "${stamp}"`);
+  }
+  if (!zone) return local.getTime();
+
+  const offset =
+    zone.toUpperCase() === "Z"
+      ? 0
+      : (zone[0] === "-" ? -1 : 1) *
+        (Number(zone.slice(1, 3)) * 60 + Number(zone.slice(-2)));
+  return Date.UTC(y, mo - 1, d, h, mi, sec) - offset * 60_000;
+}
+
+// Digit groups of three after the first, e.g. "1,250,000"
+// ("0,250" can't be grouped)
+const grouped = (digits: string, sep: string) =>
+  new RegExp(`^[1-9]\\d{0,2}(\\${sep}\\d{3})+$`).test(digits);
+
+// A number with either decimal mark. Throws a message when the
+// text isn't a number or could be read two ways.
+export function parseDecimal(text: string, mark?: DecimalMark): number {
+  const raw = text.trim();
+  const sign = /^[-+]/.test(raw) ? raw[0] : "";
+  const body = raw.slice(sign.length);
+  const fail = (why: string) => new Error(`Value "${raw}" ${why}`);
+  if (!/^[\d.,]+$/.test(body) || !/\d/.test(body)) throw fail("is not a number");
+
+  const lastDot = body.lastIndexOf(".");
+  const lastComma = body.lastIndexOf(",");
+  let decimal: DecimalMark | null;
+  if (mark) {
+    decimal = mark;
+  } else if (lastDot >= 0 && lastComma >= 0) {
+    // The mark that comes last is the decimal one
+    decimal = lastDot > lastComma ? "." : ",";
+  } else if (lastDot < 0 && lastComma < 0) {
+    decimal = ".";
+  } else {
+    const sep = lastDot >= 0 ? "." : ",";
+    const count = body.split(sep).length - 1;
+    // "1,250" reads as 1250 or 1.25; "21,4" can only be 21.4
+    if (count === 1 && grouped(body, sep)) {
+      throw fail("could be read two ways; choose the decimal mark");
+    }
+    decimal = count === 1 ? sep : null; // several = thousands only
+    if (!decimal && !grouped(body, sep)) throw fail("is not a number");
+    if (!decimal) return Number(sign + body.split(sep).join(""));
+  }
+
+  const thousands = decimal === "." ? "," : ".";
+  const [whole, fraction, ...extra] = body.split(decimal);
+  if (extra.length > 0 || fraction?.includes(thousands)) throw fail("is not a number");
+  if (whole.includes(thousands) && !grouped(whole, thousands)) {
+    throw fail("is not a number");
+  }
+  const value = Number(
+    sign + whole.split(thousands).join("") + (fraction !== undefined ? `.${fraction}` : "")
+  );
+  if (!Number.isFinite(value)) throw fail("is not a number");
+  return value;
+}
@@ -0,0 +1,413 @@
+// lib/i18n/en.ts
+// --------------------------------------------------------
+// English client-report copy (source catalog)
+// --------------------------------------------------------
+// Every other locale must provide the same keys; see es.ts.
+// **bold** marks emphasis, {name} marks a parameter, and
+// ".one" / ".other" suffixes pick a plural form.
+// --------------------------------------------------------
+
+export const en = {
+  // ---- Shell ----
+  "report.loading": "Building your Home Health Report…",
+  "report.noProperty.title": "No properties found",
+  "report.noProperty.body":
+    "Once you complete your first on-site assessment, your full Home Health Report will appear here.",
+  "report.brandTagline": "Home Health Engineering Report",
+  "report.language": "Language",
+  "report.footer": "Sanctuary Solutions™ · Home Health Engineers",
+
+  "nav.snapshot": "Snapshot",
+  "nav.metrics": "Metrics",
+  "nav.light": "Light",
+  "nav.why": "Why",
+  "nav.rooms": "Rooms",
+  "nav.compare": "Compare",
+  "nav.action": "Action",
+
+  // ---- Share link (technician view) ----
+  "share.button": "Generate Share Link",
+  "share.noProperty": "No property loaded yet.",
+  "share.failed": "Failed to generate link.",
+  "share.copied": "Share link copied!\n\n{link}",
+  "share.error": "Error generating share link.",
+
+  // ---- Common ----
+  "common.notTested": "Not tested",
+  "common.notMeasured": "Not measured",
+  "common.comfortable": "Comfortable",
+  "common.statusOverall": "{status} overall.",
+  "common.outOf100": "/ 100",
+  "category.overall": "Overall",
+
+  // ---- Snapshot ----
+  "snapshot.label": "Snapshot",
+  "snapshot.title": "Your latest home health profile",
+  "snapshot.heading": "Home Health Report",
+  "snapshot.mostRecent": "Most recent property",
+  "snapshot.categoriesTested": "Categories tested:",
+  "snapshot.noneYet": "None yet",
+  "snapshot.overall": "Overall Home Health",
+  "snapshot.weightedBlend": "Weighted blend of tested categories.",
+
+  // ---- Safety alerts ----
+  "safety.tier": "Safety alert",
+  "safety.withheld": "Score withheld until resolved.",
+  "safety.title": "Safety alert: act on this first",
+  "safety.body":
+    "These readings are at or above a health-based safety limit. We do not blend them into a score: the affected categories and your overall score are withheld until the source is fixed and retested.",
+  "safety.reading": "{metric}: {value} (limit {limit})",
+  "safety.guideline": "Limit: {guideline}",
+  "snapshot.scoredWith": "Scored with {profile} · {aggregation} across rooms",
+  "snapshot.rescore": "Re-score: {profile}",
+  "snapshot.category": "Category",
+  "snapshot.property": "Property",
+  "snapshot.addressOnFile": "Address on file",
+  "snapshot.cityState": "City, State",
+  "snapshot.waterSource": "Water: {source}",
+  "snapshot.standard": "Evaluated against {standard}",
+  "snapshot.household": "Household",
+  "snapshot.householdMissing": "Household details not provided.",
+  "snapshot.stricterLink": "Stricter targets applied for this household →",
+  "snapshot.flags": "Flags",
+  "snapshot.categoryScores": "Category Scores",
+  "snapshot.categoryScoresBody":
+    "Higher scores indicate better conditions for long-term health and comfort.",
+  "snapshot.coverage": "{measured} of {total} metrics measured",
+
+  "occupants.adults.one": "{count} adult",
+  "occupants.adults.other": "{count} adults",
+  "occupants.children.one": "{count} child",
+  "occupants.children.other": "{count} children",
+  "occupants.pets.one": "{count} pet",
+  "occupants.pets.other": "{count} pets",
+
+  "flag.humidity": "Humidity outside 40–60%",
+  "flag.humidityNote": "(comfort + mold risk)",
+  "flag.co2": "Elevated CO₂ during measurement",
+  "flag.co2Note": "(ventilation recommended)",
+  "flag.pm25": "Elevated fine particles",
+  "flag.pm25Note": "(filtration recommended)",
+  "flag.none": "No significant flags at time of testing.",
+
+  // ---- Detailed metrics ----
+  "metrics.label": "Detailed View",
+  "metrics.title": "How your home performed by metric",
+  "note.worstRoom": "worst room",
+  "note.worstTap": "worst tap",
+  "note.worstSpot": "worst spot",
+
+  "local.air": "Local Air Risks",
+  "local.airTip":
+    "Houston’s 2025 air data shows PM₂.₅ and refinery chemicals like benzene and formaldehyde reaching 10–30× above health guidelines, a level associated with increased long-term health risks.",
+  "local.water": "Local Water Risks",
+  "local.waterTip":
+    "Houston’s latest report shows multiple homes tested above the federal action level for lead – a contaminant linked to IQ loss, behavioral problems, and irreversible neurological damage in children.",
+  "local.ether": "Local EMF Context",
+  "local.etherTip":
+    "Nearby cell towers, building wiring patterns, and power infrastructure all contribute to background EMF exposure. Click to view the electromagnetic environment around your home.",
+
+  "co2.title": "CO₂ (Carbon Dioxide)",
+  "co2.subtitle": "Impacts alertness, decision-making, and sleep quality.",
+  "co2.reading": "Your snapshot reading ({note}) was **{value}**.",
+  "co2.li1":
+    "**≤ 700 ppm** is considered fresh, outdoor-like air where most people feel sharp and clear.",
+  "co2.li2":
+    "**700–1000 ppm** is typical of occupied indoor spaces with decent ventilation.",
+  "co2.li3":
+    "**Above ~1200 ppm**, people often report stuffiness, fatigue, and reduced focus.",
+  "co2.body":
+    "Sustained CO₂ above 1500–2000 ppm can impair complex thinking and make spaces feel oppressive. The goal is to keep your daily peaks closer to **{target} ppm** or below during active use.",
+
+  "pm25.title": "PM₂.₅ (Fine Particles)",
+  "pm25.subtitle": "Tiny particles that can reach deep into the lungs.",
+  "pm25.reading": "Your PM₂.₅ reading ({note}) was **{value}**.",
+  "pm25.li1": "**0–9 µg/m³**: excellent, aligned with the latest WHO annual guideline.",
+  "pm25.li2": "**9–20 µg/m³**: moderate; common in traffic-exposed or cooking-heavy spaces.",
+  "pm25.li3":
+    "**> 20 µg/m³**: elevated; long-term exposure is associated with respiratory and cardiovascular risk.",
+  "pm25.body":
+    "Sources include cooking, candles, outdoor pollution, and poorly filtered HVAC. We generally recommend kitchen exhaust use and a HEPA-grade purifier if levels are regularly above **10–15 µg/m³**.",
+
+  "pm10.title": "PM₁₀ (Coarse Particles)",
+  "pm10.subtitle": "Larger particles linked to irritation and dust load.",
+  "pm10.reading": "Your PM₁₀ reading ({note}) was **{value}**.",
+  "pm10.li1": "**≤ 30 µg/m³**: excellent for an indoor setting.",
+  "pm10.li2":
+    "**30–50 µg/m³**: moderate; expect more visible dust and potential irritation for sensitive individuals.",
+  "pm10.li3": "**> 50 µg/m³**: high; often seen in dusty, high-traffic, or renovation-adjacent areas.",
+  "pm10.body":
+    "Elevated PM₁₀ can be a sign of resuspended dust, open windows near busy roads, or inadequate filtration on your HVAC system.",
+
+  "vocs.title": "VOCs (Volatile Organic Compounds)",
+  "vocs.subtitle": "Off-gassing from finishes, cleaners, and fragrances.",
+  "vocs.reading": "Your total VOC reading ({note}) was **{value}**.",
+  "vocs.li1": "**≤ 200 ppb**: good; typical of a well-ventilated home.",
+  "vocs.li2": "**200–500 ppb**: fair; look for new furniture, paints, or scented products.",
+  "vocs.li3": "**> 500 ppb**: poor; ventilate and remove sources, especially in bedrooms.",
+
+  "comfort.title": "Temp & Humidity",
+  "comfort.subtitle": "Comfort envelope and mold risk factors.",
+  "comfort.reading":
+    "At the time of testing ({note} snapshot), indoor temperature was **{temp}** and relative humidity was **{humidity}**.",
+  "comfort.li1":
+    "**40–60% humidity** is typically best for comfort, respiratory health, and mold prevention.",
+  "comfort.li2": "Below **40%**, air can feel dry and irritating to the eyes and airways.",
+  "comfort.li3": "Above **60%**, the risk of dust mites and mold growth increases over time.",
+  "comfort.li4":
+    "**{range}** is the comfort range we target; rooms outside it are called out as too cold or too warm.",
+  "comfort.body":
+    "We look at humidity in context with your building envelope, HVAC settings, and local climate to balance comfort with long-term durability.",
+
+  "gases.title": "Combustion Gases",
+  "gases.subtitle": "CO, NO₂, formaldehyde, and ozone from stoves, garages, and furnishings.",
+  "gases.limit": "safety limit {limit}",
+  "gases.body":
+    "Gas stoves, attached garages, and fuel-burning appliances are the usual sources. Any reading at a safety limit is flagged as a safety alert rather than averaged into your score.",
+
+  "radon.title": "Radon",
+  "radon.subtitle": "Radioactive soil gas that collects in lower levels of the home.",
+  "radon.reading": "Highest radon result was **{value}** ({test}).",
+  "radon.noTest": "test type not recorded",
+  "radon.li1": "The EPA recommends fixing homes at **{limit}** or above.",
+  "radon.li2":
+    "Short-term tests screen; a long-term test (90+ days) reflects your year-round exposure and decides mitigation.",
+  "radon.body":
+    "Mitigation (usually sub-slab depressurization) is reliable and typically cuts levels by more than half.",
+
+  "tds.title": "Total Dissolved Solids (TDS)",
+  "tds.subtitle": "An overall indicator of dissolved minerals and contaminants.",
+  "tds.reading": "Your TDS reading ({note}) was **{value}**.",
+  "tds.li1": "**< 150 ppm**: very low mineral content, similar to many filtration systems.",
+  "tds.li2": "**150–300 ppm**: typical for municipal tap water.",
+  "tds.li3": "**> 300 ppm**: higher mineral load; may impact taste, scaling, and appliance life.",
+  "tds.body":
+    "TDS doesn't specify exactly what's present, but it's a valuable screening metric. For elevated readings, we often recommend point-of-use filtration with carbon + sediment stages, and in some cases reverse osmosis.",
+
+  "cl.title": "Chlorine",
+  "cl.subtitle": "Disinfection byproduct with taste and respiratory impact.",
+  "cl.reading": "Your chlorine level ({note}) was **{value}**.",
+  "cl.li1": "**0.2–1.0 ppm** is common for municipal systems.",
+  "cl.li2":
+    "Elevated chlorine can dry skin and hair and aggravate sensitive airways, especially during showering.",
+  "cl.body":
+    "Carbon filtration is highly effective at reducing chlorine, improving both taste and shower experience.",
+
+  "ph.title": "pH",
+  "ph.subtitle": "Acid/alkaline balance of your tap water.",
+  "ph.reading": "Your measured pH ({note}) was **{value}**.",
+  "ph.li1":
+    "**6.5–8.5** is generally considered acceptable for drinking water from a corrosivity and taste perspective.",
+  "ph.li2":
+    "Significantly low pH can contribute to pipe corrosion; very high pH can cause scaling and off taste.",
+  "ph.body":
+    "pH is interpreted alongside TDS, hardness, and plumbing materials to decide whether treatment or corrosion control is appropriate.",
+
+  "panel.title": "Water Panel",
+  "panel.subtitle": "Hardness, chloramine, nitrate, lead, iron, and coliform bacteria.",
+  "panel.source": "Supply: **{source}**.",
+  "panel.sourceUnknown": "Supply type not recorded.",
+  "panel.limit": "safety limit {limit}",
+  "panel.body":
+    "Lead and coliform are health results; hardness and iron mostly affect taste, scaling, and staining. Chloramine is not removed by standard carbon pitchers, so we size filtration to it.",
+
+  "mag.title": "Magnetic Fields (ELF)",
+  "mag.subtitle": "Extremely low frequency fields from wiring and large appliances.",
+  "mag.reading": "Snapshot magnetic field ({note}) was **{value}**.",
+  "mag.body":
+    "While there are no universally accepted residential limits, many precautionary guidelines aim to keep long-term sleeping areas below about **{range}** when feasible.",
+
+  "electric.title": "Electric Fields",
+  "electric.subtitle": "Voltage-related fields from wiring, cords, and some devices.",
+  "electric.reading": "Electric field at the time of testing ({note}) was **{value}**.",
+  "electric.body":
+    "We focus most remediation on sleeping areas and high-use workspaces, using distance, wiring optimization, and device placement adjustments.",
+
+  "rf.title": "Radiofrequency (RF)",
+  "rf.subtitle": "Wireless signals from Wi-Fi, phones, and nearby infrastructure.",
+  "rf.reading": "RF power density snapshot ({note}) was **{value}**.",
+  "rf.body":
+    "We interpret RF in context: proximity to routers and devices, sleep locations, and your sensitivity profile. When requested, we prioritize reducing nighttime and long-duration exposures.",
+  "rf.peakReading":
+    "RF power density ({note}) peaked at **{peak}**, averaging **{average}**. Building-biology guidance is written for peak values, so the score uses the peak.",
+
+  "dirty.title": "Dirty Electricity",
+  "dirty.subtitle": "High-frequency voltage spikes riding on household wiring.",
+  "dirty.reading": "Highest outlet reading ({note}) was **{value}**.",
+  "dirty.body":
+    "Dimmers, LED drivers, solar inverters and chargers add these transients. Replacing or filtering the worst sources usually brings readings down without rewiring.",
+
+  "bodyVoltage.title": "Body Voltage",
+  "bodyVoltage.subtitle": "Voltage your body picks up from nearby wiring while lying in bed.",
+  "bodyVoltage.reading": "Body voltage ({note}) measured **{value}**.",
+  "bodyVoltage.body":
+    "Cords under the bed, wiring in the headboard wall, and ungrounded lamps raise body voltage. Moving cords and switching off bedroom circuits at night are the usual first steps.",
+
+  "ether.sleepingNote":
+    "Readings tagged as sleeping areas are held to stricter thresholds: {reason}",
+  "ether.sleepingTag": "sleeping area",
+
+  // ---- Light ----
+  "light.label": "Light",
+  "light.title": "How your lighting supports your eyes and sleep",
+  "light.intro":
+    "Light sets your body clock as much as it lets you see. We look at how bright each space is, how steady the light is, how warm or cool it looks, and how much melanopic (sleep-disrupting) light reaches you in the evening.",
+  "light.score": "Light Score",
+
+  "lux.title": "Illuminance",
+  "lux.subtitle": "How much light reaches the work and living surfaces.",
+  "lux.reading": "Measured illuminance ({note}) was **{value}**.",
+  "lux.li1": "**{range}** suits reading, cooking, and desk work.",
+  "lux.li2": "Too little light causes eye strain; too much from bare sources causes glare.",
+  "lux.body":
+    "Layered lighting (ambient plus task lamps) usually fixes both dim corners and glare without raising overall brightness.",
+
+  "flicker.title": "Flicker",
+  "flicker.subtitle": "Rapid brightness modulation, mostly from LED drivers and dimmers.",
+  "flicker.reading": "Measured flicker percent ({note}) was **{value}**.",
+  "flicker.li1": "**Below 8%** is generally invisible and low-risk.",
+  "flicker.li2":
+    "Higher modulation is linked to headaches, eye strain, and migraines in sensitive people, even when it cannot be seen.",
+  "flicker.body":
+    "Swapping the worst bulbs for low-flicker models, or pairing dimmers with compatible drivers, usually resolves it.",
+
+  "cct.title": "Color Temperature (CCT)",
+  "cct.subtitle": "How warm (amber) or cool (blue-white) your light appears.",
+  "cct.reading": "Measured color temperature ({note}) was **{value}**.",
+  "cct.li1": "**{range}** is a comfortable daytime range for living spaces.",
+  "cct.li2": "Cool, blue-rich light is alerting; it belongs in the morning and at desks, not bedrooms at night.",
+  "cct.body":
+    "Tunable or warm-dim fixtures let the same room run cooler by day and warmer in the evening.",
+
+  "blue.title": "Nighttime Blue Light",
+  "blue.subtitle": "Melanopic light reaching the eye in the evening, which delays sleep.",
+  "blue.reading": "Evening melanopic light ({note}) was **{value}**.",
+  "blue.li1": "**Below {limit}** in sleeping areas supports melatonin onset.",
+  "blue.li2": "Screens, cool-white bulbs, and outdoor lighting through windows are the usual sources.",
+  "blue.body":
+    "Warm night lighting, dimming after sunset, and blackout window coverings are the most effective fixes.",
+
+  // ---- Score breakdown ----
+  "why.label": "Score Breakdown",
+  "why.title": "Why your scores came out this way",
+  "why.intro":
+    "Each category score is a weighted blend of its metrics. For every metric we show the value that was scored, the band it falls in, its sub-score and how many points it contributed under {profile}.",
+  "why.wholeHome": "Whole-home values: {aggregation}.",
+  "why.worstNote": "Each reading is shown with the room and time it was taken.",
+  "why.stricterTitle": "Stricter targets for your household",
+  "why.stricterBody":
+    "Because of who lives here, these metrics were scored against tighter thresholds than the standard profile.",
+  "why.stricterItem": "best band up to {to} (standard {from})",
+  "why.stricterSleepingItem":
+    "in sleeping areas, best band up to {to} (otherwise {from})",
+
+  "breakdown.metric": "Metric",
+  "breakdown.reading": "Reading",
+  "breakdown.band": "Band",
+  "breakdown.subScore": "Sub-score",
+  "breakdown.weight": "Weight",
+  "breakdown.points": "Points",
+  "breakdown.exposure": "{percent}% of {hours} h logged outside the ideal range",
+  "breakdown.sharedWeights":
+    "Weights in parentheses belong to unmeasured metrics and are shared among the measured ones.",
+
+  // ---- Rooms ----
+  "rooms.label": "Room-by-room Analysis",
+  "rooms.title": "Where issues are showing up in your home",
+  "rooms.snapshot": "Room-by-room snapshot",
+  "rooms.airMetrics": "Air metrics",
+  "rooms.waterMetrics": "Water metrics",
+  "rooms.etherMetrics": "Ether metrics",
+  "rooms.lightMetrics": "Light metrics",
+  "rooms.soundMetrics": "Sound metrics",
+  "rooms.sound": "Sound in this room",
+  "rooms.soundSource": "Source: {source}",
+  "rooms.empty": "No measurements captured yet.",
+  "rooms.unassigned": "Whole-home / Unassigned",
+  "rooms.unassignedBody": "Measurements not tied to a specific room.",
+  "rooms.replicates": "{n} readings · ±{sd} {unit} · CV {cv}%",
+  "rooms.replicateAccepted": "accepted reading",
+  "rooms.replicateOutliers": "outliers left out: {count}",
+  "rooms.logged": "Continuous logging",
+  "logger.stats": "{hours} h logged · mean {mean} · p95 {p95} {unit}",
+  "logger.above": "{percent}% of the time above {threshold} {unit}",
+  "logger.outside": "{percent}% of the time outside the ideal range",
+  "table.metric": "Metric",
+  "table.value": "Value",
+  "table.unit": "Unit",
+  "table.time": "Time",
+
+  // ---- Compare ----
+  "compare.label": "Context",
+  "compare.title": "How your air compares",
+  "compare.pm25Body": "Fine particulate comparison.",
+  "compare.pm10Body": "Coarse particulate comparison.",
+  "compare.co2Body": "Indoor CO₂ vs. typical conditions.",
+  "compare.yourReading": "Your reading:",
+  "compare.yourHome": "Your Home",
+  "compare.outdoor": "Outdoor",
+  "compare.ioRatio": "Indoor/outdoor {ratio}× · {band}",
+  "compare.target": "SaSo Target",
+  "compare.avg": "avg",
+  "compare.typical": "typical",
+  "compare.national":
+    "No regional baseline matches this address yet; comparisons use U.S. averages.",
+  "compare.baselines": "Baselines:",
+  "compare.noneAvailable": "none available",
+
+  // ---- Findings ----
+  "findings.label": "Findings",
+  "findings.title": "What the readings show, most severe first",
+  "findings.highOnly": "High severity only",
+  "findings.all": "All issues",
+  "findings.noneHigh": "No high-severity findings for this home.",
+  "findings.none": "No issues found in the measured categories.",
+
+  // ---- Action plan ----
+  "action.label": "Next Steps",
+  "action.title": "Your prioritized mitigation plan",
+  "roadmap.label": "Personalized Roadmap",
+  "roadmap.title": "What we recommend for this home, in this order",
+  "roadmap.step1": "1. Stabilize daily air quality",
+  "roadmap.step1Body":
+    "Focus first on the rooms where your household spends the most time: bedrooms, living room, and home office (if applicable). Based on your current readings, we recommend:",
+  "roadmap.step1Item1":
+    "Run a **HEPA purifier** in the bedroom overnight and living area during use.",
+  "roadmap.step1Item2":
+    "Use your kitchen exhaust fan whenever cooking, especially when searing or using gas.",
+  "roadmap.step1Item3":
+    "Periodically open windows or use mechanical ventilation when outdoor air quality is good.",
+  "roadmap.step2": "2. Tighten up water quality at points of use",
+  "roadmap.step2Body":
+    "Even when municipal water is \"in spec,\" many households prefer to reduce TDS and chlorine for taste and skin comfort. For this home, the highest-impact upgrades would be:",
+  "roadmap.step2Item1":
+    "Install a **point-of-use carbon filter** on the primary drinking/cooking tap.",
+  "roadmap.step2Item2":
+    "Consider a **shower filter** for the most frequently used bathroom to reduce chlorine exposure.",
+  "roadmap.step3": "3. Optimize \"Ether\" around sleep and focus",
+  "roadmap.step3Body":
+    "We prioritize EMF/Ether improvements where your body is in one place for long periods: beds and desks. For this home, we recommend:",
+  "roadmap.step3Item1":
+    "Move routers, cordless bases, and large electronics at least **6–8 feet** away from beds where feasible.",
+  "roadmap.step3Item2":
+    "Use \"airplane mode\" or a dedicated charging spot outside the bedroom overnight.",
+  "roadmap.step3Item3":
+    "Route power strips and chargers away from the head of the bed to reduce ELF electric and magnetic fields.",
+  "roadmap.step4": "4. Re-test after changes",
+  "roadmap.step4Body":
+    "After implementing your top 1–3 changes, we recommend a follow-up measurement session to confirm the impact—especially for CO₂, PM₂.₅, and humidity. This also helps fine-tune any remaining issues rather than overcorrecting.",
+  "quick.label": "Quick Actions",
+  "quick.title": "High-value moves in the next 30 days",
+  "quick.item1":
+    "Add a **HEPA-grade air purifier** to the most-used bedroom, and run it nightly on low or medium.",
+  "quick.item2":
+    "Use **kitchen exhaust** every time you cook, especially for searing, roasting, or high heat.",
+  "quick.item3":
+    "Install a **carbon block filter** on the main drinking tap to reduce chlorine and off-flavors.",
+  "quick.item4":
+    "Move **Wi-Fi routers** and always-on electronics away from beds and work chairs when practical.",
+  "quick.item5":
+    "Set a simple habit: **10 minutes of fresh air** (open windows or use ventilation) after cooking or gatherings.",
+};
+
+export type MessageKey = keyof typeof en;
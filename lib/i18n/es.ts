@@ -0,0 +1,738 @@
+// lib/i18n/es.ts
+// --------------------------------------------------------
+// Spanish client-report copy
+// --------------------------------------------------------
+// `messages` mirrors en.ts key for key, `findings` mirrors
+// the summary catalog in lib/scoring/findings.ts, and
+// `labels` translates the English labels produced by the
+// scoring engine (bands, metric names, strategies, …).
+// --------------------------------------------------------
+
+import type { MessageKey } from "@/lib/i18n/en";
+import type { FindingKey } from "@/lib/scoring/findings";
+
+export const messages: Record<MessageKey, string> = {
+  // ---- Shell ----
+  "report.loading": "Preparando su Reporte de Salud del Hogar…",
+  "report.noProperty.title": "No se encontraron propiedades",
+  "report.noProperty.body":
+    "Cuando complete su primera evaluación en sitio, su Reporte de Salud del Hogar completo aparecerá aquí.",
+  "report.brandTagline": "Reporte de Ingeniería de Salud del Hogar",
+  "report.language": "Idioma",
+  "report.footer": "Sanctuary Solutions™ · Ingenieros de Salud del Hogar",
+
+  "nav.snapshot": "Resumen",
+  "nav.metrics": "Métricas",
+  "nav.light": "Luz",
+  "nav.why": "Por qué",
+  "nav.rooms": "Espacios",
+  "nav.compare": "Comparar",
+  "nav.action": "Acción",
+
+  // ---- Share link (technician view) ----
+  "share.button": "Generar enlace para compartir",
+  "share.noProperty": "Aún no se ha cargado ninguna propiedad.",
+  "share.failed": "No se pudo generar el enlace.",
+  "share.copied": "¡Enlace copiado!\n\n{link}",
+  "share.error": "Error al generar el enlace para compartir.",
+
+  // ---- Common ----
+  "common.notTested": "Sin evaluar",
+  "common.notMeasured": "Sin medir",
+  "common.comfortable": "Confortable",
+  "common.statusOverall": "{status} en general.",
+  "common.outOf100": "/ 100",
+  "category.overall": "General",
+
+  // ---- Snapshot ----
+  "snapshot.label": "Resumen",
+  "snapshot.title": "El perfil de salud más reciente de su hogar",
+  "snapshot.heading": "Reporte de Salud del Hogar",
+  "snapshot.mostRecent": "Propiedad más reciente",
+  "snapshot.categoriesTested": "Categorías evaluadas:",
+  "snapshot.noneYet": "Ninguna todavía",
+  "snapshot.overall": "Salud general del hogar",
+  "snapshot.weightedBlend": "Promedio ponderado de las categorías evaluadas.",
+
+  // ---- Safety alerts ----
+  "safety.tier": "Alerta de seguridad",
+  "safety.withheld": "Puntuación retenida hasta resolverse.",
+  "safety.title": "Alerta de seguridad: atienda esto primero",
+  "safety.body":
+    "Estas lecturas igualan o superan un límite de seguridad basado en la salud. No las promediamos en una puntuación: las categorías afectadas y su puntuación general quedan retenidas hasta corregir la fuente y volver a medir.",
+  "safety.reading": "{metric}: {value} (límite {limit})",
+  "safety.guideline": "Límite: {guideline}",
+  "snapshot.scoredWith": "Calificado con {profile} · {aggregation} entre espacios",
+  "snapshot.rescore": "Recalificar: {profile}",
+  "snapshot.category": "Categoría",
+  "snapshot.property": "Propiedad",
+  "snapshot.addressOnFile": "Dirección registrada",
+  "snapshot.cityState": "Ciudad, Estado",
+  "snapshot.waterSource": "Agua: {source}",
+  "snapshot.standard": "Evaluado según {standard}",
+  "snapshot.household": "Hogar",
+  "snapshot.householdMissing": "No se proporcionaron datos del hogar.",
+  "snapshot.stricterLink": "Se aplicaron metas más estrictas para este hogar →",
+  "snapshot.flags": "Alertas",
+  "snapshot.categoryScores": "Puntajes por categoría",
+  "snapshot.categoryScoresBody":
+    "Un puntaje más alto indica mejores condiciones para la salud y el confort a largo plazo.",
+  "snapshot.coverage": "{measured} de {total} métricas medidas",
+
+  "occupants.adults.one": "{count} adulto",
+  "occupants.adults.other": "{count} adultos",
+  "occupants.children.one": "{count} niño",
+  "occupants.children.other": "{count} niños",
+  "occupants.pets.one": "{count} mascota",
+  "occupants.pets.other": "{count} mascotas",
+
+  "flag.humidity": "Humedad fuera de 40–60%",
+  "flag.humidityNote": "(confort + riesgo de moho)",
+  "flag.co2": "CO₂ elevado durante la medición",
+  "flag.co2Note": "(se recomienda ventilar)",
+  "flag.pm25": "Partículas finas elevadas",
+  "flag.pm25Note": "(se recomienda filtrar)",
+  "flag.none": "Sin alertas importantes al momento de la evaluación.",
+
+  // ---- Detailed metrics ----
+  "metrics.label": "Vista detallada",
+  "metrics.title": "Cómo se desempeñó su hogar en cada métrica",
+  "note.worstRoom": "peor espacio",
+  "note.worstTap": "peor grifo",
+  "note.worstSpot": "peor punto",
+
+  "local.air": "Riesgos locales del aire",
+  "local.airTip":
+    "Los datos de aire de Houston de 2025 muestran PM₂.₅ y químicos de refinería como benceno y formaldehído de 10 a 30 veces por encima de las guías de salud, un nivel asociado con mayores riesgos de salud a largo plazo.",
+  "local.water": "Riesgos locales del agua",
+  "local.waterTip":
+    "El reporte más reciente de Houston muestra varias viviendas por encima del nivel de acción federal para plomo, un contaminante vinculado con pérdida de coeficiente intelectual, problemas de conducta y daño neurológico irreversible en niños.",
+  "local.ether": "Contexto local de CEM",
+  "local.etherTip":
+    "Las antenas celulares cercanas, el cableado del edificio y la infraestructura eléctrica contribuyen a la exposición de fondo a campos electromagnéticos. Haga clic para ver el entorno electromagnético alrededor de su hogar.",
+
+  "co2.title": "CO₂ (dióxido de carbono)",
+  "co2.subtitle": "Afecta el estado de alerta, la toma de decisiones y la calidad del sueño.",
+  "co2.reading": "Su lectura ({note}) fue de **{value}**.",
+  "co2.li1":
+    "**≤ 700 ppm** se considera aire fresco, similar al exterior, donde la mayoría de las personas se sienten despejadas.",
+  "co2.li2":
+    "**700–1000 ppm** es típico de espacios interiores ocupados con ventilación adecuada.",
+  "co2.li3":
+    "**Por encima de ~1200 ppm**, las personas suelen reportar aire cargado, fatiga y menor concentración.",
+  "co2.body":
+    "Un CO₂ sostenido por encima de 1500–2000 ppm puede afectar el razonamiento complejo y hacer que los espacios se sientan pesados. La meta es mantener los picos diarios cerca de **{target} ppm** o menos durante el uso activo.",
+
+  "pm25.title": "PM₂.₅ (partículas finas)",
+  "pm25.subtitle": "Partículas diminutas que pueden llegar a lo profundo de los pulmones.",
+  "pm25.reading": "Su lectura de PM₂.₅ ({note}) fue de **{value}**.",
+  "pm25.li1": "**0–9 µg/m³**: excelente, en línea con la guía anual más reciente de la OMS.",
+  "pm25.li2": "**9–20 µg/m³**: moderado; común en espacios expuestos al tráfico o con mucha cocina.",
+  "pm25.li3":
+    "**> 20 µg/m³**: elevado; la exposición prolongada se asocia con riesgo respiratorio y cardiovascular.",
+  "pm25.body":
+    "Las fuentes incluyen cocinar, velas, contaminación exterior y sistemas de aire mal filtrados. En general recomendamos usar la campana de la cocina y un purificador con filtro HEPA si los niveles suelen superar **10–15 µg/m³**.",
+
+  "pm10.title": "PM₁₀ (partículas gruesas)",
+  "pm10.subtitle": "Partículas más grandes vinculadas con irritación y carga de polvo.",
+  "pm10.reading": "Su lectura de PM₁₀ ({note}) fue de **{value}**.",
+  "pm10.li1": "**≤ 30 µg/m³**: excelente para un espacio interior.",
+  "pm10.li2":
+    "**30–50 µg/m³**: moderado; espere más polvo visible y posible irritación en personas sensibles.",
+  "pm10.li3": "**> 50 µg/m³**: alto; frecuente en zonas polvorientas, de mucho tránsito o cercanas a remodelaciones.",
+  "pm10.body":
+    "Un PM₁₀ elevado puede indicar polvo resuspendido, ventanas abiertas cerca de calles transitadas o filtración insuficiente en su sistema de aire.",
+
+  "vocs.title": "COV (compuestos orgánicos volátiles)",
+  "vocs.subtitle": "Emisiones de acabados, productos de limpieza y fragancias.",
+  "vocs.reading": "Su lectura de COV totales ({note}) fue de **{value}**.",
+  "vocs.li1": "**≤ 200 ppb**: bueno; típico de un hogar bien ventilado.",
+  "vocs.li2": "**200–500 ppb**: regular; revise muebles nuevos, pinturas o productos aromatizados.",
+  "vocs.li3": "**> 500 ppb**: deficiente; ventile y retire las fuentes, sobre todo en las recámaras.",
+
+  "comfort.title": "Temperatura y humedad",
+  "comfort.subtitle": "Rango de confort y factores de riesgo de moho.",
+  "comfort.reading":
+    "Al momento de la evaluación ({note}), la temperatura interior era de **{temp}** y la humedad relativa de **{humidity}**.",
+  "comfort.li1":
+    "**40–60% de humedad** suele ser lo mejor para el confort, la salud respiratoria y la prevención de moho.",
+  "comfort.li2": "Por debajo de **40%**, el aire puede sentirse seco e irritar los ojos y las vías respiratorias.",
+  "comfort.li3": "Por encima de **60%**, aumenta con el tiempo el riesgo de ácaros y moho.",
+  "comfort.li4":
+    "**{range}** es el rango de confort que buscamos; los espacios fuera de él se señalan como demasiado fríos o cálidos.",
+  "comfort.body":
+    "Evaluamos la humedad junto con la envolvente del edificio, la configuración del aire acondicionado y el clima local para equilibrar el confort con la durabilidad a largo plazo.",
+
+  "gases.title": "Gases de combustión",
+  "gases.subtitle": "CO, NO₂, formaldehído y ozono de estufas, garajes y mobiliario.",
+  "gases.limit": "límite de seguridad {limit}",
+  "gases.body":
+    "Las estufas de gas, los garajes adjuntos y los aparatos de combustión son las fuentes habituales. Cualquier lectura en un límite de seguridad se marca como alerta de seguridad en lugar de promediarse en su puntuación.",
+
+  "radon.title": "Radón",
+  "radon.subtitle": "Gas radiactivo del suelo que se acumula en los niveles bajos de la casa.",
+  "radon.reading": "El resultado de radón más alto fue **{value}** ({test}).",
+  "radon.noTest": "tipo de prueba no registrado",
+  "radon.li1": "La EPA recomienda corregir las viviendas con **{limit}** o más.",
+  "radon.li2":
+    "Las pruebas de corto plazo sirven de detección; una prueba de largo plazo (90+ días) refleja su exposición durante todo el año y determina la mitigación.",
+  "radon.body":
+    "La mitigación (normalmente despresurización bajo la losa) es confiable y suele reducir los niveles a menos de la mitad.",
+
+  "tds.title": "Sólidos disueltos totales (TDS)",
+  "tds.subtitle": "Un indicador general de minerales y contaminantes disueltos.",
+  "tds.reading": "Su lectura de TDS ({note}) fue de **{value}**.",
+  "tds.li1": "**< 150 ppm**: contenido mineral muy bajo, similar al de muchos sistemas de filtración.",
+  "tds.li2": "**150–300 ppm**: típico del agua municipal.",
+  "tds.li3": "**> 300 ppm**: mayor carga mineral; puede afectar el sabor, el sarro y la vida de los aparatos.",
+  "tds.body":
+    "El TDS no indica exactamente qué contiene el agua, pero es una métrica de detección valiosa. Para lecturas elevadas solemos recomendar filtración en el punto de uso con etapas de carbón y sedimentos y, en algunos casos, ósmosis inversa.",
+
+  "cl.title": "Cloro",
+  "cl.subtitle": "Desinfectante con impacto en el sabor y las vías respiratorias.",
+  "cl.reading": "Su nivel de cloro ({note}) fue de **{value}**.",
+  "cl.li1": "**0.2–1.0 ppm** es común en sistemas municipales.",
+  "cl.li2":
+    "El cloro elevado puede resecar la piel y el cabello e irritar las vías respiratorias sensibles, sobre todo al ducharse.",
+  "cl.body":
+    "La filtración con carbón es muy eficaz para reducir el cloro y mejora tanto el sabor como la experiencia en la ducha.",
+
+  "ph.title": "pH",
+  "ph.subtitle": "Equilibrio ácido/alcalino del agua de su grifo.",
+  "ph.reading": "Su pH medido ({note}) fue de **{value}**.",
+  "ph.li1":
+    "**6.5–8.5** se considera generalmente aceptable para agua potable en cuanto a corrosividad y sabor.",
+  "ph.li2":
+    "Un pH muy bajo puede contribuir a la corrosión de tuberías; un pH muy alto puede causar sarro y mal sabor.",
+  "ph.body":
+    "El pH se interpreta junto con el TDS, la dureza y los materiales de plomería para decidir si conviene un tratamiento o control de corrosión.",
+
+  "panel.title": "Panel de agua",
+  "panel.subtitle": "Dureza, cloramina, nitrato, plomo, hierro y bacterias coliformes.",
+  "panel.source": "Suministro: **{source}**.",
+  "panel.sourceUnknown": "Tipo de suministro no registrado.",
+  "panel.limit": "límite de seguridad {limit}",
+  "panel.body":
+    "El plomo y los coliformes son resultados de salud; la dureza y el hierro afectan sobre todo el sabor, el sarro y las manchas. Las jarras de carbón comunes no eliminan la cloramina, así que dimensionamos la filtración para ella.",
+
+  "mag.title": "Campos magnéticos (ELF)",
+  "mag.subtitle": "Campos de frecuencia extremadamente baja del cableado y aparatos grandes.",
+  "mag.reading": "El campo magnético medido ({note}) fue de **{value}**.",
+  "mag.body":
+    "Aunque no existen límites residenciales aceptados universalmente, muchas guías preventivas buscan mantener las zonas de descanso por debajo de **{range}** cuando es posible.",
+
+  "electric.title": "Campos eléctricos",
+  "electric.subtitle": "Campos asociados al voltaje del cableado, cables y algunos aparatos.",
+  "electric.reading": "El campo eléctrico al momento de la evaluación ({note}) fue de **{value}**.",
+  "electric.body":
+    "Enfocamos la mayor parte de la mitigación en las zonas de descanso y de trabajo, usando distancia, optimización del cableado y reubicación de aparatos.",
+
+  "rf.title": "Radiofrecuencia (RF)",
+  "rf.subtitle": "Señales inalámbricas de Wi-Fi, teléfonos e infraestructura cercana.",
+  "rf.reading": "La densidad de potencia de RF medida ({note}) fue de **{value}**.",
+  "rf.body":
+    "Interpretamos la RF en contexto: cercanía a routers y aparatos, lugares de descanso y su perfil de sensibilidad. Cuando se solicita, priorizamos reducir la exposición nocturna y prolongada.",
+  "rf.peakReading":
+    "La densidad de potencia de RF ({note}) alcanzó un pico de **{peak}**, con un promedio de **{average}**. Las guías de biología de la construcción se basan en valores pico, por lo que la puntuación usa el pico.",
+
+  "dirty.title": "Electricidad sucia",
+  "dirty.subtitle": "Picos de voltaje de alta frecuencia en el cableado de la casa.",
+  "dirty.reading": "La lectura más alta en un tomacorriente ({note}) fue de **{value}**.",
+  "dirty.body":
+    "Reguladores de intensidad, controladores LED, inversores solares y cargadores añaden estos transitorios. Reemplazar o filtrar las peores fuentes suele bajar las lecturas sin recablear.",
+
+  "bodyVoltage.title": "Voltaje corporal",
+  "bodyVoltage.subtitle": "Voltaje que su cuerpo capta del cableado cercano mientras está acostado.",
+  "bodyVoltage.reading": "El voltaje corporal ({note}) fue de **{value}**.",
+  "bodyVoltage.body":
+    "Los cables bajo la cama, el cableado en la pared de la cabecera y las lámparas sin tierra elevan el voltaje corporal. Mover cables y apagar los circuitos del dormitorio por la noche son los primeros pasos habituales.",
+
+  "ether.sleepingNote":
+    "Las lecturas marcadas como zonas de descanso se evalúan con umbrales más estrictos: {reason}",
+  "ether.sleepingTag": "zona de descanso",
+
+  // ---- Light ----
+  "light.label": "Luz",
+  "light.title": "Cómo su iluminación cuida su vista y su sueño",
+  "light.intro":
+    "La luz regula su reloj biológico tanto como le permite ver. Evaluamos qué tan iluminado está cada espacio, qué tan estable es la luz, qué tan cálida o fría se ve y cuánta luz melanópica (que altera el sueño) le llega por la noche.",
+  "light.score": "Puntuación de luz",
+
+  "lux.title": "Iluminancia",
+  "lux.subtitle": "Cuánta luz llega a las superficies de trabajo y de estar.",
+  "lux.reading": "La iluminancia medida ({note}) fue de **{value}**.",
+  "lux.li1": "**{range}** es adecuado para leer, cocinar y trabajar en escritorio.",
+  "lux.li2": "La poca luz cansa la vista; el exceso de fuentes descubiertas produce deslumbramiento.",
+  "lux.body":
+    "La iluminación por capas (ambiental más lámparas de tarea) suele corregir tanto los rincones oscuros como el deslumbramiento sin aumentar el brillo general.",
+
+  "flicker.title": "Parpadeo",
+  "flicker.subtitle": "Variación rápida del brillo, sobre todo por controladores LED y atenuadores.",
+  "flicker.reading": "El porcentaje de parpadeo medido ({note}) fue de **{value}**.",
+  "flicker.li1": "**Menos de 8%** por lo general es invisible y de bajo riesgo.",
+  "flicker.li2":
+    "Una modulación mayor se asocia con dolores de cabeza, fatiga visual y migrañas en personas sensibles, aunque no se perciba.",
+  "flicker.body":
+    "Cambiar los peores focos por modelos de bajo parpadeo, o usar atenuadores con controladores compatibles, suele resolverlo.",
+
+  "cct.title": "Temperatura de color (CCT)",
+  "cct.subtitle": "Qué tan cálida (ámbar) o fría (blanco azulado) se ve su luz.",
+  "cct.reading": "La temperatura de color medida ({note}) fue de **{value}**.",
+  "cct.li1": "**{range}** es un rango diurno cómodo para espacios habitables.",
+  "cct.li2": "La luz fría y rica en azul estimula; conviene en la mañana y en escritorios, no en recámaras por la noche.",
+  "cct.body":
+    "Las luminarias ajustables o de atenuación cálida permiten que un mismo espacio sea más frío de día y más cálido por la noche.",
+
+  "blue.title": "Luz azul nocturna",
+  "blue.subtitle": "Luz melanópica que llega a los ojos por la noche y retrasa el sueño.",
+  "blue.reading": "La luz melanópica nocturna ({note}) fue de **{value}**.",
+  "blue.li1": "**Menos de {limit}** en las áreas de descanso favorece la liberación de melatonina.",
+  "blue.li2": "Las pantallas, los focos blanco frío y la iluminación exterior que entra por las ventanas son las fuentes habituales.",
+  "blue.body":
+    "La luz cálida por la noche, atenuar después del atardecer y las cortinas opacas son las soluciones más eficaces.",
+
+  // ---- Score breakdown ----
+  "why.label": "Desglose del puntaje",
+  "why.title": "Por qué sus puntajes resultaron así",
+  "why.intro":
+    "El puntaje de cada categoría es un promedio ponderado de sus métricas. Para cada métrica mostramos el valor calificado, el rango en el que cae, su subpuntaje y cuántos puntos aportó según {profile}.",
+  "why.wholeHome": "Valores de toda la casa: {aggregation}.",
+  "why.worstNote": "Cada lectura se muestra con el espacio y la hora en que se tomó.",
+  "why.stricterTitle": "Metas más estrictas para su hogar",
+  "why.stricterBody":
+    "Por quienes viven aquí, estas métricas se calificaron con umbrales más estrictos que los del perfil estándar.",
+  "why.stricterItem": "mejor rango hasta {to} (estándar {from})",
+  "why.stricterSleepingItem":
+    "en zonas de descanso, mejor rango hasta {to} (de lo contrario {from})",
+
+  "breakdown.metric": "Métrica",
+  "breakdown.reading": "Lectura",
+  "breakdown.band": "Rango",
+  "breakdown.subScore": "Subpuntaje",
+  "breakdown.weight": "Peso",
+  "breakdown.points": "Puntos",
+  "breakdown.exposure": "{percent}% de {hours} h registradas fuera del rango ideal",
+  "breakdown.sharedWeights":
+    "Los pesos entre paréntesis corresponden a métricas no medidas y se reparten entre las medidas.",
+
+  // ---- Rooms ----
+  "rooms.label": "Análisis por espacio",
+  "rooms.title": "Dónde aparecen los problemas en su hogar",
+  "rooms.snapshot": "Resumen del espacio",
+  "rooms.airMetrics": "Métricas de aire",
+  "rooms.waterMetrics": "Métricas de agua",
+  "rooms.etherMetrics": "Métricas de éter",
+  "rooms.lightMetrics": "Métricas de luz",
+  "rooms.soundMetrics": "Métricas de sonido",
+  "rooms.sound": "Sonido en este espacio",
+  "rooms.soundSource": "Fuente: {source}",
+  "rooms.empty": "Aún no hay mediciones registradas.",
+  "rooms.unassigned": "Toda la casa / Sin asignar",
+  "rooms.unassignedBody": "Mediciones no asociadas a un espacio específico.",
+  "rooms.replicates": "{n} lecturas · ±{sd} {unit} · CV {cv}%",
+  "rooms.replicateAccepted": "lectura aceptada",
+  "rooms.replicateOutliers": "valores atípicos excluidos: {count}",
+  "rooms.logged": "Registro continuo",
+  "logger.stats": "{hours} h registradas · media {mean} · p95 {p95} {unit}",
+  "logger.above": "{percent}% del tiempo por encima de {threshold} {unit}",
+  "logger.outside": "{percent}% del tiempo fuera del rango ideal",
+  "table.metric": "Métrica",
+  "table.value": "Valor",
+  "table.unit": "Unidad",
+  "table.time": "Hora",
+
+  // ---- Compare ----
+  "compare.label": "Contexto",
+  "compare.title": "Cómo se compara su aire",
+  "compare.pm25Body": "Comparación de partículas finas.",
+  "compare.pm10Body": "Comparación de partículas gruesas.",
+  "compare.co2Body": "CO₂ interior frente a condiciones típicas.",
+  "compare.yourReading": "Su lectura:",
+  "compare.yourHome": "Su hogar",
+  "compare.outdoor": "Exterior",
+  "compare.ioRatio": "Interior/exterior {ratio}× · {band}",
+  "compare.target": "Meta SaSo",
+  "compare.avg": "prom.",
+  "compare.typical": "típico",
+  "compare.national":
+    "Aún no hay una referencia regional para esta dirección; las comparaciones usan promedios de EE. UU.",
+  "compare.baselines": "Referencias:",
+  "compare.noneAvailable": "no disponible",
+
+  // ---- Findings ----
+  "findings.label": "Hallazgos",
+  "findings.title": "Lo que muestran las lecturas, de mayor a menor gravedad",
+  "findings.highOnly": "Solo gravedad alta",
+  "findings.all": "Todos los problemas",
+  "findings.noneHigh": "No hay hallazgos de gravedad alta en este hogar.",
+  "findings.none": "No se encontraron problemas en las categorías medidas.",
+
+  // ---- Action plan ----
+  "action.label": "Próximos pasos",
+  "action.title": "Su plan de mitigación priorizado",
+  "roadmap.label": "Plan personalizado",
+  "roadmap.title": "Lo que recomendamos para este hogar, en este orden",
+  "roadmap.step1": "1. Estabilizar la calidad del aire diaria",
+  "roadmap.step1Body":
+    "Empiece por los espacios donde su familia pasa más tiempo: recámaras, sala y oficina en casa (si aplica). Según sus lecturas actuales, recomendamos:",
+  "roadmap.step1Item1":
+    "Usar un **purificador HEPA** en la recámara durante la noche y en la sala mientras se usa.",
+  "roadmap.step1Item2":
+    "Encender la campana de la cocina siempre que cocine, sobre todo al sellar o usar gas.",
+  "roadmap.step1Item3":
+    "Abrir ventanas periódicamente o usar ventilación mecánica cuando la calidad del aire exterior sea buena.",
+  "roadmap.step2": "2. Mejorar la calidad del agua en los puntos de uso",
+  "roadmap.step2Body":
+    "Aunque el agua municipal esté \"dentro de norma\", muchas familias prefieren reducir el TDS y el cloro por sabor y confort de la piel. Para este hogar, las mejoras de mayor impacto serían:",
+  "roadmap.step2Item1":
+    "Instalar un **filtro de carbón en el punto de uso** en el grifo principal para beber y cocinar.",
+  "roadmap.step2Item2":
+    "Considerar un **filtro de regadera** en el baño más usado para reducir la exposición al cloro.",
+  "roadmap.step3": "3. Optimizar el \"éter\" en zonas de descanso y concentración",
+  "roadmap.step3Body":
+    "Priorizamos las mejoras de CEM/éter donde su cuerpo permanece mucho tiempo en un solo lugar: camas y escritorios. Para este hogar, recomendamos:",
+  "roadmap.step3Item1":
+    "Alejar routers, bases de teléfonos inalámbricos y aparatos grandes al menos **2 metros** de las camas cuando sea posible.",
+  "roadmap.step3Item2":
+    "Usar el \"modo avión\" o un lugar de carga fuera de la recámara durante la noche.",
+  "roadmap.step3Item3":
+    "Alejar regletas y cargadores de la cabecera de la cama para reducir los campos eléctricos y magnéticos ELF.",
+  "roadmap.step4": "4. Volver a medir después de los cambios",
+  "roadmap.step4Body":
+    "Después de aplicar sus 1–3 cambios principales, recomendamos una sesión de seguimiento para confirmar el impacto, especialmente en CO₂, PM₂.₅ y humedad. Esto también ayuda a ajustar lo que falte sin corregir de más.",
+  "quick.label": "Acciones rápidas",
+  "quick.title": "Cambios de alto valor en los próximos 30 días",
+  "quick.item1":
+    "Agregue un **purificador de aire HEPA** en la recámara más usada y úselo cada noche en velocidad baja o media.",
+  "quick.item2":
+    "Use la **campana de la cocina** cada vez que cocine, sobre todo al sellar, hornear o a fuego alto.",
+  "quick.item3":
+    "Instale un **filtro de bloque de carbón** en el grifo principal para reducir el cloro y los malos sabores.",
+  "quick.item4":
+    "Aleje los **routers Wi-Fi** y los aparatos siempre encendidos de camas y sillas de trabajo cuando sea práctico.",
+  "quick.item5":
+    "Adopte un hábito sencillo: **10 minutos de aire fresco** (ventanas abiertas o ventilación) después de cocinar o de reuniones.",
+};
+
+export const findings: Record<FindingKey, string> = {
+  // ---- AIR ----
+  "air.notTested": "Aire sin evaluar",
+  "air.excellent": "La calidad del aire es excelente en todos los contaminantes medidos",
+  "co2.excellent": "CO₂ excelente",
+  "co2.acceptable": "CO₂ aceptable",
+  "co2.elevated": "CO₂ elevado",
+  "co2.high": "CO₂ alto",
+  "co2.veryHigh": "CO₂ muy alto",
+  "pm25.ideal": "PM₂.₅ ideal",
+  "pm25.moderate": "PM₂.₅ moderadamente elevado",
+  "pm25.elevated": "PM₂.₅ elevado",
+  "pm25.high": "PM₂.₅ alto",
+  "pm10.ideal": "PM₁₀ ideal",
+  "pm10.moderate": "PM₁₀ moderado",
+  "pm10.elevated": "PM₁₀ elevado",
+  "vocs.low": "COV bajos",
+  "vocs.moderate": "COV moderados (estimación del sensor)",
+  "vocs.high": "COV altos (estimación del sensor; confirmar con muestreo de laboratorio)",
+  "humidity.outside": "Humedad: {band}",
+  "temp.outside": "Temperatura: {band}",
+  "co.elevated": "CO elevado (por debajo del límite de seguridad)",
+  "no2.elevated": "NO₂ elevado (por debajo del límite de seguridad)",
+  "hcho.elevated": "Formaldehído elevado (por debajo del límite de seguridad)",
+  "o3.elevated": "Ozono elevado (por debajo del límite de seguridad)",
+  "radon.elevated": "Radón elevado; considere la mitigación",
+
+  // ---- SAFETY ALERTS ----
+  "safety.alert": "Lectura igual o superior a su límite de seguridad",
+  "co.alert":
+    "Monóxido de carbono igual o superior al límite de seguridad: ventile de inmediato, revise las alarmas de CO y haga inspeccionar los aparatos de combustión",
+  "no2.alert":
+    "Dióxido de nitrógeno por encima del límite de seguridad: ventile y haga revisar los aparatos de gas y su ventilación",
+  "hcho.alert":
+    "Formaldehído por encima del límite de seguridad: ventile e identifique muebles, gabinetes o aglomerados nuevos",
+  "o3.alert":
+    "Ozono por encima del límite de seguridad: apague cualquier purificador que genere ozono y ventile",
+  "radon.alert":
+    "Radón igual o superior al nivel de acción de la EPA en una prueba de largo plazo: planifique la mitigación",
+  "nitrate.alert":
+    "Nitrato por encima del límite de la EPA: no lo use para fórmula infantil; use agua embotellada o tratada",
+  "lead.alert":
+    "Plomo igual o superior al nivel de acción de la EPA: use agua filtrada o embotellada para beber y cocinar",
+  "bacteria.alert":
+    "Se detectaron bacterias coliformes: hierva el agua o use agua embotellada hasta desinfectar el suministro y volver a analizarlo",
+  "radon.confirm":
+    "Radón igual o superior al nivel de acción de la EPA en una prueba de corto plazo: confirme con una prueba de largo plazo",
+
+  // ---- WATER ----
+  "water.notTested": "Agua sin evaluar",
+  "water.excellent": "Minerales equilibrados; excelente para el sabor y la hidratación",
+  "water.phOnlyInRange": "pH dentro del rango recomendado",
+  "tds.veryLow": "TDS muy bajo (carece de minerales benéficos)",
+  "tds.balanced": "Minerales equilibrados",
+  "tds.moderate": "TDS moderado (ligeramente mineralizada)",
+  "tds.hard": "Agua dura (no óptima)",
+  "tds.high": "TDS alto (afecta el sabor y genera sarro)",
+  "cl.low": "Cloro bajo",
+  "cl.moderate": "Cloro moderado",
+  "cl.elevated": "Cloro elevado",
+  "ph.outside": "pH: {band}",
+  "water.seeAlerts": "Resultados en un límite de seguridad; vea la alerta de seguridad",
+  "hardness.soft": "Agua blanda",
+  "hardness.moderate": "Agua moderadamente dura",
+  "hardness.hard": "Agua dura (probable formación de sarro)",
+  "hardness.veryHard": "Agua muy dura (considere un suavizador)",
+  "totalCl.low": "Cloro total bajo",
+  "totalCl.typical": "Cloramina en niveles municipales típicos",
+  "totalCl.elevated": "Cloro total elevado",
+  "totalCl.high": "Cloro total por encima del límite de desinfectante de la EPA",
+  "nitrate.low": "Nitrato bajo",
+  "nitrate.moderate": "Nitrato moderado",
+  "nitrate.elevated": "Nitrato elevado (por debajo del límite de la EPA)",
+  "lead.minimal": "Plomo mínimo",
+  "lead.detectable": "Plomo detectable (ningún nivel es seguro para los niños)",
+  "lead.elevated": "Plomo elevado (por debajo del nivel de acción de la EPA)",
+  "iron.low": "Hierro bajo",
+  "iron.acceptable": "Hierro aceptable",
+  "iron.staining": "Hierro suficiente para manchar accesorios",
+  "iron.high": "Hierro alto (sabor y manchas)",
+  "bacteria.none": "No se detectaron bacterias coliformes",
+  "lead.screen": "Casa construida antes de 1986: analice el agua del grifo para detectar plomo",
+  "well.test": "Pozo privado: analice bacterias y nitrato al menos una vez al año",
+
+  // ---- ETHER ----
+  "ether.notTested": "Éter sin evaluar",
+  "ether.excellent": "Los campos magnéticos, eléctricos y de RF son todos muy bajos",
+  "mag.low": "Campos magnéticos bajos",
+  "mag.moderate": "Campos magnéticos moderadamente elevados",
+  "mag.elevated": "Campos magnéticos elevados",
+  "electric.low": "Campos eléctricos bajos",
+  "electric.elevated": "Campos eléctricos elevados",
+  "electric.high": "Campos eléctricos altos",
+  "rf.low": "Exposición a RF baja",
+  "rf.moderate": "RF moderadamente elevada",
+  "rf.elevated": "RF elevada",
+  "rf.high": "RF alta en comparación con niveles interiores típicos",
+  "dirty.low": "Electricidad sucia baja",
+  "dirty.moderate": "Electricidad sucia moderada",
+  "dirty.elevated": "Electricidad sucia elevada",
+  "bodyVoltage.low": "Voltaje corporal bajo",
+  "bodyVoltage.moderate": "Voltaje corporal moderado",
+  "bodyVoltage.elevated": "Voltaje corporal elevado",
+  "sleeping.elevated":
+    "Campos en zonas de descanso por encima de la guía más estricta para dormitorios",
+
+  // ---- LIGHT ----
+  "light.notTested": "Luz sin evaluar",
+  "light.excellent": "La iluminación está bien equilibrada: estable, cómoda y favorable para el sueño",
+  "lux.ideal": "Iluminancia en el rango ideal",
+  "lux.outside": "Iluminancia: {band}",
+  "flicker.low": "Parpadeo bajo",
+  "flicker.moderate": "Parpadeo moderado",
+  "flicker.high": "Parpadeo alto (revise controladores LED y atenuadores)",
+  "cct.outside": "Temperatura de color: {band}",
+  "blue.low": "Luz azul nocturna baja",
+  "blue.elevated": "Luz azul nocturna elevada",
+  "blue.high": "Luz azul nocturna alta (puede alterar el sueño)",
+
+  // ---- SOUND ----
+  "sound.notTested": "Sonido sin evaluar",
+  "sound.excellent": "Silencioso en todo el hogar, dentro de la guía de la OMS para un sueño reparador",
+  "night.quiet": "Ruido de fondo nocturno bajo",
+  "night.noticeable": "Ruido de fondo nocturno perceptible",
+  "night.disruptive": "Ruido de fondo nocturno por encima de la guía de la OMS para el sueño",
+  "leq.low": "Nivel sonoro promedio bajo",
+  "leq.moderate": "Nivel sonoro promedio moderado",
+  "leq.high": "Nivel sonoro promedio alto",
+  "lmax.low": "Sin eventos de ruido fuerte",
+  "lmax.noticeable": "Eventos de ruido perceptibles",
+  "lmax.disruptive": "Picos de ruido molestos",
+};
+
+// Keyed by the English label (case-insensitive)
+export const labels: Record<string, string> = {
+  // Categories
+  air: "Aire",
+  water: "Agua",
+  ether: "Éter",
+  light: "Luz",
+  sound: "Sonido",
+
+  // Category / ether score labels
+  "not tested": "Sin evaluar",
+  excellent: "Excelente",
+  good: "Bueno",
+  fair: "Regular",
+  poor: "Deficiente",
+  "very poor": "Muy deficiente",
+  moderate: "Moderado",
+  elevated: "Elevado",
+  high: "Alto",
+  low: "Bajo",
+  "very low": "Muy bajo",
+  "very high": "Muy alto",
+  minor: "Menor",
+  "safety alert": "Alerta de seguridad",
+
+  // Band labels
+  comfortable: "Confortable",
+  "ideal range": "Rango ideal",
+  "outside recommended range": "Fuera del rango recomendado",
+  "outside optimal range": "Fuera del rango óptimo",
+  monitor: "Vigilar",
+  warm: "Cálido",
+  hot: "Caluroso",
+  cool: "Fresco",
+  "too hot": "Demasiado caluroso",
+  "too cold": "Demasiado frío",
+  "too dry": "Demasiado seco",
+  "too damp": "Demasiado húmedo",
+  "slightly dry": "Ligeramente seco",
+  "slightly damp": "Ligeramente húmedo",
+  "too acidic": "Demasiado ácido",
+  "too alkaline": "Demasiado alcalino",
+  "slightly acidic": "Ligeramente ácido",
+  "slightly alkaline": "Ligeramente alcalino",
+  "typical municipal": "Típico municipal",
+  "moderate minerals": "Minerales moderados",
+  "high minerals": "Minerales altos",
+  "excellent (fresh air)": "Excelente (aire fresco)",
+  "good (acceptable)": "Bueno (aceptable)",
+  "fair (needs attention)": "Regular (requiere atención)",
+  "poor (ventilation recommended)": "Deficiente (se recomienda ventilar)",
+  "very poor (unhealthy)": "Muy deficiente (no saludable)",
+  "severely elevated (action required)": "Muy elevado (se requiere acción)",
+  bright: "Brillante",
+  "glare risk": "Riesgo de deslumbramiento",
+  dim: "Tenue",
+  "too dim": "Demasiado tenue",
+  "cool white": "Blanco frío",
+  "blue-rich": "Rica en azul",
+  "very warm": "Muy cálido",
+  "sleep-safe": "Apto para dormir",
+  "evening-safe": "Apto para la noche",
+  quiet: "Silencioso",
+  "very quiet": "Muy silencioso",
+  loud: "Ruidoso",
+  "very loud": "Muy ruidoso",
+  noticeable: "Perceptible",
+  disruptive: "Molesto",
+  "very disruptive": "Muy molesto",
+  "sleep-disruptive": "Altera el sueño",
+  background: "Nivel de fondo",
+  hazardous: "Peligroso",
+  "typical indoor": "Típico en interiores",
+  "consider mitigation": "Considere mitigar",
+  "action level": "Nivel de acción",
+  soft: "Blanda",
+  "moderately hard": "Moderadamente dura",
+  hard: "Dura",
+  "very hard": "Muy dura",
+  "above epa limit": "Por encima del límite de la EPA",
+  minimal: "Mínimo",
+  detectable: "Detectable",
+  acceptable: "Aceptable",
+  staining: "Mancha",
+
+  // Metric names
+  temperature: "Temperatura",
+  humidity: "Humedad",
+  vocs: "COV",
+  "free chlorine": "Cloro libre",
+  "total dissolved solids (tds)": "Sólidos disueltos totales (TDS)",
+  "magnetic field (elf)": "Campo magnético (ELF)",
+  "electric field": "Campo eléctrico",
+  "radiofrequency (rf)": "Radiofrecuencia (RF)",
+  "radiofrequency (rf, peak)": "Radiofrecuencia (RF, pico)",
+  "dirty electricity": "Electricidad sucia",
+  "body voltage": "Voltaje corporal",
+
+  // Guideline standards (lib/scoring/standards.ts)
+  "saso standard": "Estándar SaSo",
+  "epa / who": "EPA / OMS",
+  "building biology sbm-2015": "Biología de la construcción SBM-2015",
+  "no anomaly": "Sin anomalía",
+  "slight anomaly": "Anomalía leve",
+  "severe anomaly": "Anomalía severa",
+  "extreme anomaly": "Anomalía extrema",
+  "saso bands: epa limits where they exist, comfort and precautionary bands elsewhere.":
+    "Bandas SaSo: límites de la EPA donde existen, bandas de confort y de precaución en el resto.",
+  "health-based limits from the u.s. epa and the world health organization, using the stricter who guideline where both exist.":
+    "Límites de salud de la EPA de EE. UU. y la Organización Mundial de la Salud, usando la guía más estricta de la OMS cuando existen ambas.",
+  "precautionary guideline values for sleeping areas from the standard of building biology testing methods (baubiologie maes / ibn).":
+    "Valores guía de precaución para zonas de descanso del Estándar de Métodos de Medición de Biología de la Construcción (Baubiologie Maes / IBN).",
+  "ventilation and thermal-comfort criteria from ashrae standards 62.1/62.2 and 55.":
+    "Criterios de ventilación y confort térmico de las normas ASHRAE 62.1/62.2 y 55.",
+  "fields where you sleep act on the body for hours each night, while it is meant to recover.":
+    "Los campos donde usted duerme actúan sobre el cuerpo durante horas cada noche, mientras debería recuperarse.",
+
+  // Indoor/outdoor ratio bands (lib/scoring/profiles.ts)
+  "well filtered": "Bien filtrado",
+  "tracks outdoor": "Sigue al exterior",
+  "indoor sources": "Fuentes interiores",
+  "strong indoor sources": "Fuentes interiores fuertes",
+  illuminance: "Iluminancia",
+  flicker: "Parpadeo",
+  "color temperature (cct)": "Temperatura de color (CCT)",
+  "nighttime blue light": "Luz azul nocturna",
+  "sound level (leq)": "Nivel sonoro (Leq)",
+  "peak noise (lmax)": "Ruido máximo (Lmax)",
+  "nighttime background": "Ruido de fondo nocturno",
+  "carbon monoxide (co)": "Monóxido de carbono (CO)",
+  "nitrogen dioxide (no₂)": "Dióxido de nitrógeno (NO₂)",
+  formaldehyde: "Formaldehído",
+  "ozone (o₃)": "Ozono (O₃)",
+  radon: "Radón",
+  "short-term (2–90 days)": "Corto plazo (2–90 días)",
+  "long-term (90+ days)": "Largo plazo (90+ días)",
+  "total hardness": "Dureza total",
+  "total chlorine (chloramine)": "Cloro total (cloramina)",
+  nitrate: "Nitrato",
+  lead: "Plomo",
+  iron: "Hierro",
+  "coliform bacteria": "Bacterias coliformes",
+  detected: "Detectado",
+  "not detected": "No detectado",
+  municipal: "Municipal",
+  "private well": "Pozo privado",
+  hvac: "Climatización",
+  street: "Calle",
+  appliance: "Electrodoméstico",
+  "tvoc is a sensor-dependent estimate: metal-oxide sensors report relative, isobutylene-equivalent values, so compare readings from the same instrument type.":
+    "Los COV totales son una estimación que depende del sensor: los sensores de óxido metálico reportan valores relativos equivalentes a isobutileno, así que compare lecturas del mismo tipo de instrumento.",
+
+  // Whole-home aggregation
+  "worst case": "Peor caso",
+  mean: "Promedio",
+  median: "Mediana",
+  "area-weighted": "Ponderado por área",
+  "occupancy-weighted": "Ponderado por ocupación",
+  "worst room": "peor espacio",
+  "home average": "promedio del hogar",
+  "home median": "mediana del hogar",
+  "the reading that scores lowest, found anywhere in the home.":
+    "La lectura con el puntaje más bajo, encontrada en cualquier parte del hogar.",
+  "the average across rooms, each room counted equally.":
+    "El promedio entre espacios, contando cada espacio por igual.",
+  "the middle value across rooms, so one outlier room cannot dominate.":
+    "El valor central entre espacios, para que un espacio atípico no domine.",
+  "the average across rooms, larger rooms counting more.":
+    "El promedio entre espacios, con más peso para los espacios más grandes.",
+  "the average across rooms, bedrooms and offices counting more than rooms you pass through.":
+    "El promedio entre espacios, con más peso para recámaras y oficinas que para los espacios de paso.",
+
+  // Household
+  "children in the home": "Niños en el hogar",
+  "allergies noted": "Alergias reportadas",
+  "asthma present": "Asma presente",
+  "fine particles and stale air trigger asthma symptoms at lower levels.":
+    "Las partículas finas y el aire viciado desencadenan síntomas de asma a niveles más bajos.",
+  "dust, pollen and damp air (mold, dust mites) aggravate allergies.":
+    "El polvo, el polen y el aire húmedo (moho, ácaros) agravan las alergias.",
+  "children breathe more air per body weight and spend long hours asleep near devices.":
+    "Los niños respiran más aire por kilo de peso y pasan muchas horas dormidos cerca de aparatos.",
+
+  // Seasons
+  winter: "invierno",
+  spring: "primavera",
+  summer: "verano",
+  fall: "otoño",
+};
@@ -0,0 +1,157 @@
+// lib/i18n/index.ts
+// --------------------------------------------------------
+// Client-report localization
+// --------------------------------------------------------
+// Message catalogs per locale (en.ts is the source), plus
+// locale-aware number/date formatting. A property stores
+// its `preferred_language`; the report opens in it and the
+// client can switch with ?lang=.
+// --------------------------------------------------------
+
+import { en, type MessageKey } from "@/lib/i18n/en";
+import * as es from "@/lib/i18n/es";
+import {
+  FINDING_MESSAGES,
+  renderFinding,
+  renderFindings,
+  type Finding,
+  type FindingKey,
+} from "@/lib/scoring/findings";
+
+export type { MessageKey } from "@/lib/i18n/en";
+
+export type Locale = "en" | "es";
+
+export const LOCALES: Locale[] = ["en", "es"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+};
+
+// Tags handed to Intl (U.S. conventions for both languages)
+const INTL_TAGS: Record<Locale, string> = {
+  en: "en-US",
+  es: "es-US",
+};
+
+type Catalog = {
+  messages: Record<MessageKey, string>;
+  findings: Record<FindingKey, string>;
+  labels: Record<string, string>; // English engine label → translation
+};
+
+const CATALOGS: Record<Locale, Catalog> = {
+  en: { messages: en, findings: FINDING_MESSAGES, labels: {} },
+  es: { messages: es.messages, findings: es.findings, labels: es.labels },
+};
+
+// Keys with ".one" / ".other" forms, without the suffix
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}.one` ? Base : never;
+}[MessageKey];
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as string[]).includes(value);
+}
+
+// First usable candidate ("es-MX" → "es"), else the default
+export function resolveLocale(
+  ...candidates: (string | null | undefined)[]
+): Locale {
+  for (const c of candidates) {
+    const base = c?.toLowerCase().split(/[-_]/)[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+function interpolate(
+  template: string,
+  params: Record<string, string | number> = {}
+): string {
+  return template.replace(/\{(\w+)\}/g, (_, name: string) =>
+    String(params[name] ?? `{${name}}`)
+  );
+}
+
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: Record<string, string | number>
+): string {
+  return interpolate(CATALOGS[locale].messages[key] ?? en[key], params);
+}
+
+// Labels produced by the scoring engine (bands, metric names, …).
+// Unknown labels pass through; lower-case input stays lower-case.
+export function translateLabel(locale: Locale, label: string): string {
+  const hit = CATALOGS[locale].labels[label.toLowerCase()];
+  if (!hit) return label;
+  const lower = label.charAt(0) === label.charAt(0).toLowerCase();
+  return lower ? hit.charAt(0).toLowerCase() + hit.slice(1) : hit;
+}
+
+export function formatNumber(
+  locale: Locale,
+  value: number,
+  digits?: number
+): string {
+  return new Intl.NumberFormat(INTL_TAGS[locale], {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits ?? 3,
+  }).format(value);
+}
+
+export function formatDate(
+  locale: Locale,
+  value: string | number | Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium" }
+): string {
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "—";
+  return new Intl.DateTimeFormat(INTL_TAGS[locale], options).format(d);
+}
+
+export function formatTime(locale: Locale, value: string | number | Date) {
+  return formatDate(locale, value, { hour: "numeric", minute: "2-digit" });
+}
+
+export function formatDateTime(locale: Locale, value: string | number | Date) {
+  return formatDate(locale, value, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export type Translator = ReturnType<typeof createTranslator>;
+
+// Everything a view needs for one locale, bound once per render
+export function createTranslator(locale: Locale) {
+  const catalog = CATALOGS[locale];
+
+  const localizeFinding = (f: Finding): Finding =>
+    typeof f.params.band === "string"
+      ? { ...f, params: { ...f.params, band: translateLabel(locale, f.params.band) } }
+      : f;
+
+  return {
+    locale,
+    intlTag: INTL_TAGS[locale],
+    t: (key: MessageKey, params?: Record<string, string | number>) =>
+      translate(locale, key, params),
+    plural: (key: PluralKey, count: number) => {
+      const rule = new Intl.PluralRules(INTL_TAGS[locale]).select(count);
+      const form = `${key}.${rule}` in catalog.messages ? rule : "other";
+      return translate(locale, `${key}.${form}` as MessageKey, { count });
+    },
+    label: (label: string) => translateLabel(locale, label),
+    finding: (f: Finding) => renderFinding(localizeFinding(f), catalog.findings),
+    findings: (fs: Finding[]) =>
+      renderFindings(fs.map(localizeFinding), catalog.findings),
+    number: (value: number, digits?: number) =>
+      formatNumber(locale, value, digits),
+    date: (value: string | number | Date) => formatDate(locale, value),
+    time: (value: string | number | Date) => formatTime(locale, value),
+    dateTime: (value: string | number | Date) => formatDateTime(locale, value),
+  };
+}
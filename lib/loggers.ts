@@ -0,0 +1,209 @@
+// lib/loggers.ts
+// --------------------------------------------------------
+// Continuous logger series
+// --------------------------------------------------------
+// Spot readings live in `measurement`; logger runs live in
+// `logger_series`, one row per room and metric with its
+// points stored on the row (thousands per run), so a
+// property's series load in one query.
+//
+// Logger files are wide CSV: a timestamp column plus one
+// column per channel, named after the metric with an
+// optional bracketed unit:
+//
+//   Time,CO2 (ppm),Temperature (°C),RH (%)
+//   2026-10-01 22:00,612,21.4,48
+//
+// Timestamps and numbers are read with lib/csv.ts: rows
+// that could be read two ways ("01/10/2026", "1,250") are
+// rejected unless the upload names the date order or
+// decimal mark. Values are converted to canonical units on
+// ingest.
+// Scoring statistics come from lib/scoring/series.ts.
+// --------------------------------------------------------
+
+import { supabase } from "@/lib/supabaseClient";
+import { newClientId, queueInsert } from "@/lib/sync";
+import {
+  parseCsv,
+  parseDecimal,
+  parseStamp,
+  type DateOrder,
+  type DecimalMark,
+} from "@/lib/csv";
+import { METRICS, inPlausibleRange, type MetricKey } from "@/lib/metrics";
+import { toCanonical } from "@/lib/units";
+import { guessMapping, headerMetric } from "@/lib/meterImport";
+import type { SeriesPoint } from "@/lib/scoring/series";
+
+export type LoggerSeries = {
+  id: string;
+  property_id: string;
+  room_id: string | null;
+  location: "indoor" | "outdoor";
+  metric: MetricKey;
+  unit: string; // canonical; points are stored in it
+  source: string | null; // file or instrument name
+  started_at: string;
+  ended_at: string;
+  points: SeriesPoint[];
+  created_at: string;
+};
+
+// One channel read from a logger file, before it is saved
+export type ParsedChannel = {
+  column: string;
+  metric: MetricKey;
+  rawUnit: string;
+  points: SeriesPoint[];
+};
+
+export type LoggerParseResult = {
+  channels: ParsedChannel[];
+  errors: { row: number; message: string }[];
+  skipped: number; // values left out, including those past MAX_ERRORS
+};
+
+// Long runs with a bad channel would otherwise list thousands of rows
+const MAX_ERRORS = 20;
+
+export function parseLoggerCsv(
+  text: string,
+  format: { dateOrder?: DateOrder; decimalMark?: DecimalMark } = {}
+): LoggerParseResult {
+  const result: LoggerParseResult = { channels: [], errors: [], skipped: 0 };
+  const fail = (row: number, message: string) => {
+    result.skipped++;
+    if (result.errors.length < MAX_ERRORS) result.errors.push({ row, message });
+  };
+
+  const table = parseCsv(text);
+  if (!table) {
+    fail(1, "File is empty");
+    return result;
+  }
+
+  const timeColumn = guessMapping(table.header).columns.timestamp;
+  if (!timeColumn) {
+    fail(1, "No timestamp column (Time, Date, Timestamp…)");
+    return result;
+  }
+  const timeIndex = table.header.indexOf(timeColumn);
+
+  const channels: { index: number; channel: ParsedChannel }[] = [];
+  table.header.forEach((column, index) => {
+    const hit = index === timeIndex ? null : headerMetric(column);
+    if (!hit) return;
+    if (hit.unit === null) {
+      fail(1, `${column}: Unit "${hit.rawUnit}" is not a unit for ${METRICS[hit.metric].label}`);
+      return;
+    }
+    channels.push({
+      index,
+      channel: { column, metric: hit.metric, rawUnit: hit.unit, points: [] },
+    });
+  });
+  if (channels.length === 0) {
+    // Unless the metric columns were already rejected for their unit
+    if (result.errors.length === 0) {
+      fail(1, "No column is named after a metric (CO2, PM2.5, Temperature…)");
+    }
+    return result;
+  }
+
+  table.rows.forEach((fields, i) => {
+    // Row numbers count the header as row 1
+    const row = i + 2;
+    let t: number;
+    try {
+      t = parseStamp(fields[timeIndex] ?? "", format.dateOrder);
+    } catch (err) {
+      fail(row, err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    for (const { index, channel } of channels) {
+      const raw = (fields[index] ?? "").trim();
+      if (!raw) continue;
+      let n: number;
+      try {
+        n = parseDecimal(raw, format.decimalMark);
+      } catch (err) {
+        fail(row, `${channel.column}: ${err instanceof Error ? err.message : String(err)}`);
+        continue;
+      }
+      const value = Number(toCanonical(channel.metric, n, channel.rawUnit).toPrecision(6));
+      if (!Number.isFinite(value) || !inPlausibleRange(channel.metric, value)) {
+        fail(row, `${channel.column}: "${raw}" is not a plausible reading`);
+        continue;
+      }
+      channel.points.push([t, value]);
+    }
+  });
+
+  result.channels = channels
+    .map(({ channel }) => channel)
+    .filter((c) => c.points.length > 0);
+  return result;
+}
+
+// At most `max` points for charting: the peak of each bucket, so
+// short spikes stay visible
+export function downsample(points: SeriesPoint[], max: number): SeriesPoint[] {
+  if (points.length <= max) return points;
+  const size = Math.ceil(points.length / max);
+  const out: SeriesPoint[] = [];
+  for (let i = 0; i < points.length; i += size) {
+    const bucket = points.slice(i, i + size);
+    const peak = bucket.reduce((a, b) => (b[1] > a[1] ? b : a));
+    out.push(peak);
+  }
+  return out;
+}
+
+export async function loadSeries(propertyId: string): Promise<LoggerSeries[]> {
+  const { data, error } = await supabase
+    .from("logger_series")
+    .select("*")
+    .eq("property_id", propertyId)
+    .order("started_at", { ascending: true });
+
+  if (error) {
+    console.error(error);
+    return [];
+  }
+  return (data ?? []) as LoggerSeries[];
+}
+
+// Queued like other workspace writes (lib/sync.ts)
+export async function saveSeries(
+  propertyId: string,
+  channels: ParsedChannel[],
+  room: { room_id: string | null; location: "indoor" | "outdoor" },
+  source: string | null
+): Promise<LoggerSeries[] | null> {
+  const createdAt = new Date().toISOString();
+  const rows: LoggerSeries[] = channels.map((c) => {
+    const points = [...c.points].sort((a, b) => a[0] - b[0]);
+    return {
+      id: newClientId(),
+      property_id: propertyId,
+      ...room,
+      metric: c.metric,
+      unit: METRICS[c.metric].unit,
+      source,
+      started_at: new Date(points[0][0]).toISOString(),
+      ended_at: new Date(points[points.length - 1][0]).toISOString(),
+      points,
+      created_at: createdAt,
+    };
+  });
+
+  try {
+    await queueInsert("logger_series", rows);
+  } catch (err) {
+    console.error("Series save error:", err);
+    return null;
+  }
+  return rows;
+}
@@ -0,0 +1,405 @@
+// lib/meterImport.ts
+// --------------------------------------------------------
+// Meter export import (CSV → measurement rows)
+// --------------------------------------------------------
+// CO₂ monitors, particle counters and EMF loggers export
+// CSV in their own layouts. A column mapping says which
+// header holds each field:
+//
+//   timestamp, metric, value, unit, room
+//
+// Only `value` is required. Exports without a metric, unit
+// or room column (single-channel loggers) use the mapping's
+// defaults instead. Mappings are saved as named presets per
+// instrument model in `import_preset`.
+//
+// Metric names are matched against registry keys, labels
+// and common aliases ("PM2.5", "RH", "Temperature"); units
+// against the metric's units in lib/units.ts. Values are
+// converted to the canonical unit, and the instrument's
+// reading is kept in raw_value / raw_unit, as when typed in.
+//
+// Timestamps and numbers are read with lib/csv.ts; a preset
+// can pin the date order and decimal mark of its instrument,
+// otherwise rows that could be read two ways are rejected.
+// --------------------------------------------------------
+
+import { supabase } from "@/lib/supabaseClient";
+import {
+  parseCsv,
+  parseDecimal,
+  parseStamp,
+  type DateOrder,
+  type DecimalMark,
+} from "@/lib/csv";
+import {
+  METRICS,
+  METRIC_KEYS,
+  inPlausibleRange,
+  presenceValue,
+  type CategoryKey,
+  type MetricKey,
+  type PresenceResult,
+} from "@/lib/metrics";
+import { metricUnits, toCanonical } from "@/lib/units";
+
+export const IMPORT_FIELDS = [
+  "timestamp",
+  "metric",
+  "value",
+  "unit",
+  "room",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  timestamp: "Timestamp",
+  metric: "Metric",
+  value: "Value",
+  unit: "Unit",
+  room: "Room",
+};
+
+export type ColumnMapping = {
+  // Header name per field; unmapped fields use the defaults
+  columns: Partial<Record<ImportField, string>>;
+  defaultMetric?: MetricKey;
+  defaultUnit?: string;
+  defaultRoom?: string; // room id, or "outdoor"
+  // Unset: told apart per row, ambiguous rows rejected
+  dateOrder?: DateOrder;
+  decimalMark?: DecimalMark;
+};
+
+export type ImportPreset = {
+  id: string;
+  name: string;
+  instrument: string; // instrument model, e.g. "Aranet4"
+  mapping: ColumnMapping;
+  created_at: string;
+};
+
+// Room id for outdoor baseline readings (see lib/scoring/aggregate.ts)
+export const OUTDOOR_ROOM = "outdoor";
+
+// A parsed row, ready for the `measurement` table
+export type ImportedReading = {
+  row: number;
+  category: CategoryKey;
+  metric: MetricKey;
+  value: number; // canonical unit
+  unit: string;
+  raw_value: number;
+  raw_unit: string;
+  result: PresenceResult | null;
+  room_id: string | null;
+  location: "indoor" | "outdoor";
+  taken_at: string | null;
+};
+
+export type MeterImportResult = {
+  rows: ImportedReading[];
+  errors: { row: number; message: string }[];
+};
+
+type RoomLike = { id: string; name: string };
+
+// Lowercase ASCII letters and digits only: "PM₂.₅" → "pm25"
+function normalize(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/[₀-₉]/g, (d) => String(d.charCodeAt(0) - 0x2080))
+    .replace(/µ|μ/g, "u")
+    .replace(/²/g, "2")
+    .replace(/³/g, "3")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+// Export headers and metric columns that don't match a key or label
+const METRIC_ALIASES: Record<string, MetricKey> = {
+  carbondioxide: "CO2",
+  rh: "Humidity",
+  relativehumidity: "Humidity",
+  temp: "Temp",
+  tvoc: "VOCs",
+  voc: "VOCs",
+  ozone: "O3",
+  magnetic: "MagField",
+  magneticfield: "MagField",
+  electric: "ElectricField",
+  rfpeak: "RFPeak",
+  illuminance: "Lux",
+  leq: "NoiseLeq",
+  laeq: "NoiseLeq",
+  lmax: "NoiseLmax",
+  lafmax: "NoiseLmax",
+};
+
+// Normalized name → metric; earlier sources win on collisions
+const METRIC_NAMES: Map<string, MetricKey> = (() => {
+  const names = new Map<string, MetricKey>();
+  const add = (name: string, key: MetricKey) => {
+    const n = normalize(name);
+    if (n && !names.has(n)) names.set(n, key);
+  };
+
+  for (const [alias, key] of Object.entries(METRIC_ALIASES)) add(alias, key);
+  for (const key of METRIC_KEYS) add(key, key);
+  for (const key of METRIC_KEYS) {
+    const inner = METRICS[key].label.match(/\(([^)]+)\)/)?.[1];
+    if (inner) add(inner, key);
+  }
+  for (const key of METRIC_KEYS) add(METRICS[key].label, key);
+  for (const key of METRIC_KEYS) {
+    add(METRICS[key].label.replace(/\(.*\)/, ""), key);
+  }
+  return names;
+})();
+
+// Units in brackets are ignored: "CO2 (ppm)", "Temperature [°C]"
+export function matchMetric(name: string): MetricKey | null {
+  return (
+    METRIC_NAMES.get(normalize(name)) ??
+    METRIC_NAMES.get(normalize(name.replace(/[([].*?[)\]]/g, ""))) ??
+    null
+  );
+}
+
+// "ug/m3" → "µg/m³"; blank means the metric's canonical unit
+export function matchUnit(key: MetricKey, unit: string): string | null {
+  if (!unit.trim()) return METRICS[key].unit;
+  const n = normalize(unit);
+  return metricUnits(key).find((u) => normalize(u.unit) === n)?.unit ?? null;
+}
+
+// A header named after a metric, with its unit when bracketed:
+// "CO2 (ppm)" → CO2 in ppm, "PM2.5" → PM25 in the canonical unit.
+// unit is null when the bracketed unit is not one of the metric's
+// ("CO2 (mg)"); rawUnit keeps the text for the error.
+export function headerMetric(
+  header: string
+): { metric: MetricKey; unit: string | null; rawUnit: string } | null {
+  const metric = matchMetric(header);
+  if (!metric) return null;
+  const rawUnit = header.match(/[([](.*?)[)\]]/)?.[1]?.trim() ?? "";
+  return { metric, unit: matchUnit(metric, rawUnit), rawUnit };
+}
+
+function matchRoom(name: string, rooms: RoomLike[]): string | null {
+  const n = normalize(name);
+  if (n === OUTDOOR_ROOM || n === "outside") return OUTDOOR_ROOM;
+  return rooms.find((r) => r.id === name || normalize(r.name) === n)?.id ?? null;
+}
+
+function parsePresence(value: string): PresenceResult | null {
+  const n = normalize(value);
+  if (["detected", "positive", "present", "yes"].includes(n)) {
+    return "detected";
+  }
+  if (["notdetected", "negative", "absent", "no", "none"].includes(n)) {
+    return "not_detected";
+  }
+  return null;
+}
+
+// First-guess mapping from the header row, for the wizard
+export function guessMapping(header: string[]): ColumnMapping {
+  const columns: ColumnMapping["columns"] = {};
+  const patterns: Record<ImportField, RegExp> = {
+    timestamp: /^(timestamp|time|date|datetime|dateandtime|measuredat|takenat)/,
+    metric: /^(metric|parameter|channel|measurement|sensor)$/,
+    value: /^(value|reading|result|level)$/,
+    unit: /^(unit|units|uom)$/,
+    room: /^(room|location|zone|area)$/,
+  };
+
+  for (const field of IMPORT_FIELDS) {
+    const hit = header.find((h) => patterns[field].test(normalize(h)));
+    if (hit) columns[field] = hit;
+  }
+
+  // Single-channel export: the value column is named after the metric
+  const mapping: ColumnMapping = { columns };
+  if (!columns.value) {
+    const named = header.find((h) => h !== columns.timestamp && matchMetric(h));
+    const hit = named ? headerMetric(named) : null;
+    if (named && hit) {
+      columns.value = named;
+      mapping.defaultMetric = hit.metric;
+      // An unknown unit is kept so every row is rejected naming it
+      mapping.defaultUnit = hit.unit ?? hit.rawUnit;
+    }
+  }
+  return mapping;
+}
+
+// Mapped headers that the file does not have
+export function missingColumns(
+  mapping: ColumnMapping,
+  header: string[]
+): string[] {
+  return Object.values(mapping.columns).filter(
+    (h): h is string => !!h && !header.includes(h)
+  );
+}
+
+// Validate one row; throws a message on the first problem
+function readRow(
+  fields: Record<string, string>,
+  mapping: ColumnMapping,
+  rooms: RoomLike[],
+  row: number
+): ImportedReading {
+  const cell = (field: ImportField) => {
+    const header = mapping.columns[field];
+    return header ? (fields[header] ?? "").trim() : "";
+  };
+
+  const metricName = cell("metric");
+  const metric = metricName ? matchMetric(metricName) : mapping.defaultMetric;
+  if (!metric) {
+    throw new Error(
+      metricName ? `Unknown metric "${metricName}"` : "No metric for this row"
+    );
+  }
+  const def = METRICS[metric];
+
+  const rawUnit = cell("unit") || mapping.defaultUnit || "";
+  const unit = matchUnit(metric, rawUnit);
+  if (unit === null) {
+    throw new Error(`Unit "${rawUnit}" is not a unit for ${def.label}`);
+  }
+
+  const rawText = cell("value");
+  if (!rawText) throw new Error("Missing value");
+
+  let result: PresenceResult | null = null;
+  let rawValue: number;
+  if (def.resultType === "presence") {
+    result = parsePresence(rawText);
+    if (!result) {
+      throw new Error(`"${rawText}" is not a detected / not detected result`);
+    }
+    rawValue = presenceValue(result);
+  } else {
+    rawValue = parseDecimal(rawText, mapping.decimalMark);
+  }
+
+  const value = Number(toCanonical(metric, rawValue, unit).toPrecision(6));
+  if (!inPlausibleRange(metric, value)) {
+    throw new Error(
+      `${def.label} must be between ${def.range.min} and ${def.range.max} ${def.unit}`.trim()
+    );
+  }
+
+  const roomName = cell("room");
+  const room = roomName ? matchRoom(roomName, rooms) : mapping.defaultRoom;
+  if (!room) {
+    throw new Error(
+      roomName ? `Unknown room "${roomName}"` : "No room for this row"
+    );
+  }
+
+  const stamp = cell("timestamp");
+  let takenAt: string | null = null;
+  if (stamp) {
+    takenAt = new Date(parseStamp(stamp, mapping.dateOrder)).toISOString();
+  }
+
+  return {
+    row,
+    category: def.category,
+    metric,
+    value,
+    unit: def.unit,
+    raw_value: rawValue,
+    raw_unit: unit,
+    result,
+    room_id: room === OUTDOOR_ROOM ? null : room,
+    location: room === OUTDOOR_ROOM ? "outdoor" : "indoor",
+    taken_at: takenAt,
+  };
+}
+
+export function parseMeterCsv(
+  text: string,
+  mapping: ColumnMapping,
+  rooms: RoomLike[]
+): MeterImportResult {
+  const table = parseCsv(text);
+  if (!table) {
+    return { rows: [], errors: [{ row: 1, message: "File is empty" }] };
+  }
+
+  if (!mapping.columns.value) {
+    return {
+      rows: [],
+      errors: [{ row: 1, message: "Map a column to Value" }],
+    };
+  }
+  const missing = missingColumns(mapping, table.header);
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: [
+        { row: 1, message: `Missing column "${missing[0]}" in this file` },
+      ],
+    };
+  }
+
+  const result: MeterImportResult = { rows: [], errors: [] };
+  table.rows.forEach((fields, i) => {
+    // Row numbers count the header as row 1
+    const row = i + 2;
+    const record = Object.fromEntries(
+      table.header.map((h, j) => [h, fields[j] ?? ""])
+    );
+    try {
+      result.rows.push(readRow(record, mapping, rooms, row));
+    } catch (err) {
+      result.errors.push({
+        row,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  });
+  return result;
+}
+
+/* ---------------- Presets ---------------- */
+
+export async function loadImportPresets(): Promise<ImportPreset[]> {
+  const { data, error } = await supabase
+    .from("import_preset")
+    .select("*")
+    .order("instrument", { ascending: true });
+
+  if (error) {
+    console.error(error);
+    return [];
+  }
+  return (data ?? []) as ImportPreset[];
+}
+
+export async function saveImportPreset(
+  name: string,
+  instrument: string,
+  mapping: ColumnMapping
+): Promise<ImportPreset | null> {
+  const { data, error } = await supabase
+    .from("import_preset")
+    .insert({
+      name: name.trim(),
+      instrument: instrument.trim(),
+      mapping,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Preset save error:", error);
+    return null;
+  }
+  return data as ImportPreset;
+}
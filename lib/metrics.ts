@@ -0,0 +1,1005 @@
+// lib/metrics.ts
+// --------------------------------------------------------
+// SaSo Metric Registry
+// --------------------------------------------------------
+// Single source of truth for every metric we capture:
+//   - DB key, category, display label and canonical unit
+//   - plausible range (used to catch typos at capture time)
+//   - scoring bands (used by the engines, labels and report)
+//
+// Bands are ordered from best to worst. Each band covers
+// readings up to and including `max`. A "linear" curve
+// interpolates the score between band edges; a "step"
+// curve awards the band's score to the whole band.
+//
+// Two-sided metrics (pH, humidity, temperature) add a `low`
+// side with its own curve. Low bands run downward from the
+// ideal window's lower edge; each covers readings at or
+// above `min`.
+// --------------------------------------------------------
+
+// Adding a category: list it here, give it metrics below, a
+// label, and an engine in lib/scoring/index.ts.
+export const CATEGORIES = ["air", "water", "ether", "light", "sound"] as const;
+
+export type CategoryKey = (typeof CATEGORIES)[number];
+
+export type MetricKey =
+  | "CO2"
+  | "PM25"
+  | "PM10"
+  | "VOCs"
+  | "Humidity"
+  | "Temp"
+  | "CO"
+  | "NO2"
+  | "HCHO"
+  | "O3"
+  | "Radon"
+  | "TDS"
+  | "Cl"
+  | "pH"
+  | "Hardness"
+  | "TotalChlorine"
+  | "Nitrate"
+  | "Lead"
+  | "Iron"
+  | "Bacteria"
+  | "MagField"
+  | "ElectricField"
+  | "RF"
+  | "RFPeak"
+  | "DirtyElectricity"
+  | "BodyVoltage"
+  | "Lux"
+  | "Flicker"
+  | "CCT"
+  | "BlueLight"
+  | "NoiseLeq"
+  | "NoiseLmax"
+  | "NoiseNight";
+
+export type MetricBand = {
+  max: number;
+  score: number;
+  label: string;
+};
+
+export type LowBand = {
+  min: number;
+  score: number;
+  label: string;
+};
+
+// How a result is recorded. Presence results (e.g. a coliform
+// test) are stored as 1 / 0 in `value` with the reading itself
+// in the measurement's `result`, so aggregation and bands work
+// unchanged: any detection anywhere reads as "Detected".
+export type ResultType = "numeric" | "presence";
+
+export const PRESENCE_RESULTS = ["detected", "not_detected"] as const;
+
+export type PresenceResult = (typeof PRESENCE_RESULTS)[number];
+
+export const PRESENCE_RESULT_LABELS: Record<PresenceResult, string> = {
+  detected: "Detected",
+  not_detected: "Not detected",
+};
+
+export function isPresenceResult(value: unknown): value is PresenceResult {
+  return (
+    typeof value === "string" &&
+    (PRESENCE_RESULTS as readonly string[]).includes(value)
+  );
+}
+
+export function presenceValue(result: PresenceResult): number {
+  return result === "detected" ? 1 : 0;
+}
+
+// Canonical value → result (an aggregated 0.5 still counts as detected)
+export function presenceResult(value: number): PresenceResult {
+  return value > 0 ? "detected" : "not_detected";
+}
+
+// Guideline standards a band set can come from. The registry mixes
+// them per metric; lib/scoring/standards.ts holds full sets a report
+// can be evaluated against instead.
+export const STANDARDS = ["saso", "epa-who", "sbm-2015", "ashrae"] as const;
+
+export type StandardKey = (typeof STANDARDS)[number];
+
+export const STANDARD_LABELS: Record<StandardKey, string> = {
+  saso: "SaSo",
+  "epa-who": "EPA / WHO",
+  "sbm-2015": "Building Biology SBM-2015",
+  ashrae: "ASHRAE",
+};
+
+export function isStandardKey(value: unknown): value is StandardKey {
+  return (
+    typeof value === "string" && (STANDARDS as readonly string[]).includes(value)
+  );
+}
+
+// Where a band set's edges come from
+export type BandSource = {
+  standard: StandardKey;
+  citation: string;
+};
+
+// The part of a definition that shapes a score; scoring
+// profiles may override it per metric.
+export type BandSpec = {
+  source?: BandSource; // required on registry definitions
+  curve: "linear" | "step";
+  bands: MetricBand[];
+  low?: {
+    curve: "linear" | "step";
+    bands: LowBand[];
+  };
+};
+
+export type ResolvedBand = {
+  side: "low" | "high";
+  index: number;
+  band: MetricBand | LowBand;
+};
+
+export type MetricDefinition = BandSpec & {
+  source: BandSource;
+  key: MetricKey;
+  category: CategoryKey;
+  label: string;
+  unit: string;
+  range: { min: number; max: number };
+  resultType?: ResultType; // "numeric" when omitted
+  caveat?: string; // shown wherever the reading is interpreted
+  // Any single reading at or above this raises a safety alert
+  // (lib/scoring/safety.ts); not a band, so profiles cannot move it
+  safetyLimit?: { value: number; guideline: string };
+};
+
+export const CATEGORY_LABELS: Record<CategoryKey, string> = {
+  air: "Air",
+  water: "Water",
+  ether: "Ether",
+  light: "Light",
+  sound: "Sound",
+};
+
+// What a sound reading was dominated by, tagged by the technician
+export const NOISE_SOURCES = ["hvac", "street", "appliance"] as const;
+
+export type NoiseSource = (typeof NOISE_SOURCES)[number];
+
+export const NOISE_SOURCE_LABELS: Record<NoiseSource, string> = {
+  hvac: "HVAC",
+  street: "Street",
+  appliance: "Appliance",
+};
+
+export function isNoiseSource(value: unknown): value is NoiseSource {
+  return (
+    typeof value === "string" && (NOISE_SOURCES as readonly string[]).includes(value)
+  );
+}
+
+// Radon test protocol; EPA bases mitigation on long-term results
+export const RADON_TESTS = ["short", "long"] as const;
+
+export type RadonTest = (typeof RADON_TESTS)[number];
+
+export const RADON_TEST_LABELS: Record<RadonTest, string> = {
+  short: "Short-term (2–90 days)",
+  long: "Long-term (90+ days)",
+};
+
+// Property water supply; wells skip utility treatment and testing
+export const WATER_SOURCES = ["municipal", "well"] as const;
+
+export type WaterSource = (typeof WATER_SOURCES)[number];
+
+export const WATER_SOURCE_LABELS: Record<WaterSource, string> = {
+  municipal: "Municipal",
+  well: "Private well",
+};
+
+export function isWaterSource(value: unknown): value is WaterSource {
+  return (
+    typeof value === "string" && (WATER_SOURCES as readonly string[]).includes(value)
+  );
+}
+
+export function isRadonTest(value: unknown): value is RadonTest {
+  return (
+    typeof value === "string" && (RADON_TESTS as readonly string[]).includes(value)
+  );
+}
+
+export const METRICS: Record<MetricKey, MetricDefinition> = {
+  // ---- AIR ----
+  CO2: {
+    key: "CO2",
+    category: "air",
+    label: "CO₂",
+    unit: "ppm",
+    range: { min: 250, max: 10000 },
+    source: {
+      standard: "saso",
+      citation:
+        "SaSo comfort bands; CO₂ is a ventilation indicator, not a health limit",
+    },
+    curve: "linear",
+    bands: [
+      { max: 700, score: 100, label: "Excellent (Fresh Air)" },
+      { max: 1000, score: 80, label: "Good (Acceptable)" },
+      { max: 1200, score: 60, label: "Fair (Needs Attention)" },
+      { max: 1500, score: 30, label: "Poor (Ventilation Recommended)" },
+      { max: 2000, score: 10, label: "Very Poor (Unhealthy)" },
+      { max: 2500, score: 0, label: "Severely Elevated (Action Required)" },
+    ],
+  },
+  PM25: {
+    key: "PM25",
+    category: "air",
+    label: "PM₂.₅",
+    unit: "µg/m³",
+    range: { min: 0, max: 1000 },
+    source: {
+      standard: "epa-who",
+      citation: "EPA NAAQS annual PM₂.₅ standard (9 µg/m³, 2024)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 9, score: 100, label: "Excellent" },
+      { max: 20, score: 60, label: "Moderate" },
+      { max: 35, score: 20, label: "Poor" },
+      { max: 48.33, score: 0, label: "Very Poor" },
+    ],
+  },
+  PM10: {
+    key: "PM10",
+    category: "air",
+    label: "PM₁₀",
+    unit: "µg/m³",
+    range: { min: 0, max: 2000 },
+    source: {
+      standard: "saso",
+      citation:
+        "SaSo comfort bands, tighter than the EPA 24-hour standard (150 µg/m³)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 30, score: 100, label: "Excellent" },
+      { max: 50, score: 40, label: "Moderate" },
+      { max: 70, score: 0, label: "Poor" },
+    ],
+  },
+  VOCs: {
+    key: "VOCs",
+    category: "air",
+    label: "VOCs",
+    unit: "ppb",
+    range: { min: 0, max: 20000 },
+    caveat:
+      "TVOC is a sensor-dependent estimate: metal-oxide sensors report relative, isobutylene-equivalent values, so compare readings from the same instrument type.",
+    source: {
+      standard: "saso",
+      citation: "SaSo comfort bands for sensor TVOC (isobutylene-equivalent)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 200, score: 100, label: "Good" },
+      { max: 500, score: 60, label: "Fair" },
+      { max: 1000, score: 0, label: "Poor" },
+    ],
+  },
+  Humidity: {
+    key: "Humidity",
+    category: "air",
+    label: "Humidity",
+    unit: "%",
+    range: { min: 0, max: 100 },
+    source: { standard: "saso", citation: "SaSo comfort window (40–60 % RH)" },
+    curve: "linear",
+    bands: [
+      { max: 60, score: 100, label: "Comfortable" },
+      { max: 70, score: 60, label: "Slightly damp" },
+      { max: 85, score: 0, label: "Too damp" },
+    ],
+    low: {
+      curve: "linear",
+      bands: [
+        { min: 40, score: 100, label: "Comfortable" },
+        { min: 30, score: 60, label: "Slightly dry" },
+        { min: 15, score: 0, label: "Too dry" },
+      ],
+    },
+  },
+  Temp: {
+    key: "Temp",
+    category: "air",
+    label: "Temperature",
+    unit: "°F",
+    range: { min: 30, max: 120 },
+    source: { standard: "saso", citation: "SaSo comfort window (68–75 °F)" },
+    curve: "linear",
+    bands: [
+      { max: 75, score: 100, label: "Comfortable" },
+      { max: 80, score: 60, label: "Warm" },
+      { max: 90, score: 0, label: "Too hot" },
+    ],
+    low: {
+      curve: "linear",
+      bands: [
+        { min: 68, score: 100, label: "Comfortable" },
+        { min: 64, score: 60, label: "Cool" },
+        { min: 55, score: 0, label: "Too cold" },
+      ],
+    },
+  },
+
+  // Combustion gases (gas stoves, attached garages, furnaces)
+  CO: {
+    key: "CO",
+    category: "air",
+    label: "Carbon Monoxide (CO)",
+    unit: "ppm",
+    range: { min: 0, max: 1000 },
+    safetyLimit: { value: 9, guideline: "EPA NAAQS 8-hour (9 ppm)" },
+    source: { standard: "epa-who", citation: "EPA NAAQS 8-hour CO (9 ppm)" },
+    curve: "linear",
+    bands: [
+      { max: 1, score: 100, label: "Background" },
+      { max: 4, score: 75, label: "Low" },
+      { max: 9, score: 35, label: "Elevated" },
+      { max: 35, score: 0, label: "Hazardous" },
+    ],
+  },
+  NO2: {
+    key: "NO2",
+    category: "air",
+    label: "Nitrogen Dioxide (NO₂)",
+    unit: "ppb",
+    range: { min: 0, max: 5000 },
+    safetyLimit: { value: 100, guideline: "EPA NAAQS 1-hour (100 ppb)" },
+    source: {
+      standard: "epa-who",
+      citation: "EPA NAAQS NO₂ (53 ppb annual, 100 ppb 1-hour)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 10, score: 100, label: "Low" },
+      { max: 25, score: 75, label: "Moderate" },
+      { max: 53, score: 40, label: "Elevated" },
+      { max: 100, score: 0, label: "High" },
+    ],
+  },
+  HCHO: {
+    key: "HCHO",
+    category: "air",
+    label: "Formaldehyde",
+    unit: "ppb",
+    range: { min: 0, max: 5000 },
+    safetyLimit: {
+      value: 81,
+      guideline: "WHO 30-minute guideline (0.1 mg/m³ ≈ 81 ppb)",
+    },
+    source: {
+      standard: "epa-who",
+      citation: "WHO indoor air guideline (0.1 mg/m³ ≈ 81 ppb, 30-minute)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 20, score: 100, label: "Low" },
+      { max: 40, score: 70, label: "Moderate" },
+      { max: 81, score: 30, label: "Elevated" },
+      { max: 200, score: 0, label: "High" },
+    ],
+  },
+  O3: {
+    key: "O3",
+    category: "air",
+    label: "Ozone (O₃)",
+    unit: "ppb",
+    range: { min: 0, max: 1000 },
+    safetyLimit: { value: 70, guideline: "EPA NAAQS 8-hour (70 ppb)" },
+    source: {
+      standard: "epa-who",
+      citation: "EPA NAAQS 8-hour ozone (70 ppb)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 10, score: 100, label: "Low" },
+      { max: 30, score: 75, label: "Moderate" },
+      { max: 70, score: 30, label: "Elevated" },
+      { max: 100, score: 0, label: "High" },
+    ],
+  },
+  // Lowest-level living space; test type travels with the reading
+  Radon: {
+    key: "Radon",
+    category: "air",
+    label: "Radon",
+    unit: "pCi/L",
+    range: { min: 0, max: 500 },
+    safetyLimit: { value: 4, guideline: "EPA action level (4 pCi/L)" },
+    source: {
+      standard: "epa-who",
+      citation: "EPA action level (4 pCi/L); consider fixing from 2 pCi/L",
+    },
+    curve: "linear",
+    bands: [
+      { max: 1.3, score: 100, label: "Typical indoor" },
+      { max: 2, score: 80, label: "Low" },
+      { max: 4, score: 40, label: "Consider mitigation" },
+      { max: 8, score: 0, label: "Action level" },
+    ],
+  },
+
+  // ---- WATER ----
+  TDS: {
+    key: "TDS",
+    category: "water",
+    label: "Total Dissolved Solids (TDS)",
+    unit: "ppm",
+    range: { min: 0, max: 3000 },
+    source: {
+      standard: "epa-who",
+      citation: "EPA secondary drinking-water standard (500 mg/L)",
+    },
+    curve: "step",
+    bands: [
+      { max: 150, score: 100, label: "Excellent" },
+      { max: 300, score: 90, label: "Good" },
+      { max: 450, score: 75, label: "Moderate minerals" },
+      { max: 600, score: 55, label: "High minerals" },
+      { max: 800, score: 35, label: "Very high" },
+      { max: Infinity, score: 15, label: "Very high" },
+    ],
+  },
+  Cl: {
+    key: "Cl",
+    category: "water",
+    label: "Free Chlorine",
+    unit: "ppm",
+    range: { min: 0, max: 10 },
+    source: {
+      standard: "saso",
+      citation:
+        "SaSo taste bands; EPA maximum residual disinfectant level is 4 mg/L",
+    },
+    curve: "step",
+    bands: [
+      { max: 0.5, score: 100, label: "Low" },
+      { max: 1.5, score: 80, label: "Typical municipal" },
+      { max: 3, score: 55, label: "High" },
+      { max: Infinity, score: 25, label: "Very high" },
+    ],
+  },
+  pH: {
+    key: "pH",
+    category: "water",
+    label: "pH",
+    unit: "",
+    range: { min: 0, max: 14 },
+    source: {
+      standard: "epa-who",
+      citation: "EPA secondary drinking-water standard (6.5–8.5)",
+    },
+    curve: "step",
+    bands: [
+      { max: 8.5, score: 100, label: "Ideal range" },
+      { max: 9.5, score: 80, label: "Slightly alkaline" },
+      { max: Infinity, score: 30, label: "Too alkaline" },
+    ],
+    low: {
+      curve: "step",
+      bands: [
+        { min: 6.5, score: 100, label: "Ideal range" },
+        { min: 6, score: 60, label: "Slightly acidic" },
+        { min: -Infinity, score: 30, label: "Too acidic" },
+      ],
+    },
+  },
+  // As CaCO₃ (USGS: soft < 60, moderately hard < 120, hard < 180)
+  Hardness: {
+    key: "Hardness",
+    category: "water",
+    label: "Total Hardness",
+    unit: "mg/L",
+    range: { min: 0, max: 2000 },
+    source: {
+      standard: "saso",
+      citation: "SaSo bands on USGS hardness classes (as CaCO₃)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 60, score: 100, label: "Soft" },
+      { max: 120, score: 85, label: "Moderately hard" },
+      { max: 180, score: 60, label: "Hard" },
+      { max: 400, score: 30, label: "Very hard" },
+    ],
+  },
+  // Chloramine utilities show little free chlorine but high total
+  TotalChlorine: {
+    key: "TotalChlorine",
+    category: "water",
+    label: "Total Chlorine (Chloramine)",
+    unit: "ppm",
+    range: { min: 0, max: 10 },
+    source: {
+      standard: "epa-who",
+      citation: "EPA maximum residual disinfectant level (4 mg/L as Cl₂)",
+    },
+    curve: "step",
+    bands: [
+      { max: 0.5, score: 100, label: "Low" },
+      { max: 2, score: 80, label: "Typical municipal" },
+      { max: 4, score: 50, label: "Elevated" },
+      { max: Infinity, score: 20, label: "Above EPA limit" },
+    ],
+  },
+  // As nitrogen
+  Nitrate: {
+    key: "Nitrate",
+    category: "water",
+    label: "Nitrate",
+    unit: "mg/L",
+    range: { min: 0, max: 200 },
+    safetyLimit: { value: 10, guideline: "EPA MCL (10 mg/L as N)" },
+    source: {
+      standard: "epa-who",
+      citation: "EPA maximum contaminant level (10 mg/L as N)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 1, score: 100, label: "Low" },
+      { max: 5, score: 70, label: "Moderate" },
+      { max: 10, score: 35, label: "Elevated" },
+      { max: 20, score: 0, label: "Above EPA limit" },
+    ],
+  },
+  // First-draw sample; there is no safe level for children
+  Lead: {
+    key: "Lead",
+    category: "water",
+    label: "Lead",
+    unit: "ppb",
+    range: { min: 0, max: 5000 },
+    safetyLimit: {
+      value: 15,
+      guideline: "EPA Lead and Copper Rule action level (15 ppb)",
+    },
+    source: {
+      standard: "epa-who",
+      citation:
+        "EPA Lead and Copper Rule action level (15 ppb); the health goal is zero",
+    },
+    curve: "linear",
+    bands: [
+      { max: 1, score: 100, label: "Minimal" },
+      { max: 5, score: 60, label: "Detectable" },
+      { max: 15, score: 20, label: "Elevated" },
+      { max: 50, score: 0, label: "High" },
+    ],
+  },
+  Iron: {
+    key: "Iron",
+    category: "water",
+    label: "Iron",
+    unit: "mg/L",
+    range: { min: 0, max: 50 },
+    source: {
+      standard: "epa-who",
+      citation: "EPA secondary drinking-water standard (0.3 mg/L)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 0.1, score: 100, label: "Low" },
+      { max: 0.3, score: 80, label: "Acceptable" },
+      { max: 1, score: 40, label: "Staining" },
+      { max: 3, score: 0, label: "High" },
+    ],
+  },
+  // Total coliform, presence / absence
+  Bacteria: {
+    key: "Bacteria",
+    category: "water",
+    label: "Coliform Bacteria",
+    unit: "",
+    range: { min: 0, max: 1 },
+    resultType: "presence",
+    safetyLimit: {
+      value: 1,
+      guideline: "EPA total coliform rule (none detected)",
+    },
+    source: {
+      standard: "epa-who",
+      citation: "EPA Total Coliform Rule (none detected)",
+    },
+    curve: "step",
+    bands: [
+      { max: 0, score: 100, label: "Not detected" },
+      { max: Infinity, score: 0, label: "Detected" },
+    ],
+  },
+
+  // ---- ETHER ----
+  MagField: {
+    key: "MagField",
+    category: "ether",
+    label: "Magnetic Field (ELF)",
+    unit: "mG",
+    range: { min: 0, max: 1000 },
+    source: { standard: "saso", citation: "SaSo precautionary bands" },
+    curve: "step",
+    bands: [
+      { max: 0.7, score: 100, label: "Very low" },
+      { max: 1.5, score: 85, label: "Low" },
+      { max: 3, score: 70, label: "Moderate" },
+      { max: 6, score: 40, label: "Elevated" },
+      { max: Infinity, score: 15, label: "High" },
+    ],
+  },
+  ElectricField: {
+    key: "ElectricField",
+    category: "ether",
+    label: "Electric Field",
+    unit: "V/m",
+    range: { min: 0, max: 5000 },
+    source: { standard: "saso", citation: "SaSo precautionary bands" },
+    curve: "step",
+    bands: [
+      { max: 5, score: 100, label: "Very low" },
+      { max: 20, score: 85, label: "Low" },
+      { max: 50, score: 70, label: "Moderate" },
+      { max: 100, score: 45, label: "Elevated" },
+      { max: Infinity, score: 20, label: "High" },
+    ],
+  },
+  RF: {
+    key: "RF",
+    category: "ether",
+    label: "Radiofrequency (RF)",
+    unit: "mW/m²",
+    range: { min: 0, max: 100000 },
+    source: {
+      standard: "saso",
+      citation: "SaSo precautionary bands (average power density)",
+    },
+    curve: "step",
+    bands: [
+      { max: 1, score: 100, label: "Very low" },
+      { max: 10, score: 85, label: "Low" },
+      { max: 50, score: 65, label: "Moderate" },
+      { max: 200, score: 40, label: "Elevated" },
+      { max: Infinity, score: 15, label: "High" },
+    ],
+  },
+  // Peak-hold power density. Pulsed signals (Wi-Fi beacons, DECT,
+  // cellular) sit far above their average; building-biology
+  // guidelines (SBM-2015) are written for peak values, so the
+  // Ether engine scores RF on the peak whenever one was taken.
+  RFPeak: {
+    key: "RFPeak",
+    category: "ether",
+    label: "Radiofrequency (RF, peak)",
+    unit: "mW/m²",
+    range: { min: 0, max: 1000000 },
+    source: {
+      standard: "saso",
+      citation: "SaSo precautionary bands (peak power density)",
+    },
+    curve: "step",
+    bands: [
+      { max: 0.1, score: 100, label: "Very low" },
+      { max: 1, score: 85, label: "Low" },
+      { max: 10, score: 65, label: "Moderate" },
+      { max: 100, score: 40, label: "Elevated" },
+      { max: Infinity, score: 15, label: "High" },
+    ],
+  },
+  // High-frequency voltage transients on the wiring, read with a
+  // plug-in Graham-Stetzer meter (GS units, meter tops out at 1999)
+  DirtyElectricity: {
+    key: "DirtyElectricity",
+    category: "ether",
+    label: "Dirty Electricity",
+    unit: "GS",
+    range: { min: 0, max: 2000 },
+    source: {
+      standard: "saso",
+      citation: "SaSo precautionary bands (Graham-Stetzer units)",
+    },
+    curve: "step",
+    bands: [
+      { max: 30, score: 100, label: "Very low" },
+      { max: 50, score: 85, label: "Low" },
+      { max: 100, score: 65, label: "Moderate" },
+      { max: 200, score: 40, label: "Elevated" },
+      { max: Infinity, score: 15, label: "High" },
+    ],
+  },
+  // AC voltage induced on a body lying in bed, measured against
+  // ground (SBM-2015: ≤ 10 mV no anomaly, > 1000 mV extreme)
+  BodyVoltage: {
+    key: "BodyVoltage",
+    category: "ether",
+    label: "Body Voltage",
+    unit: "mV",
+    range: { min: 0, max: 100000 },
+    source: {
+      standard: "saso",
+      citation:
+        "SaSo precautionary bands after SBM-2015 (10 mV no anomaly, 1000 mV extreme)",
+    },
+    curve: "step",
+    bands: [
+      { max: 10, score: 100, label: "Very low" },
+      { max: 100, score: 85, label: "Low" },
+      { max: 300, score: 65, label: "Moderate" },
+      { max: 1000, score: 40, label: "Elevated" },
+      { max: Infinity, score: 15, label: "High" },
+    ],
+  },
+
+  // ---- LIGHT ----
+  // Daytime task illuminance at desk / reading height
+  Lux: {
+    key: "Lux",
+    category: "light",
+    label: "Illuminance",
+    unit: "lux",
+    range: { min: 0, max: 150000 },
+    source: {
+      standard: "saso",
+      citation: "SaSo bands for task illuminance at desk height",
+    },
+    curve: "linear",
+    bands: [
+      { max: 750, score: 100, label: "Ideal range" },
+      { max: 1500, score: 70, label: "Bright" },
+      { max: 5000, score: 40, label: "Glare risk" },
+    ],
+    low: {
+      curve: "linear",
+      bands: [
+        { min: 300, score: 100, label: "Ideal range" },
+        { min: 150, score: 70, label: "Dim" },
+        { min: 0, score: 20, label: "Too dim" },
+      ],
+    },
+  },
+  // Percent flicker (IEEE 1789 low-risk region ≈ under 8% at 100 Hz)
+  Flicker: {
+    key: "Flicker",
+    category: "light",
+    label: "Flicker",
+    unit: "%",
+    range: { min: 0, max: 100 },
+    source: {
+      standard: "saso",
+      citation: "SaSo bands after IEEE 1789-2015 (low-risk region)",
+    },
+    curve: "step",
+    bands: [
+      { max: 3, score: 100, label: "Very low" },
+      { max: 8, score: 85, label: "Low" },
+      { max: 20, score: 55, label: "Moderate" },
+      { max: 40, score: 30, label: "Elevated" },
+      { max: Infinity, score: 10, label: "High" },
+    ],
+  },
+  // Correlated color temperature of the main fixtures
+  CCT: {
+    key: "CCT",
+    category: "light",
+    label: "Color Temperature (CCT)",
+    unit: "K",
+    range: { min: 1000, max: 10000 },
+    source: { standard: "saso", citation: "SaSo comfort bands (2700–4000 K)" },
+    curve: "step",
+    bands: [
+      { max: 4000, score: 100, label: "Ideal range" },
+      { max: 5000, score: 75, label: "Cool white" },
+      { max: Infinity, score: 45, label: "Blue-rich" },
+    ],
+    low: {
+      curve: "step",
+      bands: [
+        { min: 2700, score: 100, label: "Ideal range" },
+        { min: 2200, score: 85, label: "Warm" },
+        { min: -Infinity, score: 65, label: "Very warm" },
+      ],
+    },
+  },
+  // Melanopic EDI at eye level in sleeping areas after dark
+  // (Brown et al. 2022: ≤ 10 lux in the evening, ≤ 1 lux asleep)
+  BlueLight: {
+    key: "BlueLight",
+    category: "light",
+    label: "Nighttime Blue Light",
+    unit: "mEDI lux",
+    range: { min: 0, max: 10000 },
+    source: {
+      standard: "saso",
+      citation:
+        "SaSo bands after Brown et al. 2022 melanopic EDI recommendations",
+    },
+    curve: "linear",
+    bands: [
+      { max: 1, score: 100, label: "Sleep-safe" },
+      { max: 10, score: 80, label: "Evening-safe" },
+      { max: 50, score: 40, label: "Elevated" },
+      { max: 200, score: 0, label: "High" },
+    ],
+  },
+
+  // ---- SOUND ----
+  // A-weighted equivalent level over the sampling window. WHO
+  // (1999) community-noise guidance: ≤ 30 dBA Leq in bedrooms,
+  // ≤ 35 dBA in living spaces.
+  NoiseLeq: {
+    key: "NoiseLeq",
+    category: "sound",
+    label: "Sound Level (Leq)",
+    unit: "dBA",
+    range: { min: 0, max: 140 },
+    source: {
+      standard: "epa-who",
+      citation:
+        "WHO Guidelines for Community Noise (1999): 30 dBA bedrooms, 35 dBA living spaces",
+    },
+    curve: "linear",
+    bands: [
+      { max: 30, score: 100, label: "Quiet" },
+      { max: 35, score: 85, label: "Low" },
+      { max: 45, score: 60, label: "Moderate" },
+      { max: 55, score: 30, label: "Loud" },
+      { max: 70, score: 0, label: "Very loud" },
+    ],
+  },
+  // Loudest single event (WHO 1999: ≤ 45 dBA LAmax indoors at night)
+  NoiseLmax: {
+    key: "NoiseLmax",
+    category: "sound",
+    label: "Peak Noise (Lmax)",
+    unit: "dBA",
+    range: { min: 0, max: 140 },
+    source: {
+      standard: "epa-who",
+      citation:
+        "WHO Guidelines for Community Noise (1999): 45 dBA LAmax at night",
+    },
+    curve: "linear",
+    bands: [
+      { max: 45, score: 100, label: "Quiet" },
+      { max: 55, score: 75, label: "Noticeable" },
+      { max: 65, score: 45, label: "Disruptive" },
+      { max: 80, score: 10, label: "Very disruptive" },
+    ],
+  },
+  // Background level in sleeping areas after dark. WHO Night
+  // Noise Guidelines (2009): 40 dB Lnight outside, which a
+  // closed window brings to roughly 25–30 dBA inside.
+  NoiseNight: {
+    key: "NoiseNight",
+    category: "sound",
+    label: "Nighttime Background",
+    unit: "dBA",
+    range: { min: 0, max: 140 },
+    source: {
+      standard: "epa-who",
+      citation: "WHO Night Noise Guidelines for Europe (2009)",
+    },
+    curve: "linear",
+    bands: [
+      { max: 25, score: 100, label: "Very quiet" },
+      { max: 30, score: 90, label: "Quiet" },
+      { max: 35, score: 65, label: "Noticeable" },
+      { max: 40, score: 40, label: "Sleep-disruptive" },
+      { max: 55, score: 0, label: "Loud" },
+    ],
+  },
+};
+
+export const METRIC_KEYS = Object.keys(METRICS) as MetricKey[];
+
+export function isMetricKey(key: string): key is MetricKey {
+  return key in METRICS;
+}
+
+export function isCategoryKey(key: string): key is CategoryKey {
+  return (CATEGORIES as readonly string[]).includes(key);
+}
+
+export function getMetric(key: string): MetricDefinition | undefined {
+  return isMetricKey(key) ? METRICS[key] : undefined;
+}
+
+export function metricsByCategory(category: CategoryKey): MetricDefinition[] {
+  return METRIC_KEYS.map((k) => METRICS[k]).filter(
+    (m) => m.category === category
+  );
+}
+
+// Pretty label for UI; unknown keys fall back to the raw key
+export function metricLabel(key: string): string {
+  return getMetric(key)?.label ?? key;
+}
+
+// Which side and band a reading falls into (last band catches overflow)
+export function resolveBand(value: number, spec: BandSpec): ResolvedBand {
+  const low = spec.low?.bands;
+
+  if (low && low.length > 0 && value < low[0].min) {
+    const idx = low.findIndex((b) => value >= b.min);
+    const index = idx === -1 ? low.length - 1 : idx;
+    return { side: "low", index, band: low[index] };
+  }
+
+  const idx = spec.bands.findIndex((b) => value <= b.max);
+  const index = idx === -1 ? spec.bands.length - 1 : idx;
+  return { side: "high", index, band: spec.bands[index] };
+}
+
+// Band index on whichever side the reading falls; 0 is the ideal band
+export function bandIndex(
+  key: MetricKey,
+  value: number,
+  spec: BandSpec = METRICS[key]
+): number {
+  return resolveBand(value, spec).index;
+}
+
+export function metricBand(
+  key: MetricKey,
+  value: number,
+  spec: BandSpec = METRICS[key]
+): MetricBand | LowBand {
+  return resolveBand(value, spec).band;
+}
+
+// Whether a reading sits inside the ideal window (first band on either side)
+export function inIdealRange(
+  key: MetricKey,
+  value: number,
+  spec: BandSpec = METRICS[key]
+): boolean {
+  return resolveBand(value, spec).index === 0;
+}
+
+// 0–100 sub-score for a single reading
+export function scoreMetric(
+  key: MetricKey,
+  value: number,
+  spec: BandSpec = METRICS[key]
+): number {
+  const { side, index } = resolveBand(value, spec);
+
+  if (side === "low") {
+    const { bands, curve } = spec.low!;
+    const band = bands[index];
+    if (curve === "step" || value < band.min) return band.score;
+
+    const prev = bands[index - 1];
+    const t = (prev.min - value) / (prev.min - band.min);
+    return prev.score + (band.score - prev.score) * t;
+  }
+
+  const { bands, curve } = spec;
+  const band = bands[index];
+  if (curve === "step" || index === 0 || value > band.max) return band.score;
+
+  const prev = bands[index - 1];
+  const t = (value - prev.max) / (band.max - prev.max);
+  return prev.score + (band.score - prev.score) * t;
+}
+
+// Whether a reading is inside the plausible range for its metric
+export function inPlausibleRange(key: MetricKey, value: number): boolean {
+  const { min, max } = METRICS[key].range;
+  return value >= min && value <= max;
+}
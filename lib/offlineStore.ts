@@ -0,0 +1,171 @@
+// lib/offlineStore.ts
+// --------------------------------------------------------
+// IndexedDB copy of the technician workspace
+// --------------------------------------------------------
+// Basements and rural sites often have no signal, so the
+// technician pages read and write through a local copy:
+//
+//   property, room, measurement, measurement_correction,
+//   logger_series — last rows seen from Supabase, plus
+//     rows written while offline
+//   outbox — queued writes, replayed in order by
+//     lib/sync.ts when the connection returns
+//
+// Rows are stored as returned by Supabase; this module
+// does not know their columns beyond `id` and
+// `property_id`.
+// --------------------------------------------------------
+
+export const CACHED_TABLES = [
+  "property",
+  "room",
+  "measurement",
+  "measurement_correction",
+  "logger_series",
+] as const;
+export type CachedTable = (typeof CACHED_TABLES)[number];
+
+export type CachedRow = { id: string; property_id?: string } & Record<
+  string,
+  unknown
+>;
+
+// A write made in the workspace, waiting for Supabase
+export type OutboxOp = {
+  seq?: number; // assigned by IndexedDB; replay order
+  table: CachedTable;
+  queued_at: string;
+} & (
+  | { kind: "insert"; rows: CachedRow[] } // one form submit or import
+  // `before` holds the patched fields as the technician last saw them
+  | { kind: "update"; id: string; patch: Record<string, unknown>; before: Record<string, unknown> }
+  | { kind: "delete"; id: string }
+);
+
+const DB_NAME = "saso-workspace";
+// 2: measurement_correction, logger_series
+const DB_VERSION = 2;
+const OUTBOX = "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        // Only add what's missing; an upgrade keeps the queue and the copy
+        const db = req.result;
+        for (const table of CACHED_TABLES) {
+          if (db.objectStoreNames.contains(table)) continue;
+          const store = db.createObjectStore(table, { keyPath: "id" });
+          if (table !== "property") store.createIndex("property_id", "property_id");
+        }
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          db.createObjectStore(OUTBOX, { keyPath: "seq", autoIncrement: true });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run one transaction; resolves with the request's result once committed
+async function run<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  body: (s: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = body(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req ? req.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Whether this browser can keep an offline copy at all
+export function offlineSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+/* ---------------- Cached rows ---------------- */
+
+export async function putRows(table: CachedTable, rows: CachedRow[]) {
+  if (rows.length === 0) return;
+  await run(table, "readwrite", (s) => {
+    for (const row of rows) s.put(row);
+  });
+}
+
+// Replace a property's cached rows with a fresh server copy,
+// keeping rows whose insert is still queued
+export async function replaceRows(
+  table: Exclude<CachedTable, "property">,
+  propertyId: string,
+  rows: CachedRow[],
+  keep: Set<string>
+) {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(table, "readwrite");
+    const store = tx.objectStore(table);
+    const req = store.index("property_id").getAllKeys(propertyId);
+    req.onsuccess = () => {
+      for (const key of req.result) {
+        if (!keep.has(String(key))) store.delete(key);
+      }
+      for (const row of rows) store.put(row);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getRow(
+  table: CachedTable,
+  id: string
+): Promise<CachedRow | null> {
+  return (await run<CachedRow>(table, "readonly", (s) => s.get(id))) ?? null;
+}
+
+export async function getRows(
+  table: CachedTable,
+  propertyId?: string
+): Promise<CachedRow[]> {
+  const rows = await run<CachedRow[]>(table, "readonly", (s) =>
+    propertyId && table !== "property"
+      ? s.index("property_id").getAll(propertyId)
+      : s.getAll()
+  );
+  return rows ?? [];
+}
+
+export async function deleteRow(table: CachedTable, id: string) {
+  await run(table, "readwrite", (s) => {
+    s.delete(id);
+  });
+}
+
+/* ---------------- Outbox ---------------- */
+
+export async function enqueue(op: OutboxOp) {
+  await run(OUTBOX, "readwrite", (s) => s.add(op));
+}
+
+export async function outbox(): Promise<OutboxOp[]> {
+  return (await run<OutboxOp[]>(OUTBOX, "readonly", (s) => s.getAll())) ?? [];
+}
+
+export async function dequeue(seq: number) {
+  await run(OUTBOX, "readwrite", (s) => {
+    s.delete(seq);
+  });
+}
@@ -0,0 +1,115 @@
+// lib/references/dataset.ts
+// --------------------------------------------------------
+// Built-in reference baselines
+// --------------------------------------------------------
+// Shipped defaults; rows imported into `reference_baseline`
+// replace these per region + season (see mergeBaselines).
+// PM values are annual outdoor averages (µg/m³); CO₂ is a
+// typical occupied-home daytime level (ppm).
+// --------------------------------------------------------
+
+import type { ReferenceBaseline } from "@/lib/references";
+
+const SASO = "SaSo baseline (illustrative)";
+
+const HOUSTON_ZIPS = ["770", "772", "773", "774", "775"];
+const LOS_ANGELES_ZIPS = [
+  "900", "901", "902", "903", "904", "905", "906", "907", "908",
+  "910", "911", "912", "913", "914", "915", "916", "917", "918",
+];
+
+export const BUILT_IN_BASELINES: ReferenceBaseline[] = [
+  // ---- NATIONAL FALLBACK ----
+  {
+    scope: "national",
+    code: "US",
+    name: "U.S.",
+    values: { pm25Avg: 8.0, pm10Avg: 22.0, co2IndoorTypical: 900 },
+    source: SASO,
+  },
+
+  // ---- STATES ----
+  {
+    scope: "state",
+    code: "TX",
+    name: "Texas",
+    values: { pm25Avg: 9.2, pm10Avg: 26.0 },
+    source: SASO,
+  },
+  {
+    scope: "state",
+    code: "CA",
+    name: "California",
+    values: { pm25Avg: 10.0, pm10Avg: 30.0 },
+    source: SASO,
+  },
+  {
+    scope: "state",
+    code: "FL",
+    name: "Florida",
+    values: { pm25Avg: 7.4, pm10Avg: 20.0 },
+    source: SASO,
+  },
+
+  // ---- METROS ----
+  {
+    scope: "metro",
+    code: "houston-tx",
+    name: "Houston",
+    zipPrefixes: HOUSTON_ZIPS,
+    values: { pm25Avg: 12.0, pm10Avg: 40.0, co2IndoorTypical: 950 },
+    source: SASO,
+  },
+  {
+    scope: "metro",
+    code: "houston-tx",
+    name: "Houston",
+    zipPrefixes: HOUSTON_ZIPS,
+    season: "summer",
+    // Saharan dust and ozone season
+    values: { pm25Avg: 13.5, pm10Avg: 46.0 },
+    source: SASO,
+  },
+  {
+    scope: "metro",
+    code: "dallas-fort-worth-tx",
+    name: "Dallas–Fort Worth",
+    zipPrefixes: ["750", "751", "752", "753", "760", "761", "762"],
+    values: { pm25Avg: 9.6, pm10Avg: 28.0 },
+    source: SASO,
+  },
+  {
+    scope: "metro",
+    code: "austin-tx",
+    name: "Austin",
+    zipPrefixes: ["786", "787"],
+    values: { pm25Avg: 8.6, pm10Avg: 24.0 },
+    source: SASO,
+  },
+  {
+    scope: "metro",
+    code: "san-antonio-tx",
+    name: "San Antonio",
+    zipPrefixes: ["780", "781", "782"],
+    values: { pm25Avg: 8.9, pm10Avg: 25.0 },
+    source: SASO,
+  },
+  {
+    scope: "metro",
+    code: "los-angeles-ca",
+    name: "Los Angeles",
+    zipPrefixes: LOS_ANGELES_ZIPS,
+    values: { pm25Avg: 12.5, pm10Avg: 35.0 },
+    source: SASO,
+  },
+  {
+    scope: "metro",
+    code: "los-angeles-ca",
+    name: "Los Angeles",
+    zipPrefixes: LOS_ANGELES_ZIPS,
+    season: "fall",
+    // Wildfire season
+    values: { pm25Avg: 15.0 },
+    source: SASO,
+  },
+];
@@ -0,0 +1,201 @@
+// lib/references/import.ts
+// --------------------------------------------------------
+// Reference baseline import (CSV / JSON)
+// --------------------------------------------------------
+// Lets us load EPA-style annual averages offline. CSV needs
+// a header row; columns may come in any order:
+//
+//   scope,code,name,zip_prefixes,season,pm25_avg,pm10_avg,co2_indoor_typical,source
+//   metro,houston-tx,Houston,770;772;773,summer,13.5,46,,AirNow 2024
+//   state,TX,Texas,,,9.2,26,,EPA AQS 2024
+//
+// JSON is an array of ReferenceBaseline objects or of the
+// same flat rows as the CSV (snake_case keys).
+// Both return the parsed rows plus per-row errors.
+// --------------------------------------------------------
+
+import { parseCsv } from "@/lib/csv";
+import {
+  SEASONS,
+  type ReferenceBaseline,
+  type ReferenceKey,
+  type RegionScope,
+  type Season,
+} from "@/lib/references";
+
+export type ImportResult = {
+  rows: ReferenceBaseline[];
+  errors: { row: number; message: string }[];
+};
+
+// Flat row shape shared by CSV and the `reference_baseline` table
+export type BaselineRecord = {
+  scope: string;
+  code: string;
+  name: string;
+  zip_prefixes?: string | string[] | null;
+  season?: string | null;
+  pm25_avg?: number | string | null;
+  pm10_avg?: number | string | null;
+  co2_indoor_typical?: number | string | null;
+  source?: string | null;
+};
+
+const SCOPES: RegionScope[] = ["zip", "metro", "state", "national"];
+
+const VALUE_COLUMNS: Record<ReferenceKey, keyof BaselineRecord> = {
+  pm25Avg: "pm25_avg",
+  pm10Avg: "pm10_avg",
+  co2IndoorTypical: "co2_indoor_typical",
+};
+
+function blank(v: unknown): boolean {
+  return v == null || (typeof v === "string" && v.trim() === "");
+}
+
+// Validate one flat record; throws a message on the first problem
+export function fromRecord(rec: BaselineRecord): ReferenceBaseline {
+  const scope = String(rec.scope ?? "").trim().toLowerCase() as RegionScope;
+  if (!SCOPES.includes(scope)) {
+    throw new Error(`Unknown scope "${rec.scope}" (use ${SCOPES.join(", ")})`);
+  }
+
+  const code = String(rec.code ?? "").trim();
+  if (!code) throw new Error("Missing region code");
+  if (scope === "zip" && !/^\d{1,5}$/.test(code)) {
+    throw new Error(`ZIP prefix "${code}" must be 1–5 digits`);
+  }
+  if (scope === "state" && !/^[A-Za-z]{2}$/.test(code)) {
+    throw new Error(`State code "${code}" must be two letters`);
+  }
+
+  const zipPrefixes = Array.isArray(rec.zip_prefixes)
+    ? rec.zip_prefixes.map((p) => p.trim()).filter(Boolean)
+    : String(rec.zip_prefixes ?? "")
+        .split(/[;|\s]+/)
+        .filter(Boolean);
+  if (scope === "metro" && zipPrefixes.length === 0) {
+    throw new Error("Metro rows need at least one ZIP prefix");
+  }
+
+  let season: Season | undefined;
+  if (!blank(rec.season)) {
+    const s = String(rec.season).trim().toLowerCase();
+    if (s !== "annual") {
+      if (!SEASONS.includes(s as Season)) {
+        throw new Error(`Unknown season "${rec.season}"`);
+      }
+      season = s as Season;
+    }
+  }
+
+  const values: ReferenceBaseline["values"] = {};
+  for (const [key, col] of Object.entries(VALUE_COLUMNS)) {
+    const raw = rec[col];
+    if (blank(raw)) continue;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0) {
+      throw new Error(`${col} must be a non-negative number`);
+    }
+    values[key as ReferenceKey] = n;
+  }
+  if (Object.keys(values).length === 0) {
+    throw new Error("Row has no reference values");
+  }
+
+  return {
+    scope,
+    code: scope === "state" ? code.toUpperCase() : code,
+    name: String(rec.name ?? "").trim() || code,
+    zipPrefixes: scope === "metro" ? zipPrefixes : undefined,
+    season,
+    values,
+    source: blank(rec.source) ? undefined : String(rec.source).trim(),
+  };
+}
+
+export function toRecord(b: ReferenceBaseline): BaselineRecord {
+  return {
+    scope: b.scope,
+    code: b.code,
+    name: b.name,
+    zip_prefixes: b.zipPrefixes ?? null,
+    season: b.season ?? null,
+    pm25_avg: b.values.pm25Avg ?? null,
+    pm10_avg: b.values.pm10Avg ?? null,
+    co2_indoor_typical: b.values.co2IndoorTypical ?? null,
+    source: b.source ?? null,
+  };
+}
+
+function collect(records: BaselineRecord[], firstRow: number): ImportResult {
+  const result: ImportResult = { rows: [], errors: [] };
+  records.forEach((rec, i) => {
+    try {
+      result.rows.push(fromRecord(rec));
+    } catch (err) {
+      result.errors.push({
+        row: firstRow + i,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  });
+  return result;
+}
+
+export function parseBaselineCsv(text: string): ImportResult {
+  const table = parseCsv(text);
+  if (!table) {
+    return { rows: [], errors: [{ row: 1, message: "File is empty" }] };
+  }
+
+  const header = table.header.map((h) => h.toLowerCase());
+  for (const col of ["scope", "code"]) {
+    if (!header.includes(col)) {
+      return {
+        rows: [],
+        errors: [{ row: 1, message: `Missing "${col}" column` }],
+      };
+    }
+  }
+
+  const records = table.rows.map(
+    (fields) =>
+      Object.fromEntries(
+        header.map((h, i) => [h, fields[i] ?? ""])
+      ) as unknown as BaselineRecord
+  );
+
+  // Row numbers count the header as row 1
+  return collect(records, 2);
+}
+
+export function parseBaselineJson(text: string): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { rows: [], errors: [{ row: 0, message: "Invalid JSON" }] };
+  }
+  if (!Array.isArray(data)) {
+    return {
+      rows: [],
+      errors: [{ row: 0, message: "Expected an array of baselines" }],
+    };
+  }
+
+  // Accept either ReferenceBaseline objects or flat records
+  const records = data.map((item): BaselineRecord =>
+    item && typeof item === "object" && "values" in item
+      ? toRecord(item as ReferenceBaseline)
+      : (item as BaselineRecord)
+  );
+
+  return collect(records, 1);
+}
+
+export function parseBaselines(text: string, filename = ""): ImportResult {
+  const looksJson =
+    filename.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text);
+  return looksJson ? parseBaselineJson(text) : parseBaselineCsv(text);
+}
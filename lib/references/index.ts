@@ -0,0 +1,176 @@
+// lib/references/index.ts
+// --------------------------------------------------------
+// Regional reference baselines
+// --------------------------------------------------------
+// Outdoor / typical-home values the report compares a home
+// against. Each baseline is keyed by a region:
+//   - zip:      ZIP prefix ("770", "77007")
+//   - metro:    named metro, matched by its ZIP prefixes
+//   - state:    two-letter state code
+//   - national: fallback for everything else
+//
+// A baseline may carry a season; seasonal variants win over
+// annual values for the same region. Each value resolves on
+// its own, from the most specific region that has it, so a
+// ZIP entry with only PM2.5 still inherits PM10 from its
+// state.
+// --------------------------------------------------------
+
+export type RegionScope = "zip" | "metro" | "state" | "national";
+
+export type Season = "winter" | "spring" | "summer" | "fall";
+
+export type ReferenceKey = "pm25Avg" | "pm10Avg" | "co2IndoorTypical";
+
+export type ReferenceBaseline = {
+  scope: RegionScope;
+  code: string; // ZIP prefix, state code, metro slug or "US"
+  name: string; // shown in chart legends
+  zipPrefixes?: string[]; // metro membership
+  season?: Season;
+  values: Partial<Record<ReferenceKey, number>>;
+  source?: string;
+};
+
+export type ResolvedValue = {
+  value: number;
+  region: string;
+  scope: RegionScope;
+  season?: Season;
+  source?: string;
+};
+
+export type ResolvedReferences = Record<ReferenceKey, ResolvedValue | null>;
+
+export const REFERENCE_KEYS: ReferenceKey[] = [
+  "pm25Avg",
+  "pm10Avg",
+  "co2IndoorTypical",
+];
+
+export const SEASONS: Season[] = ["winter", "spring", "summer", "fall"];
+
+// Location fields of the property row
+export type Location = {
+  state?: string | null;
+  zip?: string | null;
+};
+
+const SCOPE_RANK: Record<RegionScope, number> = {
+  zip: 3,
+  metro: 2,
+  state: 1,
+  national: 0,
+};
+
+const STATE_CODES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR",
+  california: "CA", colorado: "CO", connecticut: "CT", delaware: "DE",
+  "district of columbia": "DC", florida: "FL", georgia: "GA", hawaii: "HI",
+  idaho: "ID", illinois: "IL", indiana: "IN", iowa: "IA", kansas: "KS",
+  kentucky: "KY", louisiana: "LA", maine: "ME", maryland: "MD",
+  massachusetts: "MA", michigan: "MI", minnesota: "MN", mississippi: "MS",
+  missouri: "MO", montana: "MT", nebraska: "NE", nevada: "NV",
+  "new hampshire": "NH", "new jersey": "NJ", "new mexico": "NM",
+  "new york": "NY", "north carolina": "NC", "north dakota": "ND", ohio: "OH",
+  oklahoma: "OK", oregon: "OR", pennsylvania: "PA", "rhode island": "RI",
+  "south carolina": "SC", "south dakota": "SD", tennessee: "TN", texas: "TX",
+  utah: "UT", vermont: "VT", virginia: "VA", washington: "WA",
+  "west virginia": "WV", wisconsin: "WI", wyoming: "WY",
+};
+
+// "tx", "Texas " → "TX"
+export function normalizeState(state: string | null | undefined): string | null {
+  const s = state?.trim();
+  if (!s) return null;
+  if (s.length === 2) return s.toUpperCase();
+  return STATE_CODES[s.toLowerCase()] ?? null;
+}
+
+export function seasonOf(date: Date): Season {
+  const m = date.getMonth(); // 0 = January
+  if (m === 11 || m <= 1) return "winter";
+  if (m <= 4) return "spring";
+  if (m <= 7) return "summer";
+  return "fall";
+}
+
+// How specifically a baseline matches the location (null = no match)
+function matchRank(b: ReferenceBaseline, loc: Location): number | null {
+  const zip = loc.zip?.trim() ?? "";
+
+  switch (b.scope) {
+    case "zip":
+      // Longer prefixes are more specific than shorter ones
+      return zip && zip.startsWith(b.code)
+        ? SCOPE_RANK.zip * 10 + b.code.length
+        : null;
+    case "metro":
+      return zip && (b.zipPrefixes ?? []).some((p) => zip.startsWith(p))
+        ? SCOPE_RANK.metro * 10
+        : null;
+    case "state":
+      return normalizeState(loc.state) === b.code.toUpperCase()
+        ? SCOPE_RANK.state * 10
+        : null;
+    case "national":
+      return SCOPE_RANK.national * 10;
+  }
+}
+
+export function resolveReferences(
+  baselines: ReferenceBaseline[],
+  loc: Location,
+  date: Date = new Date()
+): ResolvedReferences {
+  const season = seasonOf(date);
+
+  const candidates = baselines
+    .filter((b) => !b.season || b.season === season)
+    .map((b) => ({ b, rank: matchRank(b, loc) }))
+    .filter((c): c is { b: ReferenceBaseline; rank: number } => c.rank !== null)
+    // Most specific first; a seasonal variant beats the annual value
+    .sort(
+      (x, y) =>
+        y.rank - x.rank || Number(!!y.b.season) - Number(!!x.b.season)
+    );
+
+  const out = {} as ResolvedReferences;
+
+  for (const key of REFERENCE_KEYS) {
+    const hit = candidates.find((c) => c.b.values[key] != null);
+    out[key] = hit
+      ? {
+          value: hit.b.values[key]!,
+          region: hit.b.name,
+          scope: hit.b.scope,
+          season: hit.b.season,
+          source: hit.b.source,
+        }
+      : null;
+  }
+
+  return out;
+}
+
+// Imported rows replace built-in rows for the same region + season
+export function mergeBaselines(
+  base: ReferenceBaseline[],
+  overrides: ReferenceBaseline[]
+): ReferenceBaseline[] {
+  const id = (b: ReferenceBaseline) =>
+    `${b.scope}:${b.code.toUpperCase()}:${b.season ?? "annual"}`;
+  const replaced = new Set(overrides.map(id));
+  return [...base.filter((b) => !replaced.has(id(b))), ...overrides];
+}
+
+// "Houston metro avg (summer)"; seasonLabel localizes the season
+export function referenceLegend(
+  ref: ResolvedValue,
+  suffix = "avg",
+  seasonLabel: (season: Season) => string = (season) => season
+): string {
+  return `${ref.region} ${suffix}${
+    ref.season ? ` (${seasonLabel(ref.season)})` : ""
+  }`;
+}
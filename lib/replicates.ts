@@ -0,0 +1,128 @@
+// lib/replicates.ts
+// --------------------------------------------------------
+// Replicate readings
+// --------------------------------------------------------
+// Good practice is several readings per metric and location
+// (three is typical). A replicate group is entered in one
+// go and stored on one measurement row, every reading kept:
+//
+//   replicates          each reading as entered, converted
+//                       to the canonical unit
+//   replicate_accepted  index of the reading the technician
+//                       accepted, or null
+//   raw_unit            the unit the readings were taken in
+//
+// The row's `value` is what replicateStats() calls `value`:
+//   - the accepted reading, when there is one (even if it
+//     is flagged as an outlier)
+//   - otherwise the retained mean: the mean of the readings
+//     that are not outliers
+// Outliers are left out of the retained mean only; they
+// stay in `replicates` and are flagged wherever the group
+// is shown, so the spread and the flags can be recomputed
+// from the row at any time (in raw_unit they match what
+// was shown at entry).
+//
+// Scoring and aggregation only ever see `value`, so a group
+// counts as one reading, not N.
+//
+// Outliers: Dixon's Q test at 90% confidence on the lowest
+// and highest reading, for groups of 3 to 10; pairs have
+// none.
+// --------------------------------------------------------
+
+export const MAX_REPLICATES = 10;
+
+// Dixon's Q critical values (90% confidence) by group size
+const Q90: Record<number, number> = {
+  3: 0.941,
+  4: 0.765,
+  5: 0.642,
+  6: 0.56,
+  7: 0.507,
+  8: 0.468,
+  9: 0.437,
+  10: 0.412,
+};
+
+// Spread worth a second look, as a coefficient of variation
+export const HIGH_CV = 0.2;
+
+export type ReplicateStats = {
+  n: number;
+  mean: number; // all values
+  sd: number; // sample standard deviation
+  cv: number | null; // sd / mean; null when the mean is 0
+  min: number;
+  max: number;
+  outliers: number[]; // indices into the values
+  retainedMean: number; // mean without the outliers
+  accepted: number | null;
+  value: number; // the accepted value, else retainedMean
+  highSpread: boolean;
+};
+
+// "850, 870 910" → [850, 870, 910]; null unless 2–10 numbers
+export function parseReplicates(input: string): number[] | null {
+  const parts = input.split(/[\s,;]+/).filter(Boolean);
+  if (parts.length < 2 || parts.length > MAX_REPLICATES) return null;
+  const values = parts.map(Number);
+  return values.every(Number.isFinite) ? values : null;
+}
+
+export function isReplicateGroup(row: {
+  replicates?: number[] | null;
+}): row is { replicates: number[] } {
+  return (row.replicates?.length ?? 0) > 1;
+}
+
+export function dixonOutliers(values: number[]): number[] {
+  const critical = Q90[values.length];
+  if (!critical) return [];
+
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const v = (k: number) => values[order[k]];
+  const last = order.length - 1;
+  const range = v(last) - v(0);
+  if (range === 0) return [];
+
+  const out: number[] = [];
+  if ((v(1) - v(0)) / range > critical) out.push(order[0]);
+  if ((v(last) - v(last - 1)) / range > critical) out.push(order[last]);
+  return out;
+}
+
+const average = (values: number[]) =>
+  values.reduce((a, b) => a + b, 0) / values.length;
+
+export function replicateStats(
+  values: number[],
+  accepted: number | null = null
+): ReplicateStats | null {
+  if (values.length === 0) return null;
+
+  const n = values.length;
+  const mean = average(values);
+  const sd =
+    n > 1
+      ? Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1))
+      : 0;
+  const cv = mean !== 0 ? sd / Math.abs(mean) : null;
+  const outliers = dixonOutliers(values);
+  const retainedMean = average(values.filter((_, i) => !outliers.includes(i)));
+  const chosen = accepted !== null && accepted >= 0 && accepted < n ? accepted : null;
+
+  return {
+    n,
+    mean,
+    sd,
+    cv,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    outliers,
+    retainedMean,
+    accepted: chosen,
+    value: chosen !== null ? values[chosen] : retainedMean,
+    highSpread: cv !== null && cv > HIGH_CV,
+  };
+}
@@ -0,0 +1,314 @@
+// lib/scoring/aggregate.ts
+// --------------------------------------------------------
+// Whole-home aggregation of measurement rows
+// --------------------------------------------------------
+// Reduces every reading of a metric to the single value the
+// engines score. The strategy is pinned by the scoring
+// profile:
+//   - worst:     lowest-scoring reading anywhere in the home,
+//                under the profile's bands
+//   - mean:      average of per-room values
+//   - median:    median of per-room values
+//   - area:      per-room values weighted by room area
+//   - occupancy: per-room values weighted by time spent there
+//
+// A room's value is the mean of its readings for that metric.
+// Readings without a room count as one extra room. Values are
+// converted to the canonical unit before they are combined.
+//
+// Readings tagged as taken in a sleeping area are also kept
+// apart (worst case) so engines can apply stricter bands.
+//
+// Outdoor readings never count toward the home: they form a
+// separate outdoor baseline (the mean of outdoor readings)
+// that indoor/outdoor ratios are taken against.
+// --------------------------------------------------------
+
+import {
+  METRIC_KEYS,
+  isMetricKey,
+  scoreMetric,
+  type BandSpec,
+  type MetricKey,
+} from "@/lib/metrics";
+import type { ReadingSource } from "@/lib/scoring/breakdown";
+import { profileBands, type ScoringProfile } from "@/lib/scoring/profiles";
+import { toCanonical } from "@/lib/units";
+
+// Where a reading was taken; rooms are indoors, "outdoor" has no room
+export type MeasurementLocation = "indoor" | "outdoor";
+
+// Minimal shape shared by the report and technician rows
+export type MeasurementLike = {
+  id: string;
+  room_id: string | null;
+  location?: MeasurementLocation | null; // null = indoor (older rows)
+  metric: string;
+  value: number;
+  unit?: string | null;
+  taken_at: string | null;
+  created_at?: string;
+  sleeping_area?: boolean | null;
+};
+
+export type RoomLike = {
+  id: string;
+  name: string;
+  type: string | null;
+  area_sqft?: number | null;
+};
+
+export type AggregationStrategy =
+  | "worst"
+  | "mean"
+  | "median"
+  | "area"
+  | "occupancy";
+
+export const AGGREGATION_STRATEGIES: Record<
+  AggregationStrategy,
+  { label: string; short: string; description: string }
+> = {
+  worst: {
+    label: "Worst case",
+    short: "worst room",
+    description: "The reading that scores lowest, found anywhere in the home.",
+  },
+  mean: {
+    label: "Mean",
+    short: "home average",
+    description: "The average across rooms, each room counted equally.",
+  },
+  median: {
+    label: "Median",
+    short: "home median",
+    description: "The middle value across rooms, so one outlier room cannot dominate.",
+  },
+  area: {
+    label: "Area-weighted",
+    short: "area-weighted",
+    description: "The average across rooms, larger rooms counting more.",
+  },
+  occupancy: {
+    label: "Occupancy-weighted",
+    short: "occupancy-weighted",
+    description:
+      "The average across rooms, bedrooms and offices counting more than rooms you pass through.",
+  },
+};
+
+// Relative hours spent per room kind (bedrooms ≈ a night's sleep)
+const OCCUPANCY_WEIGHTS: { match: string[]; weight: number }[] = [
+  { match: ["bed", "primary", "master", "nursery", "kid"], weight: 3 },
+  { match: ["office", "study"], weight: 2 },
+  { match: ["living", "family", "den"], weight: 1.5 },
+  { match: ["bath", "laundry", "garage", "closet", "hall"], weight: 0.5 },
+];
+
+export function occupancyWeight(room: RoomLike | undefined): number {
+  if (!room) return 1;
+  const name = `${room.type ?? ""} ${room.name}`.toLowerCase();
+  const hit = OCCUPANCY_WEIGHTS.find((w) =>
+    w.match.some((m) => name.includes(m))
+  );
+  return hit?.weight ?? 1;
+}
+
+export type MetricReading = {
+  value: number;
+  // The single reading behind the value (worst case only)
+  source: ReadingSource | null;
+  readings: number;
+  rooms: number;
+};
+
+export type Readings = Record<MetricKey, MetricReading | null>;
+
+function toSource(row: MeasurementLike): ReadingSource {
+  return {
+    measurementId: row.id,
+    roomId: row.room_id,
+    takenAt: row.taken_at ?? row.created_at ?? null,
+  };
+}
+
+export function isOutdoor(row: MeasurementLike): boolean {
+  return row.location === "outdoor";
+}
+
+function emptyReadings(): Readings {
+  return Object.fromEntries(METRIC_KEYS.map((k) => [k, null])) as Readings;
+}
+
+// Whether reading `a` is more concerning than `b`: a lower
+// sub-score, then farther outside the ideal band (two readings
+// can both score 0), then for one-sided metrics the higher value
+function isWorse(key: MetricKey, a: number, b: number, spec: BandSpec): boolean {
+  const scoreA = scoreMetric(key, a, spec);
+  const scoreB = scoreMetric(key, b, spec);
+  if (scoreA !== scoreB) return scoreA < scoreB;
+
+  const high = spec.bands[0].max;
+  const low = spec.low?.bands[0].min ?? -Infinity;
+  const outside = (v: number) => Math.max(v - high, low - v, 0);
+  if (outside(a) !== outside(b)) return outside(a) > outside(b);
+  return !spec.low && a > b;
+}
+
+// "Most concerning" = lowest sub-score across all rooms; two-sided
+// metrics (humidity, pH…) can be worst at either end
+export function aggregateWorst(
+  rows: MeasurementLike[],
+  profile: ScoringProfile
+): Readings {
+  const out = emptyReadings();
+  const rooms: Partial<Record<MetricKey, Set<string | null>>> = {};
+
+  for (const row of rows) {
+    if (isOutdoor(row)) continue;
+    if (!isMetricKey(row.metric)) continue;
+    (rooms[row.metric] ??= new Set()).add(row.room_id);
+    const value = toCanonical(row.metric, row.value, row.unit);
+    const current = out[row.metric];
+    const spec = profileBands(profile, row.metric);
+    if (current === null || isWorse(row.metric, value, current.value, spec)) {
+      out[row.metric] = {
+        value,
+        source: toSource(row),
+        readings: (current?.readings ?? 0) + 1,
+        rooms: 0,
+      };
+    } else {
+      current.readings += 1;
+    }
+  }
+
+  for (const k of METRIC_KEYS) {
+    const r = out[k];
+    if (r) r.rooms = rooms[k]?.size ?? 0;
+  }
+
+  return out;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[mid]
+    : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function weightedMean(parts: { value: number; weight: number }[]): number {
+  const total = parts.reduce((sum, p) => sum + p.weight, 0);
+  // Fall back to a plain mean when no room carries weight
+  if (total <= 0) {
+    return parts.reduce((sum, p) => sum + p.value, 0) / parts.length;
+  }
+  return parts.reduce((sum, p) => sum + p.value * p.weight, 0) / total;
+}
+
+// Home value per metric under the profile's aggregation strategy
+export function aggregateReadings(
+  rows: MeasurementLike[],
+  rooms: RoomLike[],
+  profile: ScoringProfile
+): Readings {
+  const strategy = profile.aggregation;
+  if (strategy === "worst") return aggregateWorst(rows, profile);
+  return combineRooms(
+    rows.filter((r) => !isOutdoor(r)),
+    rooms,
+    strategy
+  );
+}
+
+// Mean of the outdoor readings per metric; null where none were taken
+export function aggregateOutdoor(rows: MeasurementLike[]): Readings {
+  return combineRooms(rows.filter(isOutdoor), [], "mean");
+}
+
+function combineRooms(
+  rows: MeasurementLike[],
+  rooms: RoomLike[],
+  strategy: Exclude<AggregationStrategy, "worst">
+): Readings {
+  // metric → room → readings
+  const byRoom: Partial<Record<MetricKey, Map<string | null, number[]>>> = {};
+  for (const row of rows) {
+    if (!isMetricKey(row.metric)) continue;
+    const map = (byRoom[row.metric] ??= new Map());
+    const list = map.get(row.room_id) ?? [];
+    list.push(toCanonical(row.metric, row.value, row.unit));
+    map.set(row.room_id, list);
+  }
+
+  // Rooms without an area count as the average known room
+  const areas = rooms
+    .map((r) => r.area_sqft)
+    .filter((a): a is number => a != null && a > 0);
+  const fallbackArea = areas.length
+    ? areas.reduce((a, b) => a + b, 0) / areas.length
+    : 1;
+
+  const weightFor = (roomId: string | null): number => {
+    const room = rooms.find((r) => r.id === roomId);
+    if (strategy === "area") {
+      return room?.area_sqft != null && room.area_sqft > 0
+        ? room.area_sqft
+        : fallbackArea;
+    }
+    if (strategy === "occupancy") return occupancyWeight(room);
+    return 1;
+  };
+
+  const out = emptyReadings();
+
+  for (const k of METRIC_KEYS) {
+    const map = byRoom[k];
+    if (!map) continue;
+
+    const perRoom = [...map.entries()].map(([roomId, values]) => ({
+      value: values.reduce((a, b) => a + b, 0) / values.length,
+      weight: weightFor(roomId),
+      readings: values.length,
+    }));
+
+    out[k] = {
+      value:
+        strategy === "median"
+          ? median(perRoom.map((r) => r.value))
+          : weightedMean(perRoom),
+      source: null,
+      readings: perRoom.reduce((sum, r) => sum + r.readings, 0),
+      rooms: perRoom.length,
+    };
+  }
+
+  return out;
+}
+
+// Worst reading per metric among those tagged as taken in a
+// sleeping area; engines hold these to stricter bands
+export function aggregateSleepingArea(
+  rows: MeasurementLike[],
+  profile: ScoringProfile
+): Readings {
+  return aggregateWorst(rows.filter((r) => r.sleeping_area), profile);
+}
+
+export function readingValues(
+  readings: Readings
+): Record<MetricKey, number | null> {
+  return Object.fromEntries(
+    METRIC_KEYS.map((k) => [k, readings[k]?.value ?? null])
+  ) as Record<MetricKey, number | null>;
+}
+
+export function readingSources(
+  readings: Readings
+): Record<MetricKey, ReadingSource | null> {
+  return Object.fromEntries(
+    METRIC_KEYS.map((k) => [k, readings[k]?.source ?? null])
+  ) as Record<MetricKey, ReadingSource | null>;
+}
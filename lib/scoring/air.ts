@@ -1,77 +1,243 @@
 // --------------------------------------------------------
-// SaSo Air Quality Scoring Engine v1.0
+// SaSo Air Quality Scoring Engine v1.1
 // --------------------------------------------------------
-// Metrics included:
-//   - CO2 (50%)
-//   - PM2.5 (25%)
-//   - PM10 (25%)
-// Humidity is not scored, but a CAUTION flag is provided.
+// Metrics included (weights come from the profile):
+//   - CO2, PM2.5, PM10
+//   - VOCs (TVOC, ppb)
+//   - Humidity and Temp (comfort envelope, two-sided)
+//   - CO, NO2, formaldehyde, ozone, radon (v1.8+)
+// With an outdoor baseline (v1.11+), metrics that have I/O
+// bands in the profile blend the absolute sub-score with the
+// indoor/outdoor ratio's: high PM2.5 on a smoke day scores
+// differently from the same reading on a clean day.
+// Profiles before v1.5 weight only CO2 / PM2.5 / PM10;
+// there humidity just raises a CAUTION flag.
+// Gases past their safety limit are not averaged away here:
+// lib/scoring/safety.ts raises an alert that the report shows
+// in place of the score.
+// Unmeasured metrics are left out and their weight shared.
+// Band edges and curves live in lib/metrics.ts.
 // --------------------------------------------------------
 
-export function co2Score(ppm: number): number {
-  if (ppm <= 700) return 100;                               // Excellent
-  if (ppm <= 1000) return 100 - ((ppm - 700) / 300) * 20;  // 100 → 80
-  if (ppm <= 1200) return 80 - ((ppm - 1000) / 200) * 20;  // 80 → 60
-  if (ppm <= 1500) return 60 - ((ppm - 1200) / 300) * 30;  // 60 → 30
-  if (ppm <= 2000) return 30 - ((ppm - 1500) / 500) * 20;  // 30 → 10
+import {
+  inIdealRange,
+  metricBand,
+  scoreMetric,
+  type MetricKey,
+} from "@/lib/metrics";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+import {
+  explainCategory,
+  type CategoryBreakdown,
+  type IoRatio,
+} from "@/lib/scoring/breakdown";
 
-  return Math.max(0, 10 - ((ppm - 2000) / 500) * 10);       // 10 → 0
+export function co2Score(
+  ppm: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number {
+  return scoreMetric("CO2", ppm, profileBands(profile, "CO2"));
 }
 
-export function pm25Score(v: number): number {
-  if (v <= 9) return 100;
-  if (v <= 20) return 100 - ((v - 9) / 11) * 40;            // 100 → 60
-  if (v <= 35) return 60 - ((v - 20) / 15) * 40;            // 60 → 20
-  return Math.max(0, 20 - (v - 35) * 1.5);                  // 20 → 0
+export function pm25Score(
+  v: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number {
+  return scoreMetric("PM25", v, profileBands(profile, "PM25"));
 }
 
-export function pm10Score(v: number): number {
-  if (v <= 30) return 100;
-  if (v <= 50) return 100 - ((v - 30) / 20) * 60;           // 100 → 40
-  return Math.max(0, 40 - (v - 50) * 2);                    // 40 → 0
+export function pm10Score(
+  v: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number {
+  return scoreMetric("PM10", v, profileBands(profile, "PM10"));
 }
 
+export function vocsScore(
+  ppb: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number {
+  return scoreMetric("VOCs", ppb, profileBands(profile, "VOCs"));
+}
+
+export function humidityScore(
+  rh: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number {
+  return scoreMetric("Humidity", rh, profileBands(profile, "Humidity"));
+}
+
+export function tempScore(
+  f: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number {
+  return scoreMetric("Temp", f, profileBands(profile, "Temp"));
+}
+
+// True when humidity sits outside the ideal window (40–60%)
 export function humidityCaution(h: number): boolean {
-  return h < 40 || h > 60;
+  return !inIdealRange("Humidity", h);
+}
+
+type AirInputs = {
+  co2?: number | null;
+  pm25?: number | null;
+  pm10?: number | null;
+  vocs?: number | null;
+  humidity?: number | null;
+  temp?: number | null;
+  co?: number | null;
+  no2?: number | null;
+  hcho?: number | null;
+  o3?: number | null;
+  radon?: number | null;
+};
+
+// Sub-score for the metrics without a dedicated helper
+function gasScore(
+  key: "CO" | "NO2" | "HCHO" | "O3" | "Radon",
+  v: number | null | undefined,
+  profile: ScoringProfile
+): number | null {
+  return v == null ? null : scoreMetric(key, v, profileBands(profile, key));
+}
+
+type AirPart = {
+  metric: MetricKey;
+  value: number | null | undefined;
+  subScore: number | null;
+  ioRatio?: IoRatio;
+};
+
+// Blend in the indoor/outdoor ratio when the profile has I/O bands
+// for the metric and an outdoor baseline was taken
+function withIoRatio(
+  part: AirPart,
+  outdoor: number | null | undefined,
+  profile: ScoringProfile
+): AirPart {
+  const rule = profile.ioRatio;
+  const spec = rule?.bands[part.metric];
+  if (
+    !rule ||
+    !spec ||
+    part.value == null ||
+    part.subScore === null ||
+    outdoor == null ||
+    outdoor <= 0
+  ) {
+    return part;
+  }
+
+  const ratio = part.value / outdoor;
+  const subScore = scoreMetric(part.metric, ratio, spec);
+  return {
+    ...part,
+    subScore: part.subScore * (1 - rule.weight) + subScore * rule.weight,
+    ioRatio: {
+      outdoor,
+      ratio,
+      subScore,
+      band: metricBand(part.metric, ratio, spec).label,
+    },
+  };
+}
+
+// Per-metric breakdown of the Air Score; `outdoor` holds the
+// outdoor baseline per metric (lib/scoring/aggregate.ts)
+export function explainAirScore(
+  { co2, pm25, pm10, vocs, humidity, temp, co, no2, hcho, o3, radon }: AirInputs,
+  profile: ScoringProfile = getProfile(currentProfileId()),
+  outdoor: Partial<Record<MetricKey, number | null>> = {}
+): CategoryBreakdown {
+  const parts: AirPart[] = [
+    {
+      metric: "CO2",
+      value: co2,
+      subScore: co2 == null ? null : co2Score(co2, profile),
+    },
+    {
+      metric: "PM25",
+      value: pm25,
+      subScore: pm25 == null ? null : pm25Score(pm25, profile),
+    },
+    {
+      metric: "PM10",
+      value: pm10,
+      subScore: pm10 == null ? null : pm10Score(pm10, profile),
+    },
+    {
+      metric: "VOCs",
+      value: vocs,
+      subScore: vocs == null ? null : vocsScore(vocs, profile),
+    },
+    {
+      metric: "Humidity",
+      value: humidity,
+      subScore: humidity == null ? null : humidityScore(humidity, profile),
+    },
+    {
+      metric: "Temp",
+      value: temp,
+      subScore: temp == null ? null : tempScore(temp, profile),
+    },
+    { metric: "CO", value: co, subScore: gasScore("CO", co, profile) },
+    { metric: "NO2", value: no2, subScore: gasScore("NO2", no2, profile) },
+    { metric: "HCHO", value: hcho, subScore: gasScore("HCHO", hcho, profile) },
+    { metric: "O3", value: o3, subScore: gasScore("O3", o3, profile) },
+    {
+      metric: "Radon",
+      value: radon,
+      subScore: gasScore("Radon", radon, profile),
+    },
+  ];
+
+  return explainCategory(
+    "air",
+    parts.map((p) => withIoRatio(p, outdoor[p.metric], profile)),
+    profile
+  );
 }
 
 // Final weighted Air Score
-export function computeAirScore({
-  co2,
-  pm25,
-  pm10,
-}: {
-  co2: number;
-  pm25: number;
-  pm10: number;
-}): number {
-  const score =
-    co2Score(co2) * 0.5 +
-    pm25Score(pm25) * 0.25 +
-    pm10Score(pm10) * 0.25;
-
-  return Math.round(score);
+export function computeAirScore(
+  inputs: AirInputs,
+  profile: ScoringProfile = getProfile(currentProfileId()),
+  outdoor: Partial<Record<MetricKey, number | null>> = {}
+): number | null {
+  return explainAirScore(inputs, profile, outdoor).score;
 }
 
 // Optional human-readable labels for UI
-export function co2Label(ppm: number): string {
-  if (ppm <= 700) return "Excellent (Fresh Air)";
-  if (ppm <= 1000) return "Good (Acceptable)";
-  if (ppm <= 1200) return "Fair (Needs Attention)";
-  if (ppm <= 1500) return "Poor (Ventilation Recommended)";
-  if (ppm <= 2000) return "Very Poor (Unhealthy)";
-  return "Severely Elevated (Action Required)";
+export function co2Label(
+  ppm: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): string {
+  return metricBand("CO2", ppm, profileBands(profile, "CO2")).label;
+}
+
+export function pm25Label(
+  v: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): string {
+  return metricBand("PM25", v, profileBands(profile, "PM25")).label;
 }
 
-export function pm25Label(v: number): string {
-  if (v <= 9) return "Excellent";
-  if (v <= 20) return "Moderate";
-  if (v <= 35) return "Poor";
-  return "Very Poor";
+export function pm10Label(
+  v: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): string {
+  return metricBand("PM10", v, profileBands(profile, "PM10")).label;
 }
 
-export function pm10Label(v: number): string {
-  if (v <= 30) return "Excellent";
-  if (v <= 50) return "Moderate";
-  return "Poor";
+export function vocsLabel(
+  ppb: number,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): string {
+  return metricBand("VOCs", ppb, profileBands(profile, "VOCs")).label;
 }
@@ -1,34 +1,170 @@
 // lib/scoring/airSummary.ts
 
-export function summarizeAir({ CO2, PM25, PM10 }: any): string {
-  const co2 = CO2 ?? 0;
-  const pm25 = PM25 ?? 0;
-  const pm10 = PM10 ?? 0;
+import {
+  METRICS,
+  bandIndex,
+  inIdealRange,
+  metricBand,
+  type MetricKey,
+} from "@/lib/metrics";
+import {
+  finding,
+  renderFindings,
+  type Finding,
+  type FindingKey,
+  type Severity,
+  type SummaryInputs,
+  type SummarySources,
+} from "@/lib/scoring/findings";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+
+// Combustion gases and radon: only worth a line once elevated.
+// At or above the safety limit the alert (lib/scoring/safety.ts)
+// speaks for the reading instead.
+const GAS_KEYS: [MetricKey, FindingKey][] = [
+  ["CO", "co.elevated"],
+  ["NO2", "no2.elevated"],
+  ["HCHO", "hcho.elevated"],
+  ["O3", "o3.elevated"],
+  ["Radon", "radon.elevated"],
+];
+
+export function airFindings(
+  inputs: SummaryInputs,
+  sources: SummarySources = {},
+  profile: ScoringProfile = getProfile(currentProfileId())
+): Finding[] {
+  // Classify against the profile's bands, not the registry defaults
+  const index = (k: MetricKey, v: number) =>
+    bandIndex(k, v, profileBands(profile, k));
+  const ideal = (k: MetricKey, v: number) =>
+    inIdealRange(k, v, profileBands(profile, k));
+  const band = (k: MetricKey, v: number) =>
+    metricBand(k, v, profileBands(profile, k));
+
+  const { CO2, PM25, PM10, VOCs, Humidity, Temp } = inputs;
+  const co2 = CO2 == null ? null : index("CO2", CO2);
+  const pm25 = PM25 == null ? null : index("PM25", PM25);
+  const pm10 = PM10 == null ? null : index("PM10", PM10);
+  const vocs = VOCs == null ? null : index("VOCs", VOCs);
+
+  // Nothing measured
+  if (
+    co2 === null &&
+    pm25 === null &&
+    pm10 === null &&
+    vocs === null &&
+    Humidity == null &&
+    Temp == null &&
+    GAS_KEYS.every(([k]) => inputs[k] == null)
+  ) {
+    return [finding("air", null, "info", "air.notTested")];
+  }
+
+  // Comfort envelope (two-sided): "Humidity too dry", "Temperature cool"
+  const comfort: Finding[] = [];
+  if (Humidity != null && !ideal("Humidity", Humidity)) {
+    const { label } = band("Humidity", Humidity);
+    const severity: Severity =
+      index("Humidity", Humidity) >= 2 ? "moderate" : "low";
+    comfort.push(
+      finding("air", "Humidity", severity, "humidity.outside", sources, {
+        band: label.toLowerCase(),
+      })
+    );
+  }
+  if (Temp != null && !ideal("Temp", Temp)) {
+    const { label } = band("Temp", Temp);
+    const severity: Severity = index("Temp", Temp) >= 2 ? "moderate" : "low";
+    comfort.push(
+      finding("air", "Temp", severity, "temp.outside", sources, {
+        band: label.toLowerCase(),
+      })
+    );
+  }
+
+  const elevatedGases = GAS_KEYS.filter(([k]) => {
+    const v = inputs[k];
+    return v != null && index(k, v) >= 2;
+  });
+  const gases = elevatedGases
+    .filter(([k]) => inputs[k]! < (METRICS[k].safetyLimit?.value ?? Infinity))
+    .map(([k, key]) => finding("air", k, "moderate", key, sources));
 
   // Perfect case
-  if (co2 <= 700 && pm25 <= 9 && pm10 <= 30) {
-    return "Air quality is excellent across all measured pollutants.";
+  if (
+    !co2 &&
+    !pm25 &&
+    !pm10 &&
+    !vocs &&
+    comfort.length === 0 &&
+    elevatedGases.length === 0
+  ) {
+    return [finding("air", null, "info", "air.excellent")];
   }
 
-  let parts: string[] = [];
+  const parts: Finding[] = [];
 
   // ---- CO₂ ----
-  if (co2 <= 700) parts.push("CO₂ excellent");
-  else if (co2 <= 1000) parts.push("CO₂ acceptable");
-  else if (co2 <= 1200) parts.push("CO₂ elevated");
-  else if (co2 <= 1500) parts.push("CO₂ high");
-  else parts.push("CO₂ very high");
+  if (co2 !== null) {
+    const [key, severity] = (
+      [
+        ["co2.excellent", "info"],
+        ["co2.acceptable", "low"],
+        ["co2.elevated", "moderate"],
+        ["co2.high", "high"],
+      ] as const
+    )[co2] ?? ["co2.veryHigh", "high"];
+    parts.push(finding("air", "CO2", severity, key, sources));
+  }
 
   // ---- PM2.5 ----
-  if (pm25 <= 9) parts.push("PM₂.₅ ideal");
-  else if (pm25 <= 20) parts.push("PM₂.₅ moderately elevated");
-  else if (pm25 <= 35) parts.push("PM₂.₅ elevated");
-  else parts.push("PM₂.₅ high");
+  if (pm25 !== null) {
+    const [key, severity] = (
+      [
+        ["pm25.ideal", "info"],
+        ["pm25.moderate", "low"],
+        ["pm25.elevated", "moderate"],
+      ] as const
+    )[pm25] ?? ["pm25.high", "high"];
+    parts.push(finding("air", "PM25", severity, key, sources));
+  }
 
   // ---- PM10 ----
-  if (pm10 <= 30) parts.push("PM₁₀ ideal");
-  else if (pm10 <= 50) parts.push("PM₁₀ moderate");
-  else parts.push("PM₁₀ elevated");
+  if (pm10 !== null) {
+    const [key, severity] = (
+      [
+        ["pm10.ideal", "info"],
+        ["pm10.moderate", "low"],
+      ] as const
+    )[pm10] ?? ["pm10.elevated", "moderate"];
+    parts.push(finding("air", "PM10", severity, key, sources));
+  }
+
+  // ---- VOCs (sensor-dependent, see registry caveat) ----
+  if (vocs !== null) {
+    const [key, severity] = (
+      [
+        ["vocs.low", "info"],
+        ["vocs.moderate", "moderate"],
+      ] as const
+    )[vocs] ?? ["vocs.high", "high"];
+    parts.push(finding("air", "VOCs", severity, key, sources));
+  }
+
+  parts.push(...gases, ...comfort);
+
+  return parts;
+}
 
-  return parts.join("; ") + ".";
+export function summarizeAir(
+  inputs: SummaryInputs,
+  profile?: ScoringProfile
+): string {
+  return renderFindings(airFindings(inputs, {}, profile));
 }
@@ -0,0 +1,133 @@
+// lib/scoring/breakdown.ts
+// --------------------------------------------------------
+// Explainable scores
+// --------------------------------------------------------
+// Each engine builds a CategoryBreakdown: one row per
+// weighted metric with its raw value, sub-score, weight,
+// the points it contributed and the band it landed in.
+// Weights of unmeasured metrics are shared among the
+// measured ones, so `points` always sum to the score.
+// --------------------------------------------------------
+
+import {
+  metricBand,
+  type BandSpec,
+  type CategoryKey,
+  type MetricKey,
+} from "@/lib/metrics";
+import { profileBands, type ScoringProfile } from "@/lib/scoring/profiles";
+import type { Exposure } from "@/lib/scoring/series";
+
+// The reading that drove a metric's value
+export type ReadingSource = {
+  measurementId: string;
+  roomId: string | null;
+  takenAt: string | null;
+};
+
+export type MetricContribution = {
+  metric: MetricKey;
+  value: number | null;
+  subScore: number | null;
+  weight: number; // profile weight
+  share: number; // weight after redistributing unmeasured metrics (0–1)
+  points: number; // share × sub-score
+  band: string | null;
+  source: ReadingSource | null;
+  // Scored against the stricter sleeping-area bands (ether, v1.10+)
+  sleepingArea?: boolean;
+  // Indoor/outdoor ratio blended into the sub-score (air, v1.11+)
+  ioRatio?: IoRatio;
+  // Logged time outside the ideal band, blended in (v1.12+)
+  exposure?: Exposure;
+};
+
+export type IoRatio = {
+  outdoor: number; // outdoor baseline, canonical unit
+  ratio: number; // indoor ÷ outdoor
+  subScore: number; // the ratio against the profile's I/O bands
+  band: string;
+};
+
+export type CategoryBreakdown = {
+  category: CategoryKey;
+  score: number | null;
+  metrics: MetricContribution[];
+};
+
+export function explainCategory(
+  category: CategoryKey,
+  parts: {
+    metric: MetricKey;
+    value: number | null | undefined;
+    subScore: number | null;
+    spec?: BandSpec; // bands the sub-score used, if not the profile's
+    sleepingArea?: boolean;
+    ioRatio?: IoRatio;
+  }[],
+  profile: ScoringProfile
+): CategoryBreakdown {
+  const weights = profile.metricWeights[category] ?? {};
+
+  // Metrics the profile does not weight are left out entirely
+  parts = parts.filter((p) => weights[p.metric] !== undefined);
+
+  const measuredWeight = parts.reduce(
+    (sum, p) => (p.subScore === null ? sum : sum + (weights[p.metric] ?? 0)),
+    0
+  );
+
+  const metrics = parts.map((p): MetricContribution => {
+    const weight = weights[p.metric] ?? 0;
+    const value = p.value ?? null;
+    const share =
+      p.subScore === null || measuredWeight <= 0 ? 0 : weight / measuredWeight;
+
+    return {
+      metric: p.metric,
+      value,
+      subScore: p.subScore,
+      weight,
+      share,
+      points: p.subScore === null ? 0 : p.subScore * share,
+      band:
+        value === null
+          ? null
+          : metricBand(
+              p.metric,
+              value,
+              p.spec ?? profileBands(profile, p.metric)
+            ).label,
+      source: null,
+      ...(p.sleepingArea ? { sleepingArea: true } : {}),
+      ...(p.ioRatio ? { ioRatio: p.ioRatio } : {}),
+    };
+  });
+
+  return {
+    category,
+    score:
+      measuredWeight > 0
+        ? Math.round(metrics.reduce((sum, m) => sum + m.points, 0))
+        : null,
+    metrics,
+  };
+}
+
+// Attach the driving reading to each metric row; rows scored on a
+// sleeping-area reading point at that reading instead
+export function withSources(
+  breakdown: CategoryBreakdown,
+  sources: Partial<Record<MetricKey, ReadingSource | null>>,
+  sleepingSources: Partial<Record<MetricKey, ReadingSource | null>> = {}
+): CategoryBreakdown {
+  return {
+    ...breakdown,
+    metrics: breakdown.metrics.map((m) => ({
+      ...m,
+      source:
+        (m.sleepingArea ? sleepingSources[m.metric] : sources[m.metric]) ??
+        null,
+    })),
+  };
+}
@@ -0,0 +1,238 @@
+// lib/scoring/curves.ts
+// --------------------------------------------------------
+// Scoring curves as data
+// --------------------------------------------------------
+// Band specs (see lib/metrics.ts) are the declarative curve
+// format: ordered edges with a score and label, "linear"
+// or "step" between edges. This module validates them,
+// samples them for charts and round-trips them through
+// JSON (where ∞ is stored as null).
+//
+// The last band on each side is open-ended, so a valid
+// curve always covers the metric's full plausible range.
+// --------------------------------------------------------
+
+import {
+  METRICS,
+  scoreMetric,
+  type BandSpec,
+  type MetricKey,
+} from "@/lib/metrics";
+
+export type CurveIssue = {
+  side: "high" | "low";
+  index: number | null; // band row, null for the whole side
+  message: string;
+};
+
+function checkScores(
+  side: "high" | "low",
+  scores: number[],
+  issues: CurveIssue[]
+) {
+  scores.forEach((score, i) => {
+    if (!Number.isFinite(score) || score < 0 || score > 100) {
+      issues.push({ side, index: i, message: "Score must be between 0 and 100" });
+    } else if (i > 0 && score > scores[i - 1]) {
+      issues.push({
+        side,
+        index: i,
+        message: "Scores must not rise as readings get worse",
+      });
+    }
+  });
+}
+
+// Indoor/outdoor ratio bands (ScoringProfile.ioRatio) are
+// unitless, so the metric's plausible range does not apply
+export const RATIO_RANGE = { min: 0, max: Infinity };
+
+export function validateBandSpec(
+  key: MetricKey,
+  spec: BandSpec,
+  range: { min: number; max: number } = METRICS[key].range
+): CurveIssue[] {
+  const { min, max } = range;
+  const issues: CurveIssue[] = [];
+
+  // ---- HIGH SIDE ----
+  const high = spec.bands;
+  if (high.length === 0) {
+    issues.push({ side: "high", index: null, message: "Add at least one band" });
+  }
+
+  high.forEach((b, i) => {
+    if (!b.label.trim()) {
+      issues.push({ side: "high", index: i, message: "Label is required" });
+    }
+    if (Number.isNaN(b.max)) {
+      issues.push({ side: "high", index: i, message: "Edge must be a number" });
+      return;
+    }
+    if (b.max === Infinity && i !== high.length - 1) {
+      issues.push({
+        side: "high",
+        index: i,
+        message: "Only the last band can be open-ended",
+      });
+    }
+    if (i > 0 && b.max <= high[i - 1].max) {
+      issues.push({
+        side: "high",
+        index: i,
+        message: "Edges must increase from band to band",
+      });
+    }
+    // A linear curve's last edge only sets the slope, so it may lie
+    // past the range (saso-1.1 interpolates Humidity to 130)
+    const slopeEdge = spec.curve === "linear" && i === high.length - 1;
+    if (Number.isFinite(b.max) && (b.max <= min || (b.max > max && !slopeEdge))) {
+      issues.push({
+        side: "high",
+        index: i,
+        message: `Edge must lie within the plausible range (${min}–${max})`,
+      });
+    }
+  });
+
+  checkScores("high", high.map((b) => b.score), issues);
+
+  if (spec.curve === "linear" && high.length > 1 && high[high.length - 1].max === Infinity) {
+    issues.push({
+      side: "high",
+      index: high.length - 1,
+      message: "Linear curves need a finite last edge to interpolate to",
+    });
+  }
+
+  // ---- LOW SIDE (two-sided metrics) ----
+  const low = spec.low?.bands;
+  if (low) {
+    if (low.length === 0) {
+      issues.push({ side: "low", index: null, message: "Add at least one band" });
+    }
+
+    low.forEach((b, i) => {
+      if (!b.label.trim()) {
+        issues.push({ side: "low", index: i, message: "Label is required" });
+      }
+      if (Number.isNaN(b.min)) {
+        issues.push({ side: "low", index: i, message: "Edge must be a number" });
+        return;
+      }
+      if (b.min === -Infinity && i !== low.length - 1) {
+        issues.push({
+          side: "low",
+          index: i,
+          message: "Only the last band can be open-ended",
+        });
+      }
+      if (i > 0 && b.min >= low[i - 1].min) {
+        issues.push({
+          side: "low",
+          index: i,
+          message: "Edges must decrease from band to band",
+        });
+      }
+      const slopeEdge = spec.low!.curve === "linear" && i === low.length - 1;
+      if (Number.isFinite(b.min) && ((b.min < min && !slopeEdge) || b.min >= max)) {
+        issues.push({
+          side: "low",
+          index: i,
+          message: `Edge must lie within the plausible range (${min}–${max})`,
+        });
+      }
+    });
+
+    checkScores("low", low.map((b) => b.score), issues);
+
+    if (
+      spec.low!.curve === "linear" &&
+      low.length > 1 &&
+      low[low.length - 1].min === -Infinity
+    ) {
+      issues.push({
+        side: "low",
+        index: low.length - 1,
+        message: "Linear curves need a finite last edge to interpolate to",
+      });
+    }
+
+    if (low.length > 0 && high.length > 0 && low[0].min > high[0].max) {
+      issues.push({
+        side: "low",
+        index: 0,
+        message: "The ideal window's lower edge is above its upper edge",
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Points for a score-vs-reading chart, spanning the interesting part
+// of the plausible range (up to 1.25× the last finite edge)
+export function sampleCurve(
+  key: MetricKey,
+  specs: BandSpec[],
+  points = 160
+): ({ x: number } & Record<string, number>)[] {
+  const { min, max } = METRICS[key].range;
+
+  const edges = specs.flatMap((s) => [
+    ...s.bands.map((b) => b.max),
+    ...(s.low?.bands.map((b) => b.min) ?? []),
+  ]).filter(Number.isFinite);
+
+  const hasLow = specs.some((s) => s.low);
+  const lo = hasLow && edges.length ? Math.max(min, Math.min(...edges) * 0.8) : min;
+  const hi = edges.length ? Math.min(max, Math.max(...edges) * 1.25) : max;
+
+  return Array.from({ length: points + 1 }, (_, i) => {
+    const x = lo + ((hi - lo) * i) / points;
+    const row: { x: number } & Record<string, number> = { x };
+    specs.forEach((s, j) => {
+      row[`s${j}`] = scoreMetric(key, x, s);
+    });
+    return row;
+  });
+}
+
+// ---- JSON ----
+
+type JsonBandSpec = {
+  curve: BandSpec["curve"];
+  bands: { max: number | null; score: number; label: string }[];
+  low?: {
+    curve: BandSpec["curve"];
+    bands: { min: number | null; score: number; label: string }[];
+  };
+};
+
+export function bandSpecToJson(spec: BandSpec): JsonBandSpec {
+  return {
+    curve: spec.curve,
+    bands: spec.bands.map((b) => ({
+      ...b,
+      max: Number.isFinite(b.max) ? b.max : null,
+    })),
+    low: spec.low && {
+      curve: spec.low.curve,
+      bands: spec.low.bands.map((b) => ({
+        ...b,
+        min: Number.isFinite(b.min) ? b.min : null,
+      })),
+    },
+  };
+}
+
+export function bandSpecFromJson(json: JsonBandSpec): BandSpec {
+  return {
+    curve: json.curve,
+    bands: json.bands.map((b) => ({ ...b, max: b.max ?? Infinity })),
+    low: json.low && {
+      curve: json.low.curve,
+      bands: json.low.bands.map((b) => ({ ...b, min: b.min ?? -Infinity })),
+    },
+  };
+}
@@ -1,36 +1,103 @@
 // lib/scoring/ether.ts
 
-export function computeEtherScore({
-  mag,
-  electric,
-  rf,
-}: {
-  mag: number;
-  electric: number;
-  rf: number;
-}): number {
-  // ----- Magnetic Field (mG) -----
-  let magScore = 100;
-  if (mag > 0.7 && mag <= 1.5) magScore = 85;
-  else if (mag > 1.5 && mag <= 3) magScore = 70;
-  else if (mag > 3 && mag <= 6) magScore = 40;
-  else if (mag > 6) magScore = 15;
-
-  // ----- Electric Field (V/m) -----
-  let elecScore = 100;
-  if (electric > 5 && electric <= 20) elecScore = 85;
-  else if (electric > 20 && electric <= 50) elecScore = 70;
-  else if (electric > 50 && electric <= 100) elecScore = 45;
-  else if (electric > 100) elecScore = 20;
-
-  // ----- RF (mW/m²) -----
-  let rfScore = 100;
-  if (rf > 1 && rf <= 10) rfScore = 85;
-  else if (rf > 10 && rf <= 50) rfScore = 65;
-  else if (rf > 50 && rf <= 200) rfScore = 40;
-  else if (rf > 200) rfScore = 15;
-
-  return Math.round((magScore + elecScore + rfScore) / 3);
+import { scoreMetric, type BandSpec, type MetricKey } from "@/lib/metrics";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+import { tightenBands } from "@/lib/scoring/occupants";
+import {
+  explainCategory,
+  type CategoryBreakdown,
+} from "@/lib/scoring/breakdown";
+
+type EtherInputs = {
+  mag?: number | null;
+  electric?: number | null;
+  rf?: number | null; // average power density
+  rfPeak?: number | null; // peak-hold power density
+  dirty?: number | null;
+  bodyVoltage?: number | null;
+};
+
+// Worst readings taken in sleeping areas, same shape as the inputs
+export type SleepingInputs = EtherInputs;
+
+// Sub-score for one metric: the home value against the profile's
+// bands, or the sleeping-area value against the profile's stricter
+// sleeping-area bands, whichever scores lower
+function etherPart(
+  metric: MetricKey,
+  value: number | null | undefined,
+  sleeping: number | null | undefined,
+  profile: ScoringProfile
+) {
+  const spec = profileBands(profile, metric);
+  const home =
+    value == null
+      ? null
+      : { value, subScore: scoreMetric(metric, value, spec), spec };
+
+  const factor = profile.sleepingArea?.tighten[metric];
+  let strict: { value: number; subScore: number; spec: BandSpec } | null =
+    null;
+  if (sleeping != null && factor != null && factor < 1) {
+    const tight = tightenBands(spec, factor);
+    strict = {
+      value: sleeping,
+      subScore: scoreMetric(metric, sleeping, tight),
+      spec: tight,
+    };
+  }
+
+  if (strict && (!home || strict.subScore < home.subScore)) {
+    return { metric, ...strict, sleepingArea: true };
+  }
+  return {
+    metric,
+    value: home?.value ?? null,
+    subScore: home?.subScore ?? null,
+    spec: home?.spec,
+  };
+}
+
+// Per-metric breakdown of the Ether Score
+// Magnetic Field (mG), Electric Field (V/m), RF (mW/m²),
+// Dirty Electricity (GS), Body Voltage (mV)
+// Bands: see MagField / ElectricField / RF / RFPeak /
+// DirtyElectricity / BodyVoltage in lib/metrics.ts
+//
+// RF guidance is written for peak values: when a peak reading
+// exists RF is scored on it (RFPeak), otherwise on the average.
+// Only one of the two rows is emitted, so their weights never add.
+export function explainEtherScore(
+  { mag, electric, rf, rfPeak, dirty, bodyVoltage }: EtherInputs,
+  profile: ScoringProfile = getProfile(currentProfileId()),
+  sleeping: SleepingInputs = {}
+): CategoryBreakdown {
+  return explainCategory(
+    "ether",
+    [
+      etherPart("MagField", mag, sleeping.mag, profile),
+      etherPart("ElectricField", electric, sleeping.electric, profile),
+      rfPeak != null
+        ? etherPart("RFPeak", rfPeak, sleeping.rfPeak, profile)
+        : etherPart("RF", rf, sleeping.rf, profile),
+      etherPart("DirtyElectricity", dirty, sleeping.dirty, profile),
+      etherPart("BodyVoltage", bodyVoltage, sleeping.bodyVoltage, profile),
+    ],
+    profile
+  );
+}
+
+export function computeEtherScore(
+  inputs: EtherInputs,
+  profile: ScoringProfile = getProfile(currentProfileId()),
+  sleeping: SleepingInputs = {}
+): number | null {
+  return explainEtherScore(inputs, profile, sleeping).score;
 }
 
 export function etherLabel(score: number): string {
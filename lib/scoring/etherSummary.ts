@@ -1,32 +1,134 @@
 // lib/scoring/etherSummary.ts
 
-export function summarizeEther({ MagField, ElectricField, RF }: any): string {
-  const mag = MagField ?? 0;
-  const elec = ElectricField ?? 0;
-  const rf = RF ?? 0;
+import { bandIndex, type MetricKey } from "@/lib/metrics";
+import {
+  finding,
+  renderFindings,
+  type Finding,
+  type SummaryInputs,
+  type SummarySources,
+} from "@/lib/scoring/findings";
+import { tightenBands } from "@/lib/scoring/occupants";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+
+// Readings tagged as taken in a sleeping area; the profile's
+// stricter rule for them is ScoringProfile.sleepingArea
+export type EtherContext = {
+  sleeping?: SummaryInputs;
+};
+
+// Metrics whose sleeping-area readings sit outside the stricter ideal band
+function sleepingExceedances(
+  { sleeping = {} }: EtherContext,
+  profile: ScoringProfile
+): MetricKey[] {
+  const rule = profile.sleepingArea;
+  if (!rule) return [];
+  return (Object.keys(rule.tighten) as MetricKey[]).filter((k) => {
+    const v = sleeping[k];
+    const factor = rule.tighten[k];
+    if (v == null || factor == null) return false;
+    return bandIndex(k, v, tightenBands(profileBands(profile, k), factor)) > 0;
+  });
+}
+
+export function etherFindings(
+  {
+    MagField,
+    ElectricField,
+    RF,
+    RFPeak,
+    DirtyElectricity,
+    BodyVoltage,
+  }: SummaryInputs,
+  sources: SummarySources = {},
+  context: EtherContext = {},
+  profile: ScoringProfile = getProfile(currentProfileId())
+): Finding[] {
+  // Classify against the profile's bands, not the registry defaults
+  const index = (k: MetricKey, v: number) =>
+    bandIndex(k, v, profileBands(profile, k));
+
+  const mag = MagField == null ? null : index("MagField", MagField);
+  const elec =
+    ElectricField == null ? null : index("ElectricField", ElectricField);
+  // Guidance is written for peak RF; fall back to the average
+  const rfMetric: MetricKey = RFPeak != null ? "RFPeak" : "RF";
+  const rfValue = RFPeak ?? RF;
+  const rf = rfValue == null ? null : index(rfMetric, rfValue);
+  const dirty =
+    DirtyElectricity == null
+      ? null
+      : index("DirtyElectricity", DirtyElectricity);
+  const body =
+    BodyVoltage == null ? null : index("BodyVoltage", BodyVoltage);
+  const sleeping = sleepingExceedances(context, profile);
+
+  // Nothing measured
+  if ([mag, elec, rf, dirty, body].every((i) => i === null)) {
+    return [finding("ether", null, "info", "ether.notTested")];
+  }
 
   // Perfect case
-  if (mag < 1 && elec < 5 && rf < 1) {
-    return "Magnetic, electric, and RF fields are all extremely low.";
+  if (!mag && !elec && !rf && !dirty && !body && sleeping.length === 0) {
+    return [finding("ether", null, "info", "ether.excellent")];
   }
 
-  let parts: string[] = [];
+  const parts: Finding[] = [];
 
   // ---- Magnetic ----
-  if (mag < 1) parts.push("Magnetic fields low");
-  else if (mag < 3) parts.push("Magnetic fields moderately elevated");
-  else parts.push("Magnetic fields elevated");
+  if (mag !== null) {
+    if (mag <= 1) parts.push(finding("ether", "MagField", "info", "mag.low", sources));
+    else if (mag <= 2) parts.push(finding("ether", "MagField", "moderate", "mag.moderate", sources));
+    else parts.push(finding("ether", "MagField", "high", "mag.elevated", sources));
+  }
 
   // ---- Electric ----
-  if (elec < 5) parts.push("Electric fields low");
-  else if (elec < 20) parts.push("Electric fields elevated");
-  else parts.push("Electric fields high");
+  if (elec !== null) {
+    if (elec === 0) parts.push(finding("ether", "ElectricField", "info", "electric.low", sources));
+    else if (elec === 1) parts.push(finding("ether", "ElectricField", "moderate", "electric.elevated", sources));
+    else parts.push(finding("ether", "ElectricField", "high", "electric.high", sources));
+  }
 
-  // ---- RF ----
-  if (rf < 1) parts.push("RF exposure low");
-  else if (rf < 10) parts.push("RF moderately elevated");
-  else if (rf < 50) parts.push("RF elevated");
-  else parts.push("RF high relative to typical indoor levels");
+  // ---- RF (peak when measured) ----
+  if (rf !== null) {
+    if (rf === 0) parts.push(finding("ether", rfMetric, "info", "rf.low", sources));
+    else if (rf === 1) parts.push(finding("ether", rfMetric, "low", "rf.moderate", sources));
+    else if (rf === 2) parts.push(finding("ether", rfMetric, "moderate", "rf.elevated", sources));
+    else parts.push(finding("ether", rfMetric, "high", "rf.high", sources));
+  }
+
+  // ---- Dirty electricity ----
+  if (dirty !== null) {
+    if (dirty <= 1) parts.push(finding("ether", "DirtyElectricity", "info", "dirty.low", sources));
+    else if (dirty === 2) parts.push(finding("ether", "DirtyElectricity", "moderate", "dirty.moderate", sources));
+    else parts.push(finding("ether", "DirtyElectricity", "high", "dirty.elevated", sources));
+  }
+
+  // ---- Body voltage ----
+  if (body !== null) {
+    if (body <= 1) parts.push(finding("ether", "BodyVoltage", "info", "bodyVoltage.low", sources));
+    else if (body === 2) parts.push(finding("ether", "BodyVoltage", "moderate", "bodyVoltage.moderate", sources));
+    else parts.push(finding("ether", "BodyVoltage", "high", "bodyVoltage.elevated", sources));
+  }
+
+  // ---- Sleeping areas ----
+  if (sleeping.length > 0) {
+    parts.push(finding("ether", null, "moderate", "sleeping.elevated"));
+  }
+
+  return parts;
+}
 
-  return parts.join("; ") + ".";
+export function summarizeEther(
+  inputs: SummaryInputs,
+  context: EtherContext = {},
+  profile?: ScoringProfile
+): string {
+  return renderFindings(etherFindings(inputs, {}, context, profile));
 }
@@ -0,0 +1,231 @@
+// lib/scoring/findings.ts
+// --------------------------------------------------------
+// Structured findings
+// --------------------------------------------------------
+// The summarizers (airSummary, waterSummary, etherSummary,
+// lightSummary, soundSummary) return typed findings: which metric, how severe, which
+// room the reading came from, a message key and params.
+// Renderers turn them into text; renderFindings() keeps the
+// original one-sentence summary.
+// --------------------------------------------------------
+
+import type { CategoryKey, MetricKey } from "@/lib/metrics";
+import type { ReadingSource } from "@/lib/scoring/breakdown";
+
+// "alert" is the safety tier (lib/scoring/safety.ts), above any score
+export type Severity = "info" | "low" | "moderate" | "high" | "alert";
+
+export const SEVERITY_ORDER: Severity[] = [
+  "info",
+  "low",
+  "moderate",
+  "high",
+  "alert",
+];
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+  info: "Good",
+  low: "Minor",
+  moderate: "Moderate",
+  high: "High",
+  alert: "Safety alert",
+};
+
+export type Finding = {
+  category: CategoryKey;
+  metric: MetricKey | null; // null for category-wide findings
+  severity: Severity;
+  roomId: string | null;
+  key: FindingKey;
+  params: Record<string, string | number>;
+};
+
+// Readings handed to the summarizers (null = not measured)
+export type SummaryInputs = Partial<Record<MetricKey, number | null>>;
+
+// Where each reading came from, when known
+export type SummarySources = Partial<Record<MetricKey, ReadingSource | null>>;
+
+// English message catalog; {name} placeholders take params
+export const FINDING_MESSAGES = {
+  // ---- AIR ----
+  "air.notTested": "Air not tested",
+  "air.excellent": "Air quality is excellent across all measured pollutants",
+  "co2.excellent": "CO₂ excellent",
+  "co2.acceptable": "CO₂ acceptable",
+  "co2.elevated": "CO₂ elevated",
+  "co2.high": "CO₂ high",
+  "co2.veryHigh": "CO₂ very high",
+  "pm25.ideal": "PM₂.₅ ideal",
+  "pm25.moderate": "PM₂.₅ moderately elevated",
+  "pm25.elevated": "PM₂.₅ elevated",
+  "pm25.high": "PM₂.₅ high",
+  "pm10.ideal": "PM₁₀ ideal",
+  "pm10.moderate": "PM₁₀ moderate",
+  "pm10.elevated": "PM₁₀ elevated",
+  "vocs.low": "VOCs low",
+  "vocs.moderate": "VOCs moderate (sensor estimate)",
+  "vocs.high": "VOCs high (sensor estimate; confirm with lab sampling)",
+  "humidity.outside": "Humidity {band}",
+  "temp.outside": "Temperature {band}",
+  "co.elevated": "CO elevated (below the safety limit)",
+  "no2.elevated": "NO₂ elevated (below the safety limit)",
+  "hcho.elevated": "Formaldehyde elevated (below the safety limit)",
+  "o3.elevated": "Ozone elevated (below the safety limit)",
+  "radon.elevated": "Radon elevated; consider mitigation",
+
+  // ---- SAFETY ALERTS ----
+  "safety.alert": "Reading at or above its safety limit",
+  "co.alert":
+    "Carbon monoxide at or above the safety limit: ventilate now, check CO alarms, and have combustion appliances inspected",
+  "no2.alert":
+    "Nitrogen dioxide above the safety limit: ventilate and have gas appliances and venting checked",
+  "hcho.alert":
+    "Formaldehyde above the safety limit: ventilate and find new furniture, cabinetry, or pressed-wood sources",
+  "o3.alert":
+    "Ozone above the safety limit: stop any ozone-generating purifier and ventilate",
+  "radon.alert":
+    "Radon at or above the EPA action level on a long-term test: plan mitigation",
+  "nitrate.alert":
+    "Nitrate above the EPA limit: do not use for infant formula; use bottled or treated water",
+  "lead.alert":
+    "Lead at or above the EPA action level: use filtered or bottled water for drinking and cooking",
+  "bacteria.alert":
+    "Coliform bacteria detected: boil or use bottled water until the supply is disinfected and retested",
+  "radon.confirm":
+    "Radon at or above the EPA action level on a short-term test: confirm with a long-term test",
+
+  // ---- WATER ----
+  "water.notTested": "Water not tested",
+  "water.excellent": "Mineral-balanced; excellent for taste and hydration",
+  "water.phOnlyInRange": "pH within the recommended range",
+  "tds.veryLow": "Very low TDS (lacks beneficial minerals)",
+  "tds.balanced": "Mineral-balanced",
+  "tds.moderate": "Moderate TDS (slightly mineral-forward)",
+  "tds.hard": "Hard water (suboptimal)",
+  "tds.high": "High TDS (taste and scaling impacted)",
+  "cl.low": "Chlorine low",
+  "cl.moderate": "Chlorine moderate",
+  "cl.elevated": "Chlorine elevated",
+  "ph.outside": "pH {band}",
+  "water.seeAlerts": "Results at a safety limit; see the safety alert",
+  "hardness.soft": "Soft water",
+  "hardness.moderate": "Moderately hard water",
+  "hardness.hard": "Hard water (scaling likely)",
+  "hardness.veryHard": "Very hard water (consider softening)",
+  "totalCl.low": "Total chlorine low",
+  "totalCl.typical": "Chloramine at typical municipal levels",
+  "totalCl.elevated": "Total chlorine elevated",
+  "totalCl.high": "Total chlorine above the EPA disinfectant limit",
+  "nitrate.low": "Nitrate low",
+  "nitrate.moderate": "Nitrate moderate",
+  "nitrate.elevated": "Nitrate elevated (below the EPA limit)",
+  "lead.minimal": "Lead minimal",
+  "lead.detectable": "Lead detectable (no level is safe for children)",
+  "lead.elevated": "Lead elevated (below the EPA action level)",
+  "iron.low": "Iron low",
+  "iron.acceptable": "Iron acceptable",
+  "iron.staining": "Iron high enough to stain fixtures",
+  "iron.high": "Iron high (taste and staining)",
+  "bacteria.none": "No coliform bacteria detected",
+  "lead.screen": "Home built before 1986: screen tap water for lead",
+  "well.test": "Private well: test for bacteria and nitrate at least yearly",
+
+  // ---- ETHER ----
+  "ether.notTested": "Ether not tested",
+  "ether.excellent": "Magnetic, electric, and RF fields are all extremely low",
+  "mag.low": "Magnetic fields low",
+  "mag.moderate": "Magnetic fields moderately elevated",
+  "mag.elevated": "Magnetic fields elevated",
+  "electric.low": "Electric fields low",
+  "electric.elevated": "Electric fields elevated",
+  "electric.high": "Electric fields high",
+  "rf.low": "RF exposure low",
+  "rf.moderate": "RF moderately elevated",
+  "rf.elevated": "RF elevated",
+  "rf.high": "RF high relative to typical indoor levels",
+  "dirty.low": "Dirty electricity low",
+  "dirty.moderate": "Dirty electricity moderate",
+  "dirty.elevated": "Dirty electricity elevated",
+  "bodyVoltage.low": "Body voltage low",
+  "bodyVoltage.moderate": "Body voltage moderate",
+  "bodyVoltage.elevated": "Body voltage elevated",
+  "sleeping.elevated":
+    "Fields in sleeping areas above the stricter bedroom guidance",
+
+  // ---- LIGHT ----
+  "light.notTested": "Light not tested",
+  "light.excellent": "Lighting is well balanced: steady, comfortable, and sleep-friendly",
+  "lux.ideal": "Illuminance in the ideal range",
+  "lux.outside": "Illuminance {band}",
+  "flicker.low": "Flicker low",
+  "flicker.moderate": "Flicker moderate",
+  "flicker.high": "Flicker high (check LED drivers and dimmers)",
+  "cct.outside": "Color temperature {band}",
+  "blue.low": "Nighttime blue light low",
+  "blue.elevated": "Nighttime blue light elevated",
+  "blue.high": "Nighttime blue light high (may disrupt sleep)",
+
+  // ---- SOUND ----
+  "sound.notTested": "Sound not tested",
+  "sound.excellent": "Quiet throughout, within WHO guidance for restful sleep",
+  "night.quiet": "Nighttime background quiet",
+  "night.noticeable": "Nighttime background noticeable",
+  "night.disruptive": "Nighttime background above WHO sleep guidance",
+  "leq.low": "Average sound level low",
+  "leq.moderate": "Average sound level moderate",
+  "leq.high": "Average sound level high",
+  "lmax.low": "No loud noise events",
+  "lmax.noticeable": "Noticeable noise events",
+  "lmax.disruptive": "Disruptive noise peaks",
+} satisfies Record<string, string>;
+
+export type FindingKey = keyof typeof FINDING_MESSAGES;
+
+export function finding(
+  category: CategoryKey,
+  metric: MetricKey | null,
+  severity: Severity,
+  key: FindingKey,
+  sources: SummarySources = {},
+  params: Record<string, string | number> = {}
+): Finding {
+  return {
+    category,
+    metric,
+    severity,
+    roomId: metric ? sources[metric]?.roomId ?? null : null,
+    key,
+    params,
+  };
+}
+
+export function renderFinding(
+  f: Finding,
+  messages: Record<string, string> = FINDING_MESSAGES
+): string {
+  const template: string = messages[f.key] ?? f.key;
+  return template.replace(/\{(\w+)\}/g, (_, name: string) =>
+    String(f.params[name] ?? `{${name}}`)
+  );
+}
+
+// "CO₂ elevated; PM₂.₅ ideal." — the original summary sentence
+export function renderFindings(
+  findings: Finding[],
+  messages: Record<string, string> = FINDING_MESSAGES
+): string {
+  return findings.map((f) => renderFinding(f, messages)).join("; ") + ".";
+}
+
+export function atLeast(severity: Severity, min: Severity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(min);
+}
+
+// Most severe first; stable within a severity
+export function sortFindings(findings: Finding[]): Finding[] {
+  return [...findings].sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity)
+  );
+}
@@ -0,0 +1,168 @@
+// lib/scoring/index.ts
+
+import { CATEGORIES, type CategoryKey, type MetricKey } from "@/lib/metrics";
+import { explainAirScore } from "@/lib/scoring/air";
+import { explainWaterScore } from "@/lib/scoring/water";
+import { explainEtherScore } from "@/lib/scoring/ether";
+import { explainLightScore } from "@/lib/scoring/light";
+import { explainSoundScore } from "@/lib/scoring/sound";
+import {
+  computeOverallScore,
+  type CategoryScores,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+import {
+  withSources,
+  type CategoryBreakdown,
+  type ReadingSource,
+} from "@/lib/scoring/breakdown";
+import {
+  aggregateWorst,
+  readingSources,
+  readingValues,
+  type Readings as AggregatedReadings,
+} from "@/lib/scoring/aggregate";
+import {
+  seriesExposures,
+  withExposure,
+  type SeriesLike,
+} from "@/lib/scoring/series";
+
+export type HomeBreakdown = {
+  scores: CategoryScores;
+  categories: Record<CategoryKey, CategoryBreakdown>;
+};
+
+type Readings = Record<MetricKey, number | null>;
+
+// Readings kept apart from the home values (see lib/scoring/aggregate.ts)
+export type HomeContext = {
+  sleeping?: AggregatedReadings | null; // aggregateSleepingArea()
+  outdoor?: AggregatedReadings | null; // aggregateOutdoor()
+  series?: SeriesLike[]; // logger time-series, for exposure
+};
+
+type EngineContext = { sleeping: Readings; outdoor: Readings };
+
+// One engine per category; a new category must register here
+const CATEGORY_ENGINES: Record<
+  CategoryKey,
+  (M: Readings, profile: ScoringProfile, ctx: EngineContext) => CategoryBreakdown
+> = {
+  air: (M, profile, { outdoor }) =>
+    explainAirScore(
+      {
+        co2: M.CO2,
+        pm25: M.PM25,
+        pm10: M.PM10,
+        vocs: M.VOCs,
+        humidity: M.Humidity,
+        temp: M.Temp,
+        co: M.CO,
+        no2: M.NO2,
+        hcho: M.HCHO,
+        o3: M.O3,
+        radon: M.Radon,
+      },
+      profile,
+      outdoor
+    ),
+  water: (M, profile) =>
+    explainWaterScore(
+      {
+        tds: M.TDS,
+        cl: M.Cl,
+        ph: M.pH,
+        hardness: M.Hardness,
+        totalChlorine: M.TotalChlorine,
+        nitrate: M.Nitrate,
+        lead: M.Lead,
+        iron: M.Iron,
+        bacteria: M.Bacteria,
+      },
+      profile
+    ),
+  ether: (M, profile, { sleeping: S }) =>
+    explainEtherScore(
+      {
+        mag: M.MagField,
+        electric: M.ElectricField,
+        rf: M.RF,
+        rfPeak: M.RFPeak,
+        dirty: M.DirtyElectricity,
+        bodyVoltage: M.BodyVoltage,
+      },
+      profile,
+      {
+        mag: S.MagField,
+        electric: S.ElectricField,
+        rf: S.RF,
+        rfPeak: S.RFPeak,
+        dirty: S.DirtyElectricity,
+        bodyVoltage: S.BodyVoltage,
+      }
+    ),
+  light: (M, profile) =>
+    explainLightScore(
+      { lux: M.Lux, flicker: M.Flicker, cct: M.CCT, blueLight: M.BlueLight },
+      profile
+    ),
+  sound: (M, profile) =>
+    explainSoundScore(
+      { leq: M.NoiseLeq, lmax: M.NoiseLmax, night: M.NoiseNight },
+      profile
+    ),
+};
+
+// Score and explain every category under a single profile
+export function explainHome(
+  M: Readings,
+  profile: ScoringProfile,
+  sources: Partial<Record<MetricKey, ReadingSource | null>> = {},
+  context: HomeContext = {}
+): HomeBreakdown {
+  const none = aggregateWorst([], profile);
+  const sleeping = context.sleeping ?? none;
+  const ctx: EngineContext = {
+    sleeping: readingValues(sleeping),
+    outdoor: readingValues(context.outdoor ?? none),
+  };
+  const sleepingSources = readingSources(sleeping);
+  const exposures = seriesExposures(context.series ?? [], profile);
+
+  const categories = Object.fromEntries(
+    CATEGORIES.map((c) => [
+      c,
+      withExposure(
+        withSources(
+          CATEGORY_ENGINES[c](M, profile, ctx),
+          sources,
+          sleepingSources
+        ),
+        exposures,
+        profile
+      ),
+    ])
+  ) as Record<CategoryKey, CategoryBreakdown>;
+
+  const scores = Object.fromEntries(
+    CATEGORIES.map((c) => [c, categories[c].score])
+  ) as Record<CategoryKey, number | null>;
+
+  return {
+    scores: {
+      ...scores,
+      overall: computeOverallScore(scores, profile),
+    },
+    categories,
+  };
+}
+
+// Score every category (plus the overall blend) under a single profile
+export function scoreHome(
+  M: Readings,
+  profile: ScoringProfile,
+  context: HomeContext = {}
+): CategoryScores {
+  return explainHome(M, profile, {}, context).scores;
+}
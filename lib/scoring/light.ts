@@ -0,0 +1,74 @@
+// lib/scoring/light.ts
+
+import { scoreMetric } from "@/lib/metrics";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+import {
+  explainCategory,
+  type CategoryBreakdown,
+} from "@/lib/scoring/breakdown";
+
+type LightInputs = {
+  lux?: number | null;
+  flicker?: number | null;
+  cct?: number | null;
+  blueLight?: number | null;
+};
+
+// Per-metric breakdown of the Light Score
+// Illuminance (lux), Flicker (%), CCT (K), Nighttime Blue Light (mEDI lux)
+// Bands: see Lux / Flicker / CCT / BlueLight in lib/metrics.ts
+export function explainLightScore(
+  { lux, flicker, cct, blueLight }: LightInputs,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): CategoryBreakdown {
+  return explainCategory(
+    "light",
+    [
+      {
+        metric: "Lux",
+        value: lux,
+        subScore:
+          lux == null ? null : scoreMetric("Lux", lux, profileBands(profile, "Lux")),
+      },
+      {
+        metric: "Flicker",
+        value: flicker,
+        subScore:
+          flicker == null
+            ? null
+            : scoreMetric("Flicker", flicker, profileBands(profile, "Flicker")),
+      },
+      {
+        metric: "CCT",
+        value: cct,
+        subScore:
+          cct == null ? null : scoreMetric("CCT", cct, profileBands(profile, "CCT")),
+      },
+      {
+        metric: "BlueLight",
+        value: blueLight,
+        subScore:
+          blueLight == null
+            ? null
+            : scoreMetric(
+                "BlueLight",
+                blueLight,
+                profileBands(profile, "BlueLight")
+              ),
+      },
+    ],
+    profile
+  );
+}
+
+export function computeLightScore(
+  inputs: LightInputs,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number | null {
+  return explainLightScore(inputs, profile).score;
+}
@@ -0,0 +1,100 @@
+// lib/scoring/lightSummary.ts
+
+import {
+  bandIndex,
+  inIdealRange,
+  metricBand,
+  type MetricKey,
+} from "@/lib/metrics";
+import {
+  finding,
+  renderFindings,
+  type Finding,
+  type Severity,
+  type SummaryInputs,
+  type SummarySources,
+} from "@/lib/scoring/findings";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+
+export function lightFindings(
+  { Lux, Flicker, CCT, BlueLight }: SummaryInputs,
+  sources: SummarySources = {},
+  profile: ScoringProfile = getProfile(currentProfileId())
+): Finding[] {
+  // Classify against the profile's bands, not the registry defaults
+  const index = (k: MetricKey, v: number) =>
+    bandIndex(k, v, profileBands(profile, k));
+  const ideal = (k: MetricKey, v: number) =>
+    inIdealRange(k, v, profileBands(profile, k));
+  const band = (k: MetricKey, v: number) =>
+    metricBand(k, v, profileBands(profile, k));
+
+  const flicker = Flicker == null ? null : index("Flicker", Flicker);
+  const blue = BlueLight == null ? null : index("BlueLight", BlueLight);
+
+  // Nothing measured
+  if (Lux == null && flicker === null && CCT == null && blue === null) {
+    return [finding("light", null, "info", "light.notTested")];
+  }
+
+  // Two-sided metrics: "Illuminance dim", "Color temperature blue-rich"
+  const window: Finding[] = [];
+  if (Lux != null && !ideal("Lux", Lux)) {
+    const { label } = band("Lux", Lux);
+    const severity: Severity = index("Lux", Lux) >= 2 ? "moderate" : "low";
+    window.push(
+      finding("light", "Lux", severity, "lux.outside", sources, {
+        band: label.toLowerCase(),
+      })
+    );
+  }
+  if (CCT != null && !ideal("CCT", CCT)) {
+    const { label } = band("CCT", CCT);
+    const severity: Severity = index("CCT", CCT) >= 2 ? "moderate" : "low";
+    window.push(
+      finding("light", "CCT", severity, "cct.outside", sources, {
+        band: label.toLowerCase(),
+      })
+    );
+  }
+
+  // Perfect case
+  if (!flicker && !blue && window.length === 0) {
+    return [finding("light", null, "info", "light.excellent")];
+  }
+
+  const parts: Finding[] = [];
+
+  // ---- Illuminance ----
+  if (Lux != null && ideal("Lux", Lux)) {
+    parts.push(finding("light", "Lux", "info", "lux.ideal", sources));
+  }
+
+  // ---- Flicker ----
+  if (flicker !== null) {
+    if (flicker <= 1) parts.push(finding("light", "Flicker", "info", "flicker.low", sources));
+    else if (flicker === 2) parts.push(finding("light", "Flicker", "moderate", "flicker.moderate", sources));
+    else parts.push(finding("light", "Flicker", "high", "flicker.high", sources));
+  }
+
+  // ---- Nighttime blue light ----
+  if (blue !== null) {
+    if (blue <= 1) parts.push(finding("light", "BlueLight", "info", "blue.low", sources));
+    else if (blue === 2) parts.push(finding("light", "BlueLight", "moderate", "blue.elevated", sources));
+    else parts.push(finding("light", "BlueLight", "high", "blue.high", sources));
+  }
+
+  return [...parts, ...window];
+}
+
+export function summarizeLight(
+  inputs: SummaryInputs,
+  profile?: ScoringProfile
+): string {
+  return renderFindings(lightFindings(inputs, {}, profile));
+}
@@ -0,0 +1,159 @@
+// lib/scoring/occupants.ts
+// --------------------------------------------------------
+// Occupant-sensitive thresholds
+// --------------------------------------------------------
+// Profiles may tighten metric bands when the household
+// includes sensitive occupants (children, allergies,
+// asthma). A rule scales the high-side band edges of a
+// metric by a factor below 1; when several rules touch the
+// same metric, the strictest factor wins.
+//
+// Some concerns are about where people sleep, not the whole
+// home (children's exposure to devices near the bed). Those
+// factors tighten the profile's sleeping-area rule instead,
+// on top of its own factor, so they only reach readings
+// tagged as taken in a sleeping area (v1.13+; profiles
+// without a sleeping-area rule ignore them).
+//
+// Metrics a guideline standard covers keep its edges as
+// published (applyStandard drops their factors).
+//
+// The household lives on the property, so a report scored
+// under a given profile stays reproducible.
+// --------------------------------------------------------
+
+import { METRIC_KEYS, type BandSpec, type MetricKey } from "@/lib/metrics";
+import {
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+
+export type SensitivityKey = "children" | "allergies" | "asthma";
+
+export type SensitivityRule = {
+  reason: string;
+  tighten: Partial<Record<MetricKey, number>>;
+  // Sleeping-area readings only (ScoringProfile.sleepingArea)
+  sleepingArea?: Partial<Record<MetricKey, number>>;
+};
+
+export const SENSITIVITY_LABELS: Record<SensitivityKey, string> = {
+  children: "Children in the home",
+  allergies: "Allergies noted",
+  asthma: "Asthma present",
+};
+
+// Subset of the property row that drives sensitivities
+export type Household = {
+  occupants_children?: number | null;
+  occupants_allergies?: boolean | null;
+  occupants_asthma?: boolean | null;
+};
+
+export type ThresholdAdjustment = {
+  metric: MetricKey;
+  factor: number;
+  sensitivities: SensitivityKey[];
+  reasons: string[];
+  scope: "home" | "sleeping";
+  // Upper edge of the best band, before and after
+  from: number;
+  to: number;
+};
+
+export function householdSensitivities(
+  household: Household | null | undefined
+): SensitivityKey[] {
+  if (!household) return [];
+  const out: SensitivityKey[] = [];
+  if ((household.occupants_children ?? 0) > 0) out.push("children");
+  if (household.occupants_allergies) out.push("allergies");
+  if (household.occupants_asthma) out.push("asthma");
+  return out;
+}
+
+// Scale every finite high-side edge; the low side is left alone
+export function tightenBands(spec: BandSpec, factor: number): BandSpec {
+  return {
+    ...spec,
+    bands: spec.bands.map((b) =>
+      Number.isFinite(b.max) ? { ...b, max: b.max * factor } : b
+    ),
+  };
+}
+
+export function applyOccupants(
+  profile: ScoringProfile,
+  household: Household | null | undefined
+): { profile: ScoringProfile; adjustments: ThresholdAdjustment[] } {
+  const found: Record<
+    ThresholdAdjustment["scope"],
+    Partial<Record<MetricKey, ThresholdAdjustment>>
+  > = { home: {}, sleeping: {} };
+
+  for (const s of householdSensitivities(household)) {
+    const rule = profile.sensitivities[s];
+    if (!rule) continue;
+
+    // Profiles without a sleeping-area rule never scored sleeping
+    // areas apart, so sleeping-area factors don't apply to them
+    const scopes = [
+      ["home", rule.tighten],
+      ["sleeping", (profile.sleepingArea && rule.sleepingArea) ?? {}],
+    ] as const;
+    for (const [scope, tighten] of scopes) {
+      for (const [key, factor] of Object.entries(tighten)) {
+        const metric = key as MetricKey;
+        if (factor == null || factor >= 1) continue;
+
+        const current = found[scope][metric];
+        found[scope][metric] = {
+          metric,
+          factor: Math.min(factor, current?.factor ?? 1),
+          sensitivities: [...(current?.sensitivities ?? []), s],
+          reasons: [...(current?.reasons ?? []), rule.reason],
+          scope,
+          from: 0,
+          to: 0,
+        };
+      }
+    }
+  }
+
+  const home = Object.values(found.home) as ThresholdAdjustment[];
+  const sleeping = Object.values(found.sleeping) as ThresholdAdjustment[];
+  if (home.length === 0 && sleeping.length === 0) {
+    return { profile, adjustments: [] };
+  }
+
+  const bands = { ...profile.bands };
+  for (const a of home) {
+    const base = profileBands(profile, a.metric);
+    bands[a.metric] = tightenBands(base, a.factor);
+    a.from = base.bands[0].max;
+    a.to = bands[a.metric]!.bands[0].max;
+  }
+
+  let sleepingArea = profile.sleepingArea;
+  if (sleepingArea && sleeping.length > 0) {
+    const tighten = { ...sleepingArea.tighten };
+    for (const a of sleeping) {
+      const spec = bands[a.metric] ?? profileBands(profile, a.metric);
+      const base = tighten[a.metric] ?? 1;
+      tighten[a.metric] = base * a.factor;
+      a.from = tightenBands(spec, base).bands[0].max;
+      a.to = tightenBands(spec, base * a.factor).bands[0].max;
+    }
+    sleepingArea = { ...sleepingArea, tighten };
+  }
+
+  return {
+    profile: { ...profile, bands, sleepingArea },
+    // Registry order keeps the report listing stable
+    adjustments: [...home, ...sleeping].sort(
+      (a, b) =>
+        METRIC_KEYS.indexOf(a.metric) - METRIC_KEYS.indexOf(b.metric) ||
+        (a.scope === b.scope ? 0 : a.scope === "home" ? -1 : 1)
+    ),
+  };
+}
@@ -0,0 +1,212 @@
+// lib/scoring/profileStore.ts
+// --------------------------------------------------------
+// Runtime-published scoring profiles
+// --------------------------------------------------------
+// Profiles published from the curve editor live in the
+// `scoring_profile` table, so band changes ship without a
+// code deploy. Rows are immutable like the built-in
+// profiles; `is_current` marks the one new reports use.
+// --------------------------------------------------------
+
+import { supabase } from "@/lib/supabaseClient";
+import { isMetricKey, type BandSpec, type MetricKey } from "@/lib/metrics";
+import {
+  RATIO_RANGE,
+  bandSpecFromJson,
+  bandSpecToJson,
+  validateBandSpec,
+} from "@/lib/scoring/curves";
+import {
+  registerProfiles,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+
+export type ScoringProfileRow = {
+  id: string;
+  name: string;
+  version: string;
+  published_at: string;
+  is_current: boolean | null;
+  definition: {
+    aggregation: ScoringProfile["aggregation"];
+    categoryWeights: ScoringProfile["categoryWeights"];
+    metricWeights: ScoringProfile["metricWeights"];
+    bands: Record<string, ReturnType<typeof bandSpecToJson>>;
+    sensitivities: ScoringProfile["sensitivities"];
+    sleepingArea?: ScoringProfile["sleepingArea"];
+    ioRatio?: {
+      weight: number;
+      bands: Record<string, ReturnType<typeof bandSpecToJson>>;
+    };
+    logger?: ScoringProfile["logger"];
+  };
+};
+
+// Published rows are immutable: they load as issued, even when
+// today's validation would reject them
+function bandsFromJson(
+  profileId: string,
+  json: Record<string, ReturnType<typeof bandSpecToJson>>,
+  range?: { min: number; max: number }
+): Partial<Record<MetricKey, BandSpec>> {
+  const bands: Partial<Record<MetricKey, BandSpec>> = {};
+
+  for (const [key, entry] of Object.entries(json)) {
+    if (!isMetricKey(key)) {
+      console.warn(`Scoring profile ${profileId}: no metric "${key}"`);
+      continue;
+    }
+    const spec = bandSpecFromJson(entry);
+    const issues = validateBandSpec(key, spec, range);
+    if (issues.length > 0) {
+      console.warn(`Scoring profile ${profileId}, ${key}: ${issues[0].message}`);
+    }
+    bands[key] = spec;
+  }
+
+  return bands;
+}
+
+function bandsToJson(
+  bands: Partial<Record<MetricKey, BandSpec>>
+): Record<string, ReturnType<typeof bandSpecToJson>> {
+  return Object.fromEntries(
+    Object.entries(bands).map(([k, spec]) => [k, bandSpecToJson(spec!)])
+  );
+}
+
+export function profileFromRow(row: ScoringProfileRow): ScoringProfile {
+  const { ioRatio } = row.definition;
+
+  return {
+    id: row.id,
+    name: row.name,
+    version: row.version,
+    publishedAt: row.published_at,
+    aggregation: row.definition.aggregation,
+    categoryWeights: row.definition.categoryWeights,
+    metricWeights: row.definition.metricWeights,
+    bands: bandsFromJson(row.id, row.definition.bands ?? {}),
+    sensitivities: row.definition.sensitivities ?? {},
+    sleepingArea: row.definition.sleepingArea,
+    ioRatio: ioRatio
+      ? {
+          weight: ioRatio.weight,
+          bands: bandsFromJson(row.id, ioRatio.bands, RATIO_RANGE),
+        }
+      : undefined,
+    logger: row.definition.logger,
+  };
+}
+
+export function profileToRow(
+  profile: ScoringProfile,
+  isCurrent: boolean
+): ScoringProfileRow {
+  return {
+    id: profile.id,
+    name: profile.name,
+    version: profile.version,
+    published_at: profile.publishedAt,
+    is_current: isCurrent,
+    definition: {
+      aggregation: profile.aggregation,
+      categoryWeights: profile.categoryWeights,
+      metricWeights: profile.metricWeights,
+      bands: bandsToJson(profile.bands),
+      sensitivities: profile.sensitivities,
+      sleepingArea: profile.sleepingArea,
+      ioRatio: profile.ioRatio
+        ? {
+            weight: profile.ioRatio.weight,
+            bands: bandsToJson(profile.ioRatio.bands),
+          }
+        : undefined,
+      logger: profile.logger,
+    },
+  };
+}
+
+// Fetch published profiles and make them available to getProfile()
+export async function loadPublishedProfiles(): Promise<ScoringProfile[]> {
+  const { data, error } = await supabase
+    .from("scoring_profile")
+    .select("*")
+    .order("published_at", { ascending: true });
+
+  if (error) {
+    console.error(error);
+    return [];
+  }
+
+  const profiles: ScoringProfile[] = [];
+  let currentId: string | null = null;
+
+  for (const row of (data ?? []) as ScoringProfileRow[]) {
+    try {
+      profiles.push(profileFromRow(row));
+      if (row.is_current) currentId = row.id;
+    } catch (err) {
+      // Unreadable; reports pinned to it show an error (getProfile)
+      console.error(`Unreadable scoring profile ${row.id}`, err);
+    }
+  }
+
+  registerProfiles(profiles, currentId);
+  return profiles;
+}
+
+// The first problem in any band spec the profile carries: metric
+// bands and indoor/outdoor ratio bands, low sides included
+function bandSpecIssue(profile: ScoringProfile): string | null {
+  const first = (
+    bands: Partial<Record<MetricKey, BandSpec>>,
+    prefix: string,
+    range?: { min: number; max: number }
+  ) => {
+    for (const [key, spec] of Object.entries(bands)) {
+      const issues = validateBandSpec(key as MetricKey, spec!, range);
+      if (issues.length > 0) {
+        const { side, message } = issues[0];
+        const where = side === "low" ? " (low side)" : "";
+        return `${prefix}${key}${where}: ${message}`;
+      }
+    }
+    return null;
+  };
+
+  return (
+    first(profile.bands, "") ??
+    first(profile.ioRatio?.bands ?? {}, "Indoor/outdoor ratio, ", RATIO_RANGE)
+  );
+}
+
+export async function publishProfile(
+  profile: ScoringProfile,
+  makeCurrent: boolean
+): Promise<{ ok: boolean; error?: string; warning?: string }> {
+  const issue = bandSpecIssue(profile);
+  if (issue) return { ok: false, error: issue };
+
+  // Insert before switching, so a failed insert leaves the
+  // previous profile current
+  const { error } = await supabase
+    .from("scoring_profile")
+    .insert(profileToRow(profile, makeCurrent));
+  if (error) return { ok: false, error: error.message };
+
+  // Should this fail, two rows are current; the newest one wins
+  // in loadPublishedProfiles
+  let warning: string | undefined;
+  if (makeCurrent) {
+    const { error } = await supabase
+      .from("scoring_profile")
+      .update({ is_current: false })
+      .eq("is_current", true)
+      .neq("id", profile.id);
+    if (error) warning = `The previous profile is still marked current: ${error.message}`;
+  }
+
+  await loadPublishedProfiles();
+  return { ok: true, warning };
+}
@@ -0,0 +1,734 @@
+// lib/scoring/profiles.ts
+// --------------------------------------------------------
+// SaSo Scoring Profiles
+// --------------------------------------------------------
+// A profile pins everything that shapes a score:
+//   - how room readings combine into whole-home values
+//   - metric weights inside each category
+//   - band overrides on top of the registry defaults
+//   - band tightening for sensitive occupants
+//   - overall category weights
+//
+// Published profiles are never edited. To change scoring,
+// append a new version and point CURRENT_PROFILE_ID at it,
+// or publish one from the curve editor (/admin/scoring);
+// reports keep the profile id they were issued with.
+// When registry defaults change, pin the previous bands on
+// older profiles so their scores stay reproducible.
+// --------------------------------------------------------
+
+import {
+  CATEGORIES,
+  METRICS,
+  type BandSpec,
+  type CategoryKey,
+  type MetricKey,
+} from "@/lib/metrics";
+import type { AggregationStrategy } from "@/lib/scoring/aggregate";
+import type { SeriesStatistic } from "@/lib/scoring/series";
+import type {
+  SensitivityKey,
+  SensitivityRule,
+} from "@/lib/scoring/occupants";
+
+export type ScoringProfile = {
+  id: string;
+  name: string;
+  version: string;
+  publishedAt: string;
+  aggregation: AggregationStrategy;
+  // Categories a profile leaves out are not scored under it
+  categoryWeights: Partial<Record<CategoryKey, number>>;
+  metricWeights: Partial<
+    Record<CategoryKey, Partial<Record<MetricKey, number>>>
+  >;
+  bands: Partial<Record<MetricKey, BandSpec>>;
+  sensitivities: Partial<Record<SensitivityKey, SensitivityRule>>;
+  // Stricter bands for readings tagged as taken in a sleeping
+  // area (v1.10+); applied by the engines, not to the home value
+  sleepingArea?: SensitivityRule;
+  // Indoor/outdoor ratio bands, blended into air sub-scores when
+  // an outdoor baseline was taken (v1.11+; lib/scoring/air.ts)
+  ioRatio?: IoRatioRule;
+  // How logger time-series are scored (v1.12+; lib/scoring/series.ts)
+  logger?: LoggerRule;
+};
+
+export type LoggerRule = {
+  statistic: SeriesStatistic; // the value a logged room contributes
+  exceedanceWeight: number; // share of the sub-score from time in band
+};
+
+export type IoRatioRule = {
+  weight: number; // share of the sub-score taken by the ratio
+  bands: Partial<Record<MetricKey, BandSpec>>;
+};
+
+// A null score means the category (or home) was not tested
+export type CategoryScores = Record<CategoryKey, number | null> & {
+  overall: number | null;
+};
+
+// Occupant rules shared by v1.4+ (see lib/scoring/occupants.ts)
+const SENSITIVE_OCCUPANTS: ScoringProfile["sensitivities"] = {
+  asthma: {
+    reason:
+      "Fine particles and stale air trigger asthma symptoms at lower levels.",
+    tighten: { PM25: 0.7, PM10: 0.8, CO2: 0.9 },
+  },
+  allergies: {
+    reason:
+      "Dust, pollen and damp air (mold, dust mites) aggravate allergies.",
+    tighten: { PM25: 0.85, PM10: 0.75, Humidity: 0.92 },
+  },
+  children: {
+    reason:
+      "Children breathe more air per body weight and spend long hours asleep near devices.",
+    tighten: { CO2: 0.9, RF: 0.5, MagField: 0.7 },
+  },
+};
+
+// Occupant rules from v1.13: the children's device limits apply
+// where they sleep, on top of the sleeping-area rule, not to the
+// whole home
+const SENSITIVE_OCCUPANTS_V13: ScoringProfile["sensitivities"] = {
+  ...SENSITIVE_OCCUPANTS,
+  children: {
+    reason:
+      "Children breathe more air per body weight and spend long hours asleep near devices.",
+    tighten: { CO2: 0.9 },
+    sleepingArea: { RF: 0.5, MagField: 0.7 },
+  },
+};
+
+// Sleeping-area rule from v1.10: building-biology guidance is
+// written for where the body rests for hours, so ether fields
+// there are held to half the usual band edges
+const SLEEPING_AREA: SensitivityRule = {
+  reason:
+    "Fields where you sleep act on the body for hours each night, while it is meant to recover.",
+  tighten: {
+    MagField: 0.5,
+    ElectricField: 0.5,
+    RF: 0.5,
+    RFPeak: 0.5,
+    DirtyElectricity: 0.5,
+    BodyVoltage: 0.5,
+  },
+};
+
+// I/O ratio rule from v1.11: indoor pollutant levels near or
+// below outdoor mean the envelope and filtration are doing their
+// job; well above outdoor points to sources inside the home
+const IO_RATIO_LABELS = [
+  "Well filtered",
+  "Tracks outdoor",
+  "Indoor sources",
+  "Strong indoor sources",
+] as const;
+
+function ioBands(edges: [number, number, number, number]): BandSpec {
+  return {
+    curve: "linear",
+    bands: [
+      { max: edges[0], score: 100, label: IO_RATIO_LABELS[0] },
+      { max: edges[1], score: 70, label: IO_RATIO_LABELS[1] },
+      { max: edges[2], score: 30, label: IO_RATIO_LABELS[2] },
+      { max: edges[3], score: 0, label: IO_RATIO_LABELS[3] },
+    ],
+  };
+}
+
+const IO_RATIO: IoRatioRule = {
+  weight: 0.4,
+  bands: {
+    PM25: ioBands([0.5, 1, 2, 4]),
+    PM10: ioBands([0.5, 1, 2, 4]),
+    NO2: ioBands([0.5, 1, 2, 4]),
+    // Ozone breaks down indoors, so indoor levels sit well below
+    O3: ioBands([0.3, 0.7, 1.5, 3]),
+  },
+};
+
+export const SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: "saso-1.1",
+    name: "SaSo Standard",
+    version: "1.1",
+    publishedAt: "2025-10-01",
+    aggregation: "worst",
+    categoryWeights: { air: 0.45, water: 0.35, ether: 0.2 },
+    metricWeights: {
+      air: { CO2: 0.5, PM25: 0.25, PM10: 0.25 },
+      water: { TDS: 0.6, Cl: 0.2, pH: 0.2 },
+      ether: { MagField: 1 / 3, ElectricField: 1 / 3, RF: 1 / 3 },
+    },
+    // Bands as published in v1.1 (before two-sided ideal windows)
+    bands: {
+      Humidity: {
+        curve: "linear",
+        bands: [
+          { max: 55, score: 100, label: "Comfortable" },
+          { max: 65, score: 60, label: "Monitor" },
+          { max: 130, score: 0, label: "Outside optimal range" },
+        ],
+      },
+      Temp: {
+        curve: "linear",
+        bands: [
+          { max: 75, score: 100, label: "Comfortable" },
+          { max: 80, score: 60, label: "Warm" },
+          { max: 160, score: 0, label: "Hot" },
+        ],
+      },
+      pH: {
+        curve: "step",
+        bands: [
+          { max: 8.5, score: 100, label: "Ideal range" },
+          { max: 9.5, score: 80, label: "Outside recommended range" },
+          { max: Infinity, score: 30, label: "Outside recommended range" },
+        ],
+        low: {
+          curve: "step",
+          bands: [
+            { min: 6.5, score: 100, label: "Ideal range" },
+            { min: -Infinity, score: 40, label: "Outside recommended range" },
+          ],
+        },
+      },
+    },
+    sensitivities: {},
+  },
+  {
+    id: "saso-1.2",
+    name: "SaSo Standard",
+    version: "1.2",
+    publishedAt: "2025-11-01",
+    aggregation: "worst",
+    categoryWeights: { air: 0.45, water: 0.35, ether: 0.2 },
+    metricWeights: {
+      air: { CO2: 0.5, PM25: 0.25, PM10: 0.25 },
+      water: { TDS: 0.6, Cl: 0.2, pH: 0.2 },
+      ether: { MagField: 1 / 3, ElectricField: 1 / 3, RF: 1 / 3 },
+    },
+    // Two-sided pH, humidity and temperature windows (registry defaults)
+    bands: {},
+    sensitivities: {},
+  },
+  {
+    id: "saso-1.3",
+    name: "SaSo Standard",
+    version: "1.3",
+    publishedAt: "2025-12-01",
+    // A cooking spike in the kitchen no longer defines the whole home
+    aggregation: "occupancy",
+    categoryWeights: { air: 0.45, water: 0.35, ether: 0.2 },
+    metricWeights: {
+      air: { CO2: 0.5, PM25: 0.25, PM10: 0.25 },
+      water: { TDS: 0.6, Cl: 0.2, pH: 0.2 },
+      ether: { MagField: 1 / 3, ElectricField: 1 / 3, RF: 1 / 3 },
+    },
+    bands: {},
+    sensitivities: {},
+  },
+  {
+    id: "saso-1.4",
+    name: "SaSo Standard",
+    version: "1.4",
+    publishedAt: "2026-01-15",
+    aggregation: "occupancy",
+    categoryWeights: { air: 0.45, water: 0.35, ether: 0.2 },
+    metricWeights: {
+      air: { CO2: 0.5, PM25: 0.25, PM10: 0.25 },
+      water: { TDS: 0.6, Cl: 0.2, pH: 0.2 },
+      ether: { MagField: 1 / 3, ElectricField: 1 / 3, RF: 1 / 3 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS,
+  },
+  {
+    id: "saso-1.5",
+    name: "SaSo Standard",
+    version: "1.5",
+    publishedAt: "2026-03-01",
+    aggregation: "occupancy",
+    categoryWeights: { air: 0.45, water: 0.35, ether: 0.2 },
+    metricWeights: {
+      // VOCs and the comfort envelope join the air score
+      air: {
+        CO2: 0.35,
+        PM25: 0.2,
+        PM10: 0.15,
+        VOCs: 0.15,
+        Humidity: 0.1,
+        Temp: 0.05,
+      },
+      water: { TDS: 0.6, Cl: 0.2, pH: 0.2 },
+      ether: { MagField: 1 / 3, ElectricField: 1 / 3, RF: 1 / 3 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS,
+  },
+  {
+    id: "saso-1.6",
+    name: "SaSo Standard",
+    version: "1.6",
+    publishedAt: "2026-04-15",
+    aggregation: "occupancy",
+    // Lighting joins as a fourth category
+    categoryWeights: { air: 0.4, water: 0.3, ether: 0.15, light: 0.15 },
+    metricWeights: {
+      air: {
+        CO2: 0.35,
+        PM25: 0.2,
+        PM10: 0.15,
+        VOCs: 0.15,
+        Humidity: 0.1,
+        Temp: 0.05,
+      },
+      water: { TDS: 0.6, Cl: 0.2, pH: 0.2 },
+      ether: { MagField: 1 / 3, ElectricField: 1 / 3, RF: 1 / 3 },
+      light: { Lux: 0.25, Flicker: 0.25, CCT: 0.15, BlueLight: 0.35 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS,
+  },
+  {
+    id: "saso-1.7",
+    name: "SaSo Standard",
+    version: "1.7",
+    publishedAt: "2026-05-01",
+    aggregation: "occupancy",
+    // Sound joins; nighttime background carries the most weight
+    categoryWeights: {
+      air: 0.35,
+      water: 0.25,
+      ether: 0.15,
+      light: 0.12,
+      sound: 0.13,
+    },
+    metricWeights: {
+      air: {
+        CO2: 0.35,
+        PM25: 0.2,
+        PM10: 0.15,
+        VOCs: 0.15,
+        Humidity: 0.1,
+        Temp: 0.05,
+      },
+      water: { TDS: 0.6, Cl: 0.2, pH: 0.2 },
+      ether: { MagField: 1 / 3, ElectricField: 1 / 3, RF: 1 / 3 },
+      light: { Lux: 0.25, Flicker: 0.25, CCT: 0.15, BlueLight: 0.35 },
+      sound: { NoiseLeq: 0.3, NoiseLmax: 0.25, NoiseNight: 0.45 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS,
+  },
+  {
+    id: "saso-1.8",
+    name: "SaSo Standard",
+    version: "1.8",
+    publishedAt: "2026-06-01",
+    aggregation: "occupancy",
+    // Combustion gases and radon join air; readings past a safety
+    // limit raise an alert on top of the score
+    categoryWeights: {
+      air: 0.35,
+      water: 0.25,
+      ether: 0.15,
+      light: 0.12,
+      sound: 0.13,
+    },
+    metricWeights: {
+      air: {
+        CO2: 0.25,
+        PM25: 0.15,
+        PM10: 0.1,
+        VOCs: 0.1,
+        Humidity: 0.07,
+        Temp: 0.03,
+        CO: 0.08,
+        NO2: 0.07,
+        HCHO: 0.07,
+        O3: 0.04,
+        Radon: 0.04,
+      },
+      water: { TDS: 0.6, Cl: 0.2, pH: 0.2 },
+      ether: { MagField: 1 / 3, ElectricField: 1 / 3, RF: 1 / 3 },
+      light: { Lux: 0.25, Flicker: 0.25, CCT: 0.15, BlueLight: 0.35 },
+      sound: { NoiseLeq: 0.3, NoiseLmax: 0.25, NoiseNight: 0.45 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS,
+  },
+  {
+    id: "saso-1.9",
+    name: "SaSo Standard",
+    version: "1.9",
+    publishedAt: "2026-07-01",
+    aggregation: "occupancy",
+    // Full water panel: hardness, chloramine, nitrate, lead, iron
+    // and coliform; health metrics outweigh taste
+    categoryWeights: {
+      air: 0.35,
+      water: 0.25,
+      ether: 0.15,
+      light: 0.12,
+      sound: 0.13,
+    },
+    metricWeights: {
+      air: {
+        CO2: 0.25,
+        PM25: 0.15,
+        PM10: 0.1,
+        VOCs: 0.1,
+        Humidity: 0.07,
+        Temp: 0.03,
+        CO: 0.08,
+        NO2: 0.07,
+        HCHO: 0.07,
+        O3: 0.04,
+        Radon: 0.04,
+      },
+      water: {
+        TDS: 0.15,
+        Cl: 0.05,
+        pH: 0.1,
+        Hardness: 0.1,
+        TotalChlorine: 0.1,
+        Nitrate: 0.1,
+        Lead: 0.2,
+        Iron: 0.05,
+        Bacteria: 0.15,
+      },
+      ether: { MagField: 1 / 3, ElectricField: 1 / 3, RF: 1 / 3 },
+      light: { Lux: 0.25, Flicker: 0.25, CCT: 0.15, BlueLight: 0.35 },
+      sound: { NoiseLeq: 0.3, NoiseLmax: 0.25, NoiseNight: 0.45 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS,
+  },
+  {
+    id: "saso-1.10",
+    name: "SaSo Standard",
+    version: "1.10",
+    publishedAt: "2026-08-01",
+    aggregation: "occupancy",
+    // Building-biology Ether panel: dirty electricity, body voltage
+    // and RF scored on peak; RF and RFPeak are alternatives, so only
+    // one of them is weighted per home (see lib/scoring/ether.ts)
+    categoryWeights: {
+      air: 0.35,
+      water: 0.25,
+      ether: 0.15,
+      light: 0.12,
+      sound: 0.13,
+    },
+    metricWeights: {
+      air: {
+        CO2: 0.25,
+        PM25: 0.15,
+        PM10: 0.1,
+        VOCs: 0.1,
+        Humidity: 0.07,
+        Temp: 0.03,
+        CO: 0.08,
+        NO2: 0.07,
+        HCHO: 0.07,
+        O3: 0.04,
+        Radon: 0.04,
+      },
+      water: {
+        TDS: 0.15,
+        Cl: 0.05,
+        pH: 0.1,
+        Hardness: 0.1,
+        TotalChlorine: 0.1,
+        Nitrate: 0.1,
+        Lead: 0.2,
+        Iron: 0.05,
+        Bacteria: 0.15,
+      },
+      ether: {
+        MagField: 0.25,
+        ElectricField: 0.2,
+        RF: 0.25,
+        RFPeak: 0.25,
+        DirtyElectricity: 0.15,
+        BodyVoltage: 0.15,
+      },
+      light: { Lux: 0.25, Flicker: 0.25, CCT: 0.15, BlueLight: 0.35 },
+      sound: { NoiseLeq: 0.3, NoiseLmax: 0.25, NoiseNight: 0.45 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS,
+    sleepingArea: SLEEPING_AREA,
+  },
+  {
+    id: "saso-1.11",
+    name: "SaSo Standard",
+    version: "1.11",
+    publishedAt: "2026-09-01",
+    aggregation: "occupancy",
+    // Weights as v1.10; adds indoor/outdoor ratio scoring
+    categoryWeights: {
+      air: 0.35,
+      water: 0.25,
+      ether: 0.15,
+      light: 0.12,
+      sound: 0.13,
+    },
+    metricWeights: {
+      air: {
+        CO2: 0.25,
+        PM25: 0.15,
+        PM10: 0.1,
+        VOCs: 0.1,
+        Humidity: 0.07,
+        Temp: 0.03,
+        CO: 0.08,
+        NO2: 0.07,
+        HCHO: 0.07,
+        O3: 0.04,
+        Radon: 0.04,
+      },
+      water: {
+        TDS: 0.15,
+        Cl: 0.05,
+        pH: 0.1,
+        Hardness: 0.1,
+        TotalChlorine: 0.1,
+        Nitrate: 0.1,
+        Lead: 0.2,
+        Iron: 0.05,
+        Bacteria: 0.15,
+      },
+      ether: {
+        MagField: 0.25,
+        ElectricField: 0.2,
+        RF: 0.25,
+        RFPeak: 0.25,
+        DirtyElectricity: 0.15,
+        BodyVoltage: 0.15,
+      },
+      light: { Lux: 0.25, Flicker: 0.25, CCT: 0.15, BlueLight: 0.35 },
+      sound: { NoiseLeq: 0.3, NoiseLmax: 0.25, NoiseNight: 0.45 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS,
+    sleepingArea: SLEEPING_AREA,
+    ioRatio: IO_RATIO,
+  },
+  {
+    id: "saso-1.12",
+    name: "SaSo Standard",
+    version: "1.12",
+    publishedAt: "2026-10-01",
+    aggregation: "occupancy",
+    // Weights as v1.10; logged rooms count at their p95, with
+    // time outside the ideal band blended into the sub-score
+    categoryWeights: {
+      air: 0.35,
+      water: 0.25,
+      ether: 0.15,
+      light: 0.12,
+      sound: 0.13,
+    },
+    metricWeights: {
+      air: {
+        CO2: 0.25,
+        PM25: 0.15,
+        PM10: 0.1,
+        VOCs: 0.1,
+        Humidity: 0.07,
+        Temp: 0.03,
+        CO: 0.08,
+        NO2: 0.07,
+        HCHO: 0.07,
+        O3: 0.04,
+        Radon: 0.04,
+      },
+      water: {
+        TDS: 0.15,
+        Cl: 0.05,
+        pH: 0.1,
+        Hardness: 0.1,
+        TotalChlorine: 0.1,
+        Nitrate: 0.1,
+        Lead: 0.2,
+        Iron: 0.05,
+        Bacteria: 0.15,
+      },
+      ether: {
+        MagField: 0.25,
+        ElectricField: 0.2,
+        RF: 0.25,
+        RFPeak: 0.25,
+        DirtyElectricity: 0.15,
+        BodyVoltage: 0.15,
+      },
+      light: { Lux: 0.25, Flicker: 0.25, CCT: 0.15, BlueLight: 0.35 },
+      sound: { NoiseLeq: 0.3, NoiseLmax: 0.25, NoiseNight: 0.45 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS,
+    sleepingArea: SLEEPING_AREA,
+    ioRatio: IO_RATIO,
+    logger: { statistic: "p95", exceedanceWeight: 0.3 },
+  },
+  {
+    id: "saso-1.13",
+    name: "SaSo Standard",
+    version: "1.13",
+    publishedAt: "2026-10-19",
+    aggregation: "occupancy",
+    // As v1.12; children's RF and magnetic field limits apply
+    // in sleeping areas only
+    categoryWeights: {
+      air: 0.35,
+      water: 0.25,
+      ether: 0.15,
+      light: 0.12,
+      sound: 0.13,
+    },
+    metricWeights: {
+      air: {
+        CO2: 0.25,
+        PM25: 0.15,
+        PM10: 0.1,
+        VOCs: 0.1,
+        Humidity: 0.07,
+        Temp: 0.03,
+        CO: 0.08,
+        NO2: 0.07,
+        HCHO: 0.07,
+        O3: 0.04,
+        Radon: 0.04,
+      },
+      water: {
+        TDS: 0.15,
+        Cl: 0.05,
+        pH: 0.1,
+        Hardness: 0.1,
+        TotalChlorine: 0.1,
+        Nitrate: 0.1,
+        Lead: 0.2,
+        Iron: 0.05,
+        Bacteria: 0.15,
+      },
+      ether: {
+        MagField: 0.25,
+        ElectricField: 0.2,
+        RF: 0.25,
+        RFPeak: 0.25,
+        DirtyElectricity: 0.15,
+        BodyVoltage: 0.15,
+      },
+      light: { Lux: 0.25, Flicker: 0.25, CCT: 0.15, BlueLight: 0.35 },
+      sound: { NoiseLeq: 0.3, NoiseLmax: 0.25, NoiseNight: 0.45 },
+    },
+    bands: {},
+    sensitivities: SENSITIVE_OCCUPANTS_V13,
+    sleepingArea: SLEEPING_AREA,
+    ioRatio: IO_RATIO,
+    logger: { statistic: "p95", exceedanceWeight: 0.3 },
+  },
+];
+
+export const CURRENT_PROFILE_ID = "saso-1.13";
+
+// Profiles published at runtime (see lib/scoring/profileStore.ts)
+let publishedProfiles: ScoringProfile[] = [];
+let publishedCurrentId: string | null = null;
+
+export function registerProfiles(
+  profiles: ScoringProfile[],
+  currentId: string | null = null
+) {
+  const builtIn = new Set(SCORING_PROFILES.map((p) => p.id));
+  publishedProfiles = profiles.filter((p) => !builtIn.has(p.id));
+  publishedCurrentId =
+    currentId && publishedProfiles.some((p) => p.id === currentId)
+      ? currentId
+      : null;
+}
+
+export function allProfiles(): ScoringProfile[] {
+  return [...SCORING_PROFILES, ...publishedProfiles];
+}
+
+// Profile new reports are issued under
+export function currentProfileId(): string {
+  return publishedCurrentId ?? CURRENT_PROFILE_ID;
+}
+
+// A profile by id; null when it is neither built in nor published
+export function findProfile(id: string): ScoringProfile | null {
+  return allProfiles().find((p) => p.id === id) ?? null;
+}
+
+// The profile a score is pinned to; no id means the current one.
+// An unknown id throws: re-scoring a pinned report under other
+// bands would change it silently.
+export function getProfile(id: string | null | undefined): ScoringProfile {
+  const profile = findProfile(id ?? currentProfileId());
+  if (!profile) throw new Error(`Unknown scoring profile "${id}"`);
+  return profile;
+}
+
+export function profileLabel(profile: ScoringProfile): string {
+  return `${profile.name} v${profile.version}`;
+}
+
+// Bands used for a metric under a profile (registry default if not overridden)
+export function profileBands(
+  profile: ScoringProfile,
+  key: MetricKey
+): BandSpec {
+  return profile.bands[key] ?? METRICS[key];
+}
+
+// Weighted mean of the parts that were measured; weights of missing
+// parts are redistributed. Null when nothing was measured.
+export function blendScores(
+  parts: { score: number | null | undefined; weight: number }[]
+): number | null {
+  let total = 0;
+  let weight = 0;
+
+  for (const p of parts) {
+    if (p.score == null || p.weight <= 0) continue;
+    total += p.score * p.weight;
+    weight += p.weight;
+  }
+
+  return weight > 0 ? total / weight : null;
+}
+
+// How many of a category's weighted metrics have a reading
+export function categoryCoverage(
+  category: CategoryKey,
+  values: Partial<Record<MetricKey, number | null>>,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): { measured: number; total: number } {
+  const keys = Object.keys(
+    profile.metricWeights[category] ?? {}
+  ) as MetricKey[];
+  return {
+    measured: keys.filter((k) => values[k] != null).length,
+    total: keys.length,
+  };
+}
+
+export function computeOverallScore(
+  scores: Record<CategoryKey, number | null>,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number | null {
+  const overall = blendScores(
+    CATEGORIES.map((c) => ({
+      score: scores[c],
+      weight: profile.categoryWeights[c] ?? 0,
+    }))
+  );
+  return overall === null ? null : Math.round(overall);
+}
@@ -0,0 +1,98 @@
+// lib/scoring/safety.ts
+// --------------------------------------------------------
+// Safety alerts
+// --------------------------------------------------------
+// Some readings are hazards, not points off a score: a CO
+// leak blended into a 0–100 air score can still read "Good".
+// Every single reading is checked against its metric's
+// safetyLimit (lib/metrics.ts), whatever the aggregation
+// strategy, and each hit becomes an "alert" finding. The
+// report shows the alert tier in place of the affected
+// category score and the overall score.
+//
+// Radon is judged with its test protocol: a short-term (or
+// untagged) result at the limit asks for a long-term test to
+// confirm; a long-term result calls for mitigation.
+// --------------------------------------------------------
+
+import {
+  METRICS,
+  isMetricKey,
+  type CategoryKey,
+  type MetricKey,
+  type RadonTest,
+} from "@/lib/metrics";
+import { isOutdoor, type MeasurementLike } from "@/lib/scoring/aggregate";
+import {
+  sortFindings,
+  type Finding,
+  type FindingKey,
+} from "@/lib/scoring/findings";
+import { toCanonical } from "@/lib/units";
+
+// Measurement rows as captured, with the radon protocol when known
+export type SafetyRow = MeasurementLike & { radon_test?: RadonTest | null };
+
+const ALERT_KEYS: Partial<Record<MetricKey, FindingKey>> = {
+  CO: "co.alert",
+  NO2: "no2.alert",
+  HCHO: "hcho.alert",
+  O3: "o3.alert",
+  Radon: "radon.alert",
+  Nitrate: "nitrate.alert",
+  Lead: "lead.alert",
+  Bacteria: "bacteria.alert",
+};
+
+function alertKey(metric: MetricKey, row: SafetyRow): FindingKey {
+  if (metric === "Radon" && row.radon_test !== "long") return "radon.confirm";
+  return ALERT_KEYS[metric] ?? "safety.alert";
+}
+
+// One alert per metric and room: the highest reading at or above
+// the limit. Params carry the canonical value and limit.
+export function safetyAlerts(rows: SafetyRow[]): Finding[] {
+  const worst = new Map<string, { row: SafetyRow; value: number }>();
+
+  for (const row of rows) {
+    // Outdoor baseline readings describe the ambient air, not the home
+    if (isOutdoor(row) || !isMetricKey(row.metric)) continue;
+    const limit = METRICS[row.metric].safetyLimit;
+    if (!limit) continue;
+
+    const value = toCanonical(row.metric, row.value, row.unit);
+    if (value < limit.value) continue;
+
+    const id = `${row.metric}:${row.room_id ?? ""}`;
+    const current = worst.get(id);
+    if (!current || value > current.value) worst.set(id, { row, value });
+  }
+
+  const alerts: Finding[] = [];
+  worst.forEach(({ row, value }) => {
+    const metric = row.metric as MetricKey;
+    const def = METRICS[metric];
+    alerts.push({
+      category: def.category,
+      metric,
+      severity: "alert",
+      roomId: row.room_id,
+      key: alertKey(metric, row),
+      params: {
+        value,
+        limit: def.safetyLimit!.value,
+        measurementId: row.id,
+        takenAt: row.taken_at ?? row.created_at ?? "",
+      },
+    });
+  });
+
+  return sortFindings(alerts);
+}
+
+// Categories whose score presentation the alert tier replaces
+export function alertCategories(alerts: Finding[]): Set<CategoryKey> {
+  return new Set(
+    alerts.filter((a) => a.severity === "alert").map((a) => a.category)
+  );
+}
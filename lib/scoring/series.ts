@@ -0,0 +1,238 @@
+// lib/scoring/series.ts
+// --------------------------------------------------------
+// Logger time-series in scoring
+// --------------------------------------------------------
+// A continuous logger (overnight bedroom CO₂, 48-hour PM)
+// records one series per room and metric. Scoring uses
+// statistics derived from the whole series instead of a
+// single spot value:
+//   - the series enters room aggregation as one reading,
+//     its mean or p95 (ScoringProfile.logger.statistic)
+//   - time outside the metric's ideal band is blended into
+//     the metric's sub-score (v1.12+), using the worst
+//     logged room for that metric
+//   - safety alerts (lib/scoring/safety.ts) see the series'
+//     peak point, not the statistic
+//
+// Profiles without a logger rule score a series on its
+// mean and do not blend exposure.
+// --------------------------------------------------------
+
+import {
+  METRICS,
+  inIdealRange,
+  isMetricKey,
+  type BandSpec,
+  type MetricKey,
+} from "@/lib/metrics";
+import { profileBands, type ScoringProfile } from "@/lib/scoring/profiles";
+import type { MeasurementLike } from "@/lib/scoring/aggregate";
+import type { CategoryBreakdown } from "@/lib/scoring/breakdown";
+
+// [epoch ms, value in the metric's canonical unit]
+export type SeriesPoint = [number, number];
+
+export const SERIES_STATISTICS = ["mean", "p95"] as const;
+export type SeriesStatistic = (typeof SERIES_STATISTICS)[number];
+
+// Minimal shape shared by the report and technician series
+export type SeriesLike = {
+  id: string;
+  room_id: string | null;
+  location?: "indoor" | "outdoor" | null;
+  metric: string;
+  points: SeriesPoint[];
+};
+
+export type SeriesStats = {
+  count: number;
+  start: number; // epoch ms
+  end: number;
+  hours: number; // logged time, gaps excluded
+  mean: number; // time-weighted
+  p95: number;
+  min: number;
+  max: number;
+  threshold: number | null; // upper edge of the ideal band; null if two-sided
+  fractionAbove: number; // share of logged time outside the ideal band
+};
+
+// Time outside the ideal band for the worst logged room
+export type Exposure = {
+  seriesId: string;
+  roomId: string | null;
+  hours: number;
+  threshold: number | null;
+  fractionAbove: number;
+  subScore: number; // 100 × time inside the ideal band
+};
+
+// A point stands for the time until the next one, but never more
+// than this many typical intervals (logger gaps don't count)
+const MAX_GAP_STEPS = 3;
+
+function median(values: number[]): number {
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+export function seriesStats(
+  points: SeriesPoint[],
+  key: MetricKey,
+  spec: BandSpec = METRICS[key]
+): SeriesStats | null {
+  if (points.length === 0) return null;
+
+  const sorted = [...points].sort((a, b) => a[0] - b[0]);
+  const gaps = sorted
+    .slice(1)
+    .map((p, i) => p[0] - sorted[i][0])
+    .filter((g) => g > 0);
+  const step = gaps.length > 0 ? median(gaps) : 0;
+
+  const durations = sorted.map(([t], i) =>
+    i < sorted.length - 1
+      ? Math.min(sorted[i + 1][0] - t, step * MAX_GAP_STEPS)
+      : step
+  );
+  const total = durations.reduce((a, b) => a + b, 0);
+
+  // Evenly weighted when the points carry no usable spacing
+  const weightOf = (i: number) => (total > 0 ? durations[i] / total : 1 / sorted.length);
+
+  let mean = 0;
+  let above = 0;
+  sorted.forEach(([, v], i) => {
+    mean += v * weightOf(i);
+    if (!inIdealRange(key, v, spec)) above += weightOf(i);
+  });
+
+  const values = sorted.map(([, v]) => v).sort((a, b) => a - b);
+  const p95 = values[Math.max(0, Math.ceil(values.length * 0.95) - 1)];
+  // Two-sided metrics (humidity, temperature) leave on either side
+  const edge = spec.low ? null : spec.bands[0]?.max;
+
+  return {
+    count: sorted.length,
+    start: sorted[0][0],
+    end: sorted[sorted.length - 1][0],
+    hours: total / 3_600_000,
+    mean,
+    p95,
+    min: values[0],
+    max: values[values.length - 1],
+    threshold: edge != null && Number.isFinite(edge) ? edge : null,
+    fractionAbove: above,
+  };
+}
+
+export function seriesStatistic(profile: ScoringProfile): SeriesStatistic {
+  return profile.logger?.statistic ?? "mean";
+}
+
+// Each series as one reading for room aggregation (lib/scoring/aggregate.ts)
+export function seriesReadings(
+  series: SeriesLike[],
+  profile: ScoringProfile
+): MeasurementLike[] {
+  const statistic = seriesStatistic(profile);
+
+  return series.flatMap((s): MeasurementLike[] => {
+    if (!isMetricKey(s.metric)) return [];
+    const stats = seriesStats(s.points, s.metric, profileBands(profile, s.metric));
+    if (!stats) return [];
+    return [
+      {
+        id: s.id,
+        room_id: s.room_id,
+        location: s.location ?? null,
+        metric: s.metric,
+        value: stats[statistic],
+        unit: METRICS[s.metric].unit,
+        taken_at: new Date(stats.end).toISOString(),
+      },
+    ];
+  });
+}
+
+// Each series as its highest point, timed at the peak, for safety
+// alerts: a CO spike must not be averaged away
+export function seriesPeaks(series: SeriesLike[]): MeasurementLike[] {
+  return series.flatMap((s): MeasurementLike[] => {
+    if (!isMetricKey(s.metric) || s.points.length === 0) return [];
+    const [at, value] = s.points.reduce((peak, p) =>
+      p[1] > peak[1] ? p : peak
+    );
+    return [
+      {
+        id: s.id,
+        room_id: s.room_id,
+        location: s.location ?? null,
+        metric: s.metric,
+        value,
+        unit: METRICS[s.metric].unit,
+        taken_at: new Date(at).toISOString(),
+      },
+    ];
+  });
+}
+
+// Worst logged indoor room per metric
+export function seriesExposures(
+  series: SeriesLike[],
+  profile: ScoringProfile
+): Partial<Record<MetricKey, Exposure>> {
+  const out: Partial<Record<MetricKey, Exposure>> = {};
+
+  for (const s of series) {
+    if (s.location === "outdoor" || !isMetricKey(s.metric)) continue;
+    const stats = seriesStats(s.points, s.metric, profileBands(profile, s.metric));
+    if (!stats) continue;
+
+    const prev = out[s.metric];
+    if (prev && prev.fractionAbove >= stats.fractionAbove) continue;
+    out[s.metric] = {
+      seriesId: s.id,
+      roomId: s.room_id,
+      hours: stats.hours,
+      threshold: stats.threshold,
+      fractionAbove: stats.fractionAbove,
+      subScore: 100 * (1 - stats.fractionAbove),
+    };
+  }
+
+  return out;
+}
+
+// Blend exposure into the sub-scores of logged metrics. Shares do
+// not change (the metric was measured either way), so only points
+// and the category score are recomputed.
+export function withExposure(
+  breakdown: CategoryBreakdown,
+  exposures: Partial<Record<MetricKey, Exposure>>,
+  profile: ScoringProfile
+): CategoryBreakdown {
+  const rule = profile.logger;
+  if (!rule || rule.exceedanceWeight <= 0) return breakdown;
+
+  const metrics = breakdown.metrics.map((m) => {
+    const exposure = exposures[m.metric];
+    // Sleeping-area rows were scored on a spot reading
+    if (!exposure || m.subScore === null || m.sleepingArea) return m;
+
+    const subScore =
+      m.subScore * (1 - rule.exceedanceWeight) +
+      exposure.subScore * rule.exceedanceWeight;
+    return { ...m, subScore, points: subScore * m.share, exposure };
+  });
+
+  return {
+    ...breakdown,
+    score:
+      breakdown.score === null
+        ? null
+        : Math.round(metrics.reduce((sum, m) => sum + m.points, 0)),
+    metrics,
+  };
+}
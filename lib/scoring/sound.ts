@@ -0,0 +1,70 @@
+// lib/scoring/sound.ts
+
+import { scoreMetric } from "@/lib/metrics";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+import {
+  explainCategory,
+  type CategoryBreakdown,
+} from "@/lib/scoring/breakdown";
+
+type SoundInputs = {
+  leq?: number | null;
+  lmax?: number | null;
+  night?: number | null;
+};
+
+// Per-metric breakdown of the Sound Score
+// Leq, Lmax and nighttime background, all in dBA
+// Bands follow WHO community (1999) and night-noise (2009) guidance;
+// see NoiseLeq / NoiseLmax / NoiseNight in lib/metrics.ts
+export function explainSoundScore(
+  { leq, lmax, night }: SoundInputs,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): CategoryBreakdown {
+  return explainCategory(
+    "sound",
+    [
+      {
+        metric: "NoiseLeq",
+        value: leq,
+        subScore:
+          leq == null
+            ? null
+            : scoreMetric("NoiseLeq", leq, profileBands(profile, "NoiseLeq")),
+      },
+      {
+        metric: "NoiseLmax",
+        value: lmax,
+        subScore:
+          lmax == null
+            ? null
+            : scoreMetric("NoiseLmax", lmax, profileBands(profile, "NoiseLmax")),
+      },
+      {
+        metric: "NoiseNight",
+        value: night,
+        subScore:
+          night == null
+            ? null
+            : scoreMetric(
+                "NoiseNight",
+                night,
+                profileBands(profile, "NoiseNight")
+              ),
+      },
+    ],
+    profile
+  );
+}
+
+export function computeSoundScore(
+  inputs: SoundInputs,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number | null {
+  return explainSoundScore(inputs, profile).score;
+}
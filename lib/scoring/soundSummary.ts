@@ -0,0 +1,72 @@
+// lib/scoring/soundSummary.ts
+
+import { bandIndex, type MetricKey } from "@/lib/metrics";
+import {
+  finding,
+  renderFindings,
+  type Finding,
+  type SummaryInputs,
+  type SummarySources,
+} from "@/lib/scoring/findings";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+
+export function soundFindings(
+  { NoiseLeq, NoiseLmax, NoiseNight }: SummaryInputs,
+  sources: SummarySources = {},
+  profile: ScoringProfile = getProfile(currentProfileId())
+): Finding[] {
+  // Classify against the profile's bands, not the registry defaults
+  const index = (k: MetricKey, v: number) =>
+    bandIndex(k, v, profileBands(profile, k));
+
+  const leq = NoiseLeq == null ? null : index("NoiseLeq", NoiseLeq);
+  const lmax = NoiseLmax == null ? null : index("NoiseLmax", NoiseLmax);
+  const night = NoiseNight == null ? null : index("NoiseNight", NoiseNight);
+
+  // Nothing measured
+  if (leq === null && lmax === null && night === null) {
+    return [finding("sound", null, "info", "sound.notTested")];
+  }
+
+  // Perfect case
+  if (!leq && !lmax && !night) {
+    return [finding("sound", null, "info", "sound.excellent")];
+  }
+
+  const parts: Finding[] = [];
+
+  // ---- Nighttime background (WHO night-noise guidance) ----
+  if (night !== null) {
+    if (night <= 1) parts.push(finding("sound", "NoiseNight", "info", "night.quiet", sources));
+    else if (night === 2) parts.push(finding("sound", "NoiseNight", "moderate", "night.noticeable", sources));
+    else parts.push(finding("sound", "NoiseNight", "high", "night.disruptive", sources));
+  }
+
+  // ---- Leq ----
+  if (leq !== null) {
+    if (leq <= 1) parts.push(finding("sound", "NoiseLeq", "info", "leq.low", sources));
+    else if (leq === 2) parts.push(finding("sound", "NoiseLeq", "low", "leq.moderate", sources));
+    else parts.push(finding("sound", "NoiseLeq", "high", "leq.high", sources));
+  }
+
+  // ---- Lmax ----
+  if (lmax !== null) {
+    if (lmax === 0) parts.push(finding("sound", "NoiseLmax", "info", "lmax.low", sources));
+    else if (lmax === 1) parts.push(finding("sound", "NoiseLmax", "low", "lmax.noticeable", sources));
+    else parts.push(finding("sound", "NoiseLmax", "moderate", "lmax.disruptive", sources));
+  }
+
+  return parts;
+}
+
+export function summarizeSound(
+  inputs: SummaryInputs,
+  profile?: ScoringProfile
+): string {
+  return renderFindings(soundFindings(inputs, {}, profile));
+}
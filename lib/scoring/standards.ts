@@ -0,0 +1,363 @@
+// lib/scoring/standards.ts
+// --------------------------------------------------------
+// Guideline standards
+// --------------------------------------------------------
+// Registry bands mix sources per metric (EPA for PM₂.₅, SaSo
+// comfort numbers for CO₂, precautionary Ether bands); each
+// declares its own `source`. A report can instead be
+// evaluated against one standard: its band sets replace the
+// profile's for the metrics it covers, and every other
+// metric keeps its declared source, so each card can cite
+// what it was judged against.
+//
+// A standard's edges are cited as published, so occupant
+// and sleeping-area tightening (lib/scoring/occupants.ts)
+// only reach the metrics it does not cover.
+// --------------------------------------------------------
+
+import {
+  STANDARD_LABELS,
+  isStandardKey,
+  type BandSource,
+  type BandSpec,
+  type MetricKey,
+  type StandardKey,
+} from "@/lib/metrics";
+import type { SensitivityRule } from "@/lib/scoring/occupants";
+import {
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+
+// A standard's band set must say where it comes from
+type StandardBandSet = BandSpec & { source: BandSource };
+
+export type GuidelineStandard = {
+  key: StandardKey;
+  label: string;
+  description: string;
+  bands: Partial<Record<MetricKey, StandardBandSet>>;
+};
+
+export const DEFAULT_STANDARD: StandardKey = "saso";
+
+// Building Biology evaluation levels (SBM-2015 guideline values
+// for sleeping areas)
+const SBM_LABELS = [
+  "No anomaly",
+  "Slight anomaly",
+  "Severe anomaly",
+  "Extreme anomaly",
+] as const;
+
+function sbmBands(
+  edges: [number, number, number],
+  citation: string
+): StandardBandSet {
+  return {
+    source: { standard: "sbm-2015", citation },
+    curve: "step",
+    bands: [
+      { max: edges[0], score: 100, label: SBM_LABELS[0] },
+      { max: edges[1], score: 70, label: SBM_LABELS[1] },
+      { max: edges[2], score: 30, label: SBM_LABELS[2] },
+      { max: Infinity, score: 0, label: SBM_LABELS[3] },
+    ],
+  };
+}
+
+export const GUIDELINE_STANDARDS: Record<StandardKey, GuidelineStandard> = {
+  // The scoring profile as published: each metric's own source
+  saso: {
+    key: "saso",
+    label: "SaSo Standard",
+    description:
+      "SaSo bands: EPA limits where they exist, comfort and precautionary bands elsewhere.",
+    bands: {},
+  },
+
+  "epa-who": {
+    key: "epa-who",
+    label: "EPA / WHO",
+    description:
+      "Health-based limits from the U.S. EPA and the World Health Organization, using the stricter WHO guideline where both exist.",
+    bands: {
+      PM25: {
+        source: {
+          standard: "epa-who",
+          citation:
+            "WHO Air Quality Guidelines 2021 (5 µg/m³ annual, 15 µg/m³ 24-hour); EPA 24-hour standard 35 µg/m³",
+        },
+        curve: "linear",
+        bands: [
+          { max: 5, score: 100, label: "Excellent" },
+          { max: 15, score: 60, label: "Moderate" },
+          { max: 35, score: 20, label: "Poor" },
+          { max: 55, score: 0, label: "Very Poor" },
+        ],
+      },
+      PM10: {
+        source: {
+          standard: "epa-who",
+          citation:
+            "WHO Air Quality Guidelines 2021 (15 µg/m³ annual, 45 µg/m³ 24-hour); EPA 24-hour standard 150 µg/m³",
+        },
+        curve: "linear",
+        bands: [
+          { max: 15, score: 100, label: "Excellent" },
+          { max: 45, score: 40, label: "Moderate" },
+          { max: 150, score: 0, label: "Poor" },
+        ],
+      },
+      NO2: {
+        source: {
+          standard: "epa-who",
+          citation:
+            "WHO Air Quality Guidelines 2021 (10 µg/m³ ≈ 5.3 ppb annual, 25 µg/m³ ≈ 13 ppb 24-hour); EPA NAAQS 100 ppb 1-hour",
+        },
+        curve: "linear",
+        bands: [
+          { max: 5.3, score: 100, label: "Low" },
+          { max: 13, score: 75, label: "Moderate" },
+          { max: 53, score: 40, label: "Elevated" },
+          { max: 100, score: 0, label: "High" },
+        ],
+      },
+      CO: {
+        source: {
+          standard: "epa-who",
+          citation:
+            "WHO Air Quality Guidelines 2021 (4 mg/m³ ≈ 3.5 ppm 24-hour); EPA NAAQS 9 ppm 8-hour",
+        },
+        curve: "linear",
+        bands: [
+          { max: 1, score: 100, label: "Background" },
+          { max: 3.5, score: 75, label: "Low" },
+          { max: 9, score: 35, label: "Elevated" },
+          { max: 35, score: 0, label: "Hazardous" },
+        ],
+      },
+      O3: {
+        source: {
+          standard: "epa-who",
+          citation:
+            "WHO Air Quality Guidelines 2021 (100 µg/m³ ≈ 51 ppb 8-hour); EPA NAAQS 70 ppb 8-hour",
+        },
+        curve: "linear",
+        bands: [
+          { max: 10, score: 100, label: "Low" },
+          { max: 30, score: 75, label: "Moderate" },
+          { max: 51, score: 30, label: "Elevated" },
+          { max: 100, score: 0, label: "High" },
+        ],
+      },
+      Radon: {
+        source: {
+          standard: "epa-who",
+          citation:
+            "WHO reference level (100 Bq/m³ ≈ 2.7 pCi/L); EPA action level 4 pCi/L",
+        },
+        curve: "linear",
+        bands: [
+          { max: 1.3, score: 100, label: "Typical indoor" },
+          { max: 2, score: 70, label: "Low" },
+          { max: 2.7, score: 35, label: "Consider mitigation" },
+          { max: 4, score: 0, label: "Action level" },
+        ],
+      },
+      Lead: {
+        source: {
+          standard: "epa-who",
+          citation:
+            "WHO drinking-water guideline (10 µg/L); EPA action level 15 ppb",
+        },
+        curve: "linear",
+        bands: [
+          { max: 1, score: 100, label: "Minimal" },
+          { max: 5, score: 60, label: "Detectable" },
+          { max: 10, score: 20, label: "Elevated" },
+          { max: 50, score: 0, label: "High" },
+        ],
+      },
+    },
+  },
+
+  "sbm-2015": {
+    key: "sbm-2015",
+    label: "Building Biology SBM-2015",
+    description:
+      "Precautionary guideline values for sleeping areas from the Standard of Building Biology Testing Methods (Baubiologie Maes / IBN).",
+    bands: {
+      MagField: sbmBands(
+        [0.2, 1, 5],
+        "SBM-2015 low-frequency magnetic fields: < 20 nT none, 20–100 nT slight, 100–500 nT severe"
+      ),
+      ElectricField: sbmBands(
+        [0.3, 1.5, 10],
+        "SBM-2015 low-frequency electric fields: < 0.3 V/m none, 0.3–1.5 V/m slight, 1.5–10 V/m severe"
+      ),
+      RFPeak: sbmBands(
+        [0.0001, 0.01, 1],
+        "SBM-2015 radiofrequency, peak: < 0.1 µW/m² none, 0.1–10 µW/m² slight, 10–1000 µW/m² severe"
+      ),
+      BodyVoltage: sbmBands(
+        [10, 100, 1000],
+        "SBM-2015 body voltage against ground: < 10 mV none, 10–100 mV slight, 100–1000 mV severe"
+      ),
+      CO2: sbmBands(
+        [600, 1000, 1500],
+        "SBM-2015 carbon dioxide: < 600 ppm none, 600–1000 ppm slight, 1000–1500 ppm severe"
+      ),
+      Radon: sbmBands(
+        [0.8, 1.6, 5.4],
+        "SBM-2015 radon: < 30 Bq/m³ none, 30–60 Bq/m³ slight, 60–200 Bq/m³ severe"
+      ),
+      Humidity: {
+        source: {
+          standard: "sbm-2015",
+          citation:
+            "SBM-2015 relative humidity: 40–60 % none, 30–40 / 60–70 % slight, 20–30 / 70–80 % severe",
+        },
+        curve: "step",
+        bands: [
+          { max: 60, score: 100, label: SBM_LABELS[0] },
+          { max: 70, score: 70, label: SBM_LABELS[1] },
+          { max: 80, score: 30, label: SBM_LABELS[2] },
+          { max: Infinity, score: 0, label: SBM_LABELS[3] },
+        ],
+        low: {
+          curve: "step",
+          bands: [
+            { min: 40, score: 100, label: SBM_LABELS[0] },
+            { min: 30, score: 70, label: SBM_LABELS[1] },
+            { min: 20, score: 30, label: SBM_LABELS[2] },
+            { min: -Infinity, score: 0, label: SBM_LABELS[3] },
+          ],
+        },
+      },
+    },
+  },
+
+  ashrae: {
+    key: "ashrae",
+    label: "ASHRAE",
+    description:
+      "Ventilation and thermal-comfort criteria from ASHRAE Standards 62.1/62.2 and 55.",
+    bands: {
+      CO2: {
+        source: {
+          standard: "ashrae",
+          citation:
+            "ASHRAE 62.1 guidance: about 700 ppm above outdoor (≈ 1100 ppm) indicates adequate ventilation",
+        },
+        curve: "linear",
+        bands: [
+          { max: 1100, score: 100, label: "Good (Acceptable)" },
+          { max: 1500, score: 60, label: "Fair (Needs Attention)" },
+          { max: 2000, score: 30, label: "Poor (Ventilation Recommended)" },
+          { max: 2500, score: 0, label: "Severely Elevated (Action Required)" },
+        ],
+      },
+      Humidity: {
+        source: {
+          standard: "ashrae",
+          citation:
+            "ASHRAE 62.1 (≤ 65 % RH in occupied spaces) and ASHRAE 55 comfort zone",
+        },
+        curve: "linear",
+        bands: [
+          { max: 65, score: 100, label: "Comfortable" },
+          { max: 75, score: 60, label: "Slightly damp" },
+          { max: 90, score: 0, label: "Too damp" },
+        ],
+        low: {
+          curve: "linear",
+          bands: [
+            { min: 30, score: 100, label: "Comfortable" },
+            { min: 20, score: 60, label: "Slightly dry" },
+            { min: 10, score: 0, label: "Too dry" },
+          ],
+        },
+      },
+      Temp: {
+        source: {
+          standard: "ashrae",
+          citation:
+            "ASHRAE 55 comfort zone (about 68–74.5 °F in winter, 73–79 °F in summer)",
+        },
+        curve: "linear",
+        bands: [
+          { max: 79, score: 100, label: "Comfortable" },
+          { max: 82, score: 60, label: "Warm" },
+          { max: 90, score: 0, label: "Too hot" },
+        ],
+        low: {
+          curve: "linear",
+          bands: [
+            { min: 68, score: 100, label: "Comfortable" },
+            { min: 64, score: 60, label: "Cool" },
+            { min: 55, score: 0, label: "Too cold" },
+          ],
+        },
+      },
+    },
+  },
+};
+
+// Unknown or missing keys (older rows) fall back to the default
+export function getStandard(key: string | null | undefined): GuidelineStandard {
+  return GUIDELINE_STANDARDS[isStandardKey(key) ? key : DEFAULT_STANDARD];
+}
+
+// The profile with the standard's band sets in place of its own,
+// and no occupant or sleeping-area factors for the metrics they cover
+export function applyStandard(
+  profile: ScoringProfile,
+  key: string | null | undefined
+): ScoringProfile {
+  const standard = getStandard(key);
+  if (Object.keys(standard.bands).length === 0) return profile;
+
+  const uncovered = (tighten: Partial<Record<MetricKey, number>>) =>
+    Object.fromEntries(
+      Object.entries(tighten).filter(([k]) => !(k in standard.bands))
+    ) as Partial<Record<MetricKey, number>>;
+  const withoutCovered = (rule: SensitivityRule): SensitivityRule => ({
+    ...rule,
+    tighten: uncovered(rule.tighten),
+    ...(rule.sleepingArea
+      ? { sleepingArea: uncovered(rule.sleepingArea) }
+      : {}),
+  });
+
+  return {
+    ...profile,
+    bands: { ...profile.bands, ...standard.bands },
+    sensitivities: Object.fromEntries(
+      Object.entries(profile.sensitivities).map(([s, rule]) => [
+        s,
+        withoutCovered(rule!),
+      ])
+    ),
+    sleepingArea: profile.sleepingArea && withoutCovered(profile.sleepingArea),
+  };
+}
+
+// Where the bands a metric is scored with come from. Profile
+// overrides without a declared source are SaSo's own curves.
+export function bandSource(
+  profile: ScoringProfile,
+  key: MetricKey
+): BandSource {
+  const spec = profileBands(profile, key);
+  if (spec.source) return spec.source;
+  return {
+    standard: "saso",
+    citation: `SaSo scoring profile v${profile.version}`,
+  };
+}
+
+// "EPA / WHO" for a source, for card captions
+export function sourceLabel(source: BandSource): string {
+  return STANDARD_LABELS[source.standard];
+}
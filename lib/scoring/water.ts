@@ -1,28 +1,104 @@
-export function computeWaterScore({
-  tds,
-  cl,
-  ph,
-}: {
-  tds: number;
-  cl: number;
-  ph: number;
-}): number {
-  let tdsScore = 100;
-  if (tds > 150 && tds <= 300) tdsScore = 90;
-  else if (tds > 300 && tds <= 450) tdsScore = 75;
-  else if (tds > 450 && tds <= 600) tdsScore = 55;
-  else if (tds > 600 && tds <= 800) tdsScore = 35;
-  else if (tds > 800) tdsScore = 15;
+import { scoreMetric, type MetricKey } from "@/lib/metrics";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+import {
+  explainCategory,
+  type CategoryBreakdown,
+} from "@/lib/scoring/breakdown";
 
-  let clScore = 100;
-  if (cl > 0.5 && cl <= 1.5) clScore = 80;
-  else if (cl > 1.5 && cl <= 3) clScore = 55;
-  else if (cl > 3) clScore = 25;
+type WaterInputs = {
+  tds?: number | null;
+  cl?: number | null;
+  ph?: number | null;
+  hardness?: number | null;
+  totalChlorine?: number | null;
+  nitrate?: number | null;
+  lead?: number | null;
+  iron?: number | null;
+  bacteria?: number | null; // presence: 1 detected, 0 not detected
+};
 
-  let phScore = 100;
-  if (ph < 6.5) phScore = 40;
-  else if (ph > 8.5 && ph <= 9.5) phScore = 80;
-  else if (ph > 9.5) phScore = 30;
+function subScore(
+  key: MetricKey,
+  v: number | null | undefined,
+  profile: ScoringProfile
+): number | null {
+  return v == null ? null : scoreMetric(key, v, profileBands(profile, key));
+}
+
+// Per-metric breakdown of the Water Score
+// Profiles before v1.9 weight only TDS / Cl / pH
+export function explainWaterScore(
+  {
+    tds,
+    cl,
+    ph,
+    hardness,
+    totalChlorine,
+    nitrate,
+    lead,
+    iron,
+    bacteria,
+  }: WaterInputs,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): CategoryBreakdown {
+  return explainCategory(
+    "water",
+    [
+      {
+        metric: "TDS",
+        value: tds,
+        subScore:
+          tds == null
+            ? null
+            : scoreMetric("TDS", tds, profileBands(profile, "TDS")),
+      },
+      {
+        metric: "Cl",
+        value: cl,
+        subScore:
+          cl == null ? null : scoreMetric("Cl", cl, profileBands(profile, "Cl")),
+      },
+      {
+        metric: "pH",
+        value: ph,
+        subScore:
+          ph == null ? null : scoreMetric("pH", ph, profileBands(profile, "pH")),
+      },
+      {
+        metric: "Hardness",
+        value: hardness,
+        subScore: subScore("Hardness", hardness, profile),
+      },
+      {
+        metric: "TotalChlorine",
+        value: totalChlorine,
+        subScore: subScore("TotalChlorine", totalChlorine, profile),
+      },
+      {
+        metric: "Nitrate",
+        value: nitrate,
+        subScore: subScore("Nitrate", nitrate, profile),
+      },
+      { metric: "Lead", value: lead, subScore: subScore("Lead", lead, profile) },
+      { metric: "Iron", value: iron, subScore: subScore("Iron", iron, profile) },
+      {
+        metric: "Bacteria",
+        value: bacteria,
+        subScore: subScore("Bacteria", bacteria, profile),
+      },
+    ],
+    profile
+  );
+}
 
-  return Math.round(tdsScore * 0.6 + clScore * 0.2 + phScore * 0.2);
+export function computeWaterScore(
+  inputs: WaterInputs,
+  profile: ScoringProfile = getProfile(currentProfileId())
+): number | null {
+  return explainWaterScore(inputs, profile).score;
 }
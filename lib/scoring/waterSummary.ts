@@ -1,34 +1,211 @@
 // lib/scoring/waterSummary.ts
 
-export function summarizeWater({ TDS, Cl, pH }: any): string {
-  const tds = TDS ?? 0;
-  const chlorine = Cl ?? 0;
-  const ph = pH ?? null;
+import {
+  METRICS,
+  bandIndex,
+  inIdealRange,
+  metricBand,
+  type MetricKey,
+  type WaterSource,
+} from "@/lib/metrics";
+import {
+  finding,
+  renderFindings,
+  type Finding,
+  type FindingKey,
+  type Severity,
+  type SummaryInputs,
+  type SummarySources,
+} from "@/lib/scoring/findings";
+import {
+  currentProfileId,
+  getProfile,
+  profileBands,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+
+// What we know about the supply, beyond the readings
+export type WaterContext = {
+  waterSource?: WaterSource | null;
+  yearBuilt?: number | null;
+};
+
+// Lead solder and pipe were banned in 1986
+const LEAD_ERA_CUTOFF = 1986;
+
+// Finding per band for the extended panel (index = band). Results
+// at or above a safety limit are left to the alert instead
+// (lib/scoring/safety.ts).
+const PANEL: [MetricKey, [FindingKey, Severity][]][] = [
+  [
+    "Hardness",
+    [
+      ["hardness.soft", "info"],
+      ["hardness.moderate", "info"],
+      ["hardness.hard", "low"],
+      ["hardness.veryHard", "moderate"],
+    ],
+  ],
+  [
+    "TotalChlorine",
+    [
+      ["totalCl.low", "info"],
+      ["totalCl.typical", "info"],
+      ["totalCl.elevated", "moderate"],
+      ["totalCl.high", "high"],
+    ],
+  ],
+  [
+    "Nitrate",
+    [
+      ["nitrate.low", "info"],
+      ["nitrate.moderate", "low"],
+      ["nitrate.elevated", "moderate"],
+    ],
+  ],
+  [
+    "Lead",
+    [
+      ["lead.minimal", "info"],
+      ["lead.detectable", "moderate"],
+      ["lead.elevated", "high"],
+    ],
+  ],
+  [
+    "Iron",
+    [
+      ["iron.low", "info"],
+      ["iron.acceptable", "info"],
+      ["iron.staining", "low"],
+      ["iron.high", "moderate"],
+    ],
+  ],
+  ["Bacteria", [["bacteria.none", "info"]]],
+];
+
+export function waterFindings(
+  inputs: SummaryInputs,
+  sources: SummarySources = {},
+  { waterSource, yearBuilt }: WaterContext = {},
+  profile: ScoringProfile = getProfile(currentProfileId())
+): Finding[] {
+  // Classify against the profile's bands, not the registry defaults
+  const index = (k: MetricKey, v: number) =>
+    bandIndex(k, v, profileBands(profile, k));
+  const ideal = (k: MetricKey, v: number) =>
+    inIdealRange(k, v, profileBands(profile, k));
+  const band = (k: MetricKey, v: number) =>
+    metricBand(k, v, profileBands(profile, k));
+
+  const { TDS, Cl, pH } = inputs;
+  const tds: number | null = TDS ?? null;
+  const clBand = Cl == null ? null : index("Cl", Cl);
+  const ph: number | null = pH ?? null;
+
+  // Supply context: what should be tested but was not
+  const context: Finding[] = [];
+  if (inputs.Lead == null && yearBuilt != null && yearBuilt < LEAD_ERA_CUTOFF) {
+    context.push(finding("water", "Lead", "moderate", "lead.screen", sources));
+  }
+  if (
+    waterSource === "well" &&
+    (inputs.Bacteria == null || inputs.Nitrate == null)
+  ) {
+    context.push(finding("water", "Bacteria", "low", "well.test", sources));
+  }
+
+  const panel: Finding[] = [];
+  let panelClear = true;
+  for (const [k, steps] of PANEL) {
+    const v = inputs[k];
+    if (v == null) continue;
+    const i = index(k, v);
+    if (i > 0) panelClear = false;
+    if (v >= (METRICS[k].safetyLimit?.value ?? Infinity)) continue;
+    const step = steps[i];
+    if (step) panel.push(finding("water", k, step[1], step[0], sources));
+  }
+
+  // Nothing measured
+  if (
+    tds === null &&
+    clBand === null &&
+    ph === null &&
+    panel.length === 0 &&
+    panelClear
+  ) {
+    return context.length > 0
+      ? [finding("water", null, "info", "water.notTested"), ...context]
+      : [finding("water", null, "info", "water.notTested")];
+  }
 
   // Perfect case
-  if (tds >= 150 && tds <= 300 && chlorine <= 0.5) {
-    return "Mineral-balanced; excellent for taste and hydration.";
+  if (
+    tds !== null &&
+    tds >= 150 &&
+    tds <= 300 &&
+    clBand === 0 &&
+    panelClear &&
+    context.length === 0
+  ) {
+    return [finding("water", null, "info", "water.excellent")];
   }
 
-  let parts: string[] = [];
+  const parts: Finding[] = [];
 
   // ---- TDS ----
-  if (tds < 150) parts.push("Very low TDS (lacks beneficial minerals)");
-  else if (tds <= 300) parts.push("Mineral-balanced");
-  else if (tds <= 450) parts.push("Moderate TDS (slightly mineral-forward)");
-  else if (tds <= 600) parts.push("Hard water (suboptimal)");
-  else parts.push("High TDS (taste and scaling impacted)");
+  if (tds !== null) {
+    if (tds < 150) parts.push(finding("water", "TDS", "low", "tds.veryLow", sources));
+    else if (tds <= 300) parts.push(finding("water", "TDS", "info", "tds.balanced", sources));
+    else if (tds <= 450) parts.push(finding("water", "TDS", "low", "tds.moderate", sources));
+    else if (tds <= 600) parts.push(finding("water", "TDS", "moderate", "tds.hard", sources));
+    else parts.push(finding("water", "TDS", "high", "tds.high", sources));
+  }
 
   // ---- Chlorine ----
-  if (chlorine > 1.5) parts.push("Chlorine elevated");
-  else if (chlorine > 0.8) parts.push("Chlorine moderate");
-  else parts.push("Chlorine low");
+  if (clBand !== null) {
+    if (clBand >= 2) parts.push(finding("water", "Cl", "moderate", "cl.elevated", sources));
+    else if (clBand === 1) parts.push(finding("water", "Cl", "low", "cl.moderate", sources));
+    else parts.push(finding("water", "Cl", "info", "cl.low", sources));
+  }
+
+  // ---- pH ---- (two-sided: "too acidic" / "slightly alkaline")
+  if (ph !== null && !ideal("pH", ph)) {
+    parts.push(
+      finding(
+        "water",
+        "pH",
+        index("pH", ph) >= 2 ? "moderate" : "low",
+        "ph.outside",
+        sources,
+        { band: band("pH", ph).label.toLowerCase() }
+      )
+    );
+  }
 
-  // ---- pH ----
-  if (ph !== null) {
-    if (ph < 6.5) parts.push("pH acidic");
-    else if (ph > 9) parts.push("pH alkaline");
+  // ---- Extended panel (hardness, chloramine, nitrate, lead, iron, coliform) ----
+  parts.push(...panel);
+
+  // pH within range is the only reading
+  if (parts.length === 0 && ph !== null) {
+    return [
+      finding("water", "pH", "info", "water.phOnlyInRange", sources),
+      ...context,
+    ];
+  }
+
+  // Only results past a safety limit; the alert carries them
+  if (parts.length === 0) {
+    return [finding("water", null, "info", "water.seeAlerts"), ...context];
   }
 
-  return parts.join("; ") + ".";
+  return [...parts, ...context];
+}
+
+export function summarizeWater(
+  inputs: SummaryInputs,
+  context: WaterContext = {},
+  profile?: ScoringProfile
+): string {
+  return renderFindings(waterFindings(inputs, {}, context, profile));
 }
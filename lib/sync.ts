@@ -0,0 +1,380 @@
+// lib/sync.ts
+// --------------------------------------------------------
+// Offline write queue and sync
+// --------------------------------------------------------
+// Workspace writes land in IndexedDB first
+// (lib/offlineStore.ts) and are replayed against Supabase
+// in the order they were made, whenever the browser is
+// online:
+//
+//   insert — rows carry a client-generated id, so replaying
+//     after a lost response is an upsert that ignores
+//     duplicates
+//   update — applied only while the server still holds the
+//     values the technician started from; otherwise the
+//     server's version is kept and the change is reported
+//     as a conflict
+//   delete — a row that is already gone counts as done
+//
+// A write the server rejects (a room deleted on another
+// device, a constraint) is dropped from the queue and
+// reported as a conflict, so one bad write can't hold back
+// the rest. Network failures leave the queue as it is.
+//
+// Browsers without IndexedDB have nowhere to queue: writes
+// go straight to Supabase and a failure is thrown to the
+// caller, as it would be without this module.
+// --------------------------------------------------------
+
+import { supabase } from "@/lib/supabaseClient";
+import {
+  deleteRow,
+  dequeue,
+  enqueue,
+  getRow,
+  getRows,
+  offlineSupported,
+  outbox,
+  putRows,
+  replaceRows,
+  type CachedRow,
+  type CachedTable,
+  type OutboxOp,
+} from "@/lib/offlineStore";
+
+export type SyncStatus = "offline" | "syncing" | "pending" | "synced";
+
+export type SyncConflict = {
+  op: OutboxOp;
+  reason: string;
+  server: CachedRow | null; // the version that was kept, if any
+};
+
+export type SyncState = {
+  status: SyncStatus;
+  pending: number; // queued writes
+  pendingIds: string[]; // rows with a queued write
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+};
+
+export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  offline: "Offline",
+  syncing: "Syncing…",
+  pending: "Changes pending",
+  synced: "All changes synced",
+};
+
+let state: SyncState = {
+  status: "synced",
+  pending: 0,
+  pendingIds: [],
+  conflicts: [],
+  lastSyncedAt: null,
+};
+let syncing = false;
+let running: Promise<void> | null = null;
+const listeners = new Set<(s: SyncState) => void>();
+
+function setState(patch: Partial<SyncState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l(state));
+}
+
+export function getSyncState(): SyncState {
+  return state;
+}
+
+// Calls `listener` now and on every change; returns the unsubscribe
+export function subscribeSync(listener: (s: SyncState) => void) {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function newClientId(): string {
+  return crypto.randomUUID();
+}
+
+function isOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine;
+}
+
+// PostgREST errors carry a code; a failed fetch does not
+function isNetworkError(error: { code?: string }): boolean {
+  return !error.code;
+}
+
+function opIds(op: OutboxOp): string[] {
+  return op.kind === "insert" ? op.rows.map((r) => r.id) : [op.id];
+}
+
+async function refreshPending() {
+  const ops = offlineSupported() ? await outbox() : [];
+  const pending = ops.length;
+  setState({
+    pending,
+    pendingIds: [...new Set(ops.flatMap(opIds))],
+    status: syncing
+      ? "syncing"
+      : !isOnline()
+      ? "offline"
+      : pending > 0
+      ? "pending"
+      : "synced",
+  });
+}
+
+/* ---------------- Queueing writes ---------------- */
+
+// No offline copy: apply the write now, or throw
+async function writeDirect(op: OutboxOp) {
+  const { error } =
+    op.kind === "insert"
+      ? await supabase.from(op.table).insert(op.rows)
+      : op.kind === "update"
+      ? await supabase.from(op.table).update(op.patch).eq("id", op.id)
+      : await supabase.from(op.table).delete().eq("id", op.id);
+  if (error) throw new Error(error.message);
+}
+
+async function queue(op: OutboxOp) {
+  if (!offlineSupported()) return writeDirect(op);
+  await enqueue(op);
+  await refreshPending();
+  void syncNow();
+}
+
+export async function queueInsert(table: CachedTable, rows: CachedRow[]) {
+  if (rows.length === 0) return;
+  if (offlineSupported()) await putRows(table, rows);
+  await queue({ kind: "insert", table, rows, queued_at: new Date().toISOString() });
+}
+
+export async function queueUpdate(
+  table: CachedTable,
+  id: string,
+  patch: Record<string, unknown>,
+  before: Record<string, unknown>
+) {
+  const cached = offlineSupported() ? await getRow(table, id) : null;
+  if (cached) await putRows(table, [{ ...cached, ...patch }]);
+  await queue({
+    kind: "update",
+    table,
+    id,
+    patch,
+    before,
+    queued_at: new Date().toISOString(),
+  });
+}
+
+export async function queueDelete(table: CachedTable, id: string) {
+  if (offlineSupported()) await deleteRow(table, id);
+  await queue({ kind: "delete", table, id, queued_at: new Date().toISOString() });
+}
+
+/* ---------------- Replay ---------------- */
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// "done", "retry" (network; keep the op queued) or the conflict to report
+async function replay(op: OutboxOp): Promise<"done" | "retry" | SyncConflict> {
+  if (op.kind === "insert") {
+    const { error } = await supabase
+      .from(op.table)
+      .upsert(op.rows, { onConflict: "id", ignoreDuplicates: true });
+    if (!error) return "done";
+    if (isNetworkError(error)) return "retry";
+
+    // The server never accepted these rows
+    for (const row of op.rows) await deleteRow(op.table, row.id);
+    return { op, reason: error.message, server: null };
+  }
+
+  if (op.kind === "delete") {
+    const { error } = await supabase.from(op.table).delete().eq("id", op.id);
+    if (!error) return "done";
+    if (isNetworkError(error)) return "retry";
+
+    // Still referenced, e.g. a room with readings from another device
+    const { data } = await supabase
+      .from(op.table)
+      .select("*")
+      .eq("id", op.id)
+      .maybeSingle();
+    if (data) await putRows(op.table, [data as CachedRow]);
+    return { op, reason: error.message, server: (data as CachedRow) ?? null };
+  }
+
+  const { data, error } = await supabase
+    .from(op.table)
+    .select("*")
+    .eq("id", op.id)
+    .maybeSingle();
+  if (error) {
+    if (isNetworkError(error)) return "retry";
+    return { op, reason: error.message, server: null };
+  }
+  if (!data) {
+    await deleteRow(op.table, op.id);
+    return { op, reason: "Deleted on another device", server: null };
+  }
+
+  const server = data as CachedRow;
+  const changed = Object.keys(op.patch).filter(
+    (k) => !same(server[k], op.before[k]) && !same(server[k], op.patch[k])
+  );
+  if (changed.length > 0) {
+    await putRows(op.table, [server]);
+    return {
+      op,
+      reason: `Changed on another device (${changed.join(", ")})`,
+      server,
+    };
+  }
+
+  const { error: updateError } = await supabase
+    .from(op.table)
+    .update(op.patch)
+    .eq("id", op.id);
+  if (!updateError) return "done";
+  if (isNetworkError(updateError)) return "retry";
+  await putRows(op.table, [server]);
+  return { op, reason: updateError.message, server };
+}
+
+async function flush() {
+  // Nothing is ever queued without IndexedDB (see writeDirect)
+  if (!offlineSupported() || !isOnline()) {
+    await refreshPending();
+    return;
+  }
+
+  syncing = true;
+  await refreshPending();
+
+  const conflicts: SyncConflict[] = [];
+  let complete = true;
+  try {
+    for (const op of await outbox()) {
+      let outcome: Awaited<ReturnType<typeof replay>>;
+      try {
+        outcome = await replay(op);
+      } catch (err) {
+        console.error("Sync error:", err);
+        outcome = "retry";
+      }
+      if (outcome === "retry") {
+        complete = false;
+        break;
+      }
+      if (outcome !== "done") conflicts.push(outcome);
+      await dequeue(op.seq!);
+    }
+  } finally {
+    syncing = false;
+    setState({
+      conflicts: [...state.conflicts, ...conflicts],
+      ...(complete ? { lastSyncedAt: new Date().toISOString() } : {}),
+    });
+    await refreshPending();
+  }
+}
+
+// Replay the queue; concurrent calls share one run
+export function syncNow(): Promise<void> {
+  if (!running) {
+    running = flush().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+export function dismissConflicts() {
+  setState({ conflicts: [] });
+}
+
+let started = false;
+
+// A flaky connection may never fire "online"; retry queued writes this often
+const RETRY_MS = 30_000;
+
+// Sync on load and whenever the connection comes back
+export function startSync() {
+  if (started || typeof window === "undefined") return;
+  started = true;
+  window.addEventListener("online", () => void syncNow());
+  window.addEventListener("offline", () => void refreshPending());
+  window.setInterval(() => {
+    if (state.pending > 0) void syncNow();
+  }, RETRY_MS);
+  void syncNow();
+}
+
+/* ---------------- Reading through the cache ---------------- */
+
+// Queued writes the server copy doesn't reflect yet
+async function withPending(
+  table: CachedTable,
+  rows: CachedRow[]
+): Promise<CachedRow[]> {
+  const ops = (await outbox()).filter((op) => op.table === table);
+  let out = rows;
+  for (const op of ops) {
+    if (op.kind === "insert") {
+      const ids = new Set(op.rows.map((r) => r.id));
+      out = [...out.filter((r) => !ids.has(r.id)), ...op.rows];
+    } else if (op.kind === "update") {
+      out = out.map((r) => (r.id === op.id ? { ...r, ...op.patch } : r));
+    } else {
+      out = out.filter((r) => r.id !== op.id);
+    }
+  }
+  return out;
+}
+
+type QueryResult = { data: unknown; error: unknown };
+
+/**
+ * Rows from Supabase when reachable (refreshing the cache),
+ * otherwise the cached copy; queued writes applied either way.
+ * Without `propertyId` the rows are the property list.
+ * Callers sort the result.
+ */
+export async function workspaceRows<T>(
+  table: CachedTable,
+  propertyId: string | undefined,
+  query: PromiseLike<QueryResult>
+): Promise<T[]> {
+  let fresh: CachedRow[] | null = null;
+  if (isOnline()) {
+    try {
+      const { data, error } = await query;
+      if (error) console.error(error);
+      // .single() queries return the row itself
+      else fresh = (Array.isArray(data) ? data : data ? [data] : []) as CachedRow[];
+    } catch (err) {
+      console.error(err);
+    }
+  }
+  if (!offlineSupported()) return (fresh ?? []) as unknown as T[];
+
+  if (fresh && propertyId && table !== "property") {
+    const keep = new Set(getSyncState().pendingIds);
+    for (const op of await outbox()) opIds(op).forEach((id) => keep.add(id));
+    await replaceRows(table, propertyId, fresh, keep);
+  } else if (fresh) {
+    await putRows(table, fresh);
+  }
+
+  const rows =
+    fresh ??
+    (table === "property" && propertyId
+      ? [await getRow(table, propertyId)].filter((r): r is CachedRow => !!r)
+      : await getRows(table, propertyId));
+  return (await withPending(table, rows)) as unknown as T[];
+}
@@ -0,0 +1,196 @@
+// lib/units.ts
+// --------------------------------------------------------
+// SaSo Unit Conversion
+// --------------------------------------------------------
+// Every metric is stored and scored in the canonical unit
+// from the registry (lib/metrics.ts). Instruments report in
+// other units; technicians enter the native value and we
+// keep it as raw_value / raw_unit next to the canonical
+// `value` / `unit` on the measurement row.
+//
+// Clients see values in their preferred unit system.
+// --------------------------------------------------------
+
+import {
+  METRICS,
+  PRESENCE_RESULT_LABELS,
+  presenceResult,
+  type MetricKey,
+} from "@/lib/metrics";
+
+export type UnitDef = {
+  unit: string;
+  toCanonical: (v: number) => number;
+  fromCanonical: (v: number) => number;
+  note?: string;
+};
+
+export type UnitSystem = "us" | "metric";
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  us: "US (°F, mG)",
+  metric: "Metric (°C, µT)",
+};
+
+const identity = (unit: string): UnitDef => ({
+  unit,
+  toCanonical: (v) => v,
+  fromCanonical: (v) => v,
+});
+
+const scaled = (unit: string, factor: number): UnitDef => ({
+  unit,
+  toCanonical: (v) => v * factor,
+  fromCanonical: (v) => v / factor,
+});
+
+// Free-space impedance (Ω): S = E² / Z₀
+const Z0 = 376.73;
+
+// Effective aperture of an isotropic antenna at 2.45 GHz (m²)
+const WIFI_APERTURE = (299_792_458 / 2.45e9) ** 2 / (4 * Math.PI);
+
+// Power density, average or peak
+const RF_UNITS: UnitDef[] = [
+  identity("mW/m²"),
+  scaled("µW/m²", 0.001),
+  scaled("µW/cm²", 10),
+  scaled("W/m²", 1000),
+  {
+    unit: "V/m",
+    toCanonical: (e) => ((e * e) / Z0) * 1000,
+    fromCanonical: (s) => Math.sqrt((s / 1000) * Z0),
+    note: "Far-field plane wave (S = E²/377)",
+  },
+  {
+    unit: "dBm",
+    toCanonical: (dbm) => 10 ** (dbm / 10) / WIFI_APERTURE,
+    fromCanonical: (s) => 10 * Math.log10(s * WIFI_APERTURE),
+    note: "Isotropic antenna at 2.45 GHz",
+  },
+];
+
+// Alternative units per metric; the canonical unit is always first
+export const METRIC_UNITS: Record<MetricKey, UnitDef[]> = {
+  CO2: [identity("ppm")],
+  PM25: [identity("µg/m³")],
+  PM10: [identity("µg/m³")],
+  VOCs: [identity("ppb")],
+  Humidity: [identity("%")],
+  Temp: [
+    identity("°F"),
+    {
+      unit: "°C",
+      toCanonical: (c) => (c * 9) / 5 + 32,
+      fromCanonical: (f) => ((f - 32) * 5) / 9,
+    },
+  ],
+  // Gas mass ↔ mixing ratio at 25 °C, 1 atm
+  CO: [identity("ppm"), scaled("mg/m³", 1 / 1.145)],
+  NO2: [identity("ppb"), scaled("µg/m³", 1 / 1.88)],
+  HCHO: [identity("ppb"), scaled("µg/m³", 1 / 1.23)],
+  O3: [identity("ppb"), scaled("µg/m³", 1 / 1.96)],
+  Radon: [identity("pCi/L"), scaled("Bq/m³", 1 / 37)],
+  TDS: [identity("ppm"), scaled("mg/L", 1)],
+  Cl: [identity("ppm"), scaled("mg/L", 1)],
+  pH: [identity("")],
+  Hardness: [identity("mg/L"), scaled("ppm", 1), scaled("gpg", 17.118)],
+  TotalChlorine: [identity("ppm"), scaled("mg/L", 1)],
+  Nitrate: [identity("mg/L"), scaled("ppm", 1)],
+  Lead: [identity("ppb"), scaled("µg/L", 1), scaled("mg/L", 1000)],
+  Iron: [identity("mg/L"), scaled("ppm", 1)],
+  Bacteria: [identity("")],
+  MagField: [identity("mG"), scaled("µT", 10), scaled("nT", 0.01)],
+  ElectricField: [identity("V/m")],
+  RF: RF_UNITS,
+  RFPeak: RF_UNITS,
+  DirtyElectricity: [identity("GS")],
+  BodyVoltage: [identity("mV"), scaled("V", 1000)],
+  Lux: [identity("lux"), scaled("fc", 10.764)],
+  Flicker: [identity("%")],
+  CCT: [identity("K")],
+  BlueLight: [identity("mEDI lux")],
+  NoiseLeq: [identity("dBA")],
+  NoiseLmax: [identity("dBA")],
+  NoiseNight: [identity("dBA")],
+};
+
+// Units the client sees, per unit system (canonical if not listed)
+const DISPLAY_UNITS: Record<UnitSystem, Partial<Record<MetricKey, string>>> = {
+  us: {},
+  metric: { Temp: "°C", MagField: "µT", Radon: "Bq/m³" },
+};
+
+export function metricUnits(key: MetricKey): UnitDef[] {
+  return METRIC_UNITS[key];
+}
+
+export function canonicalUnit(key: MetricKey): string {
+  return METRICS[key].unit;
+}
+
+function findUnit(key: MetricKey, unit: string | null | undefined) {
+  return METRIC_UNITS[key].find((u) => u.unit === unit);
+}
+
+export function isSupportedUnit(key: MetricKey, unit: string): boolean {
+  return findUnit(key, unit) !== undefined;
+}
+
+// Native instrument value → canonical value. Unknown units are
+// assumed to already be canonical (legacy rows).
+export function toCanonical(
+  key: MetricKey,
+  value: number,
+  unit: string | null | undefined
+): number {
+  const def = findUnit(key, unit);
+  return def ? def.toCanonical(value) : value;
+}
+
+export function fromCanonical(
+  key: MetricKey,
+  value: number,
+  unit: string
+): number {
+  const def = findUnit(key, unit);
+  return def ? def.fromCanonical(value) : value;
+}
+
+export function displayUnit(
+  key: MetricKey,
+  system: UnitSystem | null | undefined
+): string {
+  return DISPLAY_UNITS[system ?? "us"][key] ?? canonicalUnit(key);
+}
+
+// Canonical value → { value, unit } in the client's unit system
+export function toDisplay(
+  key: MetricKey,
+  value: number,
+  system: UnitSystem | null | undefined
+): { value: number; unit: string } {
+  const unit = displayUnit(key, system);
+  return { value: fromCanonical(key, value, unit), unit };
+}
+
+export function formatMetric(
+  key: MetricKey,
+  value: number | null | undefined,
+  system: UnitSystem | null | undefined,
+  digits = 1,
+  intlTag?: string // Intl locale tag; plain toFixed() when omitted
+): string {
+  if (value == null) return "—";
+  if (METRICS[key].resultType === "presence") {
+    return PRESENCE_RESULT_LABELS[presenceResult(value)];
+  }
+  const d = toDisplay(key, value, system);
+  const n = intlTag
+    ? new Intl.NumberFormat(intlTag, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).format(d.value)
+    : d.value.toFixed(digits);
+  return `${n} ${d.unit}`.trim();
+}
@@ -0,0 +1,65 @@
+// public/sw.js
+// --------------------------------------------------------
+// Offline shell for the technician workspace
+// --------------------------------------------------------
+// Registered by components/OfflineSupport.tsx. Keeps the
+// pages and build assets already visited so the workspace
+// opens without a connection; data comes from IndexedDB
+// (lib/offlineStore.ts), never from this cache. Supabase
+// is another origin and is not intercepted.
+// --------------------------------------------------------
+
+const CACHE = "saso-shell-v1";
+const SHELL = ["/technician", "/manifest.webmanifest"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(CACHE)).put(request, response.clone());
+  return response;
+}
+
+// Pages and route data: fresh when online, last copy otherwise
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(CACHE)).put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached =
+      (await caches.match(request)) ??
+      (request.mode === "navigate" ? await caches.match("/technician") : undefined);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Build assets are content-hashed, so a cached copy never goes stale
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});